@@ -78,6 +78,9 @@ class LspaceMCPServer {
           // Load the repository configuration (now it should find config.local.json in CWD)
           await this.repositoryManager.loadConfiguration();
           
+          // Apply edits to config.local.json without restarting the server
+          this.repositoryManager.watchConfiguration();
+          
           // Initialize other services
           const apiKey = process.env.OPENAI_API_KEY || '';
           if (!apiKey) {
@@ -1066,6 +1069,11 @@ class LspaceMCPServer {
       }
     });
 
+    // The client is gone; stop watching the configuration
+    rl.on('close', () => {
+      this.repositoryManager?.unwatchConfiguration();
+    });
+
     // Keep the process alive
     process.stdin.resume();
   }
@@ -0,0 +1,341 @@
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Repository } from '../core/repository';
+import { GitCredential, GitRepoConfig } from '../core/repositoryManager';
+import { redactError } from '../core/redact';
+import { appendTrailers } from '../core/commitTrailers';
+import { SyncConflictError } from '../core/errors';
+
+const execFileAsync = promisify(execFile);
+
+export type GitRemoteProtocol = 'https' | 'http' | 'ssh' | 'file';
+
+export type SyncOutcome = 'up-to-date' | 'fast-forwarded' | 'merged' | 'local-ahead';
+
+export interface SyncResult {
+  outcome: SyncOutcome;
+  head: string; // Local branch head after the sync
+  ahead: number; // Local commits the remote does not have yet (to be pushed)
+  behind: number; // Remote commits brought into the local branch
+}
+
+/**
+ * Whether a remote answered and has the configured branch.
+ */
+export interface RemoteCheckResult {
+  reachable: boolean;
+  branchExists: boolean;
+  error: string | null; // Redacted git error when the remote could not be reached
+}
+
+// Remote checks are diagnostics; they should fail rather than hang on an unresponsive server
+export const REMOTE_CHECK_TIMEOUT_MS = 15000;
+
+type GitRunner = (args: string[]) => Promise<{ stdout: string; stderr: string }>;
+
+/**
+ * The protocol of a remote URL: `https://`, `http://`, `ssh://`, scp-like `git@host:path`
+ * or `file://`.
+ * @throws Error if the URL is not a supported remote URL or embeds a password
+ */
+export function parseRemoteUrl(url: string): GitRemoteProtocol {
+  if (/^[\w.-]+@[\w.-]+:(?!\/\/)/.test(url)) {
+    return 'ssh'; // scp-like syntax, e.g. git@gitea.example.com:team/kb.git
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid remote URL: ${url}`);
+  }
+  const protocol = parsed.protocol.replace(/:$/, '');
+  if (protocol !== 'https' && protocol !== 'http' && protocol !== 'ssh' && protocol !== 'file') {
+    throw new Error(`Unsupported remote URL protocol "${protocol}": use https, http, ssh or file.`);
+  }
+  if (parsed.password) {
+    // Secrets belong in the credentials section, not in a URL that is saved and logged
+    throw new Error('Remote URLs must not contain a password or token; use a credential alias instead.');
+  }
+  return protocol;
+}
+
+/**
+ * Environment variables that authenticate git commands against a remote. Secrets go through
+ * the environment so they never appear in the remote URL, the command line or git's config.
+ * Prompts are disabled so a missing credential fails instead of hanging.
+ */
+export function gitAuthEnvironment(url: string, credential?: GitCredential): Record<string, string> {
+  const env: Record<string, string> = { GIT_TERMINAL_PROMPT: '0' };
+  const protocol = parseRemoteUrl(url);
+  if (!credential || protocol === 'file') {
+    return env;
+  }
+
+  if (protocol === 'ssh') {
+    if (!credential.ssh_key_path) {
+      throw new Error(`Credential "${credential.alias}" has no ssh_key_path for SSH remote ${url}.`);
+    }
+    const sshArgs = ['ssh', '-i', quoteShellArg(path.resolve(credential.ssh_key_path)), '-o', 'IdentitiesOnly=yes', '-o', 'BatchMode=yes'];
+    if (credential.known_hosts_path) {
+      sshArgs.push('-o', `UserKnownHostsFile=${quoteShellArg(path.resolve(credential.known_hosts_path))}`, '-o', 'StrictHostKeyChecking=yes');
+    } else {
+      sshArgs.push('-o', 'StrictHostKeyChecking=accept-new');
+    }
+    env.GIT_SSH_COMMAND = sshArgs.join(' ');
+    return env;
+  }
+
+  if (!credential.token) {
+    throw new Error(`Credential "${credential.alias}" has no token for HTTPS remote ${url}.`);
+  }
+  const basic = Buffer.from(`${credential.username || 'git'}:${credential.token}`).toString('base64');
+  env.GIT_CONFIG_COUNT = '1';
+  env.GIT_CONFIG_KEY_0 = 'http.extraHeader';
+  env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${basic}`;
+  return env;
+}
+
+/**
+ * Run a git command without blocking the event loop. Failures are rethrown with the given
+ * secrets (and anything that looks like a credential) redacted from the message and output.
+ * With `timeoutMs` the command is killed once it runs longer.
+ */
+export async function runGit(
+  args: string[],
+  options: { cwd?: string; env?: Record<string, string>; secrets?: Array<string | undefined>; timeoutMs?: number } = {}
+): Promise<{ stdout: string; stderr: string }> {
+  try {
+    return await execFileAsync('git', args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      maxBuffer: 16 * 1024 * 1024,
+      timeout: options.timeoutMs,
+    });
+  } catch (error: any) {
+    throw redactError(error, options.secrets);
+  }
+}
+
+/**
+ * Ask a remote for `branch` with `git ls-remote`, which needs no local clone. Failures are
+ * reported in the result rather than thrown.
+ */
+export async function checkRemoteBranch(url: string, branch: string, env: Record<string, string>, secrets: Array<string | undefined>): Promise<RemoteCheckResult> {
+  try {
+    const { stdout } = await runGit(['ls-remote', '--heads', url, branch], { env, secrets, timeoutMs: REMOTE_CHECK_TIMEOUT_MS });
+    return { reachable: true, branchExists: stdout.trim() !== '', error: null };
+  } catch (error: any) {
+    const message = error.killed ? `No answer from ${url} within ${REMOTE_CHECK_TIMEOUT_MS / 1000}s` : (error.stderr?.toString().trim() || error.message);
+    return { reachable: false, branchExists: false, error: message };
+  }
+}
+
+/**
+ * Whether the clone at `localPath` has truncated history.
+ */
+export function isShallowClone(localPath: string): boolean {
+  return fs.existsSync(path.join(localPath, '.git', 'shallow'));
+}
+
+/**
+ * `git fetch` arguments that deepen a shallow clone of `branch` by a number of commits, or
+ * fetch its full history.
+ */
+export function deepenFetchArgs(branch: string, deepenBy: number | 'full'): string[] {
+  return deepenBy === 'full'
+    ? ['fetch', '--unshallow', '--tags', 'origin', branch]
+    : ['fetch', `--deepen=${deepenBy}`, 'origin', branch];
+}
+
+/**
+ * Bring a fetched origin/<branch> into the local branch without discarding anything:
+ * fast-forward when possible, otherwise merge. Merging rather than rebasing keeps the SHAs of
+ * local commits stable, since trailers and the timeline refer to them. A merge that fails is
+ * aborted, leaving the branch as it was, and reported as a SyncConflictError.
+ */
+export async function reconcileWithRemote(localPath: string, branch: string, git: GitRunner): Promise<SyncResult> {
+  const remoteRef = `origin/${branch}`;
+  await git(['checkout', branch]);
+
+  const hasMergeBase = () => git(['merge-base', 'HEAD', remoteRef]).then(() => true, () => false);
+  while (!(await hasMergeBase()) && isShallowClone(localPath)) {
+    await git(deepenFetchArgs(branch, Repository.DEEPEN_STEP));
+  }
+
+  const countCommits = async () => {
+    const { stdout } = await git(['rev-list', '--left-right', '--count', `HEAD...${remoteRef}`]);
+    const [ahead, behind] = stdout.trim().split(/\s+/).map(Number);
+    return { ahead, behind };
+  };
+  const head = async () => (await git(['rev-parse', 'HEAD'])).stdout.trim();
+
+  const before = await countCommits();
+  if (before.behind === 0) {
+    return { outcome: before.ahead > 0 ? 'local-ahead' : 'up-to-date', head: await head(), ahead: before.ahead, behind: 0 };
+  }
+  if (before.ahead === 0) {
+    await git(['merge', '--ff-only', remoteRef]);
+    return { outcome: 'fast-forwarded', head: await head(), ahead: 0, behind: before.behind };
+  }
+
+  try {
+    const message = appendTrailers(`Merge ${remoteRef} into ${branch}`, { operation: 'sync' });
+    await git(['-c', 'user.name=Lspace', '-c', 'user.email=lspace@example.com', 'merge', '--no-ff', '-m', message, remoteRef]);
+  } catch (error: any) {
+    const { stdout } = await git(['diff', '--name-only', '--diff-filter=U']).catch(() => ({ stdout: '' }));
+    await git(['merge', '--abort']).catch(() => undefined);
+    const conflictingFiles = stdout.split('\n').map(line => line.trim()).filter(Boolean);
+    const reason = conflictingFiles.length > 0 ? undefined : (error.stderr || error.message || '').toString().trim().split('\n')[0];
+    throw new SyncConflictError(branch, conflictingFiles, reason);
+  }
+  const after = await countCommits();
+  return { outcome: 'merged', head: await head(), ahead: after.ahead, behind: before.behind };
+}
+
+function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Adapter for repositories on any git server (Gitea, GitLab, a plain SSH host or a local bare
+ * repository), driven through the git CLI so SSH remotes work.
+ */
+export class GitAdapter {
+  private baseClonePath: string;
+
+  constructor(baseClonePath: string = '.lspace_clones') {
+    this.baseClonePath = path.resolve(process.cwd(), baseClonePath);
+    if (!fs.existsSync(this.baseClonePath)) {
+      fs.mkdirSync(this.baseClonePath, { recursive: true });
+    }
+  }
+
+  getLocalPath(repoConfig: GitRepoConfig): string {
+    return path.join(this.baseClonePath, 'git', repoConfig.id);
+  }
+
+  // Commits to clone, or undefined for the full history (the default for generic remotes)
+  private getCloneDepth(repoConfig: GitRepoConfig): number | undefined {
+    return repoConfig.full_history ? undefined : repoConfig.clone_depth;
+  }
+
+  /**
+   * Clone the repository, or fetch into an existing clone and bring in the remote branch.
+   * A clone whose local commits conflict with the remote is kept as it is.
+   */
+  async initialize(repoConfig: GitRepoConfig, credential?: GitCredential): Promise<Repository> {
+    const localPath = this.getLocalPath(repoConfig);
+    const env = gitAuthEnvironment(repoConfig.url, credential);
+
+    try {
+      if (fs.existsSync(path.join(localPath, '.git'))) {
+        console.log(`GitAdapter: Repository ${repoConfig.name} already cloned at ${localPath}. Fetching latest changes...`);
+        await this.git(['remote', 'set-url', 'origin', repoConfig.url], localPath, env, credential);
+        if (repoConfig.full_history && isShallowClone(localPath)) {
+          console.log(`GitAdapter: Fetching the full history of shallow clone ${repoConfig.name}...`);
+          await this.git(deepenFetchArgs(repoConfig.branch, 'full'), localPath, env, credential);
+        }
+        try {
+          await this.updateFromRemote(localPath, repoConfig.branch, env, credential);
+        } catch (error: any) {
+          console.warn(`GitAdapter: Could not bring origin/${repoConfig.branch} into ${repoConfig.name}; keeping the local branch. ${error.message}`);
+        }
+      } else {
+        console.log(`GitAdapter: Cloning ${repoConfig.url} (branch ${repoConfig.branch}) to ${localPath}...`);
+        const { stdout } = await this.git(['ls-remote', '--heads', repoConfig.url, repoConfig.branch], undefined, env, credential);
+        if (!stdout.trim()) {
+          throw new Error(`Branch "${repoConfig.branch}" not found on remote ${repoConfig.url}.`);
+        }
+        fs.mkdirSync(path.dirname(localPath), { recursive: true });
+        const depth = this.getCloneDepth(repoConfig);
+        await this.git(['clone', '--branch', repoConfig.branch, ...(depth ? ['--depth', String(depth)] : []), repoConfig.url, localPath], undefined, env, credential);
+        console.log(`GitAdapter: Cloned ${repoConfig.name} successfully.`);
+      }
+      return new Repository(localPath);
+    } catch (error: any) {
+      console.error(`GitAdapter: Failed to initialize repository ${repoConfig.name}: ${error.message}`);
+      if (error.stderr) {
+        console.error(`GitAdapter: Git stderr: ${error.stderr.toString()}`);
+      }
+      throw error;
+    }
+  }
+
+  async push(repoConfig: GitRepoConfig, credential?: GitCredential): Promise<void> {
+    const localPath = this.getLocalPath(repoConfig);
+    const env = gitAuthEnvironment(repoConfig.url, credential);
+
+    try {
+      console.log(`GitAdapter: Pushing ${localPath} to ${repoConfig.url} branch ${repoConfig.branch}...`);
+      await this.git(['push', 'origin', `HEAD:refs/heads/${repoConfig.branch}`], localPath, env, credential);
+      console.log(`GitAdapter: Successfully pushed ${repoConfig.name} to branch ${repoConfig.branch}.`);
+    } catch (error: any) {
+      console.error(`GitAdapter: Failed to push ${repoConfig.name} to branch ${repoConfig.branch}: ${error.message}`);
+      if (error.stderr) {
+        console.error(`GitAdapter: Git stderr: ${error.stderr.toString()}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the configured branch and bring it into the local branch: fast-forward, or merge
+   * when local commits have not been pushed yet.
+   * @returns null when there is no local clone to sync
+   * @throws SyncConflictError if the local commits conflict with the remote
+   */
+  async sync(repoConfig: GitRepoConfig, credential?: GitCredential): Promise<SyncResult | null> {
+    const localPath = this.getLocalPath(repoConfig);
+    if (!fs.existsSync(path.join(localPath, '.git'))) {
+      console.log(`GitAdapter: Local repository not found at ${localPath}. Cannot sync. Consider initializing first.`);
+      return null;
+    }
+    const env = gitAuthEnvironment(repoConfig.url, credential);
+
+    try {
+      console.log(`GitAdapter: Syncing ${localPath} with ${repoConfig.url} branch ${repoConfig.branch}...`);
+      await this.git(['remote', 'set-url', 'origin', repoConfig.url], localPath, env, credential);
+      const result = await this.updateFromRemote(localPath, repoConfig.branch, env, credential);
+      console.log(`GitAdapter: Synced ${repoConfig.name} with ${repoConfig.branch}: ${result.outcome}.`);
+      return result;
+    } catch (error: any) {
+      console.error(`GitAdapter: Failed to sync ${repoConfig.name} branch ${repoConfig.branch}: ${error.message}`);
+      if (error.stderr) {
+        console.error(`GitAdapter: Git stderr: ${error.stderr.toString()}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check that the remote answers with the given credential and has the configured branch.
+   */
+  async checkRemote(repoConfig: GitRepoConfig, credential?: GitCredential): Promise<RemoteCheckResult> {
+    return checkRemoteBranch(repoConfig.url, repoConfig.branch, gitAuthEnvironment(repoConfig.url, credential), [credential?.token]);
+  }
+
+  /**
+   * Fetch more history into a shallow clone. Only objects and the shallow boundary change;
+   * the working tree and branches are left alone.
+   */
+  async deepen(repoConfig: GitRepoConfig, credential: GitCredential | undefined, deepenBy: number | 'full'): Promise<void> {
+    const localPath = this.getLocalPath(repoConfig);
+    if (!isShallowClone(localPath)) {
+      return;
+    }
+    const env = gitAuthEnvironment(repoConfig.url, credential);
+    console.log(`GitAdapter: Deepening ${repoConfig.name} by ${deepenBy === 'full' ? 'its full history' : `${deepenBy} commits`}...`);
+    await this.git(deepenFetchArgs(repoConfig.branch, deepenBy), localPath, env, credential);
+  }
+
+  private async updateFromRemote(localPath: string, branch: string, env: Record<string, string>, credential?: GitCredential): Promise<SyncResult> {
+    await this.git(['fetch', 'origin', branch, '--tags'], localPath, env, credential);
+    return reconcileWithRemote(localPath, branch, args => this.git(args, localPath, env, credential));
+  }
+
+  private git(args: string[], cwd: string | undefined, env: Record<string, string>, credential?: GitCredential): Promise<{ stdout: string; stderr: string }> {
+    return runGit(args, { cwd, env, secrets: [credential?.token] });
+  }
+}
@@ -1,7 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 // import * as git from 'isomorphic-git'; // Changed to dynamic import
-import { Repository, CommitResult, RepositoryStatus, FileStatus, FileInfo, CommitOptions } from '../core/repository';
+import { Repository, CommitResult, FileInfo, CommitOptions } from '../core/repository';
+import { appendTrailers } from '../core/commitTrailers';
 
 const gitPromise = import('isomorphic-git');
 
@@ -44,7 +45,6 @@ export class LocalGitAdapter {
  * LocalRepository implementation for repositories on the local filesystem
  */
 class LocalRepository extends Repository {
-  private readonly fs = fs;
   // private readonly git = git; // Replaced by static loaded module
   private static isoGit: any; // To store the resolved git module
 
@@ -114,25 +114,6 @@ class LocalRepository extends Repository {
     }
   }
 
-  /**
-   * Move or rename a file in the repository
-   * @param oldPath Original file path
-   * @param newPath New file path
-   */
-  async moveFile(oldPath: string, newPath: string): Promise<void> {
-    const oldFullPath = path.join(this.path, oldPath);
-    const newFullPath = path.join(this.path, newPath);
-    
-    // Ensure the target directory exists
-    const newDirectory = path.dirname(newFullPath);
-    if (!fs.existsSync(newDirectory)) {
-      fs.mkdirSync(newDirectory, { recursive: true });
-    }
-    
-    // Move the file
-    fs.renameSync(oldFullPath, newFullPath);
-  }
-
   /**
    * Commit changes to the repository
    * @param message Commit message
@@ -169,7 +150,7 @@ class LocalRepository extends Repository {
     const sha = await LocalRepository.isoGit.commit({
       fs: this.fs,
       dir: this.path,
-      message: options.message, // Use message from options
+      message: appendTrailers(options.message, options.trailers), // Use message from options
       author: author // Use provided or default author
     });
     
@@ -180,47 +161,6 @@ class LocalRepository extends Repository {
     };
   }
 
-  /**
-   * Get the status of the repository
-   * @returns Repository status
-   */
-  async getStatus(): Promise<RepositoryStatus> {
-    await LocalRepository.ensureGitModuleLoaded(); // Ensure loaded
-    // Get the current branch
-    let branch = 'main';
-    try {
-      const currentBranch = await LocalRepository.isoGit.currentBranch({ fs: this.fs, dir: this.path });
-      if (currentBranch) branch = currentBranch;
-    } catch (error) {
-      // Likely an empty repository, use default branch
-    }
-    
-    // Get the status matrix
-    const statusMatrix = await LocalRepository.isoGit.statusMatrix({
-      fs: this.fs,
-      dir: this.path,
-      filter: (f: string) => f !== '.git' // Exclude .git directory
-    });
-    
-    // Convert to FileStatus objects
-    // After a commit, files that were modified show up differently in the status matrix
-    // We need to handle both pre-commit and post-commit status
-    const files: FileStatus[] = (statusMatrix as [string, number, number, number][]).map(([filepath, headStatus, workdirStatus, stageStatus]) => {
-      return {
-        path: filepath,
-        staged: headStatus === stageStatus, // They're equal after a commit
-        modified: headStatus !== workdirStatus,
-        added: headStatus === 0 && workdirStatus !== 0,
-        deleted: workdirStatus === 0
-      };
-    });
-    
-    return {
-      branch,
-      files
-    };
-  }
-
   /**
    * List all files in the repository, optionally scoped to a subdirectory.
    * @param directoryPath The path within the repository to list files from. Defaults to the repository root.
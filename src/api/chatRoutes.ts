@@ -4,6 +4,7 @@ import { ChatAssistantService } from '../services/chatAssistantService';
 import { LLMService } from '../orchestrator/llmService';
 import { Repository } from '../core/repository'; // Added for type checking repository
 import { TimelineService } from '../core/timelineService'; // Import TimelineService
+import { RepositoryBusyError } from '../core/errors';
 
 export function createChatRoutes(repositoryManager: RepositoryManager, timelineService: TimelineService): Router {
   const router: Router = express.Router();
@@ -38,11 +39,16 @@ export function createChatRoutes(repositoryManager: RepositoryManager, timelineS
       const chatAssistantService = new ChatAssistantService(repository, llmService, timelineService);
 
       console.log(`Processing chat message for repoId: ${repoId}, userId: ${userId}`);
-      const assistantResponse = await chatAssistantService.processUserMessage(userId, repoId, userMessage);
+      // The assistant's tools write files that are committed when the conversation ends
+      const assistantResponse = await repositoryManager.runExclusive(repoId, 'chat', () =>
+        chatAssistantService.processUserMessage(userId, repoId, userMessage));
       
       res.status(200).json(assistantResponse);
 
     } catch (error: any) {
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       console.error(`Error processing chat message for repoId ${repoId}:`, error);
       if (error.message && error.message.includes('not found')) {
           return res.status(404).json({ error: error.message });
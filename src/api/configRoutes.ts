@@ -0,0 +1,28 @@
+import express, { Request, Response, Router } from 'express';
+import { RepositoryManager } from '../core/repositoryManager';
+import { ConfigValidationError } from '../core/errors';
+
+export function createConfigRoutes(repositoryManager: RepositoryManager): Router {
+  const router: Router = express.Router();
+
+  // GET /api/config/status - Config file path, version, watcher state and validation problems (never credentials)
+  router.get('/status', (req: Request, res: Response) => {
+    res.status(200).json(repositoryManager.getConfigurationStatus());
+  });
+
+  // POST /api/config/reload - Apply config.local.json now instead of waiting for the file watcher
+  router.post('/reload', async (req: Request, res: Response) => {
+    try {
+      const result = await repositoryManager.reloadConfiguration();
+      res.status(200).json(result);
+    } catch (error: any) {
+      if (error instanceof ConfigValidationError) {
+        return res.status(400).json({ error: 'Invalid configuration', issues: error.issues });
+      }
+      console.error('[API] Error reloading configuration:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  return router;
+}
@@ -7,6 +7,7 @@ import fs from 'fs'; // For Multer temporary file deletion
 import path from 'path'; // For path.resolve with __dirname for hardcoded path
 import { OrchestratorService, DocumentProcessingResult } from '../../orchestrator/orchestratorService'; // Import actual OrchestratorService
 import fsPromises from 'fs/promises'; // For async file operations
+import { detectMimeType, isTextMimeType } from '../../core/mimeTypes';
 
 // Remove the local orchestratorService stub
 // const orchestratorService = { ... };
@@ -38,21 +39,36 @@ export const uploadFile = (repositoryManager: RepositoryManager, orchestratorSer
     
     console.log(`TimelineController: File uploaded: ${req.file.originalname}, path: ${req.file.path}, size: ${req.file.size}`);
     
-    // Read the content of the uploaded file
-    const fileContent = await fsPromises.readFile(req.file.path, 'utf8');
+    // Read the raw bytes of the uploaded file
+    const fileBuffer = await fsPromises.readFile(req.file.path);
+    const mimeType = detectMimeType(req.file.originalname, fileBuffer);
     
     // Determine user (example, adjust as needed based on your auth setup if req.user is available)
     const user = (req as any).user?.id || 'ui-upload-user'; 
 
-    // Call orchestratorService.processDocument to use the desired logic
-    // This method handles saving the file to the 'raw/' directory, committing, 
-    // creating timeline entries, and KB generation via LLMService.processDocumentConversational.
-    const processingResult: DocumentProcessingResult = await orchestratorService.processDocument(
-      repositoryId,
-      fileContent,
-      user,
-      req.file.originalname // Use original filename as title
-    );
+    let processingResult: DocumentProcessingResult;
+    if (isTextMimeType(mimeType)) {
+      // Call orchestratorService.processDocument to use the desired logic
+      // This method handles saving the file to the 'raw/' directory, committing, 
+      // creating timeline entries, and KB generation via LLMService.processDocumentConversational.
+      processingResult = await orchestratorService.processDocument(
+        repositoryId,
+        fileBuffer.toString('utf8'),
+        user,
+        req.file.originalname // Use original filename as title
+      );
+    } else {
+      // Binary uploads go through processInput, which stores the bytes unchanged
+      processingResult = await orchestratorService.processInput({
+        type: 'file_upload',
+        repositoryId,
+        fileName: req.file.originalname,
+        content: fileBuffer.toString('base64'),
+        encoding: 'base64',
+        mimeType,
+        user,
+      });
+    }
 
     // Delete the temporary file uploaded by multer
     try {
@@ -128,17 +144,6 @@ export const getTimelineEntryById = (repositoryManager: RepositoryManager) => as
   }
 };
 
-// Placeholder for GitService - to be replaced by Repository methods
-const gitService = {
-  getCommitDiff: async (repository: Repository, commitSha: string): Promise<string> => {
-    console.log(`GitService: Getting diff for commit ${commitSha} in repo ${repository.path}`);
-    if (typeof repository.getCommitDiff === 'function') {
-      return repository.getCommitDiff(commitSha);
-    }
-    return `diff --git a/file.txt b/file.txt\n--- a/file.txt\n+++ b/file.txt\n@@ -1 +1 @@\n-old for ${commitSha}\n+new for ${commitSha}\n`;
-  }
-};
-
 // Placeholder for OrchestratorService's regeneration capability
 const orchestratorServiceForRegen = {
   triggerFullRegeneration: async (repository: Repository, reason?: string): Promise<{ commitSha: string, affectedKBPaths: string[] }> => {
@@ -165,11 +170,27 @@ export const getTimelineEntryDiff = (repositoryManager: RepositoryManager) => as
     if (!entry.commit || entry.commit === 'pending_commit_placeholder') {
       return res.status(400).json({ message: `Commit SHA not available for timeline entry ${entryId}.` });
     }
-    const diffText = await gitService.getCommitDiff(repo, entry.commit);
+
+    // ?context=N controls the number of context lines, ?format=json returns per-file hunks and line counts
+    const contextParam = req.query.context !== undefined ? parseInt(req.query.context as string, 10) : undefined;
+    if (contextParam !== undefined && (isNaN(contextParam) || contextParam < 0)) {
+      return res.status(400).json({ message: 'context must be a non-negative integer.' });
+    }
+    const diffOptions = { contextLines: contextParam };
+
+    if (req.query.format === 'json') {
+      const commitDiff = await repo.getCommitFileDiffs(entry.commit, diffOptions);
+      return res.status(200).json(commitDiff);
+    }
+
+    const diffText = await repo.getCommitDiff(entry.commit, diffOptions);
     res.setHeader('Content-Type', 'text/plain');
     res.status(200).send(diffText);
   } catch (error) {
     console.error(`Error fetching diff for timeline entry ${req.params.id}:`, error);
+    if (error instanceof Error && error.message.startsWith('Commit not found')) {
+      return res.status(404).json({ message: error.message });
+    }
     next(error);
   }
 };
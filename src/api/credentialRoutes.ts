@@ -0,0 +1,110 @@
+import express, { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { RepositoryManager } from '../core/repositoryManager';
+import { KeystoreLockedError } from '../core/errors';
+
+/**
+ * Status for credential errors, which are plain Errors distinguished by message.
+ */
+function credentialErrorStatus(error: any): number {
+  if (error instanceof KeystoreLockedError) {
+    return 400;
+  }
+  const message: string = error?.message || '';
+  if (message.includes('already exists') || message.includes('is in use by')) {
+    return 409;
+  }
+  if (message.includes('not found')) {
+    return 404;
+  }
+  if (message.startsWith('Give only one') || message.includes(' needs a ')) {
+    return 400;
+  }
+  return 500;
+}
+
+const kindSchema = z.enum(['github_pat', 'git']);
+
+// Secrets are write-only: responses describe where a secret is kept, never its value
+const credentialInputSchema = z.object({
+  secret: z.string().min(1).optional(),
+  env: z.string().min(1).optional(),
+  file: z.string().min(1).optional(),
+  username: z.string().min(1).optional(),
+  ssh_key_path: z.string().min(1).optional(),
+  known_hosts_path: z.string().min(1).optional(),
+}).strict();
+
+const newCredentialSchema = credentialInputSchema.extend({
+  kind: kindSchema,
+  alias: z.string().min(1),
+});
+
+// Validation messages only; zod issues could otherwise carry the submitted values
+function validationError(error: z.ZodError) {
+  return {
+    error: 'Invalid credential',
+    issues: error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+  };
+}
+
+export function createCredentialRoutes(repositoryManager: RepositoryManager): Router {
+  const router: Router = express.Router();
+
+  // GET /api/credentials - Credentials and where their secrets come from, without the secrets
+  router.get('/', (req: Request, res: Response) => {
+    res.status(200).json({ credentials: repositoryManager.listCredentials() });
+  });
+
+  // POST /api/credentials - Add a credential; a `secret` is stored in the encrypted keystore
+  router.post('/', async (req: Request, res: Response) => {
+    const validation = newCredentialSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json(validationError(validation.error));
+    }
+    const { kind, alias, ...input } = validation.data;
+    try {
+      const credential = await repositoryManager.addCredential(kind, alias, input);
+      res.status(201).json(credential);
+    } catch (error: any) {
+      console.error(`[API] Error adding credential ${alias}: ${error.message}`);
+      res.status(credentialErrorStatus(error)).json({ error: error.message });
+    }
+  });
+
+  // PUT /api/credentials/:kind/:alias - Rotate a credential
+  router.put('/:kind/:alias', async (req: Request, res: Response) => {
+    const kind = kindSchema.safeParse(req.params.kind);
+    const validation = credentialInputSchema.safeParse(req.body);
+    if (!kind.success) {
+      return res.status(404).json({ error: `Unknown credential kind: ${req.params.kind}` });
+    }
+    if (!validation.success) {
+      return res.status(400).json(validationError(validation.error));
+    }
+    try {
+      const credential = await repositoryManager.rotateCredential(kind.data, req.params.alias, validation.data);
+      res.status(200).json(credential);
+    } catch (error: any) {
+      console.error(`[API] Error rotating credential ${req.params.alias}: ${error.message}`);
+      res.status(credentialErrorStatus(error)).json({ error: error.message });
+    }
+  });
+
+  // DELETE /api/credentials/:kind/:alias - Remove a credential that no repository uses
+  router.delete('/:kind/:alias', async (req: Request, res: Response) => {
+    const kind = kindSchema.safeParse(req.params.kind);
+    if (!kind.success) {
+      return res.status(404).json({ error: `Unknown credential kind: ${req.params.kind}` });
+    }
+    try {
+      await repositoryManager.removeCredential(kind.data, req.params.alias);
+      res.status(204).end();
+    } catch (error: any) {
+      console.error(`[API] Error removing credential ${req.params.alias}: ${error.message}`);
+      res.status(credentialErrorStatus(error)).json({ error: error.message });
+    }
+  });
+
+  return router;
+}
@@ -1,10 +1,12 @@
 import express from 'express';
 import { RepositoryManager } from '../core/repositoryManager';
+import { CommitResult } from '../core/repository';
 import { z } from 'zod';
 import path from 'path';
 import { KnowledgeBaseService } from '../knowledge-base/knowledgeBaseService';
 import { OrchestratorService } from '../orchestrator/orchestratorService';
 import { LLMService } from '../orchestrator/llmService';
+import { httpStatusForPathError, isRepositoryPathError, RepositoryBusyError } from '../core/errors';
 
 /**
  * Set up file modification API routes
@@ -87,19 +89,24 @@ export function setupFileModificationRoutes(
       // Get the repository
       const repository = repositoryManager.getRepository(req.params.id);
       
-      // Check if the file exists
-      const fileExists = await repository.fileExists(filePath);
-      if (!fileExists) {
+      const commitResult = await repositoryManager.runExclusive(req.params.id, 'file-update', async () => {
+        // Check if the file exists
+        const fileExists = await repository.fileExists(filePath);
+        if (!fileExists) {
+          return null;
+        }
+
+        // Write the file content
+        await repository.writeFile(filePath, content);
+
+        // Add and commit the changes
+        await repository.add([filePath]);
+        return repository.commit({ message: `Update ${filePath}`, trailers: { operation: 'file-update' } });
+      });
+      if (!commitResult) {
         return res.status(404).json({ error: 'File not found' });
       }
       
-      // Write the file content
-      await repository.writeFile(filePath, content);
-
-      // Add and commit the changes
-      await repository.add([filePath]);
-      const commitResult = await repository.commit({ message: `Update ${filePath}` });
-      
       // Trigger knowledge base generation (non-blocking)
       knowledgeBaseService.OLD_generateKnowledgeBase(repository)
         .then(() => console.log(`Knowledge base update successfully triggered for repository ${req.params.id}`))
@@ -111,6 +118,12 @@ export function setupFileModificationRoutes(
         commit: commitResult.hash
       });
     } catch (error: any) {
+      if (isRepositoryPathError(error)) {
+        return res.status(httpStatusForPathError(error)).json({ error: error.message });
+      }
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       if (error.message.includes('not found')) {
         if (error.message.includes('Repository')) {
           return res.status(404).json({ error: 'Repository not found' });
@@ -132,18 +145,23 @@ export function setupFileModificationRoutes(
       // Get the repository
       const repository = repositoryManager.getRepository(req.params.id);
       
-      // Check if the file exists
-      const fileExists = await repository.fileExists(filePath);
-      if (!fileExists) {
+      const commitResult = await repositoryManager.runExclusive(req.params.id, 'file-delete', async () => {
+        // Check if the file exists
+        const fileExists = await repository.fileExists(filePath);
+        if (!fileExists) {
+          return null;
+        }
+
+        // Delete the file
+        await repository.deleteFile(filePath);
+
+        // Commit the changes
+        return repository.commit({ message: `Delete ${filePath}`, trailers: { operation: 'file-delete' } });
+      });
+      if (!commitResult) {
         return res.status(404).json({ error: 'File not found' });
       }
       
-      // Delete the file
-      await repository.deleteFile(filePath);
-      
-      // Commit the changes
-      const commitResult = await repository.commit({ message: `Delete ${filePath}` });
-      
       // Trigger knowledge base generation (non-blocking)
       knowledgeBaseService.OLD_generateKnowledgeBase(repository)
         .then(() => console.log(`Knowledge base update successfully triggered for repository ${req.params.id}`))
@@ -155,6 +173,12 @@ export function setupFileModificationRoutes(
         commit: commitResult.hash
       });
     } catch (error: any) {
+      if (isRepositoryPathError(error)) {
+        return res.status(httpStatusForPathError(error)).json({ error: error.message });
+      }
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       if (error.message.includes('not found')) {
         if (error.message.includes('Repository')) {
           return res.status(404).json({ error: 'Repository not found' });
@@ -187,23 +211,32 @@ export function setupFileModificationRoutes(
       // Get the repository
       const repository = repositoryManager.getRepository(req.params.id);
       
-      // Check if the old file exists
-      const oldFileExists = await repository.fileExists(oldPath);
-      if (!oldFileExists) {
-        return res.status(404).json({ error: 'Source file not found' });
-      }
-      
-      // Check if the new file already exists
-      const newFileExists = await repository.fileExists(newPath);
-      if (newFileExists) {
-        return res.status(409).json({ error: 'Destination file already exists' });
+      type MoveOutcome = { status: number; error: string } | { commitResult: CommitResult };
+      const outcome = await repositoryManager.runExclusive(req.params.id, 'file-move', async (): Promise<MoveOutcome> => {
+        // Check if the old file exists
+        const oldFileExists = await repository.fileExists(oldPath);
+        if (!oldFileExists) {
+          return { status: 404, error: 'Source file not found' };
+        }
+
+        // Check if the new file already exists
+        const newFileExists = await repository.fileExists(newPath);
+        if (newFileExists) {
+          return { status: 409, error: 'Destination file already exists' };
+        }
+
+        // Move the file
+        await repository.moveFile(oldPath, newPath);
+
+        // Commit the changes
+        return {
+          commitResult: await repository.commit({ message: `Move ${oldPath} to ${newPath}`, trailers: { operation: 'file-move' } }),
+        };
+      });
+      if ('error' in outcome) {
+        return res.status(outcome.status).json({ error: outcome.error });
       }
-      
-      // Move the file
-      await repository.moveFile(oldPath, newPath);
-      
-      // Commit the changes
-      const commitResult = await repository.commit({ message: `Move ${oldPath} to ${newPath}` });
+      const { commitResult } = outcome;
       
       // Trigger knowledge base generation (non-blocking)
       knowledgeBaseService.OLD_generateKnowledgeBase(repository)
@@ -217,6 +250,12 @@ export function setupFileModificationRoutes(
         commit: commitResult.hash
       });
     } catch (error: any) {
+      if (isRepositoryPathError(error)) {
+        return res.status(httpStatusForPathError(error)).json({ error: error.message });
+      }
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       if (error.message.includes('not found')) {
         if (error.message.includes('Repository')) {
           return res.status(404).json({ error: 'Repository not found' });
@@ -254,19 +293,21 @@ export function setupFileModificationRoutes(
       // Get the repository
       const repository = repositoryManager.getRepository(req.params.id);
       
-      // Write all files
-      for (const file of files) {
-        // Prepend 'raw/' to the path
-        const rawFilePath = path.join('raw', file.path);
-        // Ensure the directory exists (optional, depends on writeFile implementation)
-        // await repository.ensureDirectoryExists(path.dirname(rawFilePath)); 
-        await repository.writeFile(rawFilePath, file.content);
-      }
-      
-      // Commit the changes
-      const filesToCommit = files.map(file => file.path);
-      await repository.add(filesToCommit);
-      const commitResult = await repository.commit({ message: commitMessage });
+      const commitResult = await repositoryManager.runExclusive(req.params.id, 'file-batch', async () => {
+        // Write all files
+        for (const file of files) {
+          // Prepend 'raw/' to the path
+          const rawFilePath = path.join('raw', file.path);
+          // Ensure the directory exists (optional, depends on writeFile implementation)
+          // await repository.ensureDirectoryExists(path.dirname(rawFilePath)); 
+          await repository.writeFile(rawFilePath, file.content);
+        }
+
+        // Commit the changes
+        const filesToCommit = files.map(file => file.path);
+        await repository.add(filesToCommit);
+        return repository.commit({ message: commitMessage, trailers: { operation: 'file-batch' } });
+      });
       
       // Trigger knowledge base generation (non-blocking)
       knowledgeBaseService.OLD_generateKnowledgeBase(repository)
@@ -279,6 +320,12 @@ export function setupFileModificationRoutes(
         commit: commitResult.hash
       });
     } catch (error: any) {
+      if (isRepositoryPathError(error)) {
+        return res.status(httpStatusForPathError(error)).json({ error: error.message });
+      }
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       if (error.message.includes('not found')) {
         return res.status(404).json({ error: 'Repository not found' });
       }
@@ -314,41 +361,46 @@ export function setupFileModificationRoutes(
       // Get the repository
       const repository = repositoryManager.getRepository(req.params.id);
       
-      // Check if the file exists
-      const fileExists = await repository.fileExists(filePath);
-      if (!fileExists) {
-        return res.status(404).json({ error: 'File not found' });
-      }
-      
-      // Read the current content
-      const currentContent = await repository.readFile(filePath);
-      
-      // In a real implementation, we would apply the JSON Patch to the file
-      // This is just a placeholder that overwrites the file
-      // For a proper implementation, you would need to parse the markdown,
-      // apply the patches, and then stringify it again
-      
-      // For now, we'll just modify the content with a simple text replacement
-      // This is NOT a proper JSON Patch implementation
-      let newContent = currentContent;
-      
-      // Simple patch simulation - in a real implementation, use a JSON Patch library
-      for (const patch of patches) {
-        if (patch.operation === 'replace' && patch.path === '/title' && typeof patch.value === 'string') {
-          // Replace title by looking for the first heading
-          newContent = newContent.replace(/^#\s.*$/m, `# ${patch.value}`);
-        } else if (patch.operation === 'add' && patch.path === '/sections/-' && typeof patch.value === 'string') {
-          // Add a new section at the end
-          newContent = `${newContent}\n\n${patch.value}`;
+      const commitResult = await repositoryManager.runExclusive(req.params.id, 'file-patch', async () => {
+        // Check if the file exists
+        const fileExists = await repository.fileExists(filePath);
+        if (!fileExists) {
+          return null;
         }
+
+        // Read the current content
+        const currentContent = await repository.readFile(filePath);
+
+        // In a real implementation, we would apply the JSON Patch to the file
+        // This is just a placeholder that overwrites the file
+        // For a proper implementation, you would need to parse the markdown,
+        // apply the patches, and then stringify it again
+
+        // For now, we'll just modify the content with a simple text replacement
+        // This is NOT a proper JSON Patch implementation
+        let newContent = currentContent;
+
+        // Simple patch simulation - in a real implementation, use a JSON Patch library
+        for (const patch of patches) {
+          if (patch.operation === 'replace' && patch.path === '/title' && typeof patch.value === 'string') {
+            // Replace title by looking for the first heading
+            newContent = newContent.replace(/^#\s.*$/m, `# ${patch.value}`);
+          } else if (patch.operation === 'add' && patch.path === '/sections/-' && typeof patch.value === 'string') {
+            // Add a new section at the end
+            newContent = `${newContent}\n\n${patch.value}`;
+          }
+        }
+
+        // Write the updated content
+        await repository.writeFile(filePath, newContent);
+
+        // Commit the changes
+        return repository.commit({ message: `Update ${filePath}`, trailers: { operation: 'file-update' } });
+      });
+      if (!commitResult) {
+        return res.status(404).json({ error: 'File not found' });
       }
       
-      // Write the updated content
-      await repository.writeFile(filePath, newContent);
-      
-      // Commit the changes
-      const commitResult = await repository.commit({ message: `Update ${filePath}` });
-      
       // Trigger knowledge base generation (non-blocking)
       knowledgeBaseService.OLD_generateKnowledgeBase(repository)
         .then(() => console.log(`Knowledge base update successfully triggered for repository ${req.params.id}`))
@@ -360,6 +412,12 @@ export function setupFileModificationRoutes(
         commit: commitResult.hash
       });
     } catch (error: any) {
+      if (isRepositoryPathError(error)) {
+        return res.status(httpStatusForPathError(error)).json({ error: error.message });
+      }
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       if (error.message.includes('not found')) {
         if (error.message.includes('Repository')) {
           return res.status(404).json({ error: 'Repository not found' });
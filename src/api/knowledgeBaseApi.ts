@@ -7,6 +7,7 @@ import { validateRequest } from './middleware/validation';
 import { KnowledgeBaseService } from '../knowledge-base/knowledgeBaseService';
 import { TimelineService } from '../core/timelineService';
 import { SearchService } from '../search/searchService';
+import { RepositoryBusyError } from '../core/errors';
 
 /**
  * Creates and configures the knowledge base API router
@@ -87,20 +88,25 @@ export function createKnowledgeBaseApi(
         // Use the KnowledgeBaseService to generate the knowledge base
         try {
           console.log(`Generating knowledge base for repository ${repositoryId} with ${rawTextFiles.length} files`);
-          // Call the KnowledgeBaseService with appropriate options
-          await knowledgeBaseService.OLD_generateKnowledgeBase(repository);
-          
-          // Create a marker file to indicate generation completed
-          const markerFilePath = path.join('.lspace', 'kb_generated.marker');
-          await repository.writeFile(markerFilePath, `KB generated at ${new Date().toISOString()} for ${rawTextFiles.length} files.`);
-          await repository.add([markerFilePath]);
-          await repository.commit({ message: 'Generate/Update knowledge base' });
+          await repositoryManager.runExclusive(repositoryId, 'kb-generate', async () => {
+            // Call the KnowledgeBaseService with appropriate options
+            await knowledgeBaseService.OLD_generateKnowledgeBase(repository);
+
+            // Create a marker file to indicate generation completed
+            const markerFilePath = path.join('.lspace', 'kb_generated.marker');
+            await repository.writeFile(markerFilePath, `KB generated at ${new Date().toISOString()} for ${rawTextFiles.length} files.`);
+            await repository.add([markerFilePath]);
+            await repository.commit({ message: 'Generate/Update knowledge base', trailers: { operation: 'kb-generate' } });
+          });
           
           res.status(200).json({ 
             message: 'Knowledge base generation triggered successfully.', 
             processedFiles: rawTextFiles.length 
           });
         } catch (kbError: any) {
+          if (kbError instanceof RepositoryBusyError) {
+            return res.status(503).json({ error: kbError.message });
+          }
           console.error('Error generating knowledge base:', kbError);
           return res.status(500).json({
             error: 'Knowledge base generation failed',
@@ -130,13 +136,14 @@ export function createKnowledgeBaseApi(
         const repository = repositoryManager.getRepository(repositoryId);
 
         // Check if the entry page exists
-        const entryPageExists = await repository.fileExists('knowledge-base/index.md');
+        const entryPagePath = repository.knowledgeBasePath('index.md');
+        const entryPageExists = await repository.fileExists(entryPagePath);
         if (!entryPageExists) {
           return res.status(404).json({ error: 'Knowledge base not found' });
         }
 
         // Read the entry page
-        const content = await repository.readFile('knowledge-base/index.md');
+        const content = await repository.readFile(entryPagePath);
 
         res.setHeader('Content-Type', 'text/markdown');
         res.send(content);
@@ -163,13 +170,14 @@ export function createKnowledgeBaseApi(
         const repository = repositoryManager.getRepository(repositoryId);
 
         // Check if the topic page exists
-        const topicPageExists = await repository.fileExists(`knowledge-base/${topicPath}.md`);
+        const topicPagePath = repository.knowledgeBasePath(`${topicPath}.md`);
+        const topicPageExists = await repository.fileExists(topicPagePath);
         if (!topicPageExists) {
           return res.status(404).json({ error: 'Topic not found' });
         }
 
         // Read the topic page
-        const content = await repository.readFile(`knowledge-base/${topicPath}.md`);
+        const content = await repository.readFile(topicPagePath);
 
         res.setHeader('Content-Type', 'text/markdown');
         res.send(content);
@@ -196,22 +204,23 @@ export function createKnowledgeBaseApi(
         const repository = repositoryManager.getRepository(repositoryId);
 
         // Check if the knowledge base exists
-        const knowledgeBaseExists = await repository.fileExists('knowledge-base/index.md');
+        const entryPagePath = repository.knowledgeBasePath('index.md');
+        const knowledgeBaseExists = await repository.fileExists(entryPagePath);
         if (!knowledgeBaseExists) {
           return res.status(404).json({ error: 'Knowledge base not found' });
         }
 
         // List all topic files
-        const files = await repository.listFiles();
+        const files = await repository.listAllFilesRecursive(repository.getKnowledgeBaseRoot());
         const topicFiles = files.filter(file => 
-          file.path.startsWith('knowledge-base/') && 
-          file.path !== 'knowledge-base/index.md' &&
+          file.type === 'file' &&
+          file.path !== entryPagePath &&
           file.path.endsWith('.md')
         );
 
         // Extract topic information
         const topics = topicFiles.map(file => ({
-          path: file.path.replace('knowledge-base/', '').replace('.md', ''),
+          path: repository.relativeToKnowledgeBase(file.path).replace(/\.md$/, ''),
           title: file.path.split('/').pop()?.replace('.md', '') || ''
         }));
 
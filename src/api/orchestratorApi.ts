@@ -20,10 +20,11 @@ import {
 export function createOrchestratorApi(
   repositoryManager: RepositoryManager,
   llmService: LLMService,
-  knowledgeBaseService: KnowledgeBaseService
+  knowledgeBaseService: KnowledgeBaseService,
+  // Share the server's instance so REST and MCP see the same ingestion jobs
+  orchestratorService: OrchestratorService = new OrchestratorService(repositoryManager, llmService, knowledgeBaseService)
 ): Router {
   const router = Router();
-  const orchestratorService = new OrchestratorService(repositoryManager, llmService, knowledgeBaseService);
   
   // --- START: Schemas for Unified Input Processing ---
 
@@ -37,6 +38,8 @@ export function createOrchestratorApi(
     type: z.literal('file_upload'),
     fileName: z.string().min(1),
     content: z.string(), // Assuming content is passed as a string (e.g., base64 encoded or direct text)
+    encoding: z.enum(['utf8', 'base64']).optional(),
+    mimeType: z.string().optional(),
   });
 
   const textSnippetSchema = baseProcessableInputSchema.extend({
@@ -154,6 +157,38 @@ export function createOrchestratorApi(
     }
   );
 
+  // Schema for importing a folder of existing documents
+  const importFolderSchema = z.object({
+    repositoryId: z.string().uuid(),
+    sourcePath: z.string().min(1), // Folder on the server's disk
+    targetDir: z.string().optional(),
+    overwrite: z.boolean().optional(),
+    user: z.string().optional()
+  });
+
+  // Import a folder of markdown into the knowledge base as it is, without the LLM
+  router.post(
+    '/import-folder',
+    validateRequest({ body: importFolderSchema }),
+    async (req, res, next) => {
+      try {
+        const { repositoryId, sourcePath, targetDir, overwrite, user } = req.body;
+
+        const result = await orchestratorService.importFolder(repositoryId, sourcePath, { targetDir, overwrite, user });
+
+        res.status(200).json(result);
+      } catch (error: any) {
+        if (error.message?.startsWith('Import source') || error.message?.startsWith('Invalid import target')) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error.message?.includes('not found')) {
+          return res.status(404).json({ error: error.message });
+        }
+        next(error);
+      }
+    }
+  );
+
   // New Unified Input Endpoint
   router.post(
     '/input', // Effectively /api/orchestrator/input
@@ -169,6 +204,74 @@ export function createOrchestratorApi(
       }
     }
   );
+
+  // Same as /input, but returns a job right away and processes the input in the background
+  router.post(
+    '/jobs',
+    validateRequest({ body: processableInputSchema }),
+    async (req, res, next) => {
+      try {
+        const job = await orchestratorService.submitIngestionJob(req.body as ProcessableInput);
+        res.status(202).json(job);
+      } catch (error: any) {
+        if (error.message?.includes('not found')) {
+          return res.status(404).json({ error: error.message });
+        }
+        next(error);
+      }
+    }
+  );
+
+  const listJobsSchema = z.object({
+    repositoryId: z.string().uuid().optional()
+  });
+
+  // List ingestion jobs, oldest first
+  router.get(
+    '/jobs',
+    validateRequest({ query: listJobsSchema }),
+    (req, res) => {
+      const repositoryId = req.query.repositoryId as string | undefined;
+      res.status(200).json({ jobs: orchestratorService.listIngestionJobs(repositoryId) });
+    }
+  );
+
+  const jobIdSchema = z.object({
+    jobId: z.string().uuid()
+  });
+
+  // Status, phase and LLM turn count of an ingestion job, and its result once it has finished
+  router.get(
+    '/jobs/:jobId',
+    validateRequest({ params: jobIdSchema }),
+    (req, res) => {
+      const job = orchestratorService.getIngestionJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: `Ingestion job ${req.params.jobId} not found` });
+      }
+      res.status(200).json(job);
+    }
+  );
+
+  // Cancel an ingestion job; a running job stops at its next LLM turn
+  router.post(
+    '/jobs/:jobId/cancel',
+    validateRequest({ params: jobIdSchema }),
+    async (req, res, next) => {
+      try {
+        const job = await orchestratorService.cancelIngestionJob(req.params.jobId);
+        res.status(job.state === 'cancelled' ? 200 : 202).json(job);
+      } catch (error: any) {
+        if (error.message?.includes('not found')) {
+          return res.status(404).json({ error: error.message });
+        }
+        if (error.message?.includes('already finished')) {
+          return res.status(409).json({ error: error.message });
+        }
+        next(error);
+      }
+    }
+  );
   
   return router;
 }
@@ -1,9 +1,15 @@
 import express from 'express';
 import { RepositoryManager, SavedRepositoryConfig, GitHubRepoConfig } from '../core/repositoryManager';
-import { LocalGitAdapter } from '../adapters/localGitAdapter';
 import { GitHubAdapter } from '../adapters/githubAdapter';
 import { FileSystemToolImpl } from '../core/fileSystemToolImpl';
+import { TimelineService } from '../core/timelineService';
+import { RepositoryDoctor } from '../core/repositoryDoctor';
+import { normalizeKnowledgeBaseRoot } from '../core/repository';
+import { detectMimeType, isTextMimeType } from '../core/mimeTypes';
+import { httpStatusForPathError, isRepositoryPathError, RepositoryBusyError, SyncConflictError, UnpushedCommitsError } from '../core/errors';
+import { listKnowledgeBaseTemplates } from '../config/knowledgeBaseTemplates';
 import { z } from 'zod';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -12,6 +18,9 @@ import { v4 as uuidv4 } from 'uuid';
  * @param repositoryManager Repository manager instance
  */
 export function setupRepositoryRoutes(app: express.Application, repositoryManager: RepositoryManager): void {
+  const timelineService = new TimelineService();
+  const repositoryDoctor = new RepositoryDoctor(repositoryManager);
+
   /**
    * GET /api/repositories - List all repositories
    */
@@ -24,13 +33,78 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
     }
   });
 
+  /**
+   * GET /api/repositories/templates - List the starter templates for new knowledge bases
+   */
+  app.get('/api/repositories/templates', (req, res) => {
+    const templates = listKnowledgeBaseTemplates().map(template => ({
+      name: template.name,
+      description: template.description,
+      files: Object.keys(template.files),
+    }));
+    res.json({ templates });
+  });
+
+  /**
+   * GET /api/repositories/pending-pushes - Pushes waiting in the outbox to be retried
+   */
+  app.get('/api/repositories/pending-pushes', (req, res) => {
+    res.json({ pushes: repositoryManager.listPendingPushes() });
+  });
+
+  /**
+   * GET /api/repositories/orphaned-clones - Clone directories no configured repository uses
+   */
+  app.get('/api/repositories/orphaned-clones', async (req, res) => {
+    try {
+      res.json({ clones: await repositoryManager.findOrphanedClones() });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * DELETE /api/repositories/orphaned-clones - Delete orphaned clones
+   * Body: { paths: string[] } as listed by GET /api/repositories/orphaned-clones
+   */
+  app.delete('/api/repositories/orphaned-clones', async (req, res) => {
+    const validation = z.object({ paths: z.array(z.string().min(1)).min(1) }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.format() });
+    }
+    try {
+      res.json({ deleted: await repositoryManager.deleteOrphanedClones(validation.data.paths) });
+    } catch (error: any) {
+      const message: string = error.message || '';
+      res.status(message.startsWith('Not orphaned clones') ? 400 : 500).json({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/repositories/scratch - Create a repository held in memory
+   * Body: { name: string }. It is not saved to the configuration and is lost on restart.
+   */
+  app.post('/api/repositories/scratch', async (req, res) => {
+    const validation = z.object({ name: z.string().min(1) }).safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error.format() });
+    }
+    try {
+      const id = await repositoryManager.createScratchRepository(validation.data.name);
+      res.status(201).json(await repositoryManager.getRepositoryInfo(id));
+    } catch (error: any) {
+      const message: string = error.message || '';
+      res.status(message.includes('already exists') ? 409 : 500).json({ error: message });
+    }
+  });
+
   /**
    * GET /api/repositories/:id - Get repository by ID
    */
   app.get('/api/repositories/:id', async (req, res) => {
     try {
       // Get the repository info
-      const repoInfo = repositoryManager.getRepositoryInfo(req.params.id);
+      const repoInfo = await repositoryManager.getRepositoryInfo(req.params.id);
       if (!repoInfo) {
         return res.status(404).json({ error: 'Repository not found' });
       }
@@ -50,6 +124,8 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
 
   /**
    * POST /api/repositories - Register a new repository
+   * A local path that is not a git repository yet is created as a new knowledge base,
+   * seeded from `template` (default "blank").
    */
   app.post('/api/repositories', async (req, res) => {
     try {
@@ -62,6 +138,8 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
       const localRepoSchema = baseRepoSchema.extend({
         type: z.literal('local'),
         path: z.string().min(1),
+        path_to_kb: z.string().min(1).optional(),
+        template: z.string().min(1).optional(),
       });
 
       const githubRepoSchema = baseRepoSchema.extend({
@@ -70,11 +148,25 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
         repo: z.string().min(1),
         branch: z.string().optional(),
         pat_alias: z.string().min(1),
+        path_to_kb: z.string().min(1).optional(),
+        clone_depth: z.number().int().positive().optional(),
+        full_history: z.boolean().optional(),
+      });
+
+      const gitRepoSchema = baseRepoSchema.extend({
+        type: z.literal('git'),
+        url: z.string().min(1),
+        branch: z.string().optional(),
+        credential_alias: z.string().min(1).optional(),
+        path_to_kb: z.string().min(1).optional(),
+        clone_depth: z.number().int().positive().optional(),
+        full_history: z.boolean().optional(),
       });
 
       const repoSchema = z.discriminatedUnion("type", [
         localRepoSchema,
         githubRepoSchema,
+        gitRepoSchema,
       ]);
       
       const validation = repoSchema.safeParse(req.body);
@@ -87,19 +179,32 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
       let finalRepoInfo;
       
       if (repoData.type === 'local') {
-        const adapter = new LocalGitAdapter();
-        const repository = await adapter.initialize(repoData.path);
-        
-        const actualId = repoData.id || uuidv4();
-        const savedConfig = { ...repoData, id: actualId }; 
-        id = await repositoryManager.registerRepository(repoData.name, repository, repoData.type, savedConfig);
-        finalRepoInfo = repositoryManager.getRepositoryInfo(id);
+        const { template, id: suggestedId, ...localConfig } = repoData;
+        try {
+          id = await repositoryManager.addNewRepositoryConfig(localConfig, { id: suggestedId, template });
+        } catch (error: any) {
+          const message: string = error.message || '';
+          if (message.includes('already exists')) {
+            return res.status(409).json({ error: message });
+          }
+          if (message.startsWith('Unknown knowledge base template') || message.includes('is already a git repository')
+            || message.startsWith('Invalid path_to_kb')) {
+            return res.status(400).json({ error: message });
+          }
+          throw error;
+        }
+        finalRepoInfo = await repositoryManager.getRepositoryInfo(id);
 
       } else if (repoData.type === 'github') {
         const pat = repositoryManager.getPATByAlias(repoData.pat_alias);
         if (!pat) {
           return res.status(400).json({ error: `PAT not found for alias: ${repoData.pat_alias}` });
         }
+        try {
+          normalizeKnowledgeBaseRoot(repoData.path_to_kb || '.');
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
 
         const adapter = new GitHubAdapter();
         const actualId = repoData.id || uuidv4();
@@ -124,8 +229,29 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
         
         // registerRepository expects SavedRepositoryConfig, which githubRepoConfigForAdapter matches now
         id = await repositoryManager.registerRepository(repoData.name, repository, repoData.type, githubRepoConfigForAdapter);
-        finalRepoInfo = repositoryManager.getRepositoryInfo(id);
+        finalRepoInfo = await repositoryManager.getRepositoryInfo(id);
         
+      } else if (repoData.type === 'git') {
+        const { id: suggestedId, ...gitConfig } = repoData;
+        try {
+          id = await repositoryManager.addNewRepositoryConfig(
+            { ...gitConfig, branch: gitConfig.branch || 'main' },
+            { id: suggestedId }
+          );
+        } catch (error: any) {
+          const message: string = error.message || '';
+          if (message.includes('already exists')) {
+            return res.status(409).json({ error: message });
+          }
+          if (message.startsWith('Invalid remote URL') || message.startsWith('Unsupported remote URL')
+            || message.startsWith('Remote URLs must not') || message.includes('not found in credentials')
+            || message.startsWith('Invalid path_to_kb')) {
+            return res.status(400).json({ error: message });
+          }
+          throw error;
+        }
+        finalRepoInfo = await repositoryManager.getRepositoryInfo(id);
+
       } else {
         // Should not happen due to discriminated union, but as a safeguard:
         return res.status(400).json({ error: `Unsupported repository type: ${(repoData as any).type}` });
@@ -142,17 +268,33 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
   });
 
   /**
-   * DELETE /api/repositories/:id - Unregister a repository
+   * DELETE /api/repositories/:id - Remove a repository from the configuration
+   * Query: mode=keep|archive|purge (default keep) decides what happens to its clone;
+   * force=true removes it even though commits were not pushed yet
    */
   app.delete('/api/repositories/:id', async (req, res) => {
+    const mode = req.query.mode === undefined ? 'keep' : req.query.mode;
+    if (mode !== 'keep' && mode !== 'archive' && mode !== 'purge') {
+      return res.status(400).json({ error: `Invalid removal mode: ${mode}. Use keep, archive or purge.` });
+    }
     try {
-      repositoryManager.unregisterRepository(req.params.id);
-      res.status(204).end();
+      const result = await repositoryManager.removeRepository(req.params.id, { mode, force: req.query.force === 'true' });
+      res.status(200).json(result);
     } catch (error: any) {
-      if (error.message.includes('not found')) {
+      const message: string = error.message || '';
+      if (error instanceof UnpushedCommitsError) {
+        return res.status(409).json({ error: message, unpushedCommits: error.unpushedCommits });
+      }
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: message });
+      }
+      if (message.includes('not found')) {
         return res.status(404).json({ error: 'Repository not found' });
       }
-      res.status(500).json({ error: error.message });
+      if (message.includes('cannot be purged') || message.includes('cannot be archived')) {
+        return res.status(400).json({ error: message });
+      }
+      res.status(500).json({ error: message });
     }
   });
 
@@ -184,6 +326,131 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
     }
   });
 
+  /**
+   * GET /api/repositories/:id/status - Working tree status and ahead/behind counts
+   */
+  app.get('/api/repositories/:id/status', async (req, res) => {
+    try {
+      const repository = repositoryManager.getRepository(req.params.id);
+      const status = await repository.getStatus();
+      res.json(status);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/repositories/:id/doctor - Health checks with suggested fixes. Also works for
+   * repositories whose setup failed. ?remote=false skips contacting the remote.
+   */
+  app.get('/api/repositories/:id/doctor', async (req, res) => {
+    try {
+      const report = await repositoryDoctor.diagnose(req.params.id, { remote: req.query.remote !== 'false' });
+      res.json(report);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/repositories/:id/queue - Depth and contents of the repository's operation queue
+   */
+  app.get('/api/repositories/:id/queue', async (req, res) => {
+    try {
+      repositoryManager.getRepository(req.params.id);
+      res.json(repositoryManager.getQueueStatus(req.params.id));
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/repositories/:id/sync - Sync state of a GitHub or git repository
+   */
+  app.get('/api/repositories/:id/sync', async (req, res) => {
+    try {
+      repositoryManager.getRepository(req.params.id);
+      res.json(repositoryManager.getSyncStatus(req.params.id));
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/repositories/:id/sync - Sync with the remote now. Also retries repositories that
+   * need attention after a conflict; a successful sync clears that state.
+   */
+  app.post('/api/repositories/:id/sync', async (req, res) => {
+    try {
+      repositoryManager.getRepository(req.params.id);
+      const result = await repositoryManager.syncWithRemote(req.params.id);
+      if (!result) {
+        return res.status(400).json({ error: 'Repository has no remote to sync with' });
+      }
+      res.json(repositoryManager.getSyncStatus(req.params.id));
+    } catch (error: any) {
+      if (error instanceof SyncConflictError) {
+        return res.status(409).json({ error: error.message, ...repositoryManager.getSyncStatus(req.params.id) });
+      }
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/repositories/:id/push - The repository's push waiting in the outbox, if any
+   */
+  app.get('/api/repositories/:id/push', async (req, res) => {
+    try {
+      repositoryManager.getRepository(req.params.id);
+      res.json({ pending: repositoryManager.getPendingPush(req.params.id) });
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/repositories/:id/push - Push now. A push that fails stays in the outbox and is
+   * retried with backoff; the response then carries it with a 202.
+   */
+  app.post('/api/repositories/:id/push', async (req, res) => {
+    try {
+      repositoryManager.getRepository(req.params.id);
+      const pending = repositoryManager.getPendingPush(req.params.id)
+        ? await repositoryManager.retryPendingPush(req.params.id)
+        : await repositoryManager.queuePush(req.params.id);
+      if (pending) {
+        return res.status(202).json({ pushed: false, pending });
+      }
+      res.json({ pushed: true, pending: null });
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   /**
    * GET /api/repositories/:id/readme - Read the README.md file from the repository root
    */
@@ -213,7 +480,8 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
    */
   app.get('/api/repositories/:id/files/:path(*)', async (req, res) => {
     try {
-      const requestedPath = req.params.path;
+      // Normalized so `docs/../.lspace` is caught by the .lspace check below
+      const requestedPath = path.posix.normalize(req.params.path);
 
       // Security check: Prevent access to .lspace directory
       if (requestedPath.startsWith('.lspace/') || requestedPath === '.lspace') {
@@ -228,30 +496,15 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
         return res.status(404).json({ error: 'File not found' });
       }
       
-      // Read the file
-      const content = await repository.readFile(requestedPath);
-      
-      // Determine content type based on file extension
-      // This is a simple implementation - in a real app, you would use a more comprehensive approach
-      const extension = requestedPath.split('.').pop()?.toLowerCase();
-      
-      // Set appropriate content type
-      if (extension === 'json') {
-        res.setHeader('Content-Type', 'application/json');
-      } else if (extension === 'md') {
-        res.setHeader('Content-Type', 'text/markdown');
-      } else if (extension === 'html' || extension === 'htm') {
-        res.setHeader('Content-Type', 'text/html');
-      } else if (extension === 'css') {
-        res.setHeader('Content-Type', 'text/css');
-      } else if (extension === 'js') {
-        res.setHeader('Content-Type', 'application/javascript');
-      } else {
-        res.setHeader('Content-Type', 'text/plain');
-      }
-      
+      // Read the raw bytes so binary attachments (images, PDFs) survive the round trip
+      const content = await repository.readFileBuffer(requestedPath);
+      const mimeType = detectMimeType(requestedPath, content);
+      res.setHeader('Content-Type', isTextMimeType(mimeType) ? `${mimeType}; charset=utf-8` : mimeType);
       res.send(content);
     } catch (error: any) {
+      if (isRepositoryPathError(error)) {
+        return res.status(httpStatusForPathError(error)).json({ error: error.message });
+      }
       if (error.message.includes('not found')) {
         if (error.message.includes('Repository')) {
           return res.status(404).json({ error: 'Repository not found' });
@@ -263,6 +516,33 @@ export function setupRepositoryRoutes(app: express.Application, repositoryManage
     }
   });
 
+  /**
+   * GET /api/repositories/:id/blame/:path(*) - Line-level blame of a file, with the raw input behind each commit
+   */
+  app.get('/api/repositories/:id/blame/:path(*)', async (req, res) => {
+    try {
+      const requestedPath = path.posix.normalize(req.params.path);
+      const ref = (req.query.ref as string) || 'HEAD';
+
+      // Security check: Prevent access to .lspace directory
+      if (requestedPath.startsWith('.lspace/') || requestedPath === '.lspace') {
+        return res.status(403).json({ error: 'Access to the .lspace directory is forbidden.' });
+      }
+
+      const repository = repositoryManager.getRepository(req.params.id);
+      const blame = await timelineService.getBlameWithSources(repository, requestedPath, ref);
+      res.json(blame);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        if (error.message.includes('Repository')) {
+          return res.status(404).json({ error: 'Repository not found' });
+        }
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   /**
    * POST /api/repositories/:id/kb-regenerate - Trigger knowledge base regeneration (Placeholder)
    */
@@ -0,0 +1,147 @@
+import express, { Request, Response, Router } from 'express';
+import { RepositoryManager } from '../core/repositoryManager';
+import { Repository } from '../core/repository';
+import { SnapshotService } from '../core/snapshotService';
+import { RepositoryBusyError } from '../core/errors';
+
+/**
+ * Status for snapshot errors, which are plain Errors distinguished by message.
+ */
+function snapshotErrorStatus(error: any): number {
+  if (error instanceof RepositoryBusyError) {
+    return 503;
+  }
+  const message: string = error?.message || '';
+  if (message.startsWith('Invalid snapshot name')) {
+    return 400;
+  }
+  if (message.includes('already exists')) {
+    return 409;
+  }
+  if (message.toLowerCase().includes('not found')) {
+    return 404;
+  }
+  return 500;
+}
+
+export function createSnapshotRoutes(repositoryManager: RepositoryManager): Router {
+  const router: Router = express.Router();
+  const snapshotService = new SnapshotService();
+
+  // GET /api/v1/repositories/:repoId/snapshots
+  router.get('/:repoId/snapshots', async (req: Request, res: Response) => {
+    const { repoId } = req.params;
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      const snapshots = await snapshotService.listSnapshots(repository);
+      res.status(200).json({ snapshots });
+    } catch (error: any) {
+      console.error(`[API] Error listing snapshots of repo ${repoId}:`, error);
+      const status = snapshotErrorStatus(error);
+      res.status(status).json(status === 500 ? { error: 'Failed to list snapshots.', details: error.message } : { error: error.message });
+    }
+  });
+
+  // POST /api/v1/repositories/:repoId/snapshots  { name, description?, ref? }
+  router.post('/:repoId/snapshots', async (req: Request, res: Response) => {
+    const { repoId } = req.params;
+    const { name, description, ref } = req.body || {};
+
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ error: 'name is required in the request body.' });
+    }
+    if ((description !== undefined && typeof description !== 'string') || (ref !== undefined && typeof ref !== 'string')) {
+      return res.status(400).json({ error: 'description and ref must be strings.' });
+    }
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      const snapshot = await repositoryManager.runExclusive(repoId, 'snapshot-create', () =>
+        snapshotService.createSnapshot(repository, name, { description, ref }));
+      res.status(201).json(snapshot);
+    } catch (error: any) {
+      console.error(`[API] Error creating snapshot ${name} in repo ${repoId}:`, error);
+      const status = snapshotErrorStatus(error);
+      res.status(status).json(status === 500 ? { error: 'Failed to create snapshot.', details: error.message } : { error: error.message });
+    }
+  });
+
+  // GET /api/v1/repositories/:repoId/snapshots/:name
+  router.get('/:repoId/snapshots/:name', async (req: Request, res: Response) => {
+    const { repoId, name } = req.params;
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      res.status(200).json(await snapshotService.getSnapshot(repository, name));
+    } catch (error: any) {
+      console.error(`[API] Error reading snapshot ${name} of repo ${repoId}:`, error);
+      const status = snapshotErrorStatus(error);
+      res.status(status).json(status === 500 ? { error: 'Failed to read snapshot.', details: error.message } : { error: error.message });
+    }
+  });
+
+  // GET /api/v1/repositories/:repoId/snapshots/:name/diff[?context=<n>][&format=diff]
+  // Changes from the snapshot to the current HEAD
+  router.get('/:repoId/snapshots/:name/diff', async (req: Request, res: Response) => {
+    const { repoId, name } = req.params;
+    const contextLines = req.query.context !== undefined ? parseInt(req.query.context as string, 10) : undefined;
+    if (contextLines !== undefined && (isNaN(contextLines) || contextLines < 0)) {
+      return res.status(400).json({ error: 'context must be a non-negative integer.' });
+    }
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      const comparison = await snapshotService.diffSnapshot(repository, name, { contextLines });
+
+      if (req.query.format === 'diff') {
+        res.setHeader('Content-Type', 'text/plain');
+        return res.status(200).send(Repository.formatFileDiffs(comparison.files));
+      }
+      res.status(200).json(comparison);
+    } catch (error: any) {
+      console.error(`[API] Error diffing snapshot ${name} of repo ${repoId}:`, error);
+      const status = snapshotErrorStatus(error);
+      res.status(status).json(status === 500 ? { error: 'Failed to diff snapshot.', details: error.message } : { error: error.message });
+    }
+  });
+
+  // POST /api/v1/repositories/:repoId/snapshots/:name/restore
+  router.post('/:repoId/snapshots/:name/restore', async (req: Request, res: Response) => {
+    const { repoId, name } = req.params;
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      console.log(`[API] Restoring snapshot ${name} in repo ${repoId}`);
+      const result = await repositoryManager.runExclusive(repoId, 'snapshot-restore', () =>
+        snapshotService.restoreSnapshot(repository, name));
+      res.status(200).json({
+        message: result.commit
+          ? `Snapshot ${name} restored as commit ${result.commit.hash}.`
+          : `Repository ${repoId} already matches snapshot ${name}.`,
+        ...result,
+      });
+    } catch (error: any) {
+      console.error(`[API] Error restoring snapshot ${name} in repo ${repoId}:`, error);
+      const status = snapshotErrorStatus(error);
+      res.status(status).json(status === 500 ? { error: 'Failed to restore snapshot.', details: error.message } : { error: error.message });
+    }
+  });
+
+  // DELETE /api/v1/repositories/:repoId/snapshots/:name
+  router.delete('/:repoId/snapshots/:name', async (req: Request, res: Response) => {
+    const { repoId, name } = req.params;
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      await repositoryManager.runExclusive(repoId, 'snapshot-delete', () => snapshotService.deleteSnapshot(repository, name));
+      res.status(204).send();
+    } catch (error: any) {
+      console.error(`[API] Error deleting snapshot ${name} of repo ${repoId}:`, error);
+      const status = snapshotErrorStatus(error);
+      res.status(status).json(status === 500 ? { error: 'Failed to delete snapshot.', details: error.message } : { error: error.message });
+    }
+  });
+
+  return router;
+}
@@ -2,12 +2,139 @@ import express, { Request, Response, Router } from 'express';
 import { RepositoryManager } from '../core/repositoryManager';
 import { Repository } from '../core/repository';
 import { TimelineService } from '../core/timelineService';
+import { RepositoryBusyError } from '../core/errors';
+import { LspaceTrailers, TRAILER_KEYS } from '../core/commitTrailers';
+
+/**
+ * Rollbacks are non-destructive by default: the target tree is committed on top of the current
+ * history. Passing `destructive: true` (body) or `?destructive=true` moves the branch back instead.
+ */
+function isDestructive(req: Request): boolean {
+  return req.body?.destructive === true || req.query.destructive === 'true';
+}
+
+interface RollbackOutcome {
+  mode: 'restore' | 'hard';
+  targetCommit: string;
+  restoreCommit: string | null; // The new commit, for restores that changed anything
+  restoredFiles?: string[];
+  deletedFiles?: string[];
+}
+
+async function rollbackRepository(
+  repositoryManager: RepositoryManager,
+  repoId: string,
+  repository: Repository,
+  targetSha: string,
+  destructive: boolean,
+  message: string
+): Promise<RollbackOutcome> {
+  return repositoryManager.runExclusive(repoId, 'rollback', async () => {
+    if (destructive) {
+      await repository.rollbackToCommit(targetSha);
+      return { mode: 'hard', targetCommit: targetSha, restoreCommit: null };
+    }
+    const result = await repository.restoreTree(targetSha, {
+      message,
+      author: { name: 'Lspace Revert Service', email: 'revert@lspace.local' },
+    });
+    return {
+      mode: 'restore',
+      targetCommit: targetSha,
+      restoreCommit: result.commit?.hash || null,
+      restoredFiles: result.restoredFiles,
+      deletedFiles: result.deletedFiles,
+    };
+  });
+}
 
 export function createVersionControlRoutes(repositoryManager: RepositoryManager): Router {
   const router: Router = express.Router();
   const timelineService = new TimelineService();
 
-  // POST /api/v1/repositories/:repoId/commits/:commitSha/rollback-hard
+  // GET /api/v1/repositories/:repoId/compare?base=<ref>&head=<ref>[&context=<n>][&format=diff]
+  router.get('/:repoId/compare', async (req: Request, res: Response) => {
+    const { repoId } = req.params;
+    const base = req.query.base as string | undefined;
+    const head = req.query.head as string | undefined;
+
+    if (!base || !head) {
+      return res.status(400).json({ error: 'Query parameters base and head are required.' });
+    }
+
+    const contextLines = req.query.context !== undefined ? parseInt(req.query.context as string, 10) : undefined;
+    if (contextLines !== undefined && (isNaN(contextLines) || contextLines < 0)) {
+      return res.status(400).json({ error: 'context must be a non-negative integer.' });
+    }
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      const comparison = await repository.compareRefs(base, head, { contextLines });
+
+      if (req.query.format === 'diff') {
+        res.setHeader('Content-Type', 'text/plain');
+        return res.status(200).send(Repository.formatFileDiffs(comparison.files));
+      }
+      res.status(200).json(comparison);
+    } catch (error: any) {
+      console.error(`[API] Error comparing ${base}...${head} in repo ${repoId}:`, error);
+      if (error.message && error.message.toLowerCase().includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message && error.message.includes('does not point to a commit')) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to compare refs.', details: error.message });
+    }
+  });
+
+  // GET /api/v1/repositories/:repoId/commits?operation=&source=&rawCommit=&timelineId=&limit=
+  // Finds commits by their Lspace trailers
+  router.get('/:repoId/commits', async (req: Request, res: Response) => {
+    const { repoId } = req.params;
+    const filter: LspaceTrailers = {};
+    for (const field of Object.keys(TRAILER_KEYS) as (keyof LspaceTrailers)[]) {
+      if (typeof req.query[field] === 'string') {
+        (filter as Record<string, string>)[field] = req.query[field] as string;
+      }
+    }
+    const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : 50;
+    if (isNaN(limit) || limit < 1) {
+      return res.status(400).json({ error: 'limit must be a positive integer.' });
+    }
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      const commits = await repository.findCommitsByTrailers(filter, { limit });
+      res.status(200).json({ commits });
+    } catch (error: any) {
+      console.error(`[API] Error finding commits by trailers in repo ${repoId}:`, error);
+      if (error.message && error.message.toLowerCase().includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to find commits.', details: error.message });
+    }
+  });
+
+  // GET /api/v1/repositories/:repoId/commits/:commitSha/relations
+  // Raw input commit, derived KB commits and timeline entry of a commit, from its trailers
+  router.get('/:repoId/commits/:commitSha/relations', async (req: Request, res: Response) => {
+    const { repoId, commitSha } = req.params;
+
+    try {
+      const repository = repositoryManager.getRepository(repoId);
+      const relations = await repository.getCommitRelations(commitSha);
+      res.status(200).json(relations);
+    } catch (error: any) {
+      console.error(`[API] Error resolving relations of commit ${commitSha} in repo ${repoId}:`, error);
+      if (error.message && error.message.toLowerCase().includes('not found')) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to resolve commit relations.', details: error.message });
+    }
+  });
+
+  // POST /api/v1/repositories/:repoId/commits/:commitSha/rollback-hard[?destructive=true]
   router.post('/:repoId/commits/:commitSha/rollback-hard', async (req: Request, res: Response) => {
     const { repoId, commitSha } = req.params;
 
@@ -21,21 +148,32 @@ export function createVersionControlRoutes(repositoryManager: RepositoryManager)
         return res.status(404).json({ error: `Repository with ID '${repoId}' not found.` });
       }
 
-      console.log(`[API] Received request to roll back repo ${repoId} to commit ${commitSha}`);
-      await repository.rollbackToCommit(commitSha);
+      const destructive = isDestructive(req);
+      console.log(`[API] Received request to roll back repo ${repoId} to commit ${commitSha} (${destructive ? 'destructive' : 'restore'})`);
+      const outcome = await rollbackRepository(repositoryManager, repoId, repository, commitSha, destructive,
+        `Restore repository to ${commitSha.slice(0, 8)}`);
       
       res.status(200).json({ 
-        message: `Repository ${repoId} successfully rolled back to commit ${commitSha}.`,
+        message: destructive
+          ? `Repository ${repoId} successfully rolled back to commit ${commitSha}.`
+          : `Repository ${repoId} successfully restored to the state of commit ${commitSha}.`,
         repoId: repoId,
-        commitSha: commitSha 
+        commitSha: commitSha,
+        ...outcome
       });
 
     } catch (error: any) {
       console.error(`[API] Error during rollback for repo ${repoId} to commit ${commitSha}:`, error);
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       // Check if the error is due to repository not found from the manager itself
       if (error.message && error.message.toLowerCase().includes('not found')) {
         return res.status(404).json({ error: error.message });
       }
+      if (error.message && error.message.includes('does not point to a commit')) {
+        return res.status(400).json({ error: error.message });
+      }
       // Check for specific error from repository.rollbackToCommit
       if (error.message && error.message.startsWith('Failed to rollback')) {
         return res.status(500).json({ error: error.message, details: error.cause || 'Check service logs for more details.'});
@@ -44,7 +182,7 @@ export function createVersionControlRoutes(repositoryManager: RepositoryManager)
     }
   });
 
-  // POST /api/v1/repositories/:repoId/rollback/revert-file-and-kb
+  // POST /api/v1/repositories/:repoId/rollback/revert-file-and-kb[?destructive=true]
   router.post('/:repoId/rollback/revert-file-and-kb', async (req: Request, res: Response) => {
     const { repoId } = req.params;
     const { sourceFilePath } = req.body;
@@ -69,17 +207,25 @@ export function createVersionControlRoutes(repositoryManager: RepositoryManager)
         return res.status(404).json({ error: `Could not find commit before file upload of ${sourceFilePath} (upload commit: ${uploadCommitSha}). It might be the initial commit.` });
       }
 
-      console.log(`[API] Rolling back repo ${repoId} to state before upload of ${sourceFilePath} (target commit: ${targetSha})`);
-      await repository.rollbackToCommit(targetSha);
-      res.status(200).json({ message: `Repository ${repoId} rolled back to state before upload of ${sourceFilePath}. Target commit: ${targetSha}` });
+      const destructive = isDestructive(req);
+      console.log(`[API] Rolling back repo ${repoId} to state before upload of ${sourceFilePath} (target commit: ${targetSha}, ${destructive ? 'destructive' : 'restore'})`);
+      const outcome = await rollbackRepository(repositoryManager, repoId, repository, targetSha, destructive,
+        `Revert upload of ${sourceFilePath} and its knowledge base changes`);
+      res.status(200).json({
+        message: `Repository ${repoId} rolled back to state before upload of ${sourceFilePath}. Target commit: ${targetSha}`,
+        ...outcome
+      });
 
     } catch (error: any) {
       console.error(`[API] Error reverting file and KB for ${sourceFilePath} in repo ${repoId}:`, error);
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to process revert-file-and-kb request.', details: error.message });
     }
   });
 
-  // POST /api/v1/repositories/:repoId/rollback/revert-kb-for-file
+  // POST /api/v1/repositories/:repoId/rollback/revert-kb-for-file[?destructive=true]
   router.post('/:repoId/rollback/revert-kb-for-file', async (req: Request, res: Response) => {
     const { repoId } = req.params;
     const { sourceFilePath } = req.body;
@@ -99,12 +245,20 @@ export function createVersionControlRoutes(repositoryManager: RepositoryManager)
         return res.status(404).json({ error: `Could not find upload commit for file: ${sourceFilePath}` });
       }
 
-      console.log(`[API] Rolling back repo ${repoId} to the upload commit of ${sourceFilePath} (target commit: ${targetSha})`);
-      await repository.rollbackToCommit(targetSha);
-      res.status(200).json({ message: `Repository ${repoId} rolled back to the upload commit of ${sourceFilePath}. Target commit: ${targetSha}` });
+      const destructive = isDestructive(req);
+      console.log(`[API] Rolling back repo ${repoId} to the upload commit of ${sourceFilePath} (target commit: ${targetSha}, ${destructive ? 'destructive' : 'restore'})`);
+      const outcome = await rollbackRepository(repositoryManager, repoId, repository, targetSha, destructive,
+        `Revert knowledge base changes for ${sourceFilePath}`);
+      res.status(200).json({
+        message: `Repository ${repoId} rolled back to the upload commit of ${sourceFilePath}. Target commit: ${targetSha}`,
+        ...outcome
+      });
 
     } catch (error: any) {
       console.error(`[API] Error reverting KB for file ${sourceFilePath} in repo ${repoId}:`, error);
+      if (error instanceof RepositoryBusyError) {
+        return res.status(503).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to process revert-kb-for-file request.', details: error.message });
     }
   });
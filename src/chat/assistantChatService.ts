@@ -17,13 +17,13 @@ const proposeKbFileCreationTool = {
   type: 'function' as const,
   function: {
     name: 'propose_kb_file_creation',
-    description: "Use this tool to propose the creation of a new file in the knowledge base. Provide the full path relative to the 'knowledge-base/' directory and the complete content for the file.",
+    description: "Use this tool to propose the creation of a new file in the knowledge base. Provide the full path relative to the knowledge base root and the complete content for the file.",
     parameters: {
       type: "object",
       properties: {
         filePath: {
           type: "string",
-          description: "The path for the new file, relative to the 'knowledge-base/' directory (e.g., 'new-topic/summary.md'). Do not include 'knowledge-base/' in this path; it will be added automatically.",
+          description: "The path for the new file, relative to the knowledge base root (e.g., 'new-topic/summary.md').",
         },
         content: {
           type: "string",
@@ -39,13 +39,13 @@ const proposeKbFileEditTool = {
   type: 'function' as const,
   function: {
     name: 'propose_kb_file_edit',
-    description: "Use this tool to propose an update to an existing file in the knowledge base. Provide the full path relative to the 'knowledge-base/' directory and the complete new content for the file.",
+    description: "Use this tool to propose an update to an existing file in the knowledge base. Provide the full path relative to the knowledge base root and the complete new content for the file.",
     parameters: {
       type: "object",
       properties: {
         filePath: {
           type: "string",
-          description: "The path of the file to edit, relative to the 'knowledge-base/' directory (e.g., 'existing-topic/summary.md'). Do not include 'knowledge-base/' in this path.",
+          description: "The path of the file to edit, relative to the knowledge base root (e.g., 'existing-topic/summary.md').",
         },
         newContent: {
           type: "string",
@@ -66,13 +66,13 @@ const proposeKbFileDeleteTool = {
   type: 'function' as const,
   function: {
     name: 'propose_kb_file_delete',
-    description: "Use this tool to propose the deletion of an existing file in the knowledge base. Provide the full path relative to the 'knowledge-base/' directory.",
+    description: "Use this tool to propose the deletion of an existing file in the knowledge base. Provide the full path relative to the knowledge base root.",
     parameters: {
       type: "object",
       properties: {
         filePath: {
           type: "string",
-          description: "The path of the file to delete, relative to the 'knowledge-base/' directory (e.g., 'old-topic/summary.md'). Do not include 'knowledge-base/' in this path.",
+          description: "The path of the file to delete, relative to the knowledge base root (e.g., 'old-topic/summary.md').",
         },
         // Optional: Add a reason later if needed
         // reason: {
@@ -150,14 +150,24 @@ export class AssistantChatService {
     }
   }
 
+  // Absolute path of the repository's knowledge base root (its path_to_kb)
+  private async getKnowledgeBaseDirectory(repoId: string): Promise<string | null> {
+    try {
+      const repository = this.repositoryManager.getRepository(repoId);
+      return path.join(repository.path, repository.getKnowledgeBaseRoot());
+    } catch (error) {
+      console.error(`[AssistantChatService] Error getting knowledge base directory for ${repoId}:`, error);
+      return null;
+    }
+  }
+
   // Added private helper for path sanitization related to KB operations
   private async sanitizeKbPath(repoId: string, relativeFilePath: string): Promise<string | null> {
-    const repoPath = await this.getRepositoryPath(repoId);
-    if (!repoPath) {
-      console.error(`[AssistantChatService] Could not get repository path for ${repoId} during path sanitization.`);
+    const kbDir = await this.getKnowledgeBaseDirectory(repoId);
+    if (!kbDir) {
+      console.error(`[AssistantChatService] Could not get knowledge base directory for ${repoId} during path sanitization.`);
       return null;
     }
-    const kbDir = path.join(repoPath, 'knowledge-base');
     
     const fullPath = path.join(kbDir, relativeFilePath);
     const normalizedFullPath = path.normalize(fullPath);
@@ -166,8 +176,10 @@ export class AssistantChatService {
     if (normalizedFullPath.startsWith(normalizedKbDir) && normalizedFullPath !== normalizedKbDir) {
       // Ensure it's strictly within kbDir and not kbDir itself.
       // Also check for '..' in the original relativeFilePath as an extra precaution,
-      // though path.normalize should handle it.
-      if (!relativeFilePath.includes('..')) {
+      // though path.normalize should handle it. A knowledge base at the repository root
+      // shares it with .git and .lspace, which stay off limits.
+      const segments = relativeFilePath.split(/[\\/]/);
+      if (!relativeFilePath.includes('..') && !segments.includes('.git') && !segments.includes('.lspace')) {
         return normalizedFullPath;
       }
     }
@@ -240,7 +252,7 @@ export class AssistantChatService {
 
             const repoPath = await this.getRepositoryPath(repoId);
             if (repoPath) {
-              const kbPath = path.join(repoPath, 'knowledge-base');
+              const kbPath = (await this.getKnowledgeBaseDirectory(repoId)) || repoPath;
               const rawPath = path.join(repoPath, 'raw'); // Path for raw files
               let allFilePathsToUpload: string[] = [];
 
@@ -268,7 +280,7 @@ export class AssistantChatService {
                      console.log(`[AssistantChatService] Successfully uploaded ${fileStreams.length} files to vector store ${vectorStoreIdToUse}.`);
                 }
               } else {
-                console.log(`[AssistantChatService] No files found in knowledge-base or raw directories for repoId ${repoId}. Vector store ${vectorStoreIdToUse} will be empty initially.`);
+                console.log(`[AssistantChatService] No files found in knowledge base or raw directories for repoId ${repoId}. Vector store ${vectorStoreIdToUse} will be empty initially.`);
               }
             } else {
               console.warn(`[AssistantChatService] Could not get repository path for ${repoId}. Cannot populate vector store.`);
@@ -291,7 +303,7 @@ export class AssistantChatService {
     }
 
     console.log(`[AssistantChatService] Creating new assistant for repoId ${repoId} with vector store ${vectorStoreIdToUse}`);
-    const assistantInstructions = "You are a helpful assistant for the Lspace project. You can search the knowledge base files and raw uploaded files associated with this repository to answer questions. When asked about information that might be in these files, use your file search tool. If you need to create a new file in the knowledge base, use the `propose_kb_file_creation` tool. If you need to update an existing file, use the `propose_kb_file_edit` tool. If you need to delete a file from the knowledge base, use the `propose_kb_file_delete` tool. For all file operation tools, provide the `filePath` relative to the 'knowledge-base/' directory (e.g., 'summary.md' or 'topic/detail.md'). When referencing files, use Markdown links like [filename.md](knowledge-base/filename.md).";
+    const assistantInstructions = "You are a helpful assistant for the Lspace project. You can search the knowledge base files and raw uploaded files associated with this repository to answer questions. When asked about information that might be in these files, use your file search tool. If you need to create a new file in the knowledge base, use the `propose_kb_file_creation` tool. If you need to update an existing file, use the `propose_kb_file_edit` tool. If you need to delete a file from the knowledge base, use the `propose_kb_file_delete` tool. For all file operation tools, provide the `filePath` relative to the knowledge base root (e.g., 'summary.md' or 'topic/detail.md'). When referencing files, use Markdown links like [filename.md](filename.md).";
     
     const assistant = await this.openai.beta.assistants.create({
       name: `Lspace KB+Raw Assistant for ${repoId}`,
@@ -362,22 +374,13 @@ export class AssistantChatService {
 
         if (toolCall.function.name === 'propose_kb_file_creation') {
           console.log(`[AssistantChatService] Action required: ${toolCall.function.name}`);
-          messageForUser = `The assistant proposes to create a file at 'knowledge-base/${toolArgs.filePath}' with the provided content. Do you approve?`;
-          if (toolArgs.filePath.startsWith('knowledge-base/')) { // Defensive check
-            messageForUser = `The assistant proposes to create a file at '${toolArgs.filePath}' with the provided content. Do you approve?`;
-          }
+          messageForUser = `The assistant proposes to create a file at '${toolArgs.filePath}' in the knowledge base with the provided content. Do you approve?`;
         } else if (toolCall.function.name === 'propose_kb_file_edit') {
           console.log(`[AssistantChatService] Action required: ${toolCall.function.name}`);
-          messageForUser = `The assistant proposes to edit the file 'knowledge-base/${toolArgs.filePath}' with new content. Do you approve?`;
-          if (toolArgs.filePath.startsWith('knowledge-base/')) { // Defensive check
-            messageForUser = `The assistant proposes to edit the file '${toolArgs.filePath}' with new content. Do you approve?`;
-          }
+          messageForUser = `The assistant proposes to edit the file '${toolArgs.filePath}' in the knowledge base with new content. Do you approve?`;
         } else if (toolCall.function.name === 'propose_kb_file_delete') {
           console.log(`[AssistantChatService] Action required: ${toolCall.function.name}`);
-          messageForUser = `The assistant proposes to delete the file 'knowledge-base/${toolArgs.filePath}'. Do you approve?`;
-          if (toolArgs.filePath.startsWith('knowledge-base/')) { // Defensive check
-            messageForUser = `The assistant proposes to delete the file '${toolArgs.filePath}'. Do you approve?`;
-          }
+          messageForUser = `The assistant proposes to delete the file '${toolArgs.filePath}' in the knowledge base. Do you approve?`;
         } else {
           // Handle other tool calls or unknown tool calls if necessary
           console.warn(`[AssistantChatService] Run ${run.id} requires action for unhandled tool: ${toolCall.function.name}`);
@@ -469,7 +472,7 @@ export class AssistantChatService {
         } else {
             const targetFilePath = await this.sanitizeKbPath(repoId, toolArgs.filePath);
             if (!targetFilePath) {
-                toolOutputString = JSON.stringify({ success: false, error: `Invalid file path: ${toolArgs.filePath}. It might be outside the knowledge-base directory or contain invalid characters.` });
+                toolOutputString = JSON.stringify({ success: false, error: `Invalid file path: ${toolArgs.filePath}. It might be outside the knowledge base or contain invalid characters.` });
             } else {
                 try {
                     const dirForFile = path.dirname(targetFilePath);
@@ -510,7 +513,7 @@ export class AssistantChatService {
         } else {
             const targetFilePath = await this.sanitizeKbPath(repoId, toolArgs.filePath);
             if (!targetFilePath) {
-                toolOutputString = JSON.stringify({ success: false, error: `Invalid file path: ${toolArgs.filePath}. It might be outside the knowledge-base directory or contain invalid characters.` });
+                toolOutputString = JSON.stringify({ success: false, error: `Invalid file path: ${toolArgs.filePath}. It might be outside the knowledge base or contain invalid characters.` });
             } else {
                 try {
                     // Check if file exists before editing
@@ -557,7 +560,7 @@ export class AssistantChatService {
         } else {
             const targetFilePath = await this.sanitizeKbPath(repoId, toolArgs.filePath);
             if (!targetFilePath) {
-                toolOutputString = JSON.stringify({ success: false, error: `Invalid file path: ${toolArgs.filePath}. It might be outside the knowledge-base directory or contain invalid characters.` });
+                toolOutputString = JSON.stringify({ success: false, error: `Invalid file path: ${toolArgs.filePath}. It might be outside the knowledge base or contain invalid characters.` });
             } else {
                 try {
                     // Check if file exists before deleting
@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigIssue, ConfigValidationError } from '../core/errors';
+import { parseRemoteUrl } from '../adapters/gitAdapter';
+import { normalizeKnowledgeBaseRoot } from '../core/repository';
+import type { CredentialsConfig, SavedRepositoryConfig } from '../core/repositoryManager';
+
+/**
+ * Schema and migrations for config.local.json. Files without a `version` are version 0 and
+ * are migrated step by step to CURRENT_CONFIG_VERSION before they are validated.
+ */
+
+export const CURRENT_CONFIG_VERSION = 1;
+
+export interface LspaceConfig {
+  version: number;
+  credentials?: CredentialsConfig;
+  repositories: SavedRepositoryConfig[];
+}
+
+export interface ConfigMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (config: any) => any;
+}
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Add the version field, give every repository a stable ID and fill in defaults',
+    migrate: config => ({
+      ...config,
+      version: 1,
+      credentials: config.credentials
+        ? { ...config.credentials, github_pats: config.credentials.github_pats ?? [] }
+        : undefined,
+      repositories: Array.isArray(config.repositories)
+        ? config.repositories.map((repo: any) => {
+          if (!repo || typeof repo !== 'object') {
+            return repo; // Reported by validation
+          }
+          return {
+            ...repo,
+            id: repo.id || uuidv4(), // IDs used to be regenerated on every start when missing
+            path_to_kb: repo.path_to_kb ?? '.',
+            ...(repo.type === 'github' ? { branch: repo.branch || 'main' } : {}),
+          };
+        })
+        : config.repositories,
+    }),
+  },
+];
+
+const nonEmpty = z.string().min(1);
+
+const cloneOptions = {
+  clone_depth: z.number().int().positive().optional(),
+  full_history: z.boolean().optional(),
+};
+
+const repositoryBase = {
+  id: nonEmpty,
+  name: nonEmpty,
+  path_to_kb: nonEmpty.optional(),
+};
+
+// Unknown keys are rejected so that typos (e.g. "pat_allias") are reported instead of ignored
+const repositorySchema = z.discriminatedUnion('type', [
+  z.object({ ...repositoryBase, type: z.literal('local'), path: nonEmpty }).strict(),
+  z.object({
+    ...repositoryBase,
+    ...cloneOptions,
+    type: z.literal('github'),
+    owner: nonEmpty,
+    repo: nonEmpty,
+    branch: nonEmpty,
+    pat_alias: nonEmpty,
+  }).strict(),
+  z.object({
+    ...repositoryBase,
+    ...cloneOptions,
+    type: z.literal('git'),
+    url: nonEmpty,
+    branch: nonEmpty,
+    credential_alias: nonEmpty.optional(),
+  }).strict(),
+]);
+
+// A secret inline (plaintext) or a reference to where it is kept (see core/secrets)
+const secretSchema = z.union([
+  nonEmpty,
+  z.object({ env: nonEmpty }).strict(),
+  z.object({ file: nonEmpty }).strict(),
+  z.object({ keystore: nonEmpty }).strict(),
+], { errorMap: () => ({ message: 'Expected a string or one of { "env": ... }, { "file": ... }, { "keystore": ... }' }) });
+
+const credentialsSchema = z.object({
+  github_pats: z.array(z.object({ alias: nonEmpty, token: secretSchema }).strict()),
+  git_credentials: z.array(z.object({
+    alias: nonEmpty,
+    username: nonEmpty.optional(),
+    token: secretSchema.optional(),
+    ssh_key_path: nonEmpty.optional(),
+    known_hosts_path: nonEmpty.optional(),
+  }).strict().refine(credential => credential.token || credential.ssh_key_path, {
+    message: 'A git credential needs a token (HTTPS) or an ssh_key_path (SSH)',
+  })).optional(),
+}).strict();
+
+const configSchema = z.object({
+  version: z.literal(CURRENT_CONFIG_VERSION),
+  credentials: credentialsSchema.optional(),
+  repositories: z.array(repositorySchema),
+}).strict().superRefine((config, ctx) => {
+  const issue = (path: (string | number)[], message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+  const patAliases = new Set<string>();
+  config.credentials?.github_pats.forEach((pat, index) => {
+    if (patAliases.has(pat.alias)) {
+      issue(['credentials', 'github_pats', index, 'alias'], `Duplicate PAT alias "${pat.alias}"`);
+    }
+    patAliases.add(pat.alias);
+  });
+  const gitAliases = new Set<string>();
+  config.credentials?.git_credentials?.forEach((credential, index) => {
+    if (gitAliases.has(credential.alias)) {
+      issue(['credentials', 'git_credentials', index, 'alias'], `Duplicate git credential alias "${credential.alias}"`);
+    }
+    gitAliases.add(credential.alias);
+  });
+
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  config.repositories.forEach((repo, index) => {
+    if (ids.has(repo.id)) {
+      issue(['repositories', index, 'id'], `Duplicate repository ID "${repo.id}"`);
+    }
+    ids.add(repo.id);
+    if (names.has(repo.name)) {
+      issue(['repositories', index, 'name'], `Duplicate repository name "${repo.name}"`);
+    }
+    names.add(repo.name);
+    if (repo.path_to_kb !== undefined) {
+      try {
+        normalizeKnowledgeBaseRoot(repo.path_to_kb);
+      } catch (error: any) {
+        issue(['repositories', index, 'path_to_kb'], error.message);
+      }
+    }
+
+    if (repo.type === 'github' && !patAliases.has(repo.pat_alias)) {
+      issue(['repositories', index, 'pat_alias'], `PAT alias "${repo.pat_alias}" not found in credentials.github_pats`);
+    }
+    if (repo.type === 'git') {
+      try {
+        parseRemoteUrl(repo.url);
+      } catch (error: any) {
+        issue(['repositories', index, 'url'], error.message);
+      }
+      if (repo.credential_alias && !gitAliases.has(repo.credential_alias)) {
+        issue(['repositories', index, 'credential_alias'], `Git credential alias "${repo.credential_alias}" not found in credentials.git_credentials`);
+      }
+    }
+  });
+});
+
+function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, segment) =>
+    typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment, '');
+}
+
+/**
+ * Bring a parsed configuration file up to CURRENT_CONFIG_VERSION.
+ * @returns The migrated configuration and the version it was migrated from, or null if it was current
+ * @throws ConfigValidationError for versions this build does not know
+ */
+export function migrateConfig(raw: any, source: string): { config: any; migratedFrom: number | null } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigValidationError(source, [{ path: '', message: 'Expected a JSON object' }]);
+  }
+  const version = raw.version ?? 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new ConfigValidationError(source, [{ path: 'version', message: `Invalid config version ${JSON.stringify(raw.version)}` }]);
+  }
+  if (version > CURRENT_CONFIG_VERSION) {
+    throw new ConfigValidationError(source, [{
+      path: 'version',
+      message: `Config version ${version} was written by a newer version of Lspace; this version supports up to ${CURRENT_CONFIG_VERSION}`,
+    }]);
+  }
+
+  let config = raw;
+  for (let current = version; current < CURRENT_CONFIG_VERSION; current++) {
+    const migration = CONFIG_MIGRATIONS.find(candidate => candidate.from === current);
+    if (!migration) {
+      throw new Error(`No migration from config version ${current}`);
+    }
+    config = migration.migrate(config);
+  }
+  return { config, migratedFrom: version === CURRENT_CONFIG_VERSION ? null : version };
+}
+
+/**
+ * Parse, migrate and validate the contents of a configuration file.
+ * @param text File contents
+ * @param source File path, used in error messages
+ * @throws ConfigValidationError listing every problem found
+ */
+export function parseConfig(text: string, source: string): { config: LspaceConfig; migratedFrom: number | null } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error: any) {
+    throw new ConfigValidationError(source, [{ path: '', message: `Invalid JSON: ${error.message}` }]);
+  }
+
+  const { config, migratedFrom } = migrateConfig(raw, source);
+  const result = configSchema.safeParse(config);
+  if (!result.success) {
+    const issues: ConfigIssue[] = result.error.issues.map(issue => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message,
+    }));
+    throw new ConfigValidationError(source, issues);
+  }
+  return { config: result.data as LspaceConfig, migratedFrom };
+}
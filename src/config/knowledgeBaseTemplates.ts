@@ -0,0 +1,91 @@
+/**
+ * Starter templates for new knowledge bases. Each template is a set of files written into
+ * the knowledge base root before the initial commit; `{{name}}` is replaced with the
+ * knowledge base name. Every template must provide README.md, the knowledge base entry point.
+ */
+
+export interface KnowledgeBaseTemplate {
+  name: string;
+  description: string;
+  files: Record<string, string>;
+}
+
+export const DEFAULT_KNOWLEDGE_BASE_TEMPLATE = 'blank';
+
+const KNOWLEDGE_BASE_TEMPLATES: KnowledgeBaseTemplate[] = [
+  {
+    name: 'blank',
+    description: 'An empty knowledge base with only a README.',
+    files: {
+      'README.md': `# {{name}}
+
+This knowledge base is maintained by Lspace. Add documents and they will be synthesized into
+the pages linked from here.
+`,
+    },
+  },
+  {
+    name: 'project-docs',
+    description: 'Documentation for a software project: overview, architecture, guides and decisions.',
+    files: {
+      'README.md': `# {{name}}
+
+## Overview
+
+_What the project is and who it is for._
+
+## Contents
+
+- [Architecture](./architecture/README.md)
+- [Guides](./guides/README.md)
+- [Decisions](./decisions/README.md)
+`,
+      'architecture/README.md': `# Architecture
+
+_Components, how they fit together and the main data flows._
+`,
+      'guides/README.md': `# Guides
+
+_How-to guides for setting up, using and operating the project._
+`,
+      'decisions/README.md': `# Decisions
+
+_Significant decisions, the options considered and why one was chosen._
+`,
+    },
+  },
+  {
+    name: 'research-notes',
+    description: 'Notes on a research topic: sources, concepts and open questions.',
+    files: {
+      'README.md': `# {{name}}
+
+## Contents
+
+- [Concepts](./concepts/README.md)
+- [Sources](./sources/README.md)
+- [Open questions](./open-questions.md)
+`,
+      'concepts/README.md': `# Concepts
+
+_Key ideas, each summarized across the sources that discuss it._
+`,
+      'sources/README.md': `# Sources
+
+_Papers, articles and conversations this knowledge base draws on._
+`,
+      'open-questions.md': `# Open questions
+
+_Questions the sources do not answer yet._
+`,
+    },
+  },
+];
+
+export function listKnowledgeBaseTemplates(): KnowledgeBaseTemplate[] {
+  return KNOWLEDGE_BASE_TEMPLATES;
+}
+
+export function getKnowledgeBaseTemplate(name: string): KnowledgeBaseTemplate | undefined {
+  return KNOWLEDGE_BASE_TEMPLATES.find(template => template.name === name);
+}
@@ -7,6 +7,12 @@
  * content integration and article generation.
  */
 
+/**
+ * Version of the prompts in this file, recorded as the Lspace-Prompt-Version trailer on commits
+ * produced by the LLM. Bump it whenever a prompt or tool definition changes meaningfully.
+ */
+export const PROMPT_VERSION = '1';
+
 export const systemPrompt = `\
 You are an AI knowledge architect tasked with building and maintaining a high-quality, cohesive knowledge base from multiple input documents within a Git repository.
 Your primary goal is to create a well-structured, interconnected knowledge base in the root of the repository, with README.md serving as the main entry point. You will synthesize information across documents rather than simply storing them separately.
@@ -0,0 +1,120 @@
+/**
+ * Machine-readable git trailers written on every Lspace commit, e.g.
+ *
+ *   Knowledge Base Update: notes.md
+ *
+ *   Lspace-Operation: kb-update
+ *   Lspace-Source: .lspace/raw_inputs/notes.md
+ *   Lspace-Raw-Commit: 3f2a...
+ *   Lspace-Timeline-Id: 9b1c...
+ *   Lspace-Prompt-Version: 1
+ *
+ * They let the history, blame and revert features link commits to each other without
+ * depending on the wording of commit messages.
+ */
+
+export type LspaceOperation =
+  | 'init'         // Initial commit of a new knowledge base
+  | 'raw-input'    // A raw input captured under .lspace/raw_inputs
+  | 'kb-update'    // Knowledge base changes synthesized by the LLM from a raw input
+  | 'kb-generate'  // Bulk knowledge base (re)generation
+  | 'import'       // Existing documents brought into the knowledge base as they are, without the LLM
+  | 'organize'
+  | 'prune'
+  | 'file-update'  // Direct edits through the file API
+  | 'file-delete'
+  | 'file-move'
+  | 'file-batch'
+  | 'chat-edit'    // Edits made by the chat assistant
+  | 'revert'
+  | 'restore'      // Tracked files reset to an earlier commit or snapshot, as a new commit
+  | 'sync'         // Merge of the remote branch into diverged local commits
+  | 'timeline';    // Bookkeeping commits that only touch .lspace/
+
+export interface LspaceTrailers {
+  operation?: LspaceOperation;
+  /** Repository-relative path of the raw input the commit was derived from */
+  source?: string;
+  /** SHA of the commit that added the raw input */
+  rawCommit?: string;
+  /** ID of the timeline entry for the operation */
+  timelineId?: string;
+  /** Version of the LLM prompts that produced the commit */
+  promptVersion?: string;
+}
+
+export const TRAILER_KEYS: Record<keyof LspaceTrailers, string> = {
+  operation: 'Lspace-Operation',
+  source: 'Lspace-Source',
+  rawCommit: 'Lspace-Raw-Commit',
+  timelineId: 'Lspace-Timeline-Id',
+  promptVersion: 'Lspace-Prompt-Version',
+};
+
+const TRAILER_LINE = /^([A-Za-z0-9][A-Za-z0-9-]*):\s*(.*)$/;
+
+/**
+ * Render trailers as `Key: value` lines, in a fixed order. Empty values are skipped.
+ */
+export function formatTrailers(trailers: LspaceTrailers): string {
+  return (Object.keys(TRAILER_KEYS) as (keyof LspaceTrailers)[])
+    .filter(field => trailers[field])
+    .map(field => `${TRAILER_KEYS[field]}: ${String(trailers[field]).replace(/\s*[\r\n]+\s*/g, ' ').trim()}`)
+    .join('\n');
+}
+
+/**
+ * Append a trailer block to a commit message, separated by a blank line as git expects.
+ */
+export function appendTrailers(message: string, trailers?: LspaceTrailers): string {
+  const block = trailers ? formatTrailers(trailers) : '';
+  if (!block) {
+    return message;
+  }
+  const body = message.replace(/\s+$/, '');
+  return body ? `${body}\n\n${block}\n` : `${block}\n`;
+}
+
+/**
+ * Parse the trailer block (the last paragraph, if every line is `Key: value`) of a commit message.
+ */
+export function parseTrailerBlock(message: string): Record<string, string> {
+  const paragraphs = message.replace(/\s+$/, '').split(/\n\s*\n/);
+  if (paragraphs.length < 2) {
+    return {};
+  }
+  const lines = paragraphs[paragraphs.length - 1].split('\n');
+  const trailers: Record<string, string> = {};
+  for (const line of lines) {
+    const match = TRAILER_LINE.exec(line.trim());
+    if (!match) {
+      return {};
+    }
+    trailers[match[1].toLowerCase()] = match[2].trim();
+  }
+  return trailers;
+}
+
+/**
+ * Read the Lspace trailers from a commit message. Keys are matched case-insensitively, as in git.
+ */
+export function parseTrailers(message: string): LspaceTrailers {
+  const block = parseTrailerBlock(message);
+  const trailers: LspaceTrailers = {};
+  for (const field of Object.keys(TRAILER_KEYS) as (keyof LspaceTrailers)[]) {
+    const value = block[TRAILER_KEYS[field].toLowerCase()];
+    if (value) {
+      (trailers as Record<string, string>)[field] = value;
+    }
+  }
+  return trailers;
+}
+
+/**
+ * Whether a commit's trailers contain every field given in the filter.
+ */
+export function matchesTrailers(trailers: LspaceTrailers, filter: LspaceTrailers): boolean {
+  return (Object.keys(filter) as (keyof LspaceTrailers)[])
+    .filter(field => filter[field] !== undefined)
+    .every(field => trailers[field] === filter[field]);
+}
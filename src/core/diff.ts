@@ -0,0 +1,269 @@
+/**
+ * Line-based diff utilities used to render unified (git-style) diffs.
+ * Implements Myers' O(ND) algorithm, which is fast for the small-to-medium
+ * text files a knowledge base typically contains.
+ */
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  /** Set on the last line of a file that does not end with a newline */
+  noNewlineAtEnd?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+export const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Split text into lines, dropping the empty element produced by a trailing newline.
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+// Beyond this many edits the shortest edit script is not worth its cost: the changed region is
+// reported as removed and re-added instead
+export const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Compute the shortest edit script between two line arrays.
+ * Lines shared at both ends are matched up front; memory for the rest grows with the square of
+ * the number of edits, which is capped at `maxEditDistance`.
+ */
+export function diffLines(oldLines: string[], newLines: string[], maxEditDistance: number = MAX_EDIT_DISTANCE): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+    suffix++;
+  }
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const middle = myersDiff(oldMiddle, newMiddle, maxEditDistance) ?? [
+    ...oldMiddle.map((content): DiffLine => ({ type: 'remove', content })),
+    ...newMiddle.map((content): DiffLine => ({ type: 'add', content })),
+  ];
+  return [
+    ...oldLines.slice(0, prefix).map((content): DiffLine => ({ type: 'context', content })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map((content): DiffLine => ({ type: 'context', content })),
+  ];
+}
+
+// Myers' O(ND) algorithm; null when more than maxEditDistance edits are needed
+function myersDiff(oldLines: string[], newLines: string[], maxEditDistance: number): DiffLine[] | null {
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n === 0 || m === 0) {
+    return [
+      ...oldLines.map((content): DiffLine => ({ type: 'remove', content })),
+      ...newLines.map((content): DiffLine => ({ type: 'add', content })),
+    ];
+  }
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 4).fill(0);
+  // trace[d] keeps only diagonals -(d + 1)..d + 1 of v before step d, the ones the walk back reads
+  const trace: number[][] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    if (d > maxEditDistance) {
+      return null;
+    }
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script.
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && vd[d + k] < vd[d + k + 2])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = vd[d + 1 + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'context', content: oldLines[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({ type: 'add', content: newLines[y - 1] });
+      } else {
+        result.push({ type: 'remove', content: oldLines[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return result.reverse();
+}
+
+/**
+ * Diff two texts and group the changes into hunks with the given number of context lines.
+ */
+export function diffText(oldText: string, newText: string, contextLines: number = DEFAULT_CONTEXT_LINES): TextDiff {
+  // A last line without a newline keeps one as a marker, so it differs from the same line with one
+  const markedLines = (text: string) => {
+    const lines = splitLines(text);
+    if (lines.length > 0 && !text.endsWith('\n')) {
+      lines[lines.length - 1] += '\n';
+    }
+    return lines;
+  };
+  const script = diffLines(markedLines(oldText), markedLines(newText)).map((line): DiffLine =>
+    line.content.endsWith('\n') ? { ...line, content: line.content.slice(0, -1), noNewlineAtEnd: true } : line);
+  const context = Math.max(0, Math.floor(contextLines));
+
+  let additions = 0;
+  let deletions = 0;
+  const changeIndexes: number[] = [];
+  script.forEach((line, index) => {
+    if (line.type === 'add') additions++;
+    if (line.type === 'remove') deletions++;
+    if (line.type !== 'context') changeIndexes.push(index);
+  });
+
+  // Merge changes whose surrounding context would overlap into a single range.
+  const ranges: Array<[number, number]> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(script.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  // Line numbers (1-based) in old/new files before each script entry.
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of script) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+  }
+
+  const hunks: DiffHunk[] = ranges.map(([start, end]) => {
+    const lines = script.slice(start, end + 1);
+    const oldCount = lines.filter(l => l.type !== 'add').length;
+    const newCount = lines.filter(l => l.type !== 'remove').length;
+    // Git reports the line before an empty range (e.g. "-0,0" for a new file).
+    return {
+      oldStart: oldCount === 0 ? oldLineAt[start] - 1 : oldLineAt[start],
+      oldLines: oldCount,
+      newStart: newCount === 0 ? newLineAt[start] - 1 : newLineAt[start],
+      newLines: newCount,
+      lines,
+    };
+  });
+
+  return { hunks, additions, deletions };
+}
+
+/**
+ * Render hunks in unified diff format (without the file header lines).
+ */
+export function formatHunks(hunks: DiffHunk[]): string {
+  let output = '';
+  for (const hunk of hunks) {
+    const oldRange = hunk.oldLines === 1 ? `${hunk.oldStart}` : `${hunk.oldStart},${hunk.oldLines}`;
+    const newRange = hunk.newLines === 1 ? `${hunk.newStart}` : `${hunk.newStart},${hunk.newLines}`;
+    output += `@@ -${oldRange} +${newRange} @@\n`;
+    for (const line of hunk.lines) {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output += `${prefix}${line.content}\n`;
+      if (line.noNewlineAtEnd) {
+        output += '\\ No newline at end of file\n';
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Heuristic used by git: content containing a NUL byte in its first 8000 bytes is binary.
+ */
+export function isBinaryContent(content: Uint8Array): boolean {
+  const length = Math.min(content.length, 8000);
+  for (let i = 0; i < length; i++) {
+    if (content[i] === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Percentage (0-100) of lines shared between two texts, relative to the longer one.
+ * Used for rename detection, where git's default threshold is 50%.
+ */
+export function similarityIndex(oldText: string, newText: string): number {
+  if (oldText === newText) {
+    return 100;
+  }
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const longest = Math.max(oldLines.length, newLines.length);
+  if (longest === 0) {
+    return 100;
+  }
+  const common = diffLines(oldLines, newLines).filter(line => line.type === 'context').length;
+  return Math.floor((common / longest) * 100);
+}
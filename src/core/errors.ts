@@ -0,0 +1,149 @@
+/**
+ * Typed errors raised by the repository layer. Routes and tools map path errors to
+ * consistent responses via `httpStatusForPathError`.
+ */
+
+export type RepositoryPathErrorCode = 'PATH_OUTSIDE_REPOSITORY' | 'PATH_PROTECTED';
+
+export class RepositoryPathError extends Error {
+  readonly code: RepositoryPathErrorCode;
+  readonly path: string;
+
+  constructor(code: RepositoryPathErrorCode, path: string, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.path = path;
+  }
+}
+
+/**
+ * The path (or the location a symlink along it points to) is outside the repository root.
+ */
+export class PathOutsideRepositoryError extends RepositoryPathError {
+  constructor(path: string, reason: string = 'it resolves outside the repository') {
+    super('PATH_OUTSIDE_REPOSITORY', path, `Invalid path "${path}": ${reason}.`);
+  }
+}
+
+/**
+ * The path is inside the repository but may not be accessed this way (e.g. writes into .git).
+ */
+export class ProtectedPathError extends RepositoryPathError {
+  constructor(path: string, reason: string) {
+    super('PATH_PROTECTED', path, `Access to "${path}" is forbidden: ${reason}.`);
+  }
+}
+
+export function isRepositoryPathError(error: unknown): error is RepositoryPathError {
+  return error instanceof RepositoryPathError;
+}
+
+/**
+ * HTTP status for a path error: 400 for paths escaping the repository, 403 for protected paths.
+ */
+export function httpStatusForPathError(error: RepositoryPathError): number {
+  return error.code === 'PATH_PROTECTED' ? 403 : 400;
+}
+
+/**
+ * A repository operation could not start because another operation held the repository
+ * for longer than the configured wait timeout.
+ */
+export class RepositoryBusyError extends Error {
+  readonly repositoryId: string;
+  readonly operation: string;
+  readonly waitedMs: number;
+
+  constructor(repositoryId: string, operation: string, waitedMs: number, runningOperation?: string) {
+    const holder = runningOperation ? ` (busy with "${runningOperation}")` : '';
+    super(`Repository ${repositoryId} is busy${holder}; "${operation}" gave up after waiting ${waitedMs}ms.`);
+    this.name = 'RepositoryBusyError';
+    this.repositoryId = repositoryId;
+    this.operation = operation;
+    this.waitedMs = waitedMs;
+  }
+}
+
+/**
+ * Local commits and the remote branch could not be combined automatically during a sync.
+ * The merge was aborted, so the local branch is unchanged; the repository needs attention.
+ */
+export class SyncConflictError extends Error {
+  readonly branch: string;
+  readonly conflictingFiles: string[];
+
+  constructor(branch: string, conflictingFiles: string[], detail?: string) {
+    const files = conflictingFiles.length > 0 ? ` in ${conflictingFiles.join(', ')}` : '';
+    super(`Sync of branch ${branch} stopped: local changes conflict with the remote${files}.${detail ? ` ${detail}` : ''}`);
+    this.name = 'SyncConflictError';
+    this.branch = branch;
+    this.conflictingFiles = conflictingFiles;
+  }
+}
+
+export interface ConfigIssue {
+  path: string; // Location in the file, e.g. "repositories[2].pat_alias"
+  message: string;
+}
+
+/**
+ * The configuration file is not valid JSON, does not match the schema, or was written by a
+ * newer version of Lspace. Lists every problem found, not just the first.
+ */
+export class ConfigValidationError extends Error {
+  readonly source: string;
+  readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    const details = issues.map(issue => `  - ${issue.path ? `${issue.path}: ` : ''}${issue.message}`).join('\n');
+    super(`Invalid configuration in ${source}:\n${details}`);
+    this.name = 'ConfigValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A credential's secret could not be read from where its reference points. The message
+ * names the reference (an environment variable, file or keystore entry), never the secret.
+ */
+export class SecretResolutionError extends Error {
+  readonly reference: string;
+
+  constructor(reference: string, reason: string) {
+    super(`Secret ${reference} could not be resolved: ${reason}.`);
+    this.name = 'SecretResolutionError';
+    this.reference = reference;
+  }
+}
+
+/**
+ * The encrypted keystore was used without a master key, or with the wrong one.
+ */
+export class KeystoreLockedError extends Error {
+  constructor(reason: string = 'set LSPACE_MASTER_KEY to unlock it') {
+    super(`Credential keystore is locked: ${reason}.`);
+    this.name = 'KeystoreLockedError';
+  }
+}
+
+/**
+ * A repository was not removed because it has commits that are not on its remote yet, either
+ * ahead of the remote branch or waiting in the push outbox.
+ */
+export class UnpushedCommitsError extends Error {
+  readonly repositoryId: string;
+  readonly unpushedCommits: number;
+
+  constructor(repositoryId: string, unpushedCommits: number, pushPending: boolean) {
+    const unpushed = [
+      unpushedCommits > 0 ? `${unpushedCommits} unpushed commit${unpushedCommits === 1 ? '' : 's'}` : '',
+      pushPending ? 'a push waiting to be retried' : '',
+    ].filter(Boolean).join(' and ');
+    super(`Repository ${repositoryId} has ${unpushed}; push first or remove it with force.`);
+    this.name = 'UnpushedCommitsError';
+    this.repositoryId = repositoryId;
+    this.unpushedCommits = unpushedCommits;
+  }
+}
@@ -1,6 +1,6 @@
 import { Repository, FileInfo } from './repository';
+import { isRepositoryPathError } from './errors';
 import pathLib from 'path';
-import fs from 'fs';
 
 // Interface defined in llmService.ts - ensure it matches or import if possible
 // For now, duplicating for clarity if not directly importable due to module structure
@@ -24,11 +24,18 @@ const LSPACE_DIR = '.lspace';
 const LSPACE_DIR_SLASH = '.lspace/';
 const FORBIDDEN_ACCESS_ERROR = 'Access to the .lspace directory is forbidden.';
 
+export interface FileSystemToolOptions {
+  // Interpret paths relative to the repository's knowledge base root and refuse anything outside it
+  knowledgeBaseOnly?: boolean;
+}
+
 export class FileSystemToolImpl implements FileSystemToolService {
   private repository: Repository;
+  private knowledgeBaseOnly: boolean;
 
-  constructor(repository: Repository) {
+  constructor(repository: Repository, options: FileSystemToolOptions = {}) {
     this.repository = repository;
+    this.knowledgeBaseOnly = options.knowledgeBaseOnly ?? false;
   }
 
   private isPathForbidden(relativePath: string): boolean {
@@ -37,7 +44,7 @@ export class FileSystemToolImpl implements FileSystemToolService {
 
   async readFile(path: string): Promise<{ success: boolean; content?: string; error?: string }> {
     try {
-      const relativePath = this.getRelativePath(path);
+      const relativePath = await this.getRelativePath(path);
       if (this.isPathForbidden(relativePath)) {
         return { success: false, error: FORBIDDEN_ACCESS_ERROR };
       }
@@ -46,23 +53,21 @@ export class FileSystemToolImpl implements FileSystemToolService {
       }
       const content = await this.repository.readFile(relativePath);
       return { success: true, content };
-    } catch (e: any) { 
-      console.error(`[FileSystemToolImpl] Error reading file ${path}:`, e);
-      return { success: false, error: e.message };
+    } catch (e: any) {
+      return this.failure('reading file', path, e);
     }
   }
 
   async writeFile(path: string, content: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const relativePath = this.getRelativePath(path);
+      const relativePath = await this.getRelativePath(path);
       if (this.isPathForbidden(relativePath)) {
         return { success: false, error: FORBIDDEN_ACCESS_ERROR };
       }
       await this.repository.writeFile(relativePath, content);
       return { success: true };
     } catch (e: any) {
-      console.error(`[FileSystemToolImpl] Error writing file ${path}:`, e);
-      return { success: false, error: e.message };
+      return this.failure('writing file', path, e);
     }
   }
 
@@ -70,7 +75,7 @@ export class FileSystemToolImpl implements FileSystemToolService {
   // A more advanced version would parse specific edit instructions.
   async editFile(path: string, edits: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const relativePath = this.getRelativePath(path);
+      const relativePath = await this.getRelativePath(path);
       if (this.isPathForbidden(relativePath)) {
         return { success: false, error: FORBIDDEN_ACCESS_ERROR };
       }
@@ -81,28 +86,26 @@ export class FileSystemToolImpl implements FileSystemToolService {
       await this.repository.writeFile(relativePath, edits);
       return { success: true };
     } catch (e: any) {
-      console.error(`[FileSystemToolImpl] Error editing file ${path}:`, e);
-      return { success: false, error: e.message };
+      return this.failure('editing file', path, e);
     }
   }
 
   async createDirectory(path: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const relativePath = this.getRelativePath(path);
+      const relativePath = await this.getRelativePath(path);
       if (this.isPathForbidden(relativePath)) {
         return { success: false, error: FORBIDDEN_ACCESS_ERROR };
       }
       await this.repository.ensureDirectoryExists(relativePath);
       return { success: true };
     } catch (e: any) {
-      console.error(`[FileSystemToolImpl] Error creating directory ${path}:`, e);
-      return { success: false, error: e.message };
+      return this.failure('creating directory', path, e);
     }
   }
 
   async listDirectory(path: string): Promise<{ success: boolean; content?: string[]; error?: string }> {
     try {
-      const relativePath = this.getRelativePath(path);
+      const relativePath = await this.getRelativePath(path);
       if (this.isPathForbidden(relativePath)) {
         // For listDirectory, if they try to list .lspace itself, return empty or error.
         // If they list a subdirectory of .lspace, that's also forbidden.
@@ -112,24 +115,23 @@ export class FileSystemToolImpl implements FileSystemToolService {
       const directoryContent = filesInfo.map(f => pathLib.basename(f.path) + (f.type === 'directory' ? '/' : ''));
       return { success: true, content: directoryContent };
     } catch (e: any) {
-      console.error(`[FileSystemToolImpl] Error listing directory ${path}:`, e);
-      return { success: false, error: e.message };
+      return this.failure('listing directory', path, e);
     }
   }
 
   async getFileTree(rootPath: string): Promise<{ success: boolean; tree?: FileNode; error?: string }> {
     try {
-      const relativeRootPath = this.getRelativePath(rootPath);
+      const relativeRootPath = await this.getRelativePath(rootPath);
       // getFileTree itself can be called on subdirectories. The .lspace exclusion is handled in buildTreeRecursive for the root.
       // If rootPath itself is .lspace or inside .lspace, that should be an error here.
       if (this.isPathForbidden(relativeRootPath)){
           return { success: false, error: FORBIDDEN_ACCESS_ERROR };
       }
 
-      const fullRootPath = pathLib.resolve(this.repository.path, relativeRootPath);
+      const fullRootPath = await this.repository.resolvePath(relativeRootPath);
 
       try {
-        const stats = await fs.promises.stat(fullRootPath);
+        const stats = await this.repository.fs.promises.stat(fullRootPath);
         if (!stats.isDirectory()) {
           return { success: false, error: `Path is not a directory: ${rootPath}` };
         }
@@ -140,19 +142,18 @@ export class FileSystemToolImpl implements FileSystemToolService {
       const tree = await this.buildTreeRecursive(relativeRootPath);
       return { success: true, tree };
     } catch (e: any) {
-      console.error(`[FileSystemToolImpl] Error getting file tree for ${rootPath}:`, e);
-      return { success: false, error: e.message };
+      return this.failure('getting file tree for', rootPath, e);
     }
   }
 
   private async buildTreeRecursive(currentPathInRepo: string): Promise<FileNode> {
-    const fullAbsolutePath = pathLib.resolve(this.repository.path, currentPathInRepo);
+    const fullAbsolutePath = await this.repository.resolvePath(currentPathInRepo, { knowledgeBase: this.knowledgeBaseOnly });
     const name = pathLib.basename(fullAbsolutePath);
-    const stats = await fs.promises.stat(fullAbsolutePath);
+    const stats = await this.repository.fs.promises.stat(fullAbsolutePath);
 
     const node: FileNode = {
       name: name,
-      path: currentPathInRepo, 
+      path: this.knowledgeBaseOnly ? this.repository.relativeToKnowledgeBase(currentPathInRepo) : currentPathInRepo,
       type: stats.isDirectory() ? 'directory' : 'file'
     };
 
@@ -177,15 +178,28 @@ export class FileSystemToolImpl implements FileSystemToolService {
     return node;
   }
 
-  // Helper to ensure paths passed to repository methods are relative to its root
-  // and not accidentally absolute paths from somewhere else.
-  private getRelativePath(filePath: string): string {
-    if (pathLib.isAbsolute(filePath)) {
-        if (!filePath.startsWith(this.repository.path)) {
-            throw new Error(`Absolute path ${filePath} is outside the repository directory ${this.repository.path}`);
-        }
-        return pathLib.relative(this.repository.path, filePath);
+  // Sandbox violations are expected refusals of bad LLM input, so they are reported without a stack trace.
+  private failure(action: string, path: string, e: any): { success: false; error: string } {
+    if (isRepositoryPathError(e)) {
+      console.warn(`[FileSystemToolImpl] Refused ${action} ${path}: ${e.message}`);
+    } else {
+      console.error(`[FileSystemToolImpl] Error ${action} ${path}:`, e);
+    }
+    return { success: false, error: e.message };
+  }
+
+  // Helper to ensure paths passed to repository methods are relative to its root.
+  // Normalizing first means `notes/../.lspace` is caught by isPathForbidden; paths that
+  // escape the root come back starting with `..` and are rejected by the repository sandbox.
+  // Knowledge base paths are checked here, symlinks included, since the repository only
+  // enforces its own root on later calls.
+  private async getRelativePath(filePath: string): Promise<string> {
+    if (this.knowledgeBaseOnly) {
+      const kbRelativePath = this.repository.knowledgeBasePath(filePath);
+      await this.repository.resolvePath(kbRelativePath, { knowledgeBase: true });
+      return kbRelativePath;
     }
-    return filePath;
+    const absolutePath = pathLib.resolve(this.repository.path, filePath);
+    return pathLib.relative(this.repository.path, absolutePath).split(pathLib.sep).join('/') || '.';
   }
 } 
\ No newline at end of file
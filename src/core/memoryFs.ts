@@ -0,0 +1,418 @@
+import pathLib from 'path';
+import {
+  RepositoryFs,
+  RepositoryFsDirent,
+  RepositoryFsEncodingOption,
+  RepositoryFsFileHandle,
+  RepositoryFsPromises,
+  RepositoryFsStats,
+} from './repositoryFs';
+
+/**
+ * In-memory filesystem for repositories that never touch the disk: hermetic tests and
+ * ephemeral scratch repositories. Paths are absolute POSIX paths; symlinks are supported
+ * so the repository sandbox behaves as it does on disk.
+ */
+
+type MemoryNode = MemoryFile | MemoryDirectory | MemorySymlink;
+
+interface NodeMeta {
+  ino: number;
+  mode: number;
+  mtimeMs: number;
+  ctimeMs: number;
+}
+
+interface MemoryFile extends NodeMeta {
+  type: 'file';
+  data: Buffer;
+}
+
+interface MemoryDirectory extends NodeMeta {
+  type: 'directory';
+  children: Map<string, MemoryNode>;
+}
+
+interface MemorySymlink extends NodeMeta {
+  type: 'symlink';
+  target: string;
+}
+
+const FILE_MODE = 0o100644;
+const DIRECTORY_MODE = 0o40755;
+const SYMLINK_MODE = 0o120777;
+// Symlink hops allowed while resolving one path, as in Linux
+const MAX_SYMLINK_DEPTH = 40;
+
+function fsError(code: string, syscall: string, path: string, description: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${description}, ${syscall} '${path}'`);
+  error.code = code;
+  error.syscall = syscall;
+  error.path = path;
+  return error;
+}
+
+function encodingOf(options?: RepositoryFsEncodingOption): BufferEncoding | null {
+  if (!options) {
+    return null;
+  }
+  return typeof options === 'string' ? options : options.encoding || null;
+}
+
+class MemoryStats implements RepositoryFsStats {
+  dev = 1;
+  uid = 0;
+  gid = 0;
+  ino: number;
+  mode: number;
+  size: number;
+  mtimeMs: number;
+  ctimeMs: number;
+  private type: MemoryNode['type'];
+
+  constructor(node: MemoryNode) {
+    this.type = node.type;
+    this.ino = node.ino;
+    this.mode = node.mode;
+    this.size = node.type === 'file' ? node.data.length : node.type === 'symlink' ? Buffer.byteLength(node.target) : 0;
+    this.mtimeMs = node.mtimeMs;
+    this.ctimeMs = node.ctimeMs;
+  }
+
+  get mtime(): Date {
+    return new Date(this.mtimeMs);
+  }
+
+  get ctime(): Date {
+    return new Date(this.ctimeMs);
+  }
+
+  isFile(): boolean {
+    return this.type === 'file';
+  }
+
+  isDirectory(): boolean {
+    return this.type === 'directory';
+  }
+
+  isSymbolicLink(): boolean {
+    return this.type === 'symlink';
+  }
+}
+
+class MemoryDirent implements RepositoryFsDirent {
+  constructor(public name: string, private node: MemoryNode) {}
+
+  isFile(): boolean {
+    return this.node.type === 'file';
+  }
+
+  isDirectory(): boolean {
+    return this.node.type === 'directory';
+  }
+
+  isSymbolicLink(): boolean {
+    return this.node.type === 'symlink';
+  }
+}
+
+export class MemoryFs implements RepositoryFs {
+  // Must be an own, enumerable property: isomorphic-git only uses `fs.promises` when it is
+  readonly promises: RepositoryFsPromises;
+  private root: MemoryDirectory;
+  private nextIno = 1;
+  private lastTimeMs = 0;
+
+  constructor() {
+    this.root = this.createDirectoryNode();
+    this.promises = {
+      readFile: this.readFile.bind(this) as RepositoryFsPromises['readFile'],
+      writeFile: this.writeFile.bind(this),
+      open: this.open.bind(this),
+      mkdir: this.mkdir.bind(this),
+      rmdir: this.rmdir.bind(this),
+      rm: this.rm.bind(this),
+      unlink: this.unlink.bind(this),
+      rename: this.rename.bind(this),
+      stat: this.stat.bind(this),
+      lstat: this.lstat.bind(this),
+      readdir: this.readdir.bind(this) as RepositoryFsPromises['readdir'],
+      readlink: this.readlink.bind(this),
+      symlink: this.symlink.bind(this),
+      realpath: this.realpath.bind(this),
+    };
+  }
+
+  async readFile(path: string, options?: RepositoryFsEncodingOption): Promise<string | Buffer> {
+    const { node } = this.lookup(path, 'open', true);
+    if (node.type === 'directory') {
+      throw fsError('EISDIR', 'read', path, 'illegal operation on a directory');
+    }
+    const data = Buffer.from((node as MemoryFile).data);
+    const encoding = encodingOf(options);
+    return encoding ? data.toString(encoding) : data;
+  }
+
+  async writeFile(path: string, data: string | Uint8Array, options?: RepositoryFsEncodingOption): Promise<void> {
+    const { parent, name, existing } = this.lookupForWrite(path, 'open');
+    if (existing?.type === 'directory') {
+      throw fsError('EISDIR', 'open', path, 'illegal operation on a directory');
+    }
+    const content = typeof data === 'string' ? Buffer.from(data, encodingOf(options) || 'utf8') : Buffer.from(data);
+    // A fresh inode per write lets isomorphic-git's stat cache see same-size edits within a second
+    parent.children.set(name, { type: 'file', data: content, ...this.meta(FILE_MODE) });
+    this.touch(parent);
+  }
+
+  async open(path: string, _flags: 'r'): Promise<RepositoryFsFileHandle> {
+    const data = await this.readFile(path) as Buffer;
+    return {
+      read: async (buffer, offset, length, position) => {
+        const bytesRead = data.copy(buffer, offset, position ?? 0, (position ?? 0) + length);
+        return { bytesRead };
+      },
+      close: async () => undefined,
+    };
+  }
+
+  async mkdir(path: string, options: { recursive?: boolean } = {}): Promise<string | undefined> {
+    const absolutePath = this.absolute(path);
+    if (!options.recursive) {
+      const { parent, name, existing } = this.lookupParent(absolutePath, 'mkdir');
+      if (existing) {
+        throw fsError('EEXIST', 'mkdir', path, 'file already exists');
+      }
+      parent.children.set(name, this.createDirectoryNode());
+      this.touch(parent);
+      return undefined;
+    }
+
+    let firstCreated: string | undefined;
+    let current = this.root;
+    let currentPath = '/';
+    const segments = this.segments(absolutePath);
+    for (const [index, segment] of segments.entries()) {
+      currentPath = pathLib.posix.join(currentPath, segment);
+      let child = current.children.get(segment);
+      if (child?.type === 'symlink') {
+        child = this.lookup(currentPath, 'mkdir', true).node;
+      }
+      if (!child) {
+        child = this.createDirectoryNode();
+        current.children.set(segment, child);
+        this.touch(current);
+        firstCreated = firstCreated || currentPath;
+      } else if (child.type !== 'directory') {
+        throw index === segments.length - 1
+          ? fsError('EEXIST', 'mkdir', path, 'file already exists')
+          : fsError('ENOTDIR', 'mkdir', path, 'not a directory');
+      }
+      current = child as MemoryDirectory;
+    }
+    return firstCreated;
+  }
+
+  async rmdir(path: string): Promise<void> {
+    const { parent, name, existing } = this.lookupParent(this.absolute(path), 'rmdir');
+    if (!existing) {
+      throw fsError('ENOENT', 'rmdir', path, 'no such file or directory');
+    }
+    if (existing.type !== 'directory') {
+      throw fsError('ENOTDIR', 'rmdir', path, 'not a directory');
+    }
+    if (existing.children.size > 0) {
+      throw fsError('ENOTEMPTY', 'rmdir', path, 'directory not empty');
+    }
+    parent.children.delete(name);
+    this.touch(parent);
+  }
+
+  async rm(path: string, options: { recursive?: boolean; force?: boolean } = {}): Promise<void> {
+    const absolutePath = this.absolute(path);
+    if (absolutePath === '/') {
+      throw fsError('EPERM', 'rm', path, 'operation not permitted');
+    }
+    let target;
+    try {
+      target = this.lookupParent(absolutePath, 'rm');
+    } catch (error: any) {
+      if (options.force && (error.code === 'ENOENT' || error.code === 'ENOTDIR')) {
+        return;
+      }
+      throw error;
+    }
+    const { parent, name, existing } = target;
+    if (!existing) {
+      if (options.force) {
+        return;
+      }
+      throw fsError('ENOENT', 'rm', path, 'no such file or directory');
+    }
+    if (existing.type === 'directory' && !options.recursive) {
+      throw fsError('EISDIR', 'rm', path, 'is a directory');
+    }
+    parent.children.delete(name);
+    this.touch(parent);
+  }
+
+  async unlink(path: string): Promise<void> {
+    const { parent, name, existing } = this.lookupParent(this.absolute(path), 'unlink');
+    if (!existing) {
+      throw fsError('ENOENT', 'unlink', path, 'no such file or directory');
+    }
+    if (existing.type === 'directory') {
+      throw fsError('EISDIR', 'unlink', path, 'illegal operation on a directory');
+    }
+    parent.children.delete(name);
+    this.touch(parent);
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const source = this.lookupParent(this.absolute(oldPath), 'rename');
+    if (!source.existing) {
+      throw fsError('ENOENT', 'rename', oldPath, 'no such file or directory');
+    }
+    const destination = this.lookupParent(this.absolute(newPath), 'rename');
+    if (destination.existing?.type === 'directory') {
+      if (source.existing.type !== 'directory') {
+        throw fsError('EISDIR', 'rename', newPath, 'illegal operation on a directory');
+      }
+      if (destination.existing.children.size > 0) {
+        throw fsError('ENOTEMPTY', 'rename', newPath, 'directory not empty');
+      }
+    }
+    const moved = source.existing;
+    source.parent.children.delete(source.name);
+    destination.parent.children.set(destination.name, moved);
+    moved.ctimeMs = this.now();
+    this.touch(source.parent);
+    this.touch(destination.parent);
+  }
+
+  async stat(path: string): Promise<RepositoryFsStats> {
+    return new MemoryStats(this.lookup(path, 'stat', true).node);
+  }
+
+  async lstat(path: string): Promise<RepositoryFsStats> {
+    return new MemoryStats(this.lookup(path, 'lstat', false).node);
+  }
+
+  async readdir(path: string, options?: { withFileTypes?: boolean }): Promise<string[] | RepositoryFsDirent[]> {
+    const { node } = this.lookup(path, 'scandir', true);
+    if (node.type !== 'directory') {
+      throw fsError('ENOTDIR', 'scandir', path, 'not a directory');
+    }
+    const names = [...node.children.keys()].sort();
+    return options?.withFileTypes ? names.map(name => new MemoryDirent(name, node.children.get(name)!)) : names;
+  }
+
+  async readlink(path: string): Promise<string> {
+    const { node } = this.lookup(path, 'readlink', false);
+    if (node.type !== 'symlink') {
+      throw fsError('EINVAL', 'readlink', path, 'invalid argument');
+    }
+    return node.target;
+  }
+
+  async symlink(target: string, path: string): Promise<void> {
+    const { parent, name, existing } = this.lookupParent(this.absolute(path), 'symlink');
+    if (existing) {
+      throw fsError('EEXIST', 'symlink', path, 'file already exists');
+    }
+    parent.children.set(name, { type: 'symlink', target, ...this.meta(SYMLINK_MODE) });
+    this.touch(parent);
+  }
+
+  async realpath(path: string): Promise<string> {
+    return this.lookup(path, 'realpath', true).realPath;
+  }
+
+  /**
+   * Resolve a path to its node, following symlinks in every segment (and in the last one when
+   * `followLast` is set). Returns the node and its symlink-free path.
+   */
+  private lookup(path: string, syscall: string, followLast: boolean, depth: number = 0): { node: MemoryNode; realPath: string } {
+    if (depth > MAX_SYMLINK_DEPTH) {
+      throw fsError('ELOOP', syscall, path, 'too many symbolic links encountered');
+    }
+    const segments = this.segments(this.absolute(path));
+    let node: MemoryNode = this.root;
+    let realPath = '/';
+    for (let i = 0; i < segments.length; i++) {
+      if (node.type !== 'directory') {
+        throw fsError('ENOTDIR', syscall, path, 'not a directory');
+      }
+      const child = node.children.get(segments[i]);
+      if (!child) {
+        throw fsError('ENOENT', syscall, path, 'no such file or directory');
+      }
+      const isLast = i === segments.length - 1;
+      if (child.type === 'symlink' && (!isLast || followLast)) {
+        const targetPath = pathLib.posix.resolve(realPath, child.target);
+        const resolved = this.lookup(targetPath, syscall, true, depth + 1);
+        node = resolved.node;
+        realPath = resolved.realPath;
+      } else {
+        node = child;
+        realPath = pathLib.posix.join(realPath, segments[i]);
+      }
+    }
+    return { node, realPath };
+  }
+
+  /**
+   * Resolve the directory that contains `absolutePath` (following symlinks) and the entry in it.
+   */
+  private lookupParent(absolutePath: string, syscall: string): { parent: MemoryDirectory; parentPath: string; name: string; existing?: MemoryNode } {
+    const name = pathLib.posix.basename(absolutePath);
+    if (!name) {
+      throw fsError('EPERM', syscall, absolutePath, 'operation not permitted');
+    }
+    const { node, realPath } = this.lookup(pathLib.posix.dirname(absolutePath), syscall, true);
+    if (node.type !== 'directory') {
+      throw fsError('ENOTDIR', syscall, absolutePath, 'not a directory');
+    }
+    return { parent: node, parentPath: realPath, name, existing: node.children.get(name) };
+  }
+
+  /**
+   * Like lookupParent, but writes through a symlink to its target, as Node does.
+   */
+  private lookupForWrite(path: string, syscall: string, depth: number = 0): { parent: MemoryDirectory; name: string; existing?: MemoryNode } {
+    if (depth > MAX_SYMLINK_DEPTH) {
+      throw fsError('ELOOP', syscall, path, 'too many symbolic links encountered');
+    }
+    const target = this.lookupParent(this.absolute(path), syscall);
+    if (target.existing?.type === 'symlink') {
+      return this.lookupForWrite(pathLib.posix.resolve(target.parentPath, target.existing.target), syscall, depth + 1);
+    }
+    return target;
+  }
+
+  private absolute(path: string): string {
+    return pathLib.posix.resolve('/', path.split(pathLib.sep).join('/'));
+  }
+
+  private segments(absolutePath: string): string[] {
+    return absolutePath.split('/').filter(Boolean);
+  }
+
+  private createDirectoryNode(): MemoryDirectory {
+    return { type: 'directory', children: new Map(), ...this.meta(DIRECTORY_MODE) };
+  }
+
+  private meta(mode: number): NodeMeta {
+    const now = this.now();
+    return { ino: this.nextIno++, mode, mtimeMs: now, ctimeMs: now };
+  }
+
+  private touch(node: MemoryNode): void {
+    node.mtimeMs = node.ctimeMs = this.now();
+  }
+
+  // Strictly increasing timestamps, so consecutive writes never share an mtime
+  private now(): number {
+    this.lastTimeMs = Math.max(Date.now(), this.lastTimeMs + 1);
+    return this.lastTimeMs;
+  }
+}
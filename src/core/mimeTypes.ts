@@ -0,0 +1,99 @@
+import pathLib from 'path';
+
+/**
+ * MIME type detection for repository files, based on magic bytes with a file extension fallback.
+ */
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.js': 'application/javascript',
+  '.ts': 'text/plain',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+};
+
+const MAGIC_NUMBERS: Array<{ mimeType: string; bytes: number[]; offset?: number }> = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { mimeType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 }, // RIFF....WEBP
+  { mimeType: 'image/bmp', bytes: [0x42, 0x4d] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+export const DEFAULT_BINARY_MIME_TYPE = 'application/octet-stream';
+
+function matchesMagic(content: Uint8Array, bytes: number[], offset: number = 0): boolean {
+  if (content.length < offset + bytes.length) {
+    return false;
+  }
+  return bytes.every((byte, index) => content[offset + index] === byte);
+}
+
+/**
+ * MIME type implied by a file name's extension, or undefined if unknown.
+ */
+export function mimeTypeFromExtension(filePath: string): string | undefined {
+  return EXTENSION_MIME_TYPES[pathLib.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Detect a file's MIME type. Content signatures win over the extension, except for
+ * ZIP-based office formats where the extension is more specific than the signature.
+ */
+export function detectMimeType(filePath: string, content?: Uint8Array): string {
+  const fromExtension = mimeTypeFromExtension(filePath);
+  if (content) {
+    const magic = MAGIC_NUMBERS.find(m => matchesMagic(content, m.bytes, m.offset));
+    if (magic) {
+      if (magic.mimeType === 'application/zip' && fromExtension?.startsWith('application/vnd.openxmlformats')) {
+        return fromExtension;
+      }
+      return magic.mimeType;
+    }
+    if (!fromExtension) {
+      const sample = content.subarray(0, 8000);
+      return sample.includes(0) ? DEFAULT_BINARY_MIME_TYPE : 'text/plain';
+    }
+  }
+  return fromExtension || DEFAULT_BINARY_MIME_TYPE;
+}
+
+/**
+ * Whether content of this MIME type is text that can be safely handled as utf8.
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') ||
+    mimeType === 'application/json' ||
+    mimeType === 'application/javascript' ||
+    mimeType === 'application/yaml' ||
+    mimeType === 'application/xml' ||
+    mimeType === 'image/svg+xml';
+}
@@ -0,0 +1,138 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RepositoryBusyError } from './errors';
+
+/**
+ * Serializes mutating operations per repository. Ingestion writes files, runs LLM tool calls
+ * and then commits whatever is unstaged, so two operations on the same repository must never
+ * interleave. Operations on different repositories run concurrently.
+ *
+ * Locks are re-entrant within one async call chain: an operation already holding a repository
+ * (e.g. a revert) can call another locked operation on it (e.g. sync) without deadlocking.
+ */
+
+// Ingestion can hold a repository for several LLM round trips, so waiters are patient by default
+export const DEFAULT_OPERATION_WAIT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface OperationOptions {
+  /** Maximum time to wait for the repository before failing with RepositoryBusyError. 0 waits forever. */
+  waitTimeoutMs?: number;
+}
+
+export interface RepositoryQueueStatus {
+  repositoryId: string;
+  /** Running plus waiting operations */
+  depth: number;
+  running: { operation: string; startedAt: string } | null;
+  waiting: { operation: string; enqueuedAt: string }[];
+}
+
+interface Waiter {
+  operation: string;
+  enqueuedAt: Date;
+  resolve: () => void;
+  timer?: NodeJS.Timeout;
+}
+
+interface QueueState {
+  running: { operation: string; startedAt: Date } | null;
+  waiting: Waiter[];
+}
+
+export class RepositoryOperationQueue {
+  private queues: Map<string, QueueState> = new Map();
+  private heldLocks = new AsyncLocalStorage<Set<string>>();
+  private defaultWaitTimeoutMs: number;
+
+  constructor(defaultWaitTimeoutMs: number = DEFAULT_OPERATION_WAIT_TIMEOUT_MS) {
+    this.defaultWaitTimeoutMs = defaultWaitTimeoutMs;
+  }
+
+  setDefaultWaitTimeout(timeoutMs: number): void {
+    if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+      throw new Error(`Invalid operation wait timeout: ${timeoutMs}`);
+    }
+    this.defaultWaitTimeoutMs = timeoutMs;
+  }
+
+  getDefaultWaitTimeout(): number {
+    return this.defaultWaitTimeoutMs;
+  }
+
+  /**
+   * Run `task` once every earlier operation on the repository has finished.
+   */
+  async run<T>(repositoryId: string, operation: string, task: () => Promise<T>, options: OperationOptions = {}): Promise<T> {
+    const held = this.heldLocks.getStore();
+    if (held?.has(repositoryId)) {
+      return task();
+    }
+
+    await this.acquire(repositoryId, operation, options.waitTimeoutMs ?? this.defaultWaitTimeoutMs);
+    try {
+      return await this.heldLocks.run(new Set([...(held || []), repositoryId]), task);
+    } finally {
+      this.release(repositoryId);
+    }
+  }
+
+  getStatus(repositoryId: string): RepositoryQueueStatus {
+    const state = this.queues.get(repositoryId);
+    return {
+      repositoryId,
+      depth: state ? (state.running ? 1 : 0) + state.waiting.length : 0,
+      running: state?.running
+        ? { operation: state.running.operation, startedAt: state.running.startedAt.toISOString() }
+        : null,
+      waiting: (state?.waiting || []).map(w => ({ operation: w.operation, enqueuedAt: w.enqueuedAt.toISOString() })),
+    };
+  }
+
+  getDepth(repositoryId: string): number {
+    return this.getStatus(repositoryId).depth;
+  }
+
+  private acquire(repositoryId: string, operation: string, waitTimeoutMs: number): Promise<void> {
+    let state = this.queues.get(repositoryId);
+    if (!state) {
+      state = { running: null, waiting: [] };
+      this.queues.set(repositoryId, state);
+    }
+    if (!state.running) {
+      state.running = { operation, startedAt: new Date() };
+      return Promise.resolve();
+    }
+
+    const queueState = state;
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { operation, enqueuedAt: new Date(), resolve };
+      if (waitTimeoutMs > 0) {
+        waiter.timer = setTimeout(() => {
+          const index = queueState.waiting.indexOf(waiter);
+          if (index !== -1) {
+            queueState.waiting.splice(index, 1);
+          }
+          console.warn(`[OperationQueue] "${operation}" on repository ${repositoryId} timed out after ${waitTimeoutMs}ms`);
+          reject(new RepositoryBusyError(repositoryId, operation, waitTimeoutMs, queueState.running?.operation));
+        }, waitTimeoutMs);
+      }
+      queueState.waiting.push(waiter);
+    });
+  }
+
+  private release(repositoryId: string): void {
+    const state = this.queues.get(repositoryId);
+    if (!state) {
+      return;
+    }
+    const next = state.waiting.shift();
+    if (!next) {
+      this.queues.delete(repositoryId);
+      return;
+    }
+    if (next.timer) {
+      clearTimeout(next.timer);
+    }
+    state.running = { operation: next.operation, startedAt: new Date() };
+    next.resolve();
+  }
+}
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Persistent outbox of pushes to remote repositories. A push that fails (e.g. while offline)
+ * stays in the outbox and is retried with exponential backoff, including after a restart,
+ * until it goes through or the repository is removed.
+ *
+ * A push sends the whole local branch, so the outbox holds at most one entry per repository:
+ * pushes requested while one is pending are folded into it.
+ */
+
+export const DEFAULT_PUSH_RETRY_BASE_DELAY_MS = 30 * 1000;
+export const DEFAULT_PUSH_RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+export type PendingPushState = 'pending' | 'failed';
+
+export interface PendingPush {
+  repositoryId: string;
+  /** 'pending' until the first attempt fails, then 'failed' while waiting for the next retry */
+  state: PendingPushState;
+  requestedAt: string;
+  attempts: number;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+}
+
+export interface PushOutboxOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+interface PushOutboxFile {
+  version: 1;
+  pushes: PendingPush[];
+}
+
+/**
+ * Delay before retrying a push that failed `attempts` times: base, 2 × base, 4 × base, ... up to max.
+ */
+export function pushRetryDelay(attempts: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempts - 1));
+}
+
+export class PushOutbox {
+  private entries: Map<string, PendingPush> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private attemptChains: Map<string, Promise<PendingPush | null>> = new Map();
+  // Bumped on every request, so a push that started before a new commit does not clear its entry
+  private requestCounts: Map<string, number> = new Map();
+  private writeChain: Promise<void> = Promise.resolve();
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  // Runs retries in the async context the outbox was created in. A retry scheduled by a push made
+  // while holding a repository's lock must not inherit that lock, or it would skip the queue.
+  private runDetached = AsyncLocalStorage.snapshot();
+
+  /**
+   * @param filePath JSON file the outbox is persisted to
+   * @param push Pushes a repository's local branch to its remote; rejects when the push failed
+   */
+  constructor(
+    private filePath: string,
+    private push: (repositoryId: string) => Promise<void>,
+    options: PushOutboxOptions = {}
+  ) {
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_PUSH_RETRY_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_PUSH_RETRY_MAX_DELAY_MS;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Read pushes left over from a previous run and schedule their retries.
+   */
+  async load(): Promise<void> {
+    this.stop();
+    this.entries.clear();
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    let data: PushOutboxFile;
+    try {
+      data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      console.error(`[PushOutbox] Ignoring unreadable outbox ${this.filePath}: ${error.message}`);
+      return;
+    }
+    for (const entry of data.pushes || []) {
+      this.entries.set(entry.repositoryId, entry);
+      const dueAt = entry.nextAttemptAt ? Date.parse(entry.nextAttemptAt) : Date.now();
+      this.schedule(entry.repositoryId, Math.max(0, dueAt - Date.now()));
+    }
+    if (this.entries.size > 0) {
+      console.log(`[PushOutbox] Loaded ${this.entries.size} pending push(es) from ${this.filePath}`);
+    }
+  }
+
+  list(): PendingPush[] {
+    return Array.from(this.entries.values(), entry => ({ ...entry }));
+  }
+
+  get(repositoryId: string): PendingPush | null {
+    const entry = this.entries.get(repositoryId);
+    return entry ? { ...entry } : null;
+  }
+
+  /**
+   * Record that a repository has commits to push and try to push them right away.
+   * @returns null when the push went through, otherwise the pending entry that will be retried
+   */
+  async enqueue(repositoryId: string): Promise<PendingPush | null> {
+    this.requestCounts.set(repositoryId, (this.requestCounts.get(repositoryId) || 0) + 1);
+    if (!this.entries.has(repositoryId)) {
+      this.entries.set(repositoryId, {
+        repositoryId,
+        state: 'pending',
+        requestedAt: new Date().toISOString(),
+        attempts: 0,
+        lastAttemptAt: null,
+        nextAttemptAt: null,
+        lastError: null,
+      });
+      await this.persist();
+    }
+    return this.attempt(repositoryId);
+  }
+
+  /**
+   * Push a pending entry now instead of waiting for its next retry.
+   * @returns null when the push went through or nothing was pending
+   */
+  async retry(repositoryId: string): Promise<PendingPush | null> {
+    if (!this.entries.has(repositoryId)) {
+      return null;
+    }
+    return this.attempt(repositoryId);
+  }
+
+  /**
+   * Drop a repository's pending push, e.g. when the repository is removed.
+   */
+  async remove(repositoryId: string): Promise<void> {
+    this.clearTimer(repositoryId);
+    this.requestCounts.delete(repositoryId);
+    if (this.entries.delete(repositoryId)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Cancel scheduled retries. Entries stay on disk and are picked up again by load().
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  // Attempts for one repository run one after another
+  private attempt(repositoryId: string): Promise<PendingPush | null> {
+    const previous = this.attemptChains.get(repositoryId) || Promise.resolve(null);
+    const next = previous.catch(() => null).then(() => this.runAttempt(repositoryId));
+    this.attemptChains.set(repositoryId, next);
+    const cleanup = () => {
+      if (this.attemptChains.get(repositoryId) === next) {
+        this.attemptChains.delete(repositoryId);
+      }
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  private async runAttempt(repositoryId: string): Promise<PendingPush | null> {
+    const entry = this.entries.get(repositoryId);
+    if (!entry) {
+      return null; // Pushed by an earlier attempt, or removed
+    }
+    this.clearTimer(repositoryId);
+    const requestCount = this.requestCounts.get(repositoryId) || 0;
+    entry.attempts += 1;
+    entry.lastAttemptAt = new Date().toISOString();
+
+    try {
+      await this.push(repositoryId);
+    } catch (error: any) {
+      const delayMs = pushRetryDelay(entry.attempts, this.baseDelayMs, this.maxDelayMs);
+      entry.state = 'failed';
+      entry.lastError = error?.message || String(error);
+      entry.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      console.warn(`[PushOutbox] Push of repository ${repositoryId} failed (attempt ${entry.attempts}); retrying in ${Math.round(delayMs / 1000)}s: ${entry.lastError}`);
+      this.schedule(repositoryId, delayMs);
+      await this.persist();
+      return { ...entry };
+    }
+
+    if ((this.requestCounts.get(repositoryId) || 0) !== requestCount) {
+      return null; // More commits were requested meanwhile; the attempt queued behind this one pushes them
+    }
+    if (this.entries.get(repositoryId) === entry) {
+      this.entries.delete(repositoryId);
+      await this.persist();
+    }
+    if (entry.attempts > 1) {
+      console.log(`[PushOutbox] Pushed repository ${repositoryId} after ${entry.attempts} attempts`);
+    }
+    return null;
+  }
+
+  private schedule(repositoryId: string, delayMs: number): void {
+    this.clearTimer(repositoryId);
+    const timer = setTimeout(() => this.runDetached(() => {
+      this.timers.delete(repositoryId);
+      this.attempt(repositoryId).catch(error => {
+        console.error(`[PushOutbox] Retry of repository ${repositoryId} failed: ${error.message}`);
+      });
+    }), delayMs);
+    timer.unref(); // Never keep the process alive just to retry
+    this.timers.set(repositoryId, timer);
+  }
+
+  private clearTimer(repositoryId: string): void {
+    const timer = this.timers.get(repositoryId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(repositoryId);
+    }
+  }
+
+  // Writes are serialized and go through a temporary file so a crash never leaves a torn outbox
+  private persist(): Promise<void> {
+    const write = async () => {
+      const data: PushOutboxFile = { version: 1, pushes: Array.from(this.entries.values()) };
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2));
+      await fs.promises.rename(tempPath, this.filePath);
+    };
+    this.writeChain = this.writeChain.catch(() => undefined).then(write);
+    return this.writeChain;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Redaction of credentials from text that is logged or returned to clients, such as git
+ * error output.
+ */
+
+const REDACTED = '***';
+
+// Credential shapes that may show up even when the caller does not know the secret
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/(\b[a-z][a-z0-9+.-]*:\/\/)[^\s/@:]+:[^\s/@]+@/gi, `$1${REDACTED}@`], // URL userinfo with a password
+  [/(\b[a-z][a-z0-9+.-]*:\/\/)(x-access-token|oauth2|x-oauth-basic)[^\s/@]*@/gi, `$1${REDACTED}@`],
+  [/\b(ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{20,}\b/g, REDACTED], // GitHub tokens
+  [/\bgithub_pat_[A-Za-z0-9_]{20,}\b/g, REDACTED],
+  [/\bglpat-[A-Za-z0-9_-]{20,}\b/g, REDACTED], // GitLab personal access tokens
+  [/(Authorization:\s*(?:Basic|Bearer|token)\s+)\S+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * Replace the given secrets, and anything that looks like a credential, with `***`.
+ */
+export function redactSecrets(text: string, secrets: Array<string | undefined> = []): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    if (secret && secret.length >= 4) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted;
+}
+
+/**
+ * A copy of an error with secrets redacted from its message and from the stdout/stderr and
+ * command line that child_process attaches to failed commands.
+ */
+export function redactError(error: any, secrets: Array<string | undefined> = []): Error {
+  const redacted: Error & Record<string, any> = new Error(redactSecrets(String(error?.message ?? error), secrets));
+  if (error?.code !== undefined) {
+    redacted.code = error.code;
+  }
+  if (error?.killed) {
+    redacted.killed = true; // Stopped by a timeout
+  }
+  for (const field of ['stdout', 'stderr', 'cmd']) {
+    if (error?.[field] !== undefined && error[field] !== null) {
+      redacted[field] = redactSecrets(error[field].toString(), secrets);
+    }
+  }
+  return redacted;
+}
@@ -1,6 +1,10 @@
-import fs from 'fs'; // Import Node.js fs module
 import pathLib from 'path'; // Node.js path module
 import { FileChangeOperation, FileChangeInfo } from './types/commonTypes'; // Import shared type
+import { detectMimeType } from './mimeTypes';
+import { nodeRepositoryFs, RepositoryFs } from './repositoryFs';
+import { PathOutsideRepositoryError, ProtectedPathError, isRepositoryPathError } from './errors';
+import { appendTrailers, LspaceTrailers, matchesTrailers, parseTrailers } from './commitTrailers';
+import { DiffHunk, DEFAULT_CONTEXT_LINES, diffLines, diffText, formatHunks, isBinaryContent, similarityIndex, splitLines } from './diff';
 
 // Dynamically import ES Modules
 const gitPromise = import('isomorphic-git');
@@ -21,6 +25,7 @@ export interface CommitOptions {
     name: string;
     email: string;
   };
+  trailers?: LspaceTrailers; // Written as Lspace-* git trailers after the message
 }
 
 export interface FileStatus {
@@ -29,11 +34,171 @@ export interface FileStatus {
   modified: boolean;
   added: boolean;
   deleted: boolean;
+  untracked: boolean;
 }
 
 export interface RepositoryStatus {
   branch: string;
   files: FileStatus[];
+  tracking: string | null; // e.g. 'origin/main', null when the branch has no remote counterpart
+  ahead: number;
+  behind: number;
+}
+
+export interface AheadBehind {
+  tracking: string | null;
+  ahead: number;
+  behind: number;
+}
+
+export interface DiffOptions {
+  contextLines?: number; // Unchanged lines shown around each change, defaults to 3 like git
+  detectRenames?: boolean; // Pair deleted and added files by content similarity, defaults to true
+}
+
+export interface FileDiff {
+  path: string;
+  oldPath?: string; // Set for renames
+  status: FileChangeOperation;
+  similarity?: number; // Percentage, set for renames
+  oldOid: string | null;
+  newOid: string | null;
+  oldMode: string | null; // Octal mode string, e.g. '100644'
+  newMode: string | null;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface CommitDiff {
+  commit: string;
+  parent: string | null;
+  author: {
+    name: string;
+    email: string;
+  };
+  date: string;
+  message: string;
+  files: FileDiff[];
+  additions: number;
+  deletions: number;
+}
+
+export interface CompareCommitSummary {
+  oid: string;
+  message: string;
+  author: {
+    name: string;
+    email: string;
+  };
+  date: string;
+}
+
+export interface CompareResult {
+  base: { ref: string; commit: string };
+  head: { ref: string; commit: string };
+  mergeBase: string | null;
+  commits: CompareCommitSummary[]; // Commits reachable from head but not from base, newest first
+  files: FileDiff[];
+  additions: number;
+  deletions: number;
+}
+
+export interface BlameLine {
+  lineNumber: number; // 1-based
+  content: string;
+  commit: string; // Commit that last changed this line
+}
+
+export interface BlameCommitInfo {
+  oid: string;
+  message: string;
+  author: {
+    name: string;
+    email: string;
+  };
+  date: string;
+  path: string; // Path of the file in this commit (differs from the blamed path after renames)
+}
+
+export interface BlameResult {
+  path: string;
+  ref: string;
+  commit: string; // Resolved commit the blame was computed at
+  lines: BlameLine[];
+  commits: Record<string, BlameCommitInfo>;
+}
+
+export interface TrailerCommit {
+  oid: string;
+  message: string;
+  author: { name: string; email: string };
+  date: string;
+  trailers: LspaceTrailers;
+}
+
+export interface TrailerQueryOptions {
+  ref?: string; // Where to start walking history (default HEAD)
+  stopAt?: string; // Commit at which to stop; neither it nor its ancestors are returned
+  limit?: number; // Maximum number of matches to return
+}
+
+/**
+ * How a commit relates to the rest of an ingestion, resolved from its trailers.
+ */
+export interface CommitRelations {
+  commit: TrailerCommit;
+  rawCommit: TrailerCommit | null; // The raw input commit (the commit itself for raw-input commits)
+  kbCommits: TrailerCommit[]; // Knowledge base commits derived from the raw input, newest first
+  timelineId: string | null;
+}
+
+export interface TagInfo {
+  name: string; // Short name, without refs/tags/
+  commit: string; // Commit the tag points at (annotated tags are peeled)
+  annotated: boolean;
+  message: string | null; // Annotation message; null for lightweight tags
+  tagger: { name: string; email: string } | null;
+  date: string | null;
+}
+
+export interface RestoreOptions extends CommitOptions {
+  exclude?: (filePath: string) => boolean; // Paths that keep their current state
+}
+
+export interface RestoreResult {
+  commit: CommitResult | null; // null when the tracked files already matched the ref
+  restoredFiles: string[]; // Files written with their content at the ref
+  deletedFiles: string[]; // Files that did not exist at the ref
+}
+
+export interface RepositoryOptions {
+  fs?: RepositoryFs; // Defaults to the local disk
+}
+
+/**
+ * Fetches more history into a shallow clone: a number of commits past the current boundary,
+ * or 'full' for the complete history. Supplied by the RepositoryManager for remote clones.
+ */
+export type HistoryDeepener = (deepenBy: number | 'full') => Promise<void>;
+
+/**
+ * Normalize a knowledge base root (the `path_to_kb` repository setting) to a POSIX path
+ * relative to the repository root, '.' meaning the repository root itself.
+ * @throws Error if the root is absolute, leaves the repository or lies in .git or .lspace
+ */
+export function normalizeKnowledgeBaseRoot(root: string): string {
+  const posixRoot = root.trim().replace(/\\/g, '/');
+  const normalized = pathLib.posix.normalize(posixRoot).replace(/\/+$/, '') || '.';
+  if (pathLib.posix.isAbsolute(posixRoot) || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Invalid path_to_kb "${root}": it must be a directory inside the repository`);
+  }
+  const topLevel = normalized.split('/')[0].toLowerCase();
+  if (topLevel === '.git' || topLevel === '.lspace') {
+    throw new Error(`Invalid path_to_kb "${root}": the knowledge base cannot live in ${topLevel}`);
+  }
+  return normalized;
 }
 
 export interface FileInfo {
@@ -43,19 +208,50 @@ export interface FileInfo {
   lastModified?: Date;
 }
 
+// Minimum similarity (percent) for a deleted/added pair to be reported as a rename, as in git
+const RENAME_SIMILARITY_THRESHOLD = 50;
+// Upper bound on deleted x added pairs compared by content, mirroring git's diff.renameLimit
+const RENAME_CANDIDATE_LIMIT = 1000;
+
+// A file in a git tree
+interface TreeBlob {
+  oid: string;
+  mode: string;
+}
+
+// A file that differs between two trees; oldPath is set for renames
+interface TreeChange {
+  path: string;
+  oldPath?: string;
+  oldSide: TreeBlob | null;
+  newSide: TreeBlob | null;
+  similarity?: number;
+}
+
+function treeChangeStatus(change: TreeChange): FileChangeOperation {
+  return change.oldPath ? 'rename' : !change.oldSide ? 'add' : !change.newSide ? 'delete' : 'modify';
+}
+
 /**
  * Repository class provides a unified interface for git operations
  * regardless of the underlying git provider
  */
 export class Repository {
   path: string; // Absolute path to the repository working directory
+  readonly fs: RepositoryFs; // Filesystem holding the working tree and .git
   private gitdir: string; // Path to .git directory
   private static git: any; // To store the resolved git module
   private static http: any; // To store the resolved http module
+  // Commits fetched per step when a history walk reaches the boundary of a shallow clone
+  static readonly DEEPEN_STEP = 100;
+  private historyDeepener?: HistoryDeepener;
+  // Directory holding the knowledge base (path_to_kb), relative to the repository root
+  private knowledgeBaseRoot = '.';
 
-  constructor(repoPath: string) {
+  constructor(repoPath: string, options: RepositoryOptions = {}) {
     this.path = pathLib.resolve(repoPath); // Ensure absolute path
     this.gitdir = pathLib.join(this.path, '.git');
+    this.fs = options.fs || nodeRepositoryFs;
     // TODO: Consider a check here if this.path is a valid git repository
   }
 
@@ -72,29 +268,209 @@ export class Repository {
   }
 
   private getGitFs(): any {
-    return { fs }; // isomorphic-git uses an fs object
+    return { fs: this.fs }; // isomorphic-git uses an fs object
+  }
+
+  /**
+   * Create an empty git repository at `repoPath` on the given filesystem (the local disk by
+   * default) and return it. With a MemoryFs this gives a scratch repository that never touches disk.
+   */
+  static async init(repoPath: string, options: RepositoryOptions & { defaultBranch?: string } = {}): Promise<Repository> {
+    await Repository.ensureGitModulesLoaded();
+    const repository = new Repository(repoPath, options);
+    await repository.fs.promises.mkdir(repository.path, { recursive: true });
+    await Repository.git.init({ fs: repository.fs, dir: repository.path, defaultBranch: options.defaultBranch });
+    return repository;
+  }
+
+  /**
+   * Resolve a path against the repository root, enforcing the repository sandbox.
+   * The path must stay inside the working directory once `..` segments and symlinks
+   * are followed, and writes may not target the .git directory. Every file operation
+   * goes through here; callers outside Repository can use it to validate user paths.
+   * With `knowledgeBase`, the path must also stay inside the knowledge base root.
+   */
+  async resolvePath(filePath: string, options: { write?: boolean; knowledgeBase?: boolean } = {}): Promise<string> {
+    const absolutePath = pathLib.resolve(this.path, filePath);
+    const relativePath = pathLib.relative(this.path, absolutePath);
+    if (Repository.isOutsideRoot(relativePath)) {
+      throw new PathOutsideRepositoryError(filePath);
+    }
+
+    const realRoot = await this.realpathAllowingMissing(this.path);
+    const realRelativePath = pathLib.relative(realRoot, await this.realpathAllowingMissing(absolutePath));
+    if (Repository.isOutsideRoot(realRelativePath)) {
+      throw new PathOutsideRepositoryError(filePath, 'it follows a symlink to a location outside the repository');
+    }
+
+    if (options.write && (Repository.isInGitDir(relativePath) || Repository.isInGitDir(realRelativePath))) {
+      throw new ProtectedPathError(filePath, 'the .git directory cannot be modified');
+    }
+
+    if (options.knowledgeBase && this.knowledgeBaseRoot !== '.') {
+      const kbRoot = pathLib.resolve(this.path, this.knowledgeBaseRoot);
+      if (Repository.isOutsideRoot(pathLib.relative(kbRoot, absolutePath))) {
+        throw new PathOutsideRepositoryError(filePath, 'it resolves outside the knowledge base');
+      }
+      const realKbRoot = await this.realpathAllowingMissing(kbRoot);
+      if (Repository.isOutsideRoot(pathLib.relative(realKbRoot, await this.realpathAllowingMissing(absolutePath)))) {
+        throw new PathOutsideRepositoryError(filePath, 'it follows a symlink to a location outside the knowledge base');
+      }
+    }
+    return absolutePath;
+  }
+
+  /**
+   * Set the directory holding the knowledge base (the repository's `path_to_kb`).
+   * @throws Error if the root is not a directory inside the repository
+   */
+  setKnowledgeBaseRoot(root: string): void {
+    this.knowledgeBaseRoot = normalizeKnowledgeBaseRoot(root);
+  }
+
+  /**
+   * The knowledge base root relative to the repository root, '.' when the knowledge base
+   * is the whole repository.
+   */
+  getKnowledgeBaseRoot(): string {
+    return this.knowledgeBaseRoot;
+  }
+
+  /**
+   * Repository-relative path of `kbPath`, a path relative to the knowledge base root.
+   * Only checked lexically; use resolvePath with `knowledgeBase` before touching the file.
+   * @throws PathOutsideRepositoryError if the path leaves the knowledge base
+   */
+  knowledgeBasePath(kbPath: string = '.'): string {
+    const repoPath = pathLib.posix.normalize(pathLib.posix.join(this.knowledgeBaseRoot, kbPath.replace(/\\/g, '/'))).replace(/\/+$/, '') || '.';
+    if (!this.isInKnowledgeBase(repoPath)) {
+      throw new PathOutsideRepositoryError(kbPath, this.knowledgeBaseRoot === '.' ? undefined : 'it resolves outside the knowledge base');
+    }
+    return repoPath;
+  }
+
+  /**
+   * Whether a repository-relative path lies inside the knowledge base root.
+   */
+  isInKnowledgeBase(repoPath: string): boolean {
+    const relativePath = pathLib.posix.relative(this.knowledgeBaseRoot, pathLib.posix.normalize(repoPath.replace(/\\/g, '/')));
+    return !(relativePath === '..' || relativePath.startsWith('../') || pathLib.posix.isAbsolute(relativePath));
+  }
+
+  /**
+   * Path of a repository-relative path relative to the knowledge base root ('.' for the root).
+   * Callers check isInKnowledgeBase first.
+   */
+  relativeToKnowledgeBase(repoPath: string): string {
+    return pathLib.posix.relative(this.knowledgeBaseRoot, pathLib.posix.normalize(repoPath.replace(/\\/g, '/'))) || '.';
+  }
+
+  private static isOutsideRoot(relativePath: string): boolean {
+    return relativePath === '..' || relativePath.startsWith(`..${pathLib.sep}`) || pathLib.isAbsolute(relativePath);
+  }
+
+  private static isInGitDir(relativePath: string): boolean {
+    return relativePath.split(pathLib.sep)[0].toLowerCase() === '.git';
+  }
+
+  /**
+   * Like fs.realpath, but for paths that do not exist yet: resolves the deepest existing
+   * ancestor and appends the remaining segments. Dangling symlinks are followed to their target.
+   */
+  private async realpathAllowingMissing(absolutePath: string): Promise<string> {
+    try {
+      return await this.fs.promises.realpath(absolutePath);
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') {
+        throw e;
+      }
+    }
+    const parent = pathLib.dirname(absolutePath);
+    if (parent === absolutePath) {
+      return absolutePath;
+    }
+    try {
+      const stats = await this.fs.promises.lstat(absolutePath);
+      if (stats.isSymbolicLink()) {
+        const target = await this.fs.promises.readlink(absolutePath);
+        return this.realpathAllowingMissing(pathLib.resolve(parent, target));
+      }
+    } catch (e: any) {
+      if (e.code !== 'ENOENT' && e.code !== 'ENOTDIR') {
+        throw e;
+      }
+    }
+    return pathLib.join(await this.realpathAllowingMissing(parent), pathLib.basename(absolutePath));
   }
 
   async writeFile(filePath: string, content: string): Promise<void> {
-    const absoluteFilePath = pathLib.resolve(this.path, filePath);
+    const absoluteFilePath = await this.resolvePath(filePath, { write: true });
     const dir = pathLib.dirname(absoluteFilePath);
-    await fs.promises.mkdir(dir, { recursive: true });
-    await fs.promises.writeFile(absoluteFilePath, content, 'utf8');
+    await this.fs.promises.mkdir(dir, { recursive: true });
+    await this.fs.promises.writeFile(absoluteFilePath, content, 'utf8');
     // No git add here by default, staging is a separate step.
   }
 
   async readFile(filePath: string): Promise<string> {
-    const absoluteFilePath = pathLib.resolve(this.path, filePath);
+    const absoluteFilePath = await this.resolvePath(filePath);
     if (!await this.fileExists(filePath)) { // Check relative path for consistency
         throw new Error(`File not found: ${filePath} in repository ${this.path}`);
     }
-    return fs.promises.readFile(absoluteFilePath, 'utf8');
+    return this.fs.promises.readFile(absoluteFilePath, 'utf8');
+  }
+
+  /**
+   * Binary-safe counterpart of writeFile for images, PDFs and other attachments.
+   */
+  async writeFileBuffer(filePath: string, content: Buffer | Uint8Array): Promise<void> {
+    const absoluteFilePath = await this.resolvePath(filePath, { write: true });
+    await this.fs.promises.mkdir(pathLib.dirname(absoluteFilePath), { recursive: true });
+    await this.fs.promises.writeFile(absoluteFilePath, content);
+  }
+
+  /**
+   * Binary-safe counterpart of readFile.
+   */
+  async readFileBuffer(filePath: string): Promise<Buffer> {
+    const absoluteFilePath = await this.resolvePath(filePath);
+    if (!await this.fileExists(filePath)) {
+      throw new Error(`File not found: ${filePath} in repository ${this.path}`);
+    }
+    return this.fs.promises.readFile(absoluteFilePath);
+  }
+
+  /**
+   * Detect the MIME type of a file in the working tree from its content and extension.
+   */
+  async getMimeType(filePath: string): Promise<string> {
+    const absoluteFilePath = await this.resolvePath(filePath);
+    if (!await this.fileExists(filePath)) {
+      throw new Error(`File not found: ${filePath} in repository ${this.path}`);
+    }
+    const handle = await this.fs.promises.open(absoluteFilePath, 'r');
+    try {
+      const header = Buffer.alloc(8000);
+      const { bytesRead } = await handle.read(header, 0, header.length, 0);
+      return detectMimeType(filePath, header.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
   }
 
   async add(filePaths: string[]): Promise<void> {
     await Repository.ensureGitModulesLoaded();
     try {
+      let indexFiles: string[] | null = null;
       for (const filepath of filePaths) { // isomorphic-git add might support array directly, but loop for safety/clarity
+        if (!await this.fileExists(filepath)) {
+          // isomorphic-git's add rejects missing files; stage the deletion of a tracked one instead, like `git add -A`
+          indexFiles = indexFiles || await Repository.git.listFiles({ ...this.getGitFs(), dir: this.path });
+          if (!indexFiles!.some(tracked => tracked === filepath || tracked.startsWith(`${filepath}/`))) {
+            throw new Error(`File not found: ${filepath}`);
+          }
+          await Repository.git.remove({ ...this.getGitFs(), dir: this.path, filepath });
+          continue;
+        }
         await Repository.git.add({
           ...this.getGitFs(),
           dir: this.path,
@@ -102,6 +478,9 @@ export class Repository {
         });
       }
     } catch (e: any) {
+      if (isRepositoryPathError(e)) {
+        throw e;
+      }
       console.error('Git add failed:', e);
       throw new Error(`Git add failed: ${e.message}`);
     }
@@ -138,7 +517,7 @@ export class Repository {
       const sha = await Repository.git.commit({
         ...this.getGitFs(),
         dir: this.path,
-        message: commitMessage,
+        message: appendTrailers(commitMessage, options.trailers),
         author: {
           name: finalAuthorName,
           email: finalAuthorEmail,
@@ -152,27 +531,110 @@ export class Repository {
     }
   }
 
+  /**
+   * Get the working tree status, built from isomorphic-git's statusMatrix.
+   * Each row is [filepath, head, workdir, stage] where
+   * head: 0 = absent, 1 = present;
+   * workdir: 0 = absent, 1 = identical to HEAD, 2 = different from HEAD;
+   * stage: 0 = absent, 1 = identical to HEAD, 2 = identical to workdir, 3 = different from both.
+   * Unmodified files are omitted.
+   */
   async getStatus(): Promise<RepositoryStatus> {
     await Repository.ensureGitModulesLoaded();
-    // This is a more complex method to implement fully with isomorphic-git statusMatrix and listFiles
-    // For now, a simplified placeholder or a more targeted status might be better.
-    // const status = await Repository.git.statusMatrix({ ...this.getGitFs(), dir: this.path });
-    // TODO: Convert statusMatrix to FileStatus[] and get current branch
     const currentBranch = await Repository.git.currentBranch({ ...this.getGitFs(), dir: this.path, fullname: false });
+
+    let matrix: [string, number, number, number][];
+    try {
+      matrix = await Repository.git.statusMatrix({ ...this.getGitFs(), dir: this.path });
+    } catch (e: any) {
+      console.error('[Repository.getStatus] Error getting status matrix:', e);
+      throw new Error(`Failed to get repository status: ${e.message}`);
+    }
+
+    const files: FileStatus[] = [];
+    for (const [filepath, head, workdir, stage] of matrix) {
+      if (head === 1 && workdir === 1 && stage === 1) {
+        continue; // Unmodified
+      }
+      const inHead = head === 1;
+      const untracked = !inHead && stage === 0 && workdir !== 0;
+      files.push({
+        path: filepath,
+        staged: inHead ? stage !== 1 : stage !== 0,
+        modified: (inHead && workdir === 2) || (stage === 3 && workdir !== 0),
+        added: !inHead && stage !== 0,
+        deleted: inHead && (workdir === 0 || stage === 0),
+        untracked,
+      });
+    }
+
+    const { tracking, ahead, behind } = currentBranch
+      ? await this.getAheadBehind(currentBranch)
+      : { tracking: null, ahead: 0, behind: 0 };
+
     return {
-        branch: currentBranch || 'unknown',
-        files: [] // Placeholder for file statuses
+      branch: currentBranch || 'unknown',
+      files,
+      tracking,
+      ahead,
+      behind,
     };
-    // throw new Error('Method not implemented');
+  }
+
+  /**
+   * Count commits on a local branch that are not on its remote-tracking branch (ahead)
+   * and vice versa (behind). The tracking branch comes from branch.<name>.remote/merge
+   * in the git config, falling back to origin/<name>. Missing tracking refs yield zeros.
+   */
+  async getAheadBehind(branch?: string): Promise<AheadBehind> {
+    await Repository.ensureGitModulesLoaded();
+    const gitFs = this.getGitFs();
+    const localBranch = branch || await Repository.git.currentBranch({ ...gitFs, dir: this.path, fullname: false });
+    if (!localBranch) {
+      return { tracking: null, ahead: 0, behind: 0 };
+    }
+
+    const remote = (await Repository.git.getConfig({ ...gitFs, dir: this.path, path: `branch.${localBranch}.remote` })) || 'origin';
+    const merge: string | undefined = await Repository.git.getConfig({ ...gitFs, dir: this.path, path: `branch.${localBranch}.merge` });
+    const remoteBranch = merge ? merge.replace(/^refs\/heads\//, '') : localBranch;
+    const tracking = `${remote}/${remoteBranch}`;
+
+    let localOid: string;
+    let remoteOid: string;
+    try {
+      localOid = await Repository.git.resolveRef({ ...gitFs, dir: this.path, ref: `refs/heads/${localBranch}` });
+      remoteOid = await Repository.git.resolveRef({ ...gitFs, dir: this.path, ref: `refs/remotes/${tracking}` });
+    } catch {
+      return { tracking: null, ahead: 0, behind: 0 };
+    }
+
+    if (localOid === remoteOid) {
+      return { tracking, ahead: 0, behind: 0 };
+    }
+
+    try {
+      const localCommits = await Repository.git.log({ ...gitFs, dir: this.path, ref: localOid });
+      const remoteCommits = await Repository.git.log({ ...gitFs, dir: this.path, ref: remoteOid });
+      const localSet = new Set<string>(localCommits.map((c: any) => c.oid));
+      const remoteSet = new Set<string>(remoteCommits.map((c: any) => c.oid));
+      return {
+        tracking,
+        ahead: localCommits.filter((c: any) => !remoteSet.has(c.oid)).length,
+        behind: remoteCommits.filter((c: any) => !localSet.has(c.oid)).length,
+      };
+    } catch (e: any) {
+      console.warn(`[Repository.getAheadBehind] Could not compare ${localBranch} with ${tracking}: ${e.message}`);
+      return { tracking, ahead: 0, behind: 0 };
+    }
   }
 
   async listFiles(directoryPath: string = '.'): Promise<FileInfo[]> {
-    const absoluteDirPath = pathLib.resolve(this.path, directoryPath);
-    const entries = await fs.promises.readdir(absoluteDirPath, { withFileTypes: true });
+    const absoluteDirPath = await this.resolvePath(directoryPath);
+    const entries = await this.fs.promises.readdir(absoluteDirPath, { withFileTypes: true });
     const fileInfos: FileInfo[] = [];
     for (const entry of entries) {
         const entryPath = pathLib.join(directoryPath, entry.name);
-        const stats = await fs.promises.stat(pathLib.join(absoluteDirPath, entry.name));
+        const stats = await this.fs.promises.stat(pathLib.join(absoluteDirPath, entry.name));
         fileInfos.push({
             path: entryPath,
             type: entry.isDirectory() ? 'directory' : 'file',
@@ -185,14 +647,15 @@ export class Repository {
 
   async listAllFilesRecursive(startPath: string = '.'): Promise<FileInfo[]> {
     const allFileInfos: FileInfo[] = [];
+    await this.resolvePath(startPath);
     const queue: string[] = [startPath];
 
     while (queue.length > 0) {
       const currentPath = queue.shift()!;
-      const absoluteCurrentPath = pathLib.resolve(this.path, currentPath);
-
       try {
-        const entries = await fs.promises.readdir(absoluteCurrentPath, { withFileTypes: true });
+        // Re-checked per directory so symlinked directories cannot lead the walk outside the repository
+        const absoluteCurrentPath = await this.resolvePath(currentPath);
+        const entries = await this.fs.promises.readdir(absoluteCurrentPath, { withFileTypes: true });
         for (const entry of entries) {
           const entryPath = pathLib.join(currentPath, entry.name);
           // Skip .git and .lspace directories explicitly at any level
@@ -200,7 +663,7 @@ export class Repository {
             continue;
           }
 
-          const stats = await fs.promises.stat(pathLib.join(absoluteCurrentPath, entry.name));
+          const stats = await this.fs.promises.stat(pathLib.join(absoluteCurrentPath, entry.name));
           const fileInfo: FileInfo = {
             path: entryPath,
             type: entry.isDirectory() ? 'directory' : 'file',
@@ -224,9 +687,9 @@ export class Repository {
   }
 
   async fileExists(filePath: string): Promise<boolean> {
-    const absoluteFilePath = pathLib.resolve(this.path, filePath);
+    const absoluteFilePath = await this.resolvePath(filePath);
     try {
-      await fs.promises.access(absoluteFilePath, fs.constants.F_OK);
+      await this.fs.promises.stat(absoluteFilePath);
       return true;
     } catch {
       return false;
@@ -234,11 +697,12 @@ export class Repository {
   }
 
   async deleteFile(filePath: string): Promise<void> {
-    const absoluteFilePath = pathLib.resolve(this.path, filePath);
+    const absoluteFilePath = await this.resolvePath(filePath, { write: true });
+    const relativeFilePath = pathLib.relative(this.path, absoluteFilePath);
     
     // Check if path exists and is a file
     try {
-      const stats = await fs.promises.lstat(absoluteFilePath);
+      const stats = await this.fs.promises.lstat(absoluteFilePath);
       if (stats.isDirectory()) {
         throw new Error(`Path is a directory, not a file. Use a different method to delete directories: ${filePath}`);
       }
@@ -254,7 +718,7 @@ export class Repository {
     }
 
     try {
-      await fs.promises.unlink(absoluteFilePath);
+      await this.fs.promises.unlink(absoluteFilePath);
       console.log(`[Repository.deleteFile] Successfully unlinked: ${filePath}`);
     } catch (unlinkError: any) {
       // If unlink fails, it might be because the file didn't exist, or other permission issues.
@@ -271,7 +735,7 @@ export class Repository {
       await Repository.git.remove({
         ...this.getGitFs(),
         dir: this.path,
-        filepath: filePath, 
+        filepath: relativeFilePath,
       });
       console.log(`[Repository.deleteFile] Successfully performed git remove for: ${filePath}`);
     } catch (gitRemoveError:any) {
@@ -279,37 +743,598 @@ export class Repository {
     }
   }
 
+  /**
+   * Move a file and stage the move like `git mv`: the old path is removed from the index
+   * and the new path added, so the commit records a rename (detected by content similarity).
+   */
   async moveFile(fromPath: string, toPath: string): Promise<void> {
-    const absoluteFromPath = pathLib.resolve(this.path, fromPath);
-    const absoluteToPath = pathLib.resolve(this.path, toPath);
-    await fs.promises.mkdir(pathLib.dirname(absoluteToPath), { recursive: true });
-    await fs.promises.rename(absoluteFromPath, absoluteToPath);
-    // TODO: git mv logic (often rm old + add new)
+    const absoluteFromPath = await this.resolvePath(fromPath, { write: true });
+    const absoluteToPath = await this.resolvePath(toPath, { write: true });
+    if (!await this.fileExists(fromPath)) {
+      throw new Error(`File not found: ${fromPath} in repository ${this.path}`);
+    }
+    if (await this.fileExists(toPath)) {
+      throw new Error(`Destination already exists: ${toPath}`);
+    }
+    await this.fs.promises.mkdir(pathLib.dirname(absoluteToPath), { recursive: true });
+    await this.fs.promises.rename(absoluteFromPath, absoluteToPath);
+
+    await Repository.ensureGitModulesLoaded();
+    const fromRelative = pathLib.relative(this.path, absoluteFromPath);
+    const toRelative = pathLib.relative(this.path, absoluteToPath);
+    try {
+      await Repository.git.remove({ ...this.getGitFs(), dir: this.path, filepath: fromRelative });
+    } catch (e: any) {
+      // Untracked sources have nothing to remove from the index
+      console.warn(`[Repository.moveFile] Git remove failed for ${fromRelative}: ${e.message}`);
+    }
+    await this.add([toRelative]);
   }
   
-  // Placeholder for getCommitDiff - to be implemented next
-  async getCommitDiff(commitSha: string): Promise<string> {
+  /**
+   * Render a commit as a git-show style unified diff: commit header followed by
+   * one "diff --git" section per changed file, computed against the first parent.
+   */
+  async getCommitDiff(commitSha: string, options: DiffOptions = {}): Promise<string> {
+    const commitDiff = await this.getCommitFileDiffs(commitSha, options);
+    const indentedMessage = commitDiff.message
+      .replace(/\n+$/, '')
+      .split('\n')
+      .map(line => (line ? `    ${line}` : ''))
+      .join('\n');
+    let diffOutput = `commit ${commitDiff.commit}\n`;
+    diffOutput += `Author: ${commitDiff.author.name} <${commitDiff.author.email}>\n`;
+    diffOutput += `Date:   ${commitDiff.date}\n\n`;
+    diffOutput += `${indentedMessage}\n\n`;
+    diffOutput += Repository.formatFileDiffs(commitDiff.files);
+    return diffOutput;
+  }
+
+  /**
+   * Structured form of getCommitDiff: per-file hunks with added/removed line counts.
+   */
+  async getCommitFileDiffs(commitSha: string, options: DiffOptions = {}): Promise<CommitDiff> {
     await Repository.ensureGitModulesLoaded();
-    // Placeholder implementation, as full git show style diff is complex
-    // This could list changed files as a starting point
+
+    let commit: any;
     try {
-      const commit = await Repository.git.readCommit({ ...this.getGitFs(), dir: this.path, oid: commitSha });
-      // For a more detailed diff, you'd compare trees (commit.tree vs parentCommit.tree)
-      // This is just a very basic representation.
-      let diffOutput = `Commit: ${commit.oid}\nAuthor: ${commit.commit.author.name} <${commit.commit.author.email}>\nDate: ${new Date(commit.commit.author.timestamp * 1000).toISOString()}\n\n${commit.commit.message}\n\n`;
-      // To get changed files, you would typically compare this commit's tree with its parent's tree.
-      // For simplicity, we are not doing that here. Placeholder for changed files:
-      diffOutput += `Changed files (placeholder):\n- file1.txt\n+ file2.txt\n`;
-      return diffOutput;
+      commit = await this.readCommitObject(commitSha);
     } catch (e: any) {
-      console.error(`Failed to read commit ${commitSha} for diff:`, e);
-      return `Error generating diff for commit ${commitSha}: ${e.message}`;
+      console.error(`[Repository] Failed to read commit ${commitSha} for diff:`, e);
+      throw new Error(`Commit not found: ${commitSha}`);
+    }
+
+    const parentSha: string | null = commit.commit.parent?.[0] || null;
+    let parentTreeOid: string | null = null;
+    if (parentSha) {
+      const parentCommit = await this.readCommitObject(parentSha);
+      parentTreeOid = parentCommit.commit.tree;
+    }
+
+    const files = await this.diffTrees(parentTreeOid, commit.commit.tree, options);
+    return {
+      commit: commit.oid,
+      parent: parentSha,
+      author: {
+        name: commit.commit.author.name,
+        email: commit.commit.author.email,
+      },
+      date: new Date(commit.commit.author.timestamp * 1000).toISOString(),
+      message: commit.commit.message,
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+    };
+  }
+
+  /**
+   * Compare any two refs (commit SHAs, branches or tags): the files changed between their
+   * trees, with rename detection and per-file diffs, plus the commits head adds over base.
+   */
+  async compareRefs(base: string, head: string, options: DiffOptions = {}): Promise<CompareResult> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+
+    const baseOid = await this.resolveCommitOid(base);
+    const headOid = await this.resolveCommitOid(head);
+    const baseCommit = await this.readCommitObject(baseOid);
+    const headCommit = await this.readCommitObject(headOid);
+
+    let mergeBase: string | null = null;
+    try {
+      const bases: string[] = await Repository.git.findMergeBase({ fs, dir: this.path, oids: [baseOid, headOid] });
+      mergeBase = bases[0] || null;
+    } catch (e: any) {
+      console.warn(`[Repository.compareRefs] Could not find merge base of ${base} and ${head}: ${e.message}`);
+    }
+
+    let commits: CompareCommitSummary[] = [];
+    if (baseOid !== headOid) {
+      const baseLog = await this.getCommitLog(baseOid);
+      const headLog = await this.getCommitLog(headOid);
+      const reachableFromBase = new Set<string>(baseLog.map((c: any) => c.oid));
+      commits = headLog
+        .filter((c: any) => !reachableFromBase.has(c.oid))
+        .map((c: any) => ({
+          oid: c.oid,
+          message: c.commit.message,
+          author: { name: c.commit.author.name, email: c.commit.author.email },
+          date: new Date(c.commit.author.timestamp * 1000).toISOString(),
+        }));
+    }
+
+    const files = baseOid === headOid ? [] : await this.diffTrees(baseCommit.commit.tree, headCommit.commit.tree, options);
+    return {
+      base: { ref: base, commit: baseOid },
+      head: { ref: head, commit: headOid },
+      mergeBase,
+      commits,
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+    };
+  }
+
+  /**
+   * Resolve a branch, tag (annotated tags are peeled), full or abbreviated SHA to a commit OID.
+   */
+  async resolveCommitOid(ref: string): Promise<string> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+
+    let oid: string | undefined;
+    try {
+      oid = await Repository.git.resolveRef({ fs, dir: this.path, ref });
+    } catch {
+      if (/^[0-9a-f]{4,40}$/i.test(ref)) {
+        try {
+          oid = await Repository.git.expandOid({ fs, dir: this.path, oid: ref.toLowerCase() });
+        } catch {
+          // Fall through to the not found error below
+        }
+      }
+    }
+    if (!oid) {
+      throw new Error(`Ref not found: ${ref}`);
+    }
+
+    // Peel annotated tags down to the commit they point at
+    let object: any = await this.withDeepening(oid, () => Repository.git.readObject({ fs, dir: this.path, oid, format: 'parsed' }));
+    while (object.type === 'tag') {
+      object = await Repository.git.readObject({ fs, dir: this.path, oid: object.object.object, format: 'parsed' });
+    }
+    if (object.type !== 'commit') {
+      throw new Error(`Ref ${ref} does not point to a commit`);
+    }
+    return object.oid;
+  }
+
+  /**
+   * Let history reads fetch more commits when they reach the boundary of a shallow clone.
+   */
+  setHistoryDeepener(deepener: HistoryDeepener | undefined): void {
+    this.historyDeepener = deepener;
+  }
+
+  /**
+   * Boundary commits of a shallow clone (their parents were not fetched); empty for a
+   * repository with its full history.
+   */
+  async getShallowCommits(): Promise<string[]> {
+    try {
+      const content = await this.fs.promises.readFile(pathLib.join(this.gitdir, 'shallow'), 'utf8');
+      return content.split('\n').map(line => line.trim()).filter(Boolean);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async isShallow(): Promise<boolean> {
+    return (await this.getShallowCommits()).length > 0;
+  }
+
+  /**
+   * Fetch more history into a shallow clone.
+   * @returns false when the clone already has its full history or cannot be deepened
+   */
+  async deepenHistory(deepenBy: number | 'full' = Repository.DEEPEN_STEP): Promise<boolean> {
+    if (!this.historyDeepener || !(await this.isShallow())) {
+      return false;
     }
+    console.log(`[Repository] Deepening shallow clone ${this.path} by ${deepenBy === 'full' ? 'its full history' : `${deepenBy} commits`}`);
+    await this.historyDeepener(deepenBy);
+    return true;
+  }
+
+  /**
+   * Commits reachable from a ref, newest first, as isomorphic-git log entries ({ oid, commit }).
+   * In a shallow clone, more history is fetched when the log runs into the boundary.
+   */
+  async getCommitLog(ref: string = 'HEAD', depth?: number): Promise<any[]> {
+    await Repository.ensureGitModulesLoaded();
+    for (;;) {
+      const commits = await Repository.git.log({ ...this.getGitFs(), dir: this.path, ref, depth });
+      if (depth !== undefined && commits.length >= depth) {
+        return commits;
+      }
+      const shallow = new Set(await this.getShallowCommits());
+      const last = commits[commits.length - 1];
+      if (!last || !shallow.has(last.oid) || !(await this.deepenHistory(depth === undefined ? 'full' : Repository.DEEPEN_STEP))) {
+        return commits;
+      }
+    }
+  }
+
+  // readCommit that deepens a shallow clone when the commit is a parent of its boundary
+  private async readCommitObject(oid: string): Promise<any> {
+    await Repository.ensureGitModulesLoaded();
+    return this.withDeepening(oid, () => Repository.git.readCommit({ ...this.getGitFs(), dir: this.path, oid }));
+  }
+
+  // Retries a read of `oid` after deepening while the object is missing just past the shallow boundary
+  private async withDeepening<T>(oid: string, read: () => Promise<T>): Promise<T> {
+    for (;;) {
+      try {
+        return await read();
+      } catch (error: any) {
+        if (error?.code !== 'NotFoundError' || !(await this.isBeyondShallowBoundary(oid)) || !(await this.deepenHistory())) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async isBeyondShallowBoundary(oid: string): Promise<boolean> {
+    for (const boundary of await this.getShallowCommits()) {
+      const { commit } = await Repository.git.readCommit({ ...this.getGitFs(), dir: this.path, oid: boundary });
+      if (commit.parent.includes(oid)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Create an annotated tag pointing at a commit (HEAD by default).
+   */
+  async createTag(name: string, options: { message: string; tagger?: { name: string; email: string }; ref?: string }): Promise<TagInfo> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+    const oid = await this.resolveCommitOid(options.ref || 'HEAD');
+
+    if (await this.tagExists(name)) {
+      throw new Error(`Tag already exists: ${name}`);
+    }
+    await Repository.git.annotatedTag({
+      fs,
+      dir: this.path,
+      ref: name,
+      object: oid,
+      message: options.message,
+      tagger: options.tagger || { name: 'Lspace', email: 'lspace@example.com' },
+      signingKey: '',
+    });
+    return this.getTag(name);
+  }
+
+  async listTags(): Promise<TagInfo[]> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+    const names: string[] = await Repository.git.listTags({ fs, dir: this.path });
+    const tags: TagInfo[] = [];
+    for (const name of names) {
+      try {
+        tags.push(await this.getTag(name));
+      } catch (error: any) {
+        // Tags on trees or blobs are not useful here
+        console.warn(`[Repository.listTags] Skipping tag ${name}: ${error.message}`);
+      }
+    }
+    return tags;
+  }
+
+  async getTag(name: string): Promise<TagInfo> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+    let oid: string;
+    try {
+      oid = await Repository.git.resolveRef({ fs, dir: this.path, ref: `refs/tags/${name}` });
+    } catch {
+      throw new Error(`Tag not found: ${name}`);
+    }
+
+    const object = await Repository.git.readObject({ fs, dir: this.path, oid, format: 'parsed' });
+    if (object.type !== 'tag') {
+      return { name, commit: await this.resolveCommitOid(oid), annotated: false, message: null, tagger: null, date: null };
+    }
+    const { tag } = await Repository.git.readTag({ fs, dir: this.path, oid });
+    return {
+      name,
+      commit: await this.resolveCommitOid(oid),
+      annotated: true,
+      message: tag.message,
+      tagger: { name: tag.tagger.name, email: tag.tagger.email },
+      date: new Date(tag.tagger.timestamp * 1000).toISOString(),
+    };
+  }
+
+  async tagExists(name: string): Promise<boolean> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+    try {
+      await Repository.git.resolveRef({ fs, dir: this.path, ref: `refs/tags/${name}` });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async deleteTag(name: string): Promise<void> {
+    await Repository.ensureGitModulesLoaded();
+    if (!(await this.tagExists(name))) {
+      throw new Error(`Tag not found: ${name}`);
+    }
+    await Repository.git.deleteTag({ ...this.getGitFs(), dir: this.path, ref: name });
+  }
+
+  /**
+   * Make the tracked files match the tree of `ref` and record that as a new commit on top of
+   * HEAD. History is left intact, so the restore can itself be reverted.
+   */
+  async restoreTree(ref: string, options: RestoreOptions): Promise<RestoreResult> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+    const targetOid = await this.resolveCommitOid(ref);
+    const isIncluded = (filePath: string) => !options.exclude || !options.exclude(filePath);
+
+    // What the commit records is decided against HEAD, not the working tree
+    const targetBlobs = await this.readTreeBlobOids(targetOid);
+    const headBlobs = await this.readTreeBlobOids(await this.resolveCommitOid('HEAD'));
+    const restoredFiles = Array.from(targetBlobs.keys())
+      .filter(filePath => isIncluded(filePath) && headBlobs.get(filePath) !== targetBlobs.get(filePath));
+    const deletedFiles = Array.from(headBlobs.keys())
+      .filter(filePath => isIncluded(filePath) && !targetBlobs.has(filePath));
+
+    // Changes staged before the restore are not part of it
+    const changedSet = new Set([...restoredFiles, ...deletedFiles]);
+    for (const file of (await this.getStatus()).files) {
+      if (file.staged && !changedSet.has(file.path)) {
+        await Repository.git.resetIndex({ fs, dir: this.path, filepath: file.path });
+      }
+    }
+
+    for (const [filePath] of targetBlobs) {
+      if (!isIncluded(filePath)) {
+        continue;
+      }
+      const content = (await this.getFileBufferAtCommit(targetOid, filePath))!;
+      if (await this.fileExists(filePath)) {
+        const current = await this.readFileBuffer(filePath);
+        if (Buffer.compare(current, content) === 0) {
+          continue;
+        }
+      }
+      await this.writeFileBuffer(filePath, content);
+    }
+    for (const filePath of deletedFiles) {
+      await this.deleteFile(filePath);
+    }
+
+    if (restoredFiles.length === 0 && deletedFiles.length === 0) {
+      return { commit: null, restoredFiles, deletedFiles };
+    }
+    if (restoredFiles.length > 0) {
+      await this.add(restoredFiles);
+    }
+
+    const commit = await this.commit({
+      message: options.message || `Restore ${ref}`,
+      author: options.author,
+      trailers: { operation: 'restore', ...options.trailers },
+    });
+    if (!commit.success) {
+      throw new Error(`Failed to commit restore of ${ref}: ${commit.message}`);
+    }
+    console.log(`[Repository] Restored ${ref} (${restoredFiles.length} written, ${deletedFiles.length} deleted) as ${commit.hash.slice(0, 8)}`);
+    return { commit, restoredFiles, deletedFiles };
+  }
+
+  // Blob IDs of every file in a commit's tree, by path
+  private async readTreeBlobOids(commitOid: string): Promise<Map<string, string>> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+    const blobs = new Map<string, string>();
+    await Repository.git.walk({
+      fs,
+      dir: this.path,
+      trees: [Repository.git.TREE({ ref: commitOid })],
+      map: async (filepath: string, [entry]: any[]) => {
+        if (entry && (await entry.type()) === 'blob') {
+          blobs.set(filepath, await entry.oid());
+        }
+        return true;
+      },
+    });
+    return blobs;
+  }
+
+  /**
+   * Walk two trees (base may be null for a root commit) and pair up the blobs that differ.
+   * Only the contents of deleted and added files are read, to score them as rename candidates.
+   */
+  private async compareTrees(baseTreeOid: string | null, headTreeOid: string, detectRenames: boolean = true): Promise<TreeChange[]> {
+    await Repository.ensureGitModulesLoaded();
+    const { fs } = this.getGitFs();
+
+    const readTreeBlob = async (entry: any): Promise<TreeBlob | null> => {
+      if (!entry || (await entry.type()) !== 'blob') {
+        return null;
+      }
+      return { oid: await entry.oid(), mode: (await entry.mode()).toString(8) };
+    };
+
+    const trees = baseTreeOid
+      ? [Repository.git.TREE({ ref: baseTreeOid }), Repository.git.TREE({ ref: headTreeOid })]
+      : [Repository.git.TREE({ ref: headTreeOid })];
+
+    const changed: TreeChange[] = [];
+    await Repository.git.walk({
+      fs,
+      dir: this.path,
+      trees,
+      map: async (filepath: string, entries: any[]) => {
+        if (filepath === '.') {
+          return true;
+        }
+        const [baseEntry, headEntry] = baseTreeOid ? entries : [null, entries[0]];
+        // Skip identical subtrees and blobs
+        if (baseEntry && headEntry && (await baseEntry.oid()) === (await headEntry.oid())) {
+          return null;
+        }
+        const oldSide = await readTreeBlob(baseEntry);
+        const newSide = await readTreeBlob(headEntry);
+        if (oldSide || newSide) {
+          changed.push({ path: filepath, oldSide, newSide });
+        }
+        return true;
+      },
+    });
+
+    const pairs: TreeChange[] = changed.filter(c => c.oldSide && c.newSide);
+    const deleted = changed.filter(c => c.oldSide && !c.newSide);
+    const added = changed.filter(c => !c.oldSide && c.newSide);
+
+    if (detectRenames && deleted.length > 0 && added.length > 0) {
+      // Text of a rename candidate, or null for binary content
+      const texts = new Map<string, string | null>();
+      const readText = async (side: TreeBlob): Promise<string | null> => {
+        if (!texts.has(side.oid)) {
+          const content = await this.readBlobContent(side.oid);
+          texts.set(side.oid, isBinaryContent(content) ? null : Buffer.from(content).toString('utf8'));
+        }
+        return texts.get(side.oid)!;
+      };
+
+      const candidates: Array<{ from: TreeChange; to: TreeChange; similarity: number }> = [];
+      const compareContent = deleted.length * added.length <= RENAME_CANDIDATE_LIMIT;
+      for (const from of deleted) {
+        for (const to of added) {
+          if (from.oldSide!.oid === to.newSide!.oid) {
+            candidates.push({ from, to, similarity: 100 });
+          } else if (compareContent) {
+            const oldText = await readText(from.oldSide!);
+            const newText = await readText(to.newSide!);
+            if (oldText === null || newText === null) {
+              continue;
+            }
+            const similarity = similarityIndex(oldText, newText);
+            if (similarity >= RENAME_SIMILARITY_THRESHOLD) {
+              candidates.push({ from, to, similarity });
+            }
+          }
+        }
+      }
+      // Greedily take the most similar pairs first so each file is used at most once
+      candidates.sort((x, y) => y.similarity - x.similarity);
+      const usedFrom = new Set<string>();
+      const usedTo = new Set<string>();
+      for (const { from, to, similarity } of candidates) {
+        if (usedFrom.has(from.path) || usedTo.has(to.path)) {
+          continue;
+        }
+        usedFrom.add(from.path);
+        usedTo.add(to.path);
+        pairs.push({ path: to.path, oldPath: from.path, oldSide: from.oldSide, newSide: to.newSide, similarity });
+      }
+      pairs.push(...deleted.filter(c => !usedFrom.has(c.path)));
+      pairs.push(...added.filter(c => !usedTo.has(c.path)));
+    } else {
+      pairs.push(...deleted, ...added);
+    }
+
+    return pairs.sort((x, y) => (x.path < y.path ? -1 : x.path > y.path ? 1 : 0));
+  }
+
+  /**
+   * Walk two trees (base may be null for a root commit) and diff every blob that differs.
+   */
+  private async diffTrees(baseTreeOid: string | null, headTreeOid: string, options: DiffOptions = {}): Promise<FileDiff[]> {
+    const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+    const changes = await this.compareTrees(baseTreeOid, headTreeOid, options.detectRenames !== false);
+
+    const files: FileDiff[] = [];
+    for (const change of changes) {
+      const { path, oldPath, oldSide, newSide, similarity } = change;
+      const oldContent = oldSide ? await this.readBlobContent(oldSide.oid) : null;
+      const newContent = newSide ? await this.readBlobContent(newSide.oid) : null;
+      const decode = (content: Uint8Array | null) => (content ? Buffer.from(content).toString('utf8') : '');
+      const binary = (oldContent !== null && isBinaryContent(oldContent)) || (newContent !== null && isBinaryContent(newContent));
+      const textDiff = binary
+        ? { hunks: [], additions: 0, deletions: 0 }
+        : diffText(decode(oldContent), decode(newContent), contextLines);
+      files.push({
+        path,
+        ...(oldPath ? { oldPath, similarity } : {}),
+        status: treeChangeStatus(change),
+        oldOid: oldSide?.oid || null,
+        newOid: newSide?.oid || null,
+        oldMode: oldSide?.mode || null,
+        newMode: newSide?.mode || null,
+        binary,
+        ...textDiff,
+      });
+    }
+    return files;
+  }
+
+  private async readBlobContent(oid: string): Promise<Uint8Array> {
+    await Repository.ensureGitModulesLoaded();
+    const { blob } = await Repository.git.readBlob({ ...this.getGitFs(), dir: this.path, oid });
+    return blob;
+  }
+
+  /**
+   * Render file diffs in git's unified diff format.
+   */
+  static formatFileDiffs(files: FileDiff[]): string {
+    let output = '';
+    for (const file of files) {
+      const oldPath = file.oldPath || file.path;
+      output += `diff --git a/${oldPath} b/${file.path}\n`;
+      if (file.status === 'rename') {
+        output += `similarity index ${file.similarity}%\nrename from ${oldPath}\nrename to ${file.path}\n`;
+      }
+      if (file.status === 'add') {
+        output += `new file mode ${file.newMode}\n`;
+      } else if (file.status === 'delete') {
+        output += `deleted file mode ${file.oldMode}\n`;
+      } else if (file.oldMode !== file.newMode) {
+        output += `old mode ${file.oldMode}\nnew mode ${file.newMode}\n`;
+      }
+      const shortOid = (oid: string | null) => (oid || '0'.repeat(40)).slice(0, 7);
+      const modeSuffix = (file.status === 'modify' || file.status === 'rename') && file.oldMode === file.newMode ? ` ${file.newMode}` : '';
+      if (file.oldOid !== file.newOid) {
+        output += `index ${shortOid(file.oldOid)}..${shortOid(file.newOid)}${modeSuffix}\n`;
+      }
+
+      const fromLabel = file.status === 'add' ? '/dev/null' : `a/${oldPath}`;
+      const toLabel = file.status === 'delete' ? '/dev/null' : `b/${file.path}`;
+      if (file.binary) {
+        output += `Binary files ${fromLabel} and ${toLabel} differ\n`;
+      } else if (file.hunks.length > 0) {
+        output += `--- ${fromLabel}\n+++ ${toLabel}\n`;
+        output += formatHunks(file.hunks);
+      }
+    }
+    return output;
   }
 
   async ensureDirectoryExists(path: string): Promise<void> {
-    const absolutePath = pathLib.resolve(this.path, path);
-    await fs.promises.mkdir(absolutePath, { recursive: true });
+    const absolutePath = await this.resolvePath(path, { write: true });
+    await this.fs.promises.mkdir(absolutePath, { recursive: true });
   }
 
   // Method to be used by ChatAssistantService for its create_directory tool
@@ -318,11 +1343,11 @@ export class Repository {
   }
 
   async deleteDirectory(directoryPath: string): Promise<void> {
-    const absoluteDirPath = pathLib.resolve(this.path, directoryPath);
+    const absoluteDirPath = await this.resolvePath(directoryPath, { write: true });
 
     // Check if the path exists and is a directory
     try {
-      const stats = await fs.promises.lstat(absoluteDirPath);
+      const stats = await this.fs.promises.lstat(absoluteDirPath);
       if (!stats.isDirectory()) {
         throw new Error(`Path is not a directory: ${directoryPath}`);
       }
@@ -336,13 +1361,13 @@ export class Repository {
     }
 
     // Check if directory is empty
-    const entries = await fs.promises.readdir(absoluteDirPath);
+    const entries = await this.fs.promises.readdir(absoluteDirPath);
     if (entries.length > 0) {
       throw new Error(`Directory not empty: ${directoryPath}. Cannot delete non-empty directory.`);
     }
 
     // If empty, remove it
-    await fs.promises.rmdir(absoluteDirPath);
+    await this.fs.promises.rmdir(absoluteDirPath);
     console.log(`[Repository.deleteDirectory] Successfully deleted empty directory: ${directoryPath}`);
     // Note: No direct git operation here. If files within were git tracked and deleted prior,
     // the directory will become untracked and effectively removed from git status if it was empty.
@@ -351,7 +1376,7 @@ export class Repository {
   }
 
   // New method to encapsulate add and commit for ChatAssistantService
-  async commitChanges(filePaths: string[], message: string, author: { name: string, email: string }): Promise<CommitResult> {
+  async commitChanges(filePaths: string[], message: string, author: { name: string, email: string }, trailers?: LspaceTrailers): Promise<CommitResult> {
     if (filePaths.length > 0) {
       await this.add(filePaths);
     }
@@ -387,13 +1412,29 @@ export class Repository {
     }
 
     if (hasStagedChanges) {
-        return this.commit({ message, author });
+        return this.commit({ message, author, trailers });
     } else {
         console.log("[Repository.commitChanges] No changes to commit.");
         return { success: true, hash: 'NO_CHANGES', message: 'No changes to commit' };
     }
   }
 
+  /**
+   * Binary-safe counterpart of getFileContentAtCommit.
+   */
+  async getFileBufferAtCommit(commitSha: string, filePath: string): Promise<Buffer | null> {
+    await Repository.ensureGitModulesLoaded();
+    try {
+      const { blob } = await Repository.git.readBlob({ ...this.getGitFs(), dir: this.path, oid: commitSha, filepath: filePath });
+      return Buffer.from(blob);
+    } catch (error: any) {
+      if (error.code === 'NotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   async getFileContentAtCommit(commitSha: string, filePath: string): Promise<string | null> {
     await Repository.ensureGitModulesLoaded();
     try {
@@ -429,92 +1470,130 @@ export class Repository {
     }
   }
 
+  /**
+   * List the files a commit changed relative to its first parent (every file for a root commit).
+   * Moves are reported once with status 'rename' and the previous path in oldPath.
+   */
   async getChangedFilesInCommit(commitSha: string): Promise<FileChangeInfo[]> {
-    await Repository.ensureGitModulesLoaded();
-    const fs = this.getGitFs().fs; // Get the fs module for isomorphic-git
-
     try {
-      const commit = await Repository.git.readCommit({ fs, dir: this.path, oid: commitSha });
-      const currentTreeOid = commit.commit.tree;
-      const parentOids = commit.commit.parent;
+      const commit = await this.readCommitObject(commitSha);
+      const parentSha: string | undefined = commit.commit.parent[0];
+      const parentTreeOid = parentSha ? (await this.readCommitObject(parentSha)).commit.tree : null;
+      const changes = await this.compareTrees(parentTreeOid, commit.commit.tree);
+      return changes.map(change => ({
+        path: change.path,
+        status: treeChangeStatus(change),
+        ...(change.oldPath ? { oldPath: change.oldPath, similarity: change.similarity } : {}),
+      }));
+    } catch (error: any) {
+      console.error(`Error getting changed files for commit ${commitSha}:`, error);
+      return []; // Return empty array on error to prevent crashes upstream
+    }
+  }
+
+  /**
+   * Attribute each line of a file at `ref` to the commit that last changed it.
+   * Follows the first-parent history and renames, like `git blame --first-parent`.
+   */
+  async blame(filePath: string, ref: string = 'HEAD'): Promise<BlameResult> {
+    await Repository.ensureGitModulesLoaded();
 
-      const changes: FileChangeInfo[] = [];
+    const headOid = await this.resolveCommitOid(ref);
+    const content = await this.getFileContentAtCommit(headOid, filePath);
+    if (content === null) {
+      throw new Error(`File not found: ${filePath} at ${ref}`);
+    }
 
-      if (!parentOids || parentOids.length === 0) {
-        // Initial commit, all files are 'added'
-        // We need to list all files in the current tree
-        const walk = Repository.git.TREE({
-          fs,
-          dir: this.path,
-          ref: commitSha, // or currentTreeOid
-        });
-        let count = 0;
-        for await (const entry of walk) {
-          if (entry.type === 'blob') {
-            changes.push({ path: entry.path, status: 'add' });
-          }
-          if (++count > 1000) { // Safety break for very large trees
-            console.warn('Walked over 1000 entries in initial commit, breaking.');
-            break;
+    const lines = splitLines(content);
+    const attributedTo: string[] = new Array(lines.length);
+    const pathAtCommit = new Map<string, string>();
+    // Lines still looking for their origin: index in the final file and index in the content being examined
+    let pending = lines.map((_, index) => ({ final: index, current: index }));
+
+    let commitOid = headOid;
+    let currentPath = filePath;
+    let currentContent = content;
+    while (pending.length > 0) {
+      const commit = await this.readCommitObject(commitOid);
+      const parentOid: string | undefined = commit.commit.parent[0];
+
+      let previousPath = currentPath;
+      let previousContent: string | null = null;
+      if (parentOid) {
+        await this.readCommitObject(parentOid); // Deepens a shallow clone so the parent's files can be read
+        previousContent = await this.getFileContentAtCommit(parentOid, currentPath);
+        if (previousContent === null) {
+          const renamed = (await this.getChangedFilesInCommit(commitOid))
+            .find(change => change.status === 'rename' && change.path === currentPath && change.oldPath);
+          if (renamed) {
+            previousPath = renamed.oldPath!;
+            previousContent = await this.getFileContentAtCommit(parentOid, previousPath);
           }
         }
-        return changes;
       }
 
-      // For simplicity, we'll compare against the first parent for non-merge commits.
-      // Merge commits (parentOids.length > 1) diffing is more complex and can be enhanced later.
-      const parentCommitOid = parentOids[0];
-      const parentCommit = await Repository.git.readCommit({ fs, dir: this.path, oid: parentCommitOid });
-      const parentTreeOid = parentCommit.commit.tree;
-      
-      // Use isomorphic-git.walk to compare the two trees
-      // The Treewalker emits events for each entry in the tree.
-      // We need to compare the entries from two walkers or use a specific diff function if available.
-      // Isomorphic-git's `walk` is powerful. We use two of them and compare.
+      if (previousContent === null) {
+        // The file was created in this commit: everything left originates here
+        pathAtCommit.set(commitOid, currentPath);
+        pending.forEach(line => { attributedTo[line.final] = commitOid; });
+        break;
+      }
 
-      const compareOids = (a?: string, b?: string) => a === b;
+      if (previousContent !== currentContent) {
+        // Map each line of the current content to its position in the parent content, or -1 if added here
+        const toPrevious: number[] = [];
+        let previousIndex = 0;
+        for (const line of diffLines(splitLines(previousContent), splitLines(currentContent))) {
+          if (line.type === 'context') {
+            toPrevious.push(previousIndex++);
+          } else if (line.type === 'add') {
+            toPrevious.push(-1);
+          } else {
+            previousIndex++;
+          }
+        }
 
-      await Repository.git.walk({
-        fs,
-        dir: this.path,
-        trees: [Repository.git.TREE({ ref: parentTreeOid }), Repository.git.TREE({ ref: currentTreeOid })],
-        map: async function(filepath: string, entries: any[]) {
-          // `entries` is an array of `WalkerEntry` objects. `null` if the file doesn't exist in a tree.
-          // entries[0] is from parentTree, entries[1] is from currentTree
-          const [parentEntry, currentEntry] = entries;
-
-          if (parentEntry && !currentEntry) {
-            // File was in parent but not in current -> deleted
-            if (parentEntry.type === 'blob') changes.push({ path: filepath, status: 'delete' });
-          } else if (!parentEntry && currentEntry) {
-            // File was not in parent but is in current -> added
-            if (currentEntry.type === 'blob') changes.push({ path: filepath, status: 'add' });
-          } else if (parentEntry && currentEntry) {
-            // File exists in both, check if modified
-            if (parentEntry.type === 'blob' && currentEntry.type === 'blob') {
-              const parentOid = await parentEntry.oid();
-              const currentOid = await currentEntry.oid();
-              if (!compareOids(parentOid, currentOid)) {
-                changes.push({ path: filepath, status: 'modify' });
-              }
-            }
-            // Note: This doesn't directly handle type changes (e.g. file to symlink) but focuses on blob content changes.
+        const stillPending: typeof pending = [];
+        for (const line of pending) {
+          const mapped = toPrevious[line.current];
+          if (mapped === -1) {
+            attributedTo[line.final] = commitOid;
+            pathAtCommit.set(commitOid, currentPath);
+          } else {
+            stillPending.push({ final: line.final, current: mapped });
           }
-          return null; // Not returning anything specific from map
         }
-      });
+        pending = stillPending;
+      }
 
-      return changes;
-    } catch (error: any) {
-      console.error(`Error getting changed files for commit ${commitSha}:`, error);
-      // throw error; // Re-throw if you want to propagate, or return empty for graceful degradation
-      return []; // Return empty array on error to prevent crashes upstream
+      commitOid = parentOid!;
+      currentPath = previousPath;
+      currentContent = previousContent;
     }
+
+    const commits: Record<string, BlameCommitInfo> = {};
+    for (const oid of new Set(attributedTo)) {
+      const { commit } = await this.readCommitObject(oid);
+      commits[oid] = {
+        oid,
+        message: commit.message,
+        author: { name: commit.author.name, email: commit.author.email },
+        date: new Date(commit.author.timestamp * 1000).toISOString(),
+        path: pathAtCommit.get(oid) || filePath,
+      };
+    }
+
+    return {
+      path: filePath,
+      ref,
+      commit: headOid,
+      lines: lines.map((line, index) => ({ lineNumber: index + 1, content: line, commit: attributedTo[index] })),
+      commits,
+    };
   }
 
   async getFileDiffForCommit(commitSha: string, filePath: string): Promise<{ currentContent: string | null; previousContent: string | null; operation: 'add' | 'modify' | 'delete' }> {
     await Repository.ensureGitModulesLoaded();
-    const fs = this.getGitFs().fs;
 
     let currentContent: string | null = null;
     let previousContent: string | null = null;
@@ -523,7 +1602,7 @@ export class Repository {
     try {
       currentContent = await this.getFileContentAtCommit(commitSha, filePath);
 
-      const commitData = await Repository.git.readCommit({ fs, dir: this.path, oid: commitSha });
+      const commitData = await this.readCommitObject(commitSha);
       
       if (!commitData || !commitData.commit) {
         console.error(`[Repository] readCommit for ${commitSha} did not return expected commit object.`);
@@ -532,6 +1611,7 @@ export class Repository {
         const parentOids = commitData.commit.parent;
         if (parentOids && parentOids.length > 0) {
           const parentSha = parentOids[0];
+          await this.readCommitObject(parentSha); // Deepens a shallow clone so the parent's files can be read
           previousContent = await this.getFileContentAtCommit(parentSha, filePath);
         } else {
           previousContent = null;
@@ -574,17 +1654,141 @@ export class Repository {
     return { currentContent, previousContent, operation };
   }
 
+  /**
+   * Find the knowledge base commit produced from a raw input. Commits are matched by their
+   * Lspace-Raw-Commit trailer when the raw input commit is known, otherwise by Lspace-Source;
+   * message matching is only a fallback for history that predates trailers.
+   * Returns an isomorphic-git log entry ({ oid, commit }) or null.
+   */
   async findRelatedKbCommit(
     sourceFilename: string,
-    sourceCommitSha?: string, // Optional: can be used as a starting point or for recency
+    sourceCommitSha?: string, // The raw input commit; KB commits are searched among its descendants
+    authorName?: string,    // Only used by the legacy message fallback
+    maxCommitsToSearch: number = 20 // Only used by the legacy message fallback
+  ): Promise<any | null> {
+    try {
+      const [match] = await this.findCommitsWithTrailers(trailers =>
+        trailers.operation === 'kb-update' && (sourceCommitSha
+          ? trailers.rawCommit === sourceCommitSha
+          : !!trailers.source && (trailers.source === sourceFilename || pathLib.posix.basename(trailers.source) === sourceFilename)),
+        { stopAt: sourceCommitSha, limit: 1 });
+      if (match) {
+        const { commit } = await this.readCommitObject(match.oid);
+        return { oid: match.oid, commit };
+      }
+    } catch (error) {
+      console.warn(`[Repository.findRelatedKbCommit] Trailer lookup failed for ${sourceFilename}:`, error);
+    }
+    return this.findRelatedKbCommitByMessage(sourceFilename, authorName, maxCommitsToSearch);
+  }
+
+  /**
+   * A commit with its parsed Lspace trailers.
+   */
+  async getTrailerCommit(ref: string): Promise<TrailerCommit> {
+    return this.readTrailerCommit(await this.resolveCommitOid(ref));
+  }
+
+  /**
+   * Lspace trailers of a commit.
+   */
+  async getCommitTrailers(ref: string): Promise<LspaceTrailers> {
+    return (await this.getTrailerCommit(ref)).trailers;
+  }
+
+  /**
+   * Commits whose trailers contain every field of the filter, newest first.
+   * e.g. findCommitsByTrailers({ operation: 'kb-update', rawCommit: sha })
+   */
+  async findCommitsByTrailers(filter: LspaceTrailers, options: TrailerQueryOptions = {}): Promise<TrailerCommit[]> {
+    return this.findCommitsWithTrailers(trailers => matchesTrailers(trailers, filter), options);
+  }
+
+  /**
+   * Commits whose trailers satisfy a predicate, newest first.
+   */
+  async findCommitsWithTrailers(
+    predicate: (trailers: LspaceTrailers, commit: TrailerCommit) => boolean,
+    options: TrailerQueryOptions = {}
+  ): Promise<TrailerCommit[]> {
+    await Repository.ensureGitModulesLoaded();
+    const startOid = await this.resolveCommitOid(options.ref || 'HEAD');
+    const matches: TrailerCommit[] = [];
+
+    // Walk history newest first, like git log, without descending past stopAt
+    const visited = new Set<string>();
+    const parents = new Map<string, string[]>();
+    const pending: TrailerCommit[] = [await this.readTrailerCommit(startOid, parents)];
+    while (pending.length > 0) {
+      pending.sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+      const current = pending.shift()!;
+      if (visited.has(current.oid)) {
+        continue;
+      }
+      visited.add(current.oid);
+      if (current.oid === options.stopAt) {
+        continue;
+      }
+      if (predicate(current.trailers, current)) {
+        matches.push(current);
+        if (options.limit && matches.length >= options.limit) {
+          break;
+        }
+      }
+      for (const parent of parents.get(current.oid) || []) {
+        if (!visited.has(parent)) {
+          pending.push(await this.readTrailerCommit(parent, parents));
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Resolve how a commit relates to its ingestion: the raw input commit, the KB commits
+   * derived from it and the timeline entry, all from trailers.
+   */
+  async getCommitRelations(ref: string): Promise<CommitRelations> {
+    const commit = await this.getTrailerCommit(ref);
+    let rawCommit: TrailerCommit | null = null;
+    if (commit.trailers.operation === 'raw-input') {
+      rawCommit = commit;
+    } else if (commit.trailers.rawCommit) {
+      try {
+        rawCommit = await this.getTrailerCommit(commit.trailers.rawCommit);
+      } catch (error: any) {
+        console.warn(`[Repository.getCommitRelations] Raw input commit ${commit.trailers.rawCommit} of ${commit.oid} is not readable: ${error.message}`);
+      }
+    }
+
+    const kbCommits = rawCommit
+      ? await this.findCommitsByTrailers({ operation: 'kb-update', rawCommit: rawCommit.oid }, { stopAt: rawCommit.oid })
+      : [];
+    const timelineId = commit.trailers.timelineId || rawCommit?.trailers.timelineId
+      || kbCommits.find(kbCommit => kbCommit.trailers.timelineId)?.trailers.timelineId || null;
+    return { commit, rawCommit, kbCommits, timelineId };
+  }
+
+  private async readTrailerCommit(oid: string, parents?: Map<string, string[]>): Promise<TrailerCommit> {
+    await Repository.ensureGitModulesLoaded();
+    const { commit } = await this.readCommitObject(oid);
+    parents?.set(oid, commit.parent);
+    return {
+      oid,
+      message: commit.message,
+      author: { name: commit.author.name, email: commit.author.email },
+      date: new Date(commit.committer.timestamp * 1000).toISOString(),
+      trailers: parseTrailers(commit.message),
+    };
+  }
+
+  // Matches KB commits by message for history written before commits carried trailers.
+  private async findRelatedKbCommitByMessage(
+    sourceFilename: string,
     authorName?: string,    // Optional: to filter by KB commit author
-    maxCommitsToSearch: number = 20, // Search a reasonable number of recent commits
-    // How far back to look in general if sourceCommitSha is not provided or useful.
-    // Depth for the git log. isomorphic-git log defaults to a depth of 500 if not specified.
-    logDepth: number = 50 // If sourceCommitSha is used, depth might be less relevant here.
-  ): Promise<any | null> { // Return type can be more specific, like isomorphic-git's commit object type
+    maxCommitsToSearch: number = 20 // Search a reasonable number of recent commits
+  ): Promise<any | null> {
     await Repository.ensureGitModulesLoaded();
-    const fs = this.getGitFs().fs;
 
     // Regex to match KB commit messages related to the source filename
     // Escape special characters in sourceFilename for regex
@@ -595,15 +1799,8 @@ export class Repository {
     const genericKbPattern = new RegExp(`KB update for.*${escapedSourceFilename}`, 'i');
 
     try {
-      const commits = await Repository.git.log({
-        fs,
-        dir: this.path,
-        depth: maxCommitsToSearch, // Limit the number of commits to search
-        // ref: 'HEAD' // Search from HEAD backwards, or specify a branch
-        // If sourceCommitSha is provided, we ideally want commits *after* it,
-        // but `log` typically goes backwards. For simplicity, we search recent commits from HEAD.
-        // More advanced: if sourceCommitSha, get its date, then filter log for commits after that date.
-      });
+      // Search recent commits from HEAD backwards, limited to maxCommitsToSearch
+      const commits = await this.getCommitLog('HEAD', maxCommitsToSearch);
 
       for (const commit of commits) {
         const commitMessage = commit.commit.message;
@@ -629,17 +1826,20 @@ export class Repository {
     }
   }
 
+  /**
+   * First parent of a commit, or null for a root commit.
+   */
+  async getParentCommit(commitSha: string): Promise<string | null> {
+    await Repository.ensureGitModulesLoaded();
+    const { commit } = await this.readCommitObject(commitSha);
+    return commit.parent[0] || null;
+  }
+
   async findCommitBeforeFileUpload(uploadCommitSha: string): Promise<string | null> {
     await Repository.ensureGitModulesLoaded();
-    const isoGitFs = this.getGitFs().fs;
-    const dir = this.path;
 
     try {
-      const commitData = await Repository.git.readCommit({ 
-        fs: isoGitFs, 
-        dir: dir, 
-        oid: uploadCommitSha 
-      });
+      const commitData = await this.readCommitObject(uploadCommitSha);
 
       // --- BEGIN ADDED DEBUG LOGGING ---
       console.log(`[Repository] Raw commitData for ${uploadCommitSha}:`, JSON.stringify(commitData, null, 2));
@@ -670,9 +1870,14 @@ export class Repository {
     }
   }
 
+  /**
+   * Destructive rollback: force-checks out the commit, moves the current branch back to it and
+   * deletes untracked files. Later commits are dropped from the branch, so a following push to a
+   * remote that has them is rejected as non-fast-forward. Prefer `restoreTree`, which records the
+   * same end state as a new commit.
+   */
   async rollbackToCommit(commitSha: string): Promise<void> {
     await Repository.ensureGitModulesLoaded(); // Ensure Repository.git is loaded
-    const nodeFs = fs; // Alias for Node.js fs module for clarity in cleaning
     const isoGitFs = this.getGitFs().fs; // FS for isomorphic-git operations
     const dir = this.path;
 
@@ -725,13 +1930,13 @@ export class Repository {
       for (const relativePath of untrackedFilePaths) {
         const absolutePath = pathLib.join(dir, relativePath);
         try {
-          const stats = await nodeFs.promises.lstat(absolutePath);
+          const stats = await this.fs.promises.lstat(absolutePath);
           if (stats.isDirectory()) {
             console.log(`[Repository] Removing untracked directory: ${relativePath}`);
-            await nodeFs.promises.rm(absolutePath, { recursive: true, force: true });
+            await this.fs.promises.rm(absolutePath, { recursive: true, force: true });
           } else {
             console.log(`[Repository] Removing untracked file: ${relativePath}`);
-            await nodeFs.promises.unlink(absolutePath);
+            await this.fs.promises.unlink(absolutePath);
           }
         } catch (cleanError: any) {
           console.error(`[Repository] Error cleaning path ${relativePath}: ${cleanError.message}`);
@@ -766,7 +1971,7 @@ export class Repository {
         // or files deleted in workdir that were modified in index (head=1, workdir=0, stage=2)
         const isNewInWorkdir = workdir === 3; // New, untracked
         const isModifiedInWorkdir = workdir === 2; // Modified, not staged
-        const isDeletedInWorkdir = head === 1 && workdir === 0; // Deleted from workdir, was tracked
+        const isDeletedInWorkdir = head === 1 && workdir === 0 && stage !== 0; // Deleted from workdir, deletion not yet staged
 
         // We are interested in files that have changes in the working directory that are not yet staged for commit.
         // This includes new files, modified files, and files deleted from the working directory.
@@ -788,13 +1993,12 @@ export class Repository {
    */
   async revertCommit(commitSha: string, options: CommitOptions): Promise<CommitResult> {
     await Repository.ensureGitModulesLoaded();
-    const { fs } = this.getGitFs();
     
     try {
       console.log(`[Repository] Reverting commit ${commitSha.slice(0, 8)}...`);
       
       // Get the commit details
-      const commit = await Repository.git.readCommit({ fs, dir: this.path, oid: commitSha });
+      const commit = await this.readCommitObject(commitSha);
       const parentSha = commit.commit.parent[0];
       
       if (!parentSha) {
@@ -823,6 +2027,20 @@ export class Repository {
           } catch (error) {
             console.warn(`[Repository] Could not restore deleted file ${change.path}: ${error}`);
           }
+        } else if (change.status === 'rename' && change.oldPath) {
+          // File was moved - move it back to its previous path with its parent content
+          try {
+            const parentContent = await this.getFileContentAtCommit(parentSha, change.oldPath);
+            if (await this.fileExists(change.path)) {
+              await this.deleteFile(change.path);
+            }
+            if (parentContent !== null) {
+              await this.writeFile(change.oldPath, parentContent);
+              console.log(`[Repository] Moved file ${change.path} back to ${change.oldPath}`);
+            }
+          } catch (error) {
+            console.warn(`[Repository] Could not revert move of ${change.oldPath} to ${change.path}: ${error}`);
+          }
         } else if (change.status === 'modify') {
           // File was modified - restore parent version
           try {
@@ -850,7 +2068,8 @@ export class Repository {
         author: options.author || {
           name: 'Lspace Revert Service',
           email: 'revert@lspace.local'
-        }
+        },
+        trailers: { operation: 'revert', ...options.trailers }
       });
       
       console.log(`[Repository] Successfully reverted commit ${commitSha.slice(0, 8)}`);
@@ -0,0 +1,454 @@
+import fs from 'fs';
+import path from 'path';
+import { Repository } from './repository';
+import { RepositoryConfig, RepositoryManager } from './repositoryManager';
+import { TimelineService } from './timelineService';
+import { isShallowClone, runGit } from '../adapters/gitAdapter';
+
+export type DoctorCheckId =
+  | 'path'
+  | 'git-repository'
+  | 'head'
+  | 'shallow'
+  | 'working-tree'
+  | 'unpushed-commits'
+  | 'credentials'
+  | 'remote'
+  | 'timeline'
+  | 'index';
+
+export type DoctorCheckStatus = 'ok' | 'warning' | 'error' | 'skipped';
+
+/**
+ * One diagnostic. Checks that are not ok carry a suggested fix.
+ */
+export interface DoctorCheck {
+  id: DoctorCheckId;
+  status: DoctorCheckStatus;
+  message: string;
+  fix?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DoctorReport {
+  repositoryId: string;
+  name: string;
+  type: RepositoryConfig['type'];
+  path: string | null; // Working directory; null for scratch repositories
+  checkedAt: string;
+  status: 'healthy' | 'warnings' | 'unhealthy'; // Worst status among the checks
+  checks: DoctorCheck[];
+}
+
+export interface DoctorOptions {
+  remote?: boolean; // Contact the remote to check it is reachable (default true)
+}
+
+// Files listed in details before the rest is only counted
+const MAX_LISTED_FILES = 20;
+
+/**
+ * Diagnoses a repository's local clone and its connection to the remote, so setup problems
+ * (a deleted path, a detached HEAD, a credential that no longer resolves, a corrupt timeline)
+ * show up with a suggested fix instead of as failures halfway through an ingestion.
+ * Read-only: nothing is fetched, committed or repaired.
+ */
+export class RepositoryDoctor {
+  private timelineService = new TimelineService();
+
+  constructor(private repositoryManager: RepositoryManager) {}
+
+  /**
+   * Run every check for a repository. Also works for configured repositories whose setup
+   * failed, which is usually when a diagnosis is needed.
+   * @param idOrName Repository ID or name
+   * @throws Error if no repository has that ID or name
+   */
+  async diagnose(idOrName: string, options: DoctorOptions = {}): Promise<DoctorReport> {
+    const config = this.repositoryManager.getRepositoryConfig(idOrName);
+    if (!config) {
+      throw new Error(`Repository not found: ${idOrName}`);
+    }
+    const workingDir = this.repositoryManager.getRepositoryWorkingDirectory(config.id);
+    const checks: DoctorCheck[] = [];
+
+    if (workingDir === null) {
+      const skipped = 'Scratch repositories live in memory and have no git directory or remote';
+      for (const id of ['path', 'git-repository', 'head', 'shallow', 'working-tree', 'unpushed-commits', 'credentials', 'remote'] as const) {
+        checks.push({ id, status: 'skipped', message: skipped });
+      }
+      checks.push(await this.checkTimeline(config, this.repositoryManager.getRepository(config.id), null));
+      checks.push({ id: 'index', status: 'skipped', message: skipped });
+      return this.report(config, null, checks);
+    }
+
+    const pathCheck = this.checkPath(config, workingDir);
+    const gitCheck = pathCheck.status === 'ok'
+      ? await this.checkGitRepository(config, workingDir)
+      : RepositoryDoctor.skippedAfter('git-repository', 'path');
+    checks.push(pathCheck, gitCheck);
+
+    const hasClone = gitCheck.status === 'ok';
+    const credentialsCheck = this.checkCredentials(config);
+    if (hasClone) {
+      checks.push(
+        await this.checkHead(config, workingDir),
+        this.checkShallow(config, workingDir),
+        await this.checkWorkingTree(workingDir),
+        await this.checkUnpushedCommits(config, workingDir),
+      );
+    } else {
+      for (const id of ['head', 'shallow', 'working-tree', 'unpushed-commits'] as const) {
+        checks.push(RepositoryDoctor.skippedAfter(id, gitCheck.status === 'skipped' ? 'path' : 'git-repository'));
+      }
+    }
+    checks.push(credentialsCheck);
+    checks.push(await this.checkRemote(config, credentialsCheck, options));
+
+    if (hasClone) {
+      const repository = this.getRepositoryInstance(config.id, workingDir);
+      checks.push(await this.checkTimeline(config, repository, workingDir), await this.checkIndex(config, workingDir));
+    } else {
+      checks.push(RepositoryDoctor.skippedAfter('timeline', 'git-repository'), RepositoryDoctor.skippedAfter('index', 'git-repository'));
+    }
+    return this.report(config, workingDir, checks);
+  }
+
+  private checkPath(config: RepositoryConfig, workingDir: string): DoctorCheck {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(workingDir);
+    } catch {
+      return {
+        id: 'path',
+        status: 'error',
+        message: `${workingDir} does not exist`,
+        fix: config.type === 'local'
+          ? `Create ${workingDir} or point the repository's path in config.local.json at the right directory`
+          : 'Reload the configuration (POST /api/config/reload) or restart the server to clone the repository again',
+      };
+    }
+    if (!stats.isDirectory()) {
+      return { id: 'path', status: 'error', message: `${workingDir} is not a directory`, fix: `Move ${workingDir} aside and point the repository at a directory` };
+    }
+    return { id: 'path', status: 'ok', message: `${workingDir} exists` };
+  }
+
+  private async checkGitRepository(config: RepositoryConfig, workingDir: string): Promise<DoctorCheck> {
+    let topLevel: string;
+    try {
+      topLevel = (await runGit(['rev-parse', '--show-toplevel'], { cwd: workingDir })).stdout.trim();
+    } catch {
+      return {
+        id: 'git-repository',
+        status: 'error',
+        message: `${workingDir} is not a git repository`,
+        fix: config.type === 'local'
+          ? `Run \`git init\` in ${workingDir}, or remove the repository and add it again to initialize it`
+          : `Move ${workingDir} aside, then reload the configuration to clone the repository again`,
+      };
+    }
+    if (fs.realpathSync(topLevel) !== fs.realpathSync(workingDir)) {
+      return {
+        id: 'git-repository',
+        status: 'error',
+        message: `${workingDir} is inside the git repository at ${topLevel} but is not its root`,
+        fix: `Point the repository at ${topLevel} and set path_to_kb to ${path.relative(topLevel, fs.realpathSync(workingDir))}`,
+      };
+    }
+    return { id: 'git-repository', status: 'ok', message: 'The path is the root of a git repository' };
+  }
+
+  private async checkHead(config: RepositoryConfig, workingDir: string): Promise<DoctorCheck> {
+    const expectedBranch = config.type === 'github' || config.type === 'git' ? config.branch : null;
+    let branch: string;
+    try {
+      branch = (await runGit(['symbolic-ref', '--quiet', '--short', 'HEAD'], { cwd: workingDir })).stdout.trim();
+    } catch {
+      const head = await runGit(['rev-parse', '--short', 'HEAD'], { cwd: workingDir }).then(result => result.stdout.trim(), () => null);
+      return {
+        id: 'head',
+        status: 'error',
+        message: `HEAD is detached${head ? ` at ${head}` : ''}; new commits would not be on any branch`,
+        fix: `Check out a branch: \`git -C ${workingDir} checkout ${expectedBranch || 'main'}\``,
+        details: { head },
+      };
+    }
+    if (expectedBranch && branch !== expectedBranch) {
+      return {
+        id: 'head',
+        status: 'warning',
+        message: `On branch ${branch}, but the repository is configured for ${expectedBranch}`,
+        fix: `Check out the configured branch: \`git -C ${workingDir} checkout ${expectedBranch}\``,
+        details: { branch, expectedBranch },
+      };
+    }
+    return { id: 'head', status: 'ok', message: `On branch ${branch}`, details: { branch } };
+  }
+
+  private checkShallow(config: RepositoryConfig, workingDir: string): DoctorCheck {
+    if (!isShallowClone(workingDir)) {
+      return { id: 'shallow', status: 'ok', message: 'The clone has its full history' };
+    }
+    if (config.type === 'local') {
+      return {
+        id: 'shallow',
+        status: 'warning',
+        message: 'The repository is a shallow clone; history, blame and rollback stop at its boundary',
+        fix: `Fetch the full history: \`git -C ${workingDir} fetch --unshallow\``,
+      };
+    }
+    if (config.type !== 'scratch' && config.full_history) {
+      return {
+        id: 'shallow',
+        status: 'warning',
+        message: 'full_history is set but the clone is shallow',
+        fix: 'Reload the configuration or restart the server to fetch the full history',
+      };
+    }
+    return { id: 'shallow', status: 'ok', message: 'Shallow clone; older history is fetched on demand' };
+  }
+
+  private async checkWorkingTree(workingDir: string): Promise<DoctorCheck> {
+    let stdout: string;
+    try {
+      stdout = (await runGit(['status', '--porcelain', '--untracked-files=all'], { cwd: workingDir })).stdout;
+    } catch (error: any) {
+      return { id: 'working-tree', status: 'error', message: `git status failed: ${error.stderr?.toString().trim() || error.message}`, fix: 'See the index check' };
+    }
+    const files = stdout.split('\n').filter(line => line.trim()).map(line => line.slice(3));
+    if (files.length === 0) {
+      return { id: 'working-tree', status: 'ok', message: 'No uncommitted changes' };
+    }
+    return {
+      id: 'working-tree',
+      status: 'warning',
+      message: `${files.length} uncommitted change${files.length === 1 ? '' : 's'}; the next ingestion may commit them along with its own`,
+      fix: `Review them with \`git -C ${workingDir} status\`, then commit or discard them`,
+      details: { count: files.length, files: files.slice(0, MAX_LISTED_FILES) },
+    };
+  }
+
+  private async checkUnpushedCommits(config: RepositoryConfig, workingDir: string): Promise<DoctorCheck> {
+    if (config.type !== 'github' && config.type !== 'git') {
+      return { id: 'unpushed-commits', status: 'skipped', message: 'The repository has no remote' };
+    }
+
+    const syncStatus = this.repositoryManager.getSyncStatus(config.id);
+    if (syncStatus.state === 'needs-attention') {
+      return {
+        id: 'unpushed-commits',
+        status: 'error',
+        message: 'Local commits conflict with the remote; background syncs skip the repository',
+        fix: `Merge origin/${config.branch} in ${workingDir} and resolve the conflicts, then sync again (POST /api/repositories/${config.id}/sync)`,
+        details: { conflictingFiles: syncStatus.conflictingFiles, lastError: syncStatus.lastError },
+      };
+    }
+
+    let ahead: number;
+    try {
+      ahead = Number((await runGit(['rev-list', '--count', `origin/${config.branch}..HEAD`], { cwd: workingDir })).stdout.trim());
+    } catch {
+      return {
+        id: 'unpushed-commits',
+        status: 'warning',
+        message: `No remote-tracking branch origin/${config.branch} to compare with`,
+        fix: `Sync the repository (POST /api/repositories/${config.id}/sync) to fetch it`,
+      };
+    }
+    const pending = this.repositoryManager.getPendingPush(config.id);
+    if (ahead === 0 && !pending) {
+      return { id: 'unpushed-commits', status: 'ok', message: `Everything is pushed as of the last fetch of origin/${config.branch}` };
+    }
+    return {
+      id: 'unpushed-commits',
+      status: 'warning',
+      message: pending
+        ? `${ahead} commit${ahead === 1 ? '' : 's'} not pushed; a push is queued${pending.lastError ? ` and failed ${pending.attempts} time${pending.attempts === 1 ? '' : 's'}: ${pending.lastError}` : ''}`
+        : `${ahead} commit${ahead === 1 ? '' : 's'} not pushed and no push is queued`,
+      fix: `Push now with POST /api/repositories/${config.id}/push`,
+      details: { ahead, pendingPush: pending },
+    };
+  }
+
+  private checkCredentials(config: RepositoryConfig): DoctorCheck {
+    const credential = config.type === 'github'
+      ? { kind: 'github_pat' as const, alias: config.pat_alias }
+      : config.type === 'git' && config.credential_alias
+        ? { kind: 'git' as const, alias: config.credential_alias }
+        : null;
+    if (!credential) {
+      return config.type === 'git'
+        ? { id: 'credentials', status: 'ok', message: 'No credential configured; the remote is accessed anonymously' }
+        : { id: 'credentials', status: 'skipped', message: 'The repository has no remote' };
+    }
+
+    const summary = this.repositoryManager.listCredentials()
+      .find(candidate => candidate.kind === credential.kind && candidate.alias === credential.alias);
+    if (!summary) {
+      return {
+        id: 'credentials',
+        status: 'error',
+        message: `Credential alias "${credential.alias}" is not configured`,
+        fix: `Add it with POST /api/credentials ({ "kind": "${credential.kind}", "alias": "${credential.alias}", ... })`,
+        details: credential,
+      };
+    }
+    if (!summary.available) {
+      return {
+        id: 'credentials',
+        status: 'error',
+        message: `Credential "${credential.alias}" cannot be resolved: ${summary.error}`,
+        fix: `Provide ${summary.reference || 'its secret'} (or the keystore master key), or rotate it with PUT /api/credentials/${credential.kind}/${credential.alias}`,
+        details: { ...credential, source: summary.source, reference: summary.reference },
+      };
+    }
+    return {
+      id: 'credentials',
+      status: 'ok',
+      message: `Credential "${credential.alias}" resolves`,
+      details: { ...credential, source: summary.source, reference: summary.reference },
+    };
+  }
+
+  private async checkRemote(config: RepositoryConfig, credentialsCheck: DoctorCheck, options: DoctorOptions): Promise<DoctorCheck> {
+    if (config.type !== 'github' && config.type !== 'git') {
+      return { id: 'remote', status: 'skipped', message: 'The repository has no remote' };
+    }
+    if (options.remote === false) {
+      return { id: 'remote', status: 'skipped', message: 'Remote checks were not requested' };
+    }
+    if (credentialsCheck.status === 'error') {
+      return RepositoryDoctor.skippedAfter('remote', 'credentials');
+    }
+
+    let result;
+    try {
+      result = await this.repositoryManager.checkRemote(config.id);
+    } catch (error: any) {
+      return { id: 'remote', status: 'error', message: error.message, fix: 'Fix the repository\'s remote configuration and credential' };
+    }
+    const remote = config.type === 'github' ? `${config.owner}/${config.repo}` : config.url;
+    if (!result || !result.reachable) {
+      return {
+        id: 'remote',
+        status: 'error',
+        message: `Cannot reach ${remote}: ${result?.error || 'no answer'}`,
+        fix: 'Check the URL, network access and that the credential may read the repository',
+      };
+    }
+    if (!result.branchExists) {
+      return {
+        id: 'remote',
+        status: 'error',
+        message: `${remote} has no branch ${config.branch}`,
+        fix: `Create ${config.branch} on the remote, or change the repository's branch in config.local.json`,
+      };
+    }
+    return { id: 'remote', status: 'ok', message: `${remote} is reachable and has branch ${config.branch}` };
+  }
+
+  private async checkTimeline(config: RepositoryConfig, repository: Repository, workingDir: string | null): Promise<DoctorCheck> {
+    const validation = await this.timelineService.validateTimeline(repository);
+    if (!validation.exists) {
+      return { id: 'timeline', status: 'ok', message: 'No timeline yet; it is created by the first ingestion' };
+    }
+    if (validation.problems.length === 0) {
+      return { id: 'timeline', status: 'ok', message: `The timeline has ${validation.entryCount} valid entries`, details: { entryCount: validation.entryCount } };
+    }
+    return {
+      id: 'timeline',
+      status: 'error',
+      message: `.lspace/timeline.json is damaged; history views show it as empty and the next ingestion would overwrite it`,
+      fix: workingDir
+        ? `Restore the last good version: find it with \`git -C ${workingDir} log -- .lspace/timeline.json\`, then \`git -C ${workingDir} checkout <commit> -- .lspace/timeline.json\``
+        : 'Recreate the scratch repository',
+      details: { entryCount: validation.entryCount, problems: validation.problems.slice(0, MAX_LISTED_FILES) },
+    };
+  }
+
+  private async checkIndex(config: RepositoryConfig, workingDir: string): Promise<DoctorCheck> {
+    const gitDir = (await runGit(['rev-parse', '--absolute-git-dir'], { cwd: workingDir })).stdout.trim();
+
+    const lockPath = path.join(gitDir, 'index.lock');
+    if (fs.existsSync(lockPath)) {
+      const running = this.repositoryManager.getQueueStatus(config.id).running;
+      return running
+        ? { id: 'index', status: 'warning', message: `The index is locked while "${running.operation}" runs`, fix: 'Run the doctor again once the operation finishes' }
+        : {
+          id: 'index',
+          status: 'error',
+          message: 'A stale index.lock blocks git commands, probably left by a crashed git process',
+          fix: `If no git command is running in ${workingDir}, delete ${lockPath}`,
+        };
+    }
+
+    for (const [marker, operation, abort] of [
+      ['MERGE_HEAD', 'merge', 'git merge --abort'],
+      ['rebase-merge', 'rebase', 'git rebase --abort'],
+      ['rebase-apply', 'rebase', 'git rebase --abort'],
+      ['CHERRY_PICK_HEAD', 'cherry-pick', 'git cherry-pick --abort'],
+      ['REVERT_HEAD', 'revert', 'git revert --abort'],
+    ]) {
+      if (fs.existsSync(path.join(gitDir, marker))) {
+        return {
+          id: 'index',
+          status: 'error',
+          message: `A ${operation} is in progress`,
+          fix: `Finish it and commit, or run \`${abort.replace('git ', `git -C ${workingDir} `)}\``,
+        };
+      }
+    }
+
+    let unmerged: string[];
+    try {
+      const { stdout } = await runGit(['ls-files', '--unmerged'], { cwd: workingDir });
+      unmerged = [...new Set(stdout.split('\n').filter(line => line.trim()).map(line => line.split('\t')[1]))];
+    } catch (error: any) {
+      return {
+        id: 'index',
+        status: 'error',
+        message: `The index cannot be read: ${error.stderr?.toString().trim() || error.message}`,
+        fix: `Rebuild it from HEAD: delete ${path.join(gitDir, 'index')}, then run \`git -C ${workingDir} reset\``,
+      };
+    }
+    if (unmerged.length > 0) {
+      return {
+        id: 'index',
+        status: 'error',
+        message: `${unmerged.length} file${unmerged.length === 1 ? ' has' : 's have'} unresolved conflicts`,
+        fix: `Resolve and \`git add\` them, or discard the conflicted merge with \`git -C ${workingDir} reset --merge\``,
+        details: { files: unmerged.slice(0, MAX_LISTED_FILES) },
+      };
+    }
+    return { id: 'index', status: 'ok', message: 'The index is readable and has no conflicts' };
+  }
+
+  // The registered instance, or one opened on the clone for repositories whose setup failed
+  private getRepositoryInstance(repositoryId: string, workingDir: string): Repository {
+    try {
+      return this.repositoryManager.getRepository(repositoryId);
+    } catch {
+      return new Repository(workingDir);
+    }
+  }
+
+  private report(config: RepositoryConfig, workingDir: string | null, checks: DoctorCheck[]): DoctorReport {
+    const status = checks.some(check => check.status === 'error')
+      ? 'unhealthy'
+      : checks.some(check => check.status === 'warning') ? 'warnings' : 'healthy';
+    return {
+      repositoryId: config.id,
+      name: config.name,
+      type: config.type,
+      path: workingDir,
+      checkedAt: new Date().toISOString(),
+      status,
+      checks,
+    };
+  }
+
+  private static skippedAfter(id: DoctorCheckId, failedCheck: DoctorCheckId): DoctorCheck {
+    return { id, status: 'skipped', message: `Skipped because the ${failedCheck} check failed` };
+  }
+}
@@ -0,0 +1,67 @@
+import fs from 'fs';
+
+/**
+ * The filesystem a Repository reads and writes through. It is the subset of Node's
+ * `fs.promises` used by Repository and isomorphic-git, so Node's `fs` satisfies it and
+ * so does the in-memory `MemoryFs`.
+ */
+
+export interface RepositoryFsStats {
+  dev: number;
+  ino: number;
+  mode: number;
+  uid: number;
+  gid: number;
+  size: number;
+  mtimeMs: number;
+  ctimeMs: number;
+  mtime: Date;
+  ctime: Date;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+export interface RepositoryFsDirent {
+  name: string;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+// A file opened for reading; Node's FileHandle satisfies it
+export interface RepositoryFsFileHandle {
+  read(buffer: Uint8Array, offset: number, length: number, position: number | null): Promise<{ bytesRead: number }>;
+  close(): Promise<void>;
+}
+
+export type RepositoryFsEncodingOption = BufferEncoding | { encoding?: BufferEncoding | null; mode?: number } | null;
+
+export interface RepositoryFsPromises {
+  readFile(path: string): Promise<Buffer>;
+  readFile(path: string, options: BufferEncoding | { encoding: BufferEncoding }): Promise<string>;
+  readFile(path: string, options?: RepositoryFsEncodingOption): Promise<string | Buffer>;
+  writeFile(path: string, data: string | Uint8Array, options?: RepositoryFsEncodingOption): Promise<void>;
+  open(path: string, flags: 'r'): Promise<RepositoryFsFileHandle>;
+  mkdir(path: string, options?: { recursive?: boolean; mode?: number }): Promise<string | undefined | void>;
+  rmdir(path: string): Promise<void>;
+  rm(path: string, options?: { recursive?: boolean; force?: boolean }): Promise<void>;
+  unlink(path: string): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+  stat(path: string): Promise<RepositoryFsStats>;
+  lstat(path: string): Promise<RepositoryFsStats>;
+  readdir(path: string): Promise<string[]>;
+  readdir(path: string, options: { withFileTypes: true }): Promise<RepositoryFsDirent[]>;
+  readlink(path: string): Promise<string>;
+  symlink(target: string, path: string): Promise<void>;
+  realpath(path: string): Promise<string>;
+}
+
+export interface RepositoryFs {
+  promises: RepositoryFsPromises;
+}
+
+/**
+ * The default backend: the local disk.
+ */
+export const nodeRepositoryFs: RepositoryFs = fs as unknown as RepositoryFs;
@@ -1,17 +1,78 @@
 import fs from 'fs';
 import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { v4 as uuidv4 } from 'uuid';
-import { Repository } from './repository';
+import { normalizeKnowledgeBaseRoot, Repository } from './repository';
+import { MemoryFs } from './memoryFs';
+import { DEFAULT_KNOWLEDGE_BASE_TEMPLATE, getKnowledgeBaseTemplate } from '../config/knowledgeBaseTemplates';
 import { GitHubAdapter } from '../adapters/githubAdapter';
+import { GitAdapter, parseRemoteUrl, RemoteCheckResult, SyncResult } from '../adapters/gitAdapter';
+import { ConfigIssue, ConfigValidationError, RepositoryBusyError, SyncConflictError, UnpushedCommitsError } from './errors';
+import { CURRENT_CONFIG_VERSION, LspaceConfig, parseConfig } from '../config/configSchema';
+import { OperationOptions, RepositoryOperationQueue, RepositoryQueueStatus } from './operationQueue';
+import { PendingPush, PushOutbox } from './pushOutbox';
+import { describeSecret, resolveSecret, SecretKeystore, SecretSource, secretSource, SecretValue } from './secrets';
 
 // Define new interfaces for credentials
 export interface GitHubPAT {
   alias: string;
-  token: string;
+  token: SecretValue; // The token, or a reference to an environment variable, file or keystore entry
+}
+
+/**
+ * Credentials for a generic git remote: a username and token (or password) for HTTPS remotes,
+ * or a private key for SSH remotes.
+ */
+export interface GitCredentialConfig {
+  alias: string;
+  username?: string; // HTTPS basic auth user, defaults to 'git'
+  token?: SecretValue; // HTTPS password or access token, or a reference to it
+  ssh_key_path?: string; // Private key for SSH remotes (without a passphrase)
+  known_hosts_path?: string; // Optional known_hosts file; otherwise new SSH hosts are accepted on first use
+}
+
+/**
+ * A git credential with its token resolved, as handed to the git adapter.
+ */
+export interface GitCredential extends Omit<GitCredentialConfig, 'token'> {
+  token?: string;
 }
 
 export interface CredentialsConfig {
   github_pats: GitHubPAT[];
+  git_credentials?: GitCredentialConfig[];
+}
+
+export type CredentialKind = 'github_pat' | 'git';
+
+/**
+ * A credential as shown to clients: where its secret comes from, never the secret itself.
+ */
+export interface CredentialSummary {
+  kind: CredentialKind;
+  alias: string;
+  source: SecretSource | null; // null for SSH-only git credentials
+  reference: string | null; // e.g. "env:GITHUB_TOKEN"; null for plaintext secrets
+  username?: string;
+  ssh_key_path?: string;
+  known_hosts_path?: string;
+  available: boolean; // The secret can be resolved right now
+  error?: string;
+  usedBy: string[]; // IDs of the repositories using the credential
+}
+
+/**
+ * New or rotated credential. Give exactly one of `secret` (stored encrypted in the keystore),
+ * `env` or `file`; SSH-only git credentials give none.
+ */
+export interface CredentialInput {
+  secret?: string;
+  env?: string;
+  file?: string;
+  username?: string;
+  ssh_key_path?: string;
+  known_hosts_path?: string;
 }
 
 export interface RepositoryInfo {
@@ -25,6 +86,10 @@ export interface RepositoryInfo {
   repo?: string;  // GitHub repository name
   branch?: string; // GitHub branch
   pat_alias?: string; // Alias for the PAT to use
+  // Generic git specific fields
+  url?: string; // Remote URL
+  credential_alias?: string; // Alias of the git credential to use
+  shallow?: boolean; // The clone has truncated history (filled in by getRepositoryInfo)
   // Additional metadata as needed
   config: Record<string, any>; // Keeps original config for other types
 }
@@ -41,7 +106,16 @@ export interface LocalRepoConfig extends BaseRepoConfig {
   path: string; 
 }
 
-export interface GitHubRepoConfig extends BaseRepoConfig {
+/**
+ * How much history a remote repository is cloned with. Shallow clones are deepened on demand
+ * when history features walk past their boundary.
+ */
+interface RemoteCloneConfig {
+  clone_depth?: number; // Commits to clone; defaults to 1 for GitHub and full history for other git remotes
+  full_history?: boolean; // Clone (or unshallow to) the complete history; overrides clone_depth
+}
+
+export interface GitHubRepoConfig extends BaseRepoConfig, RemoteCloneConfig {
   type: "github";
   owner: string;    
   repo: string;     
@@ -49,14 +123,110 @@ export interface GitHubRepoConfig extends BaseRepoConfig {
   pat_alias: string; 
 }
 
-export type SavedRepositoryConfig = LocalRepoConfig | GitHubRepoConfig;
+/**
+ * A repository on any git server, reached by remote URL over HTTPS, SSH or file://.
+ */
+export interface GitRepoConfig extends BaseRepoConfig, RemoteCloneConfig {
+  type: "git";
+  url: string;
+  branch: string;
+  credential_alias?: string; // Alias in credentials.git_credentials; omitted for anonymous or file:// remotes
+}
+
+export type SavedRepositoryConfig = LocalRepoConfig | GitHubRepoConfig | GitRepoConfig;
+
+/**
+ * An ephemeral repository held in memory. Never written to the configuration file.
+ */
+export interface ScratchRepoConfig extends BaseRepoConfig {
+  type: "scratch";
+}
+
+export type RepositoryConfig = SavedRepositoryConfig | ScratchRepoConfig;
 // --- END UPDATED REPOSITORY CONFIG TYPES ---
 
-interface FullConfigFormat {
-  credentials?: CredentialsConfig; // Optional credentials section
-  repositories: SavedRepositoryConfig[];
+export type RemoteSyncState = 'never-synced' | 'syncing' | 'ok' | 'error' | 'needs-attention';
+
+/**
+ * Sync state of a remote repository. 'needs-attention' means local commits conflict with the
+ * remote; background syncs skip the repository until a manual sync succeeds.
+ */
+export interface RemoteSyncStatus {
+  state: RemoteSyncState;
+  lastAttemptAt: string | null;
+  lastSyncAt: string | null; // Last successful sync
+  lastResult: SyncResult | null;
+  lastError: string | null;
+  conflictingFiles: string[];
+}
+
+export interface NewRepositoryOptions {
+  id?: string; // Suggested ID; generated when omitted
+  template?: string; // Starter template for a new local knowledge base (see config/knowledgeBaseTemplates)
+}
+
+/**
+ * State of config.local.json as last read. `issues` lists the validation problems of a file that
+ * was rejected; the previously loaded configuration stays in effect until the file is fixed.
+ */
+export interface ConfigurationStatus {
+  path: string;
+  version: number | null;
+  loadedAt: string | null;
+  watching: boolean;
+  lastError: string | null;
+  issues: ConfigIssue[];
+}
+
+export interface ConfigReloadResult {
+  added: string[];
+  removed: string[];
+  updated: string[]; // Changed, or set up again after an earlier failure
+  credentialsChanged: boolean;
+  errors: { repositoryId: string; message: string }[]; // Repositories that could not be set up
+}
+
+/**
+ * What happens to a repository's files when it is removed. 'keep' leaves them on disk,
+ * 'archive' writes a tarball of the working tree, its git history and .lspace state before
+ * deleting the clone, and 'purge' deletes the clone. Directories of local repositories belong
+ * to the user and are never deleted.
+ */
+export type RepositoryRemovalMode = 'keep' | 'archive' | 'purge';
+
+export interface RemoveRepositoryOptions {
+  mode?: RepositoryRemovalMode; // Defaults to 'keep'
+  force?: boolean; // Remove even though commits were not pushed yet
 }
 
+export interface RepositoryRemovalResult {
+  id: string;
+  name: string;
+  mode: RepositoryRemovalMode;
+  path: string | null; // Working directory; null for scratch repositories
+  archivePath: string | null;
+  deleted: boolean; // The working directory was deleted
+}
+
+/**
+ * A clone under one of the clone directories that no configured repository uses, e.g. left
+ * behind by a repository removed in an earlier version or by a failed setup.
+ */
+export interface OrphanedClone {
+  path: string;
+  baseDir: string;
+  sizeBytes: number;
+  modifiedAt: string;
+}
+
+// Debounce for file change events; editors often write a file in several steps
+const CONFIG_RELOAD_DELAY_MS = 250;
+
+// Clones sit at most two levels below a clone directory: <owner>/<repo> or git/<id>
+const CLONE_SEARCH_DEPTH = 2;
+
+const execFileAsync = promisify(execFile);
+
 /**
  * RepositoryManager manages multiple git repositories
  * and provides a configuration system for self-hosted deployments
@@ -64,17 +234,43 @@ interface FullConfigFormat {
 export class RepositoryManager {
   private repositories: Map<string, RepositoryInfo> = new Map();
   private nameToId: Map<string, string> = new Map();
-  private idToConfig: Map<string, SavedRepositoryConfig> = new Map();
+  private idToConfig: Map<string, RepositoryConfig> = new Map();
   private credentialsConfig?: CredentialsConfig;
   private configPath: string; // No longer optional, will be set in constructor or load
   private githubAdapter?: GitHubAdapter; // To be initialized
+  private gitAdapter?: GitAdapter; // Created on first use
   private cloneBaseDir: string = path.join(process.cwd(), 'cloned-github-repos'); // Default base for clones
+  private archiveDir: string; // Tarballs of removed repositories
+  private operationQueue: RepositoryOperationQueue = new RepositoryOperationQueue();
+  private deepening: Map<string, Promise<void>> = new Map(); // In-flight history fetches by repository ID
+  private syncStatus: Map<string, RemoteSyncStatus> = new Map();
+  private pushOutbox: PushOutbox;
+  private configStatus: ConfigurationStatus;
+  private configWatcher?: fs.FSWatcher;
+  private configReloadTimer?: NodeJS.Timeout;
+  private configReloadChain: Promise<unknown> = Promise.resolve();
+  private lastWrittenConfig?: string; // Content of our own last save, so the watcher can skip it
+  private keystore: SecretKeystore;
   
-  constructor() {
-    // Assume config.local.json is always in the current working directory
-    // This path will be used by loadConfiguration and saveConfiguration
-    this.configPath = path.resolve(process.cwd(), 'config.local.json');
+  /**
+   * @param configPath Configuration file used by loadConfiguration and saveConfiguration;
+   * defaults to config.local.json in the current working directory
+   */
+  constructor(configPath: string = path.resolve(process.cwd(), 'config.local.json')) {
+    this.configPath = path.resolve(configPath);
     console.log(`[RepoManager] Default config path set to: ${this.configPath}`);
+    this.configStatus = { path: this.configPath, version: null, loadedAt: null, watching: false, lastError: null, issues: [] };
+    this.archiveDir = path.join(path.dirname(this.configPath), 'lspace-archives');
+    // Secrets stored through the API are encrypted next to the configuration
+    this.keystore = new SecretKeystore(
+      path.join(path.dirname(this.configPath), 'keystore.local.json'),
+      process.env.LSPACE_MASTER_KEY || undefined
+    );
+    // Pushes waiting for the remote are kept next to the configuration
+    this.pushOutbox = new PushOutbox(
+      path.join(path.dirname(this.configPath), 'push-outbox.local.json'),
+      repositoryId => this.runExclusive(repositoryId, 'push', () => this.pushToRemote(repositoryId))
+    );
   }
   
   /**
@@ -89,13 +285,14 @@ export class RepositoryManager {
     name: string, 
     repository: Repository, 
     type: string, // Keep string here for flexibility from caller, but internal config is stricter
-    config: SavedRepositoryConfig // Use THE NEW SavedRepositoryConfig here
+    config: RepositoryConfig // Use THE NEW SavedRepositoryConfig here
   ): Promise<string> {
     const id = config.id || uuidv4();
     
     // Ensure the config has this ID now, for consistency when saving
     // The `type` on `config` will be from the specific variant (LocalRepoConfig or GitHubRepoConfig)
-    const finalConfig: SavedRepositoryConfig = { ...config, id, name }; // name from arg, type from config variant
+    const finalConfig: RepositoryConfig = { ...config, id, name }; // name from arg, type from config variant
+    repository.setKnowledgeBaseRoot(config.path_to_kb || '.');
 
     const repoInfo: RepositoryInfo = {
       id,
@@ -105,8 +302,10 @@ export class RepositoryManager {
       path: config.type === 'local' ? config.path : undefined,
       owner: config.type === 'github' ? config.owner : undefined,
       repo: config.type === 'github' ? config.repo : undefined,
-      branch: config.type === 'github' ? config.branch : undefined,
+      branch: config.type === 'github' || config.type === 'git' ? config.branch : undefined,
       pat_alias: config.type === 'github' ? config.pat_alias : undefined,
+      url: config.type === 'git' ? config.url : undefined,
+      credential_alias: config.type === 'git' ? config.credential_alias : undefined,
       config: finalConfig 
     };
     this.repositories.set(id, repoInfo);
@@ -163,13 +362,13 @@ export class RepositoryManager {
    * @param id Repository ID
    * @returns Repository information
    */
-  getRepositoryInfo(id: string): Omit<RepositoryInfo, 'repository'> | undefined {
+  async getRepositoryInfo(id: string): Promise<Omit<RepositoryInfo, 'repository'> | undefined> {
     const info = this.repositories.get(id);
     if (!info) return undefined;
     
     // Return a copy without the repository instance
     const { repository, ...rest } = info;
-    return rest;
+    return { ...rest, shallow: await repository.isShallow() };
   }
   
   /**
@@ -188,6 +387,9 @@ export class RepositoryManager {
     repo?: string; 
     branch?: string; 
     pat_alias?: string; 
+    // Generic git specific
+    url?: string;
+    credential_alias?: string;
   }[] {
     return Array.from(this.idToConfig.values()).map(conf => {
         const base = {
@@ -206,6 +408,8 @@ export class RepositoryManager {
                 branch: conf.branch, 
                 pat_alias: conf.pat_alias 
             };
+        } else if (conf.type === 'git') {
+            return { ...base, url: conf.url, branch: conf.branch, credential_alias: conf.credential_alias };
         }
         return base; // Should not happen with a well-typed discriminated union
     });
@@ -237,12 +441,19 @@ export class RepositoryManager {
       // This case should ideally not be reached if constructor sets it.
       throw new Error("[RepoManager] Config path not set. Critical error.");
     }
-    const fullConfig: FullConfigFormat = {
+    if (this.configStatus.issues.length > 0) {
+      // Saving would replace the user's edits with the configuration that is still running
+      throw new Error(`Configuration file ${this.configPath} is invalid; fix it before changing repositories. ${this.configStatus.lastError}`);
+    }
+    const fullConfig: LspaceConfig = {
+      version: CURRENT_CONFIG_VERSION,
       credentials: this.credentialsConfig, // Include credentials if they exist
-      repositories: Array.from(this.idToConfig.values()),
+      repositories: this.getAllRepositoryConfigs().filter((conf): conf is SavedRepositoryConfig => conf.type !== 'scratch'),
     };
+    const content = JSON.stringify(fullConfig, null, 2);
     try {
-      await fs.promises.writeFile(this.configPath, JSON.stringify(fullConfig, null, 2));
+      this.lastWrittenConfig = content;
+      await fs.promises.writeFile(this.configPath, content);
       console.log(`[RepoManager] Configuration saved to ${this.configPath}`);
     } catch (error: any) {
       console.error(`[RepoManager] Error saving configuration to ${this.configPath}: ${error.message}`);
@@ -252,7 +463,7 @@ export class RepositoryManager {
   
   /**
    * Load repository configuration from a file
-   * @param configPath File path
+   * @throws ConfigValidationError if the file does not match the schema; nothing is loaded then
    */
   async loadConfiguration(): Promise<void> { // Removed configPath argument
     // Uses this.configPath set in constructor
@@ -264,12 +475,12 @@ export class RepositoryManager {
       throw new Error(`Configuration file not found: ${this.configPath}. Please ensure it exists.`);
     }
     
-    const configContent = fs.readFileSync(this.configPath, 'utf8');
-    const fullConfigData: FullConfigFormat = JSON.parse(configContent);
+    const fullConfigData = await this.readConfigurationFile();
 
     if (fullConfigData.credentials) {
       this.credentialsConfig = fullConfigData.credentials;
       console.log(`[RepoManager] Loaded ${this.credentialsConfig.github_pats?.length || 0} GitHub PATs.`);
+      this.warnAboutPlaintextSecrets();
     }
 
     this.repositories.clear();
@@ -282,13 +493,153 @@ export class RepositoryManager {
     console.log(`[RepoManager] GitHubAdapter initialized to use clone base directory: ${this.cloneBaseDir}`);
 
     for (const repoConfig of fullConfigData.repositories) {
+      await this.setupConfiguredRepository(repoConfig).catch(() => undefined);
+    }
+    // Retry pushes that did not go through before the last shutdown
+    await this.pushOutbox.load();
+    console.log('[RepoManager] Configuration loaded successfully.');
+  }
+
+  /**
+   * Read config.local.json again and apply the differences to the running server: repositories
+   * that were added, removed or changed, and credentials. Repositories are swapped under their
+   * operation lock, so running ingestions finish first. An invalid file changes nothing.
+   * @throws ConfigValidationError if the file does not match the schema
+   */
+  public reloadConfiguration(): Promise<ConfigReloadResult> {
+    const reload = this.configReloadChain.catch(() => undefined).then(() => this.applyConfigurationFile());
+    this.configReloadChain = reload;
+    return reload;
+  }
+
+  /**
+   * Reload the configuration whenever config.local.json changes on disk.
+   */
+  public watchConfiguration(): void {
+    if (this.configWatcher) {
+      return;
+    }
+    // Watch the directory: editors often replace the file instead of writing it in place
+    const configFileName = path.basename(this.configPath);
+    this.configWatcher = fs.watch(path.dirname(this.configPath), (_event, fileName) => {
+      if (fileName && fileName.toString() !== configFileName) {
+        return;
+      }
+      clearTimeout(this.configReloadTimer);
+      this.configReloadTimer = setTimeout(() => {
+        this.reloadConfiguration().catch(error => {
+          if (!(error instanceof ConfigValidationError)) {
+            console.error(`[RepoManager] Failed to reload configuration: ${error.message}`);
+          }
+        });
+      }, CONFIG_RELOAD_DELAY_MS);
+    });
+    this.configWatcher.unref();
+    this.configStatus.watching = true;
+    console.log(`[RepoManager] Watching ${this.configPath} for changes.`);
+  }
+
+  public unwatchConfiguration(): void {
+    clearTimeout(this.configReloadTimer);
+    this.configWatcher?.close();
+    this.configWatcher = undefined;
+    this.configStatus.watching = false;
+  }
+
+  /**
+   * Where the configuration was loaded from, its version, and the problems of a rejected file
+   */
+  public getConfigurationStatus(): ConfigurationStatus {
+    return { ...this.configStatus, issues: [...this.configStatus.issues] };
+  }
+
+  // Parse, migrate and validate config.local.json; a migrated file is written back with a backup of the original
+  private async readConfigurationFile(): Promise<LspaceConfig> {
+    const content = await fs.promises.readFile(this.configPath, 'utf8');
+    try {
+      const { config, migratedFrom } = parseConfig(content, this.configPath);
+      if (migratedFrom !== null) {
+        const backupPath = `${this.configPath}.v${migratedFrom}.bak`;
+        await fs.promises.writeFile(backupPath, content);
+        this.lastWrittenConfig = JSON.stringify(config, null, 2);
+        await fs.promises.writeFile(this.configPath, this.lastWrittenConfig);
+        console.log(`[RepoManager] Migrated ${this.configPath} from version ${migratedFrom} to ${config.version}; the original is in ${backupPath}.`);
+      }
+      this.configStatus = { ...this.configStatus, version: config.version, loadedAt: new Date().toISOString(), lastError: null, issues: [] };
+      return config;
+    } catch (error: any) {
+      if (error instanceof ConfigValidationError) {
+        console.error(`[RepoManager] ${error.message}`);
+        this.configStatus = { ...this.configStatus, lastError: error.message, issues: error.issues };
+      }
+      throw error;
+    }
+  }
+
+  private async applyConfigurationFile(): Promise<ConfigReloadResult> {
+    const result: ConfigReloadResult = { added: [], removed: [], updated: [], credentialsChanged: false, errors: [] };
+    const content = fs.existsSync(this.configPath) ? await fs.promises.readFile(this.configPath, 'utf8') : undefined;
+    if (content === undefined || content === this.lastWrittenConfig) {
+      return result; // Deleted, or our own save
+    }
+    const config = await this.readConfigurationFile();
+    if (!this.githubAdapter) {
+      this.githubAdapter = new GitHubAdapter(this.cloneBaseDir);
+    }
+
+    result.credentialsChanged = !sameJson(this.credentialsConfig, config.credentials);
+    this.credentialsConfig = config.credentials;
+
+    const wanted = new Map(config.repositories.map(repoConfig => [repoConfig.id, repoConfig]));
+    for (const [id, current] of Array.from(this.idToConfig)) {
+      if (current.type !== 'scratch' && !wanted.has(id)) {
+        await this.runExclusive(id, 'config-reload', async () => this.detachRepository(id));
+        this.syncStatus.delete(id);
+        await this.pushOutbox.remove(id);
+        result.removed.push(id);
+      }
+    }
+
+    for (const repoConfig of config.repositories) {
+      const current = this.idToConfig.get(repoConfig.id);
+      if (current && sameJson(current, repoConfig) && this.repositories.has(repoConfig.id)) {
+        continue;
+      }
+      (current ? result.updated : result.added).push(repoConfig.id);
       try {
-        await this.setupRepositoryFromConfig(repoConfig); 
+        await this.runExclusive(repoConfig.id, 'config-reload', async () => {
+          this.detachRepository(repoConfig.id);
+          await this.setupConfiguredRepository(repoConfig);
+        });
       } catch (error: any) {
-        console.error(`[RepoManager] Error setting up repository ${repoConfig.name} (ID: ${repoConfig.id || 'N/A'}) from config: ${error.message}`);
+        result.errors.push({ repositoryId: repoConfig.id, message: error.message });
       }
     }
-    console.log('[RepoManager] Configuration loaded successfully.');
+
+    console.log(`[RepoManager] Configuration reloaded: ${result.added.length} added, ${result.removed.length} removed, ${result.updated.length} updated${result.credentialsChanged ? ', credentials changed' : ''}.`);
+    return result;
+  }
+
+  // Keep the configuration even when setup fails, so it is saved back and retried on the next reload
+  private async setupConfiguredRepository(repoConfig: SavedRepositoryConfig): Promise<void> {
+    this.idToConfig.set(repoConfig.id, repoConfig);
+    this.nameToId.set(repoConfig.name, repoConfig.id);
+    try {
+      await this.setupRepositoryFromConfig(repoConfig);
+    } catch (error: any) {
+      console.error(`[RepoManager] Error setting up repository ${repoConfig.name} (ID: ${repoConfig.id || 'N/A'}) from config: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // Remove a repository from the runtime maps, leaving the configuration file alone
+  private detachRepository(id: string): void {
+    const name = this.repositories.get(id)?.name ?? this.idToConfig.get(id)?.name;
+    if (name !== undefined && this.nameToId.get(name) === id) {
+      this.nameToId.delete(name);
+    }
+    this.repositories.delete(id);
+    this.idToConfig.delete(id);
   }
 
   private async setupRepositoryFromConfig(repoConfig: SavedRepositoryConfig): Promise<void> {
@@ -312,6 +663,10 @@ export class RepositoryManager {
       console.log(`[RepoManager] Initializing GitHub repository ${repoConfig.owner}/${repoConfig.repo} using GitHubAdapter...`);
       repoInstance = await this.githubAdapter.initialize(repoConfig, pat);
       console.log(`[RepoManager] GitHub repository ${repoConfig.name} initialized. Path: ${repoInstance.path}`);
+    } else if (repoConfig.type === 'git') {
+      console.log(`[RepoManager] Initializing git repository ${repoConfig.name} from ${repoConfig.url}...`);
+      repoInstance = await this.getGitAdapter().initialize(repoConfig, this.getGitCredentialForConfig(repoConfig));
+      console.log(`[RepoManager] Git repository ${repoConfig.name} initialized. Path: ${repoInstance.path}`);
     } else if (repoConfig.type === 'local') {
       // path is guaranteed by LocalRepoConfig type
       const localRepoPath = path.resolve(repoConfig.path); 
@@ -323,12 +678,22 @@ export class RepositoryManager {
       throw new Error(`Unsupported repository type: ${(_exhaustiveCheck as any).type} for repository ${(_exhaustiveCheck as any).name}`);
     }
 
-    await this.registerRepository(repoConfig.name, repoInstance, repoConfig.type, repoConfig);
+    const id = await this.registerRepository(repoConfig.name, repoInstance, repoConfig.type, repoConfig);
+    if (repoConfig.type === 'github' || repoConfig.type === 'git') {
+      repoInstance.setHistoryDeepener(deepenBy => this.deepenHistory(id, deepenBy));
+    }
     console.log(`[RepoManager] Registered repository: "${repoConfig.name}" (ID: ${repoConfig.id || this.nameToId.get(repoConfig.name)}, Type: ${repoConfig.type})`);
   }
 
-  public async addNewRepositoryConfig(repoConfigData: Omit<LocalRepoConfig, 'id'> | Omit<GitHubRepoConfig, 'id'>): Promise<string> {
-    const id = uuidv4(); // Always generate a new ID for new configs
+  /**
+   * Add a repository, save it to the configuration file and register it. A local path that is
+   * not a git repository yet is initialized and seeded as a new knowledge base.
+   */
+  public async addNewRepositoryConfig(
+    repoConfigData: Omit<LocalRepoConfig, 'id'> | Omit<GitHubRepoConfig, 'id'> | Omit<GitRepoConfig, 'id'>,
+    options: NewRepositoryOptions = {}
+  ): Promise<string> {
+    const id = options.id || uuidv4(); // Generate a new ID unless the caller suggested one
     
     const fullRepoConfig: SavedRepositoryConfig = { ...repoConfigData, id } as SavedRepositoryConfig;
     // The above cast `as SavedRepositoryConfig` is needed because TS can't infer the discriminated union type correctly 
@@ -348,12 +713,35 @@ export class RepositoryManager {
       if (!this.getPATByAlias(fullRepoConfig.pat_alias)) {
         throw new Error(`PAT alias "${fullRepoConfig.pat_alias}" not found in credentials.`);
       }
+    } else if (fullRepoConfig.type === 'git') {
+      parseRemoteUrl(fullRepoConfig.url); // Throws for unsupported URLs or embedded secrets
+      if (fullRepoConfig.credential_alias && !this.getGitCredentialByAlias(fullRepoConfig.credential_alias)) {
+        throw new Error(`Git credential alias "${fullRepoConfig.credential_alias}" not found in credentials.`);
+      }
     } else if (fullRepoConfig.type === 'local') {
       // Field path is guaranteed if type is 'local'
       if (!fullRepoConfig.path) { // Should be caught by type system, but defense in depth
           throw new Error('Local repository config requires a path.');
       }
     }
+    normalizeKnowledgeBaseRoot(fullRepoConfig.path_to_kb || '.'); // Throws for roots outside the repository
+    if (fullRepoConfig.type === 'github' || fullRepoConfig.type === 'git') {
+      const depth = fullRepoConfig.clone_depth;
+      if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+        throw new Error(`Invalid clone_depth ${depth}: use a positive number of commits, or full_history.`);
+      }
+    }
+    if (options.template) {
+      if (fullRepoConfig.type !== 'local') {
+        throw new Error('Templates can only be applied to new local knowledge bases.');
+      }
+      if (!getKnowledgeBaseTemplate(options.template)) {
+        throw new Error(`Unknown knowledge base template: ${options.template}`);
+      }
+      if (fs.existsSync(path.join(path.resolve(fullRepoConfig.path), '.git'))) {
+        throw new Error(`Cannot apply template "${options.template}": ${fullRepoConfig.path} is already a git repository.`);
+      }
+    }
 
     // Add to in-memory config map first
     this.idToConfig.set(id, fullRepoConfig);
@@ -363,7 +751,10 @@ export class RepositoryManager {
       // Persist the configuration change BEFORE attempting to set up (clone/register)
       await this.saveConfiguration();
       
-      // Now set up the repository (clone if needed, create Repository instance, register)
+      // Now set up the repository (init or clone if needed, create Repository instance, register)
+      if (fullRepoConfig.type === 'local') {
+        await this.initializeLocalKnowledgeBase(fullRepoConfig, options.template);
+      }
       await this.setupRepositoryFromConfig(fullRepoConfig);
       return id;
     } catch (error) {
@@ -378,10 +769,77 @@ export class RepositoryManager {
     }
   }
 
-  public getAllRepositoryConfigs(): SavedRepositoryConfig[] {
+  /**
+   * Initialize and seed a new knowledge base at a local path unless it already is a git
+   * repository: git init, the template files, the .lspace/ layout and an initial commit.
+   * Files already in the directory are left untracked.
+   * @returns Whether a new repository was created
+   */
+  private async initializeLocalKnowledgeBase(config: LocalRepoConfig, templateName?: string): Promise<boolean> {
+    const repoPath = path.resolve(config.path);
+    if (fs.existsSync(path.join(repoPath, '.git'))) {
+      return false;
+    }
+    const template = getKnowledgeBaseTemplate(templateName || DEFAULT_KNOWLEDGE_BASE_TEMPLATE);
+    if (!template) {
+      throw new Error(`Unknown knowledge base template: ${templateName}`);
+    }
+
+    console.log(`[RepoManager] Creating knowledge base "${config.name}" at ${repoPath} from template "${template.name}"...`);
+    const repository = await Repository.init(repoPath);
+    const kbRoot = config.path_to_kb || '.';
+    const seedFiles: Record<string, string> = {
+      '.lspace/timeline.json': JSON.stringify({ entries: [] }, null, 2),
+      '.lspace/raw_inputs/.gitkeep': '',
+    };
+    for (const [filePath, content] of Object.entries(template.files)) {
+      seedFiles[path.posix.join(kbRoot, filePath)] = content.replace(/\{\{name\}\}/g, config.name);
+    }
+
+    const seeded: string[] = [];
+    for (const [filePath, content] of Object.entries(seedFiles)) {
+      if (!(await repository.fileExists(filePath))) {
+        await repository.writeFile(filePath, content);
+        seeded.push(filePath);
+      }
+    }
+    await repository.add(seeded);
+    const commit = await repository.commit({
+      message: `Initialize knowledge base ${config.name}`,
+      author: { name: 'Lspace', email: 'lspace@example.com' },
+      trailers: { operation: 'init' },
+    });
+    if (!commit.success) {
+      throw new Error(`Failed to create the initial commit of ${repoPath}: ${commit.message}`);
+    }
+    return true;
+  }
+
+  public getAllRepositoryConfigs(): RepositoryConfig[] {
     return Array.from(this.idToConfig.values());
   }
 
+  /**
+   * The configuration of a repository by ID or name, including repositories whose setup failed
+   * @returns undefined if no repository has that ID or name
+   */
+  public getRepositoryConfig(idOrName: string): RepositoryConfig | undefined {
+    const id = this.idToConfig.has(idOrName) ? idOrName : this.nameToId.get(idOrName);
+    return id ? this.idToConfig.get(id) : undefined;
+  }
+
+  /**
+   * Where a repository's files are on disk, also for repositories whose setup failed
+   * @returns null for scratch repositories, which live in memory
+   */
+  public getRepositoryWorkingDirectory(repositoryId: string): string | null {
+    const repoConfig = this.idToConfig.get(repositoryId);
+    if (!repoConfig) {
+      throw new Error(`Repository with ID ${repositoryId} not found.`);
+    }
+    return this.getWorkingDirectory(repoConfig);
+  }
+
   // Method to remove a repository configuration
   public async removeRepositoryConfig(idOrName: string): Promise<void> {
     let repoIdToRemove: string | undefined;
@@ -405,18 +863,154 @@ export class RepositoryManager {
     this.repositories.delete(repoIdToRemove);
     this.nameToId.delete(repoNameToRemove);
     this.idToConfig.delete(repoIdToRemove);
+    this.syncStatus.delete(repoIdToRemove);
+    await this.pushOutbox.remove(repoIdToRemove);
 
     console.log(`[RepoManager] Removed repository "${repoNameToRemove}" (ID: ${repoIdToRemove}) from runtime.`);
 
     // Persist the change
     await this.saveConfiguration();
     console.log(`[RepoManager] Repository "${repoNameToRemove}" removed from configuration file.`);
-    // Note: This does not delete the cloned repository from disk.
-    // That could be an optional additional step if desired.
+    // Files on disk are left alone; removeRepository archives or deletes clones
+  }
+
+  /**
+   * Remove a repository from the configuration and keep, archive or delete its clone. Runs
+   * under the repository's operation lock, so a running ingestion finishes first.
+   * @param idOrName Repository ID or name
+   * @param options Removal mode (default 'keep') and whether to ignore unpushed commits
+   * @throws UnpushedCommitsError if a GitHub or git repository has commits its remote does not have
+   */
+  public async removeRepository(idOrName: string, options: RemoveRepositoryOptions = {}): Promise<RepositoryRemovalResult> {
+    const mode = options.mode || 'keep';
+    const id = this.idToConfig.has(idOrName) ? idOrName : this.nameToId.get(idOrName);
+    if (!id || !this.idToConfig.has(id)) {
+      throw new Error(`Repository with name or ID "${idOrName}" not found.`);
+    }
+
+    return this.runExclusive(id, 'remove', async () => {
+      const repoConfig = this.idToConfig.get(id);
+      if (!repoConfig) {
+        throw new Error(`Repository with name or ID "${idOrName}" not found.`); // Removed while waiting
+      }
+      if (repoConfig.type === 'local' && mode === 'purge') {
+        throw new Error(`Local repository "${repoConfig.name}" is not managed by Lspace, so it cannot be purged; its directory at ${repoConfig.path} is yours to delete. Use mode "keep" or "archive".`);
+      }
+      if (repoConfig.type === 'scratch' && mode === 'archive') {
+        throw new Error(`Scratch repository "${repoConfig.name}" is held in memory and cannot be archived.`);
+      }
+
+      const workingDir = this.getWorkingDirectory(repoConfig);
+      const onDisk = workingDir !== null && fs.existsSync(workingDir);
+      if ((repoConfig.type === 'github' || repoConfig.type === 'git') && !options.force) {
+        const repository = this.repositories.get(id)?.repository ?? (onDisk ? new Repository(workingDir!) : undefined);
+        const { ahead } = repository ? await repository.getAheadBehind() : { ahead: 0 };
+        const pushPending = this.pushOutbox.get(id) !== null;
+        if (ahead > 0 || pushPending) {
+          throw new UnpushedCommitsError(id, ahead, pushPending);
+        }
+      }
+
+      let archivePath: string | null = null;
+      if (mode === 'archive' && onDisk) {
+        archivePath = await this.archiveWorkingDirectory(repoConfig, workingDir!);
+      }
+
+      await this.removeRepositoryConfig(id);
+
+      const deleteClone = repoConfig.type !== 'local' && mode !== 'keep' && onDisk;
+      if (deleteClone) {
+        await fs.promises.rm(workingDir!, { recursive: true, force: true });
+        await removeEmptyDirectory(path.dirname(workingDir!)); // The owner directory of a GitHub clone
+        console.log(`[RepoManager] Deleted clone of "${repoConfig.name}" at ${workingDir}.`);
+      }
+      return { id, name: repoConfig.name, mode, path: workingDir, archivePath, deleted: deleteClone };
+    });
+  }
+
+  /**
+   * Clones under the clone directories that no configured repository uses: the clone base
+   * directory and .lspace_clones, where adapters created without a base directory clone to.
+   */
+  public async findOrphanedClones(): Promise<OrphanedClone[]> {
+    const inUse = new Set<string>();
+    for (const repoConfig of this.idToConfig.values()) {
+      const workingDir = this.getWorkingDirectory(repoConfig);
+      if (workingDir) {
+        inUse.add(path.resolve(workingDir));
+      }
+    }
+
+    const baseDirs = Array.from(new Set([this.cloneBaseDir, path.resolve(process.cwd(), '.lspace_clones')]));
+    const orphans: OrphanedClone[] = [];
+    for (const baseDir of baseDirs) {
+      for (const clonePath of await findClones(baseDir, CLONE_SEARCH_DEPTH)) {
+        if (inUse.has(clonePath)) {
+          continue;
+        }
+        const stats = await fs.promises.stat(clonePath);
+        orphans.push({
+          path: clonePath,
+          baseDir,
+          sizeBytes: await directorySize(clonePath),
+          modifiedAt: stats.mtime.toISOString(),
+        });
+      }
+    }
+    return orphans;
+  }
+
+  /**
+   * Delete orphaned clones. Paths that are not orphaned clones (see findOrphanedClones) are refused.
+   * @param clonePaths Paths as listed by findOrphanedClones
+   * @returns The deleted paths
+   */
+  public async deleteOrphanedClones(clonePaths: string[]): Promise<string[]> {
+    const orphans = new Set((await this.findOrphanedClones()).map(orphan => orphan.path));
+    const notOrphaned = clonePaths.filter(clonePath => !orphans.has(path.resolve(clonePath)));
+    if (notOrphaned.length > 0) {
+      throw new Error(`Not orphaned clones: ${notOrphaned.join(', ')}`);
+    }
+
+    const deleted: string[] = [];
+    for (const clonePath of clonePaths.map(p => path.resolve(p))) {
+      await fs.promises.rm(clonePath, { recursive: true, force: true });
+      await removeEmptyDirectory(path.dirname(clonePath));
+      deleted.push(clonePath);
+      console.log(`[RepoManager] Deleted orphaned clone at ${clonePath}.`);
+    }
+    return deleted;
+  }
+
+  // Where a repository's files are on disk; null for scratch repositories, which live in memory
+  private getWorkingDirectory(repoConfig: RepositoryConfig): string | null {
+    const registeredPath = this.repositories.get(repoConfig.id)?.repository.path;
+    switch (repoConfig.type) {
+      case 'local':
+        return path.resolve(repoConfig.path);
+      case 'github':
+        // The layout GitHubAdapter clones into, for repositories whose setup failed
+        return registeredPath ?? path.join(this.cloneBaseDir, repoConfig.owner, repoConfig.repo);
+      case 'git':
+        return registeredPath ?? this.getGitAdapter().getLocalPath(repoConfig);
+      default:
+        return null;
+    }
+  }
+
+  private async archiveWorkingDirectory(repoConfig: RepositoryConfig, workingDir: string): Promise<string> {
+    await fs.promises.mkdir(this.archiveDir, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const safeName = repoConfig.name.replace(/[^A-Za-z0-9._-]+/g, '-');
+    const archivePath = path.join(this.archiveDir, `${safeName}-${repoConfig.id}-${timestamp}.tar.gz`);
+    // The whole directory, so the archive holds .git with every commit and uncommitted .lspace state
+    await execFileAsync('tar', ['-czf', archivePath, '-C', path.dirname(workingDir), path.basename(workingDir)]);
+    console.log(`[RepoManager] Archived "${repoConfig.name}" to ${archivePath}.`);
+    return archivePath;
   }
 
   // Find a repository configuration by its name
-  async findRepositoryConfigByName(name: string): Promise<SavedRepositoryConfig | null> {
+  async findRepositoryConfigByName(name: string): Promise<RepositoryConfig | null> {
     const id = this.nameToId.get(name);
     if (id) {
       const config = this.idToConfig.get(id);
@@ -425,34 +1019,329 @@ export class RepositoryManager {
     return null;
   }
 
-  // Method to get credentials if needed by other services
-  getCredentials(): CredentialsConfig | undefined {
-    return this.credentialsConfig;
+  /**
+   * The configured credentials, described without their secrets
+   */
+  listCredentials(): CredentialSummary[] {
+    const usedBy = (kind: CredentialKind, alias: string) => this.getAllRepositoryConfigs()
+      .filter(conf => kind === 'github_pat'
+        ? conf.type === 'github' && conf.pat_alias === alias
+        : conf.type === 'git' && conf.credential_alias === alias)
+      .map(conf => conf.id);
+    const summarize = (kind: CredentialKind, alias: string, token: SecretValue | undefined, details: Partial<CredentialSummary> = {}): CredentialSummary => {
+      const summary: CredentialSummary = {
+        kind,
+        alias,
+        source: token === undefined ? null : secretSource(token),
+        reference: token === undefined || typeof token === 'string' ? null : describeSecret(token),
+        ...details,
+        available: true,
+        usedBy: usedBy(kind, alias),
+      };
+      if (token !== undefined) {
+        try {
+          resolveSecret(token, this.keystore);
+        } catch (error: any) {
+          summary.available = false;
+          summary.error = error.message;
+        }
+      }
+      return summary;
+    };
+
+    return [
+      ...(this.credentialsConfig?.github_pats || []).map(pat => summarize('github_pat', pat.alias, pat.token)),
+      ...(this.credentialsConfig?.git_credentials || []).map(credential => summarize('git', credential.alias, credential.token, {
+        username: credential.username,
+        ssh_key_path: credential.ssh_key_path,
+        known_hosts_path: credential.known_hosts_path,
+      })),
+    ];
+  }
+
+  /**
+   * Add a credential and save the configuration. A `secret` is stored encrypted in the keystore
+   * and config.local.json only references it.
+   * @throws KeystoreLockedError when a secret is given but no master key is set
+   */
+  async addCredential(kind: CredentialKind, alias: string, input: CredentialInput): Promise<CredentialSummary> {
+    if (this.findCredentialIndex(kind, alias) !== -1) {
+      throw new Error(`Credential "${alias}" already exists.`);
+    }
+    const token = await this.storeCredentialSecret(kind, alias, input);
+    const credentials = this.credentialsConfig || (this.credentialsConfig = { github_pats: [] });
+    if (kind === 'github_pat') {
+      credentials.github_pats.push({ alias, token: token! });
+    } else {
+      (credentials.git_credentials || (credentials.git_credentials = [])).push(this.gitCredentialFromInput(alias, input, token));
+    }
+    await this.saveConfiguration();
+    console.log(`[RepoManager] Added ${kind} credential "${alias}".`);
+    return this.getCredentialSummary(kind, alias);
+  }
+
+  /**
+   * Replace a credential's secret (and, for git credentials, its other fields). Repositories
+   * using it pick up the new secret on their next remote operation.
+   */
+  async rotateCredential(kind: CredentialKind, alias: string, input: CredentialInput): Promise<CredentialSummary> {
+    const index = this.findCredentialIndex(kind, alias);
+    if (index === -1) {
+      throw new Error(`Credential "${alias}" not found.`);
+    }
+    const token = await this.storeCredentialSecret(kind, alias, input);
+    const credentials = this.credentialsConfig!;
+    const previous = kind === 'github_pat' ? credentials.github_pats[index].token : credentials.git_credentials![index].token;
+    if (kind === 'github_pat') {
+      credentials.github_pats[index] = { alias, token: token! };
+    } else {
+      credentials.git_credentials![index] = this.gitCredentialFromInput(alias, input, token);
+    }
+    await this.saveConfiguration();
+    await this.forgetKeystoreSecret(previous, token);
+    console.log(`[RepoManager] Rotated ${kind} credential "${alias}".`);
+    return this.getCredentialSummary(kind, alias);
+  }
+
+  /**
+   * Remove a credential that no repository uses, including its keystore entry.
+   */
+  async removeCredential(kind: CredentialKind, alias: string): Promise<void> {
+    const index = this.findCredentialIndex(kind, alias);
+    if (index === -1) {
+      throw new Error(`Credential "${alias}" not found.`);
+    }
+    const { usedBy } = this.getCredentialSummary(kind, alias);
+    if (usedBy.length > 0) {
+      throw new Error(`Credential "${alias}" is in use by repositories: ${usedBy.join(', ')}.`);
+    }
+    const credentials = this.credentialsConfig!;
+    const [removed] = kind === 'github_pat'
+      ? credentials.github_pats.splice(index, 1)
+      : credentials.git_credentials!.splice(index, 1);
+    await this.saveConfiguration();
+    await this.forgetKeystoreSecret(removed.token);
+    console.log(`[RepoManager] Removed ${kind} credential "${alias}".`);
   }
 
+  /**
+   * The token for a PAT alias, resolved from wherever it is stored
+   * @throws SecretResolutionError or KeystoreLockedError if the token cannot be read
+   */
   getPATByAlias(alias: string): string | undefined {
     if (!this.credentialsConfig || !this.credentialsConfig.github_pats) {
       return undefined;
     }
     const patEntry = this.credentialsConfig.github_pats.find(p => p.alias === alias);
-    return patEntry ? patEntry.token : undefined;
+    return patEntry ? resolveSecret(patEntry.token, this.keystore) : undefined;
+  }
+
+  /**
+   * A git credential with its token resolved
+   * @throws SecretResolutionError or KeystoreLockedError if the token cannot be read
+   */
+  getGitCredentialByAlias(alias: string): GitCredential | undefined {
+    const credential = this.credentialsConfig?.git_credentials?.find(candidate => candidate.alias === alias);
+    if (!credential) {
+      return undefined;
+    }
+    return { ...credential, token: credential.token === undefined ? undefined : resolveSecret(credential.token, this.keystore) };
+  }
+
+  private getGitCredentialForConfig(repoConfig: GitRepoConfig): GitCredential | undefined {
+    if (!repoConfig.credential_alias) {
+      return undefined;
+    }
+    const credential = this.getGitCredentialByAlias(repoConfig.credential_alias);
+    if (!credential) {
+      throw new Error(`Git credential alias "${repoConfig.credential_alias}" not found for git repo ${repoConfig.name}.`);
+    }
+    return credential;
+  }
+
+  private warnAboutPlaintextSecrets(): void {
+    const plaintext = this.listCredentials().filter(summary => summary.source === 'plaintext').map(summary => summary.alias);
+    if (plaintext.length > 0) {
+      console.warn(`[RepoManager] Credentials ${plaintext.join(', ')} store their secret in plaintext in ${this.configPath}. Consider an env, file or keystore reference instead.`);
+    }
+  }
+
+  private findCredentialIndex(kind: CredentialKind, alias: string): number {
+    const list: { alias: string }[] = (kind === 'github_pat' ? this.credentialsConfig?.github_pats : this.credentialsConfig?.git_credentials) || [];
+    return list.findIndex(credential => credential.alias === alias);
+  }
+
+  private getCredentialSummary(kind: CredentialKind, alias: string): CredentialSummary {
+    return this.listCredentials().find(summary => summary.kind === kind && summary.alias === alias)!;
+  }
+
+  // Turn the input's secret into what config.local.json stores: a keystore, env or file reference
+  private async storeCredentialSecret(kind: CredentialKind, alias: string, input: CredentialInput): Promise<SecretValue | undefined> {
+    const sources = [input.secret, input.env, input.file].filter(source => source !== undefined);
+    if (sources.length > 1) {
+      throw new Error('Give only one of secret, env or file.');
+    }
+    if (sources.length === 0) {
+      if (kind === 'github_pat' || !input.ssh_key_path) {
+        throw new Error(kind === 'github_pat'
+          ? 'A GitHub PAT needs a secret, env or file.'
+          : 'A git credential needs a secret, env or file for HTTPS, or an ssh_key_path for SSH.');
+      }
+      return undefined;
+    }
+    if (input.env !== undefined) {
+      return { env: input.env };
+    }
+    if (input.file !== undefined) {
+      return { file: path.resolve(input.file) };
+    }
+    // A new entry per change, so the old secret stays valid until the configuration points away from it
+    const name = `${kind}/${alias}/${uuidv4()}`;
+    await this.keystore.set(name, input.secret!);
+    return { keystore: name };
+  }
+
+  private gitCredentialFromInput(alias: string, input: CredentialInput, token: SecretValue | undefined): GitCredentialConfig {
+    const credential: GitCredentialConfig = { alias };
+    if (input.username) credential.username = input.username;
+    if (token !== undefined) credential.token = token;
+    if (input.ssh_key_path) credential.ssh_key_path = input.ssh_key_path;
+    if (input.known_hosts_path) credential.known_hosts_path = input.known_hosts_path;
+    return credential;
+  }
+
+  // Drop a keystore entry that the configuration no longer references
+  private async forgetKeystoreSecret(previous: SecretValue | undefined, current?: SecretValue): Promise<void> {
+    if (previous && typeof previous !== 'string' && 'keystore' in previous
+      && !(current && typeof current !== 'string' && 'keystore' in current && current.keystore === previous.keystore)) {
+      await this.keystore.delete(previous.keystore);
+    }
+  }
+
+  private getGitAdapter(): GitAdapter {
+    if (!this.gitAdapter) {
+      this.gitAdapter = new GitAdapter(this.cloneBaseDir);
+    }
+    return this.gitAdapter;
+  }
+
+  /**
+   * Create and register an empty repository held in memory, e.g. for trying out ingestion
+   * without touching disk. It is not saved to the configuration file and is lost on restart.
+   * @param name Human-readable name
+   * @returns Repository ID
+   */
+  public async createScratchRepository(name: string): Promise<string> {
+    if (this.nameToId.has(name)) {
+      throw new Error(`Repository with name "${name}" already exists.`);
+    }
+    const id = uuidv4();
+    const repository = await Repository.init(path.posix.join('/scratch', id), { fs: new MemoryFs() });
+    await repository.writeFile('README.md', `# ${name}\n`);
+    await repository.add(['README.md']);
+    const commit = await repository.commit({ message: 'Initialize scratch repository' });
+    if (!commit.success) {
+      throw new Error(`Failed to initialize scratch repository "${name}": ${commit.message}`);
+    }
+
+    await this.registerRepository(name, repository, 'scratch', { id, name, type: 'scratch' });
+    console.log(`[RepoManager] Created scratch repository "${name}" (ID: ${id}) in memory.`);
+    return id;
+  }
+
+  // Method to set where removed repositories are archived
+  public setArchiveDirectory(archiveDir: string): void {
+    this.archiveDir = path.resolve(archiveDir);
   }
 
   // Method to set the clone base directory, e.g., from app config
   public setCloneBaseDirectory(baseDir: string): void {
     this.cloneBaseDir = path.resolve(baseDir);
+    this.gitAdapter = undefined; // Recreated under the new base directory on next use
     console.log(`[RepoManager] Set clone base directory to: ${this.cloneBaseDir}`);
   }
 
-  // Method to push changes to GitHub repositories
+  /**
+   * Run a mutating operation (ingestion, file writes, reverts, sync) with exclusive access to
+   * the repository. Operations on the same repository run one at a time in arrival order.
+   * @param repositoryId Repository ID
+   * @param operation Short name of the operation, reported in queue status and timeout errors
+   * @param task The operation to run
+   * @param options Per-call override of the wait timeout
+   * @throws RepositoryBusyError if the repository stays busy longer than the wait timeout
+   */
+  public runExclusive<T>(repositoryId: string, operation: string, task: () => Promise<T>, options?: OperationOptions): Promise<T> {
+    return this.operationQueue.run(repositoryId, operation, task, options);
+  }
+
+  /**
+   * Queue depth and the running/waiting operations for a repository
+   * @param repositoryId Repository ID
+   */
+  public getQueueStatus(repositoryId: string): RepositoryQueueStatus {
+    return this.operationQueue.getStatus(repositoryId);
+  }
+
+  // Method to set how long operations wait for a busy repository (0 waits forever)
+  public setOperationWaitTimeout(timeoutMs: number): void {
+    this.operationQueue.setDefaultWaitTimeout(timeoutMs);
+    console.log(`[RepoManager] Set repository operation wait timeout to: ${timeoutMs}ms`);
+  }
+
+  /**
+   * Fetch more history into a shallow clone of a remote repository, by a number of commits or
+   * 'full'. Concurrent requests for the same repository share one fetch. This does not take the
+   * operation queue: it only adds objects, and it runs from history reads inside queued operations.
+   * @param repositoryId Repository ID
+   * @param deepenBy Commits to fetch past the current boundary, or 'full'
+   */
+  public async deepenHistory(repositoryId: string, deepenBy: number | 'full' = Repository.DEEPEN_STEP): Promise<void> {
+    const inFlight = this.deepening.get(repositoryId);
+    if (inFlight) {
+      return inFlight;
+    }
+    const repoConfig = this.idToConfig.get(repositoryId);
+    if (!repoConfig) {
+      throw new Error(`Repository with ID ${repositoryId} not found.`);
+    }
+
+    let deepen: Promise<void>;
+    if (repoConfig.type === 'git') {
+      deepen = this.getGitAdapter().deepen(repoConfig, this.getGitCredentialForConfig(repoConfig), deepenBy);
+    } else if (repoConfig.type === 'github') {
+      const pat = this.getPATByAlias(repoConfig.pat_alias);
+      if (!this.githubAdapter || !pat) {
+        throw new Error(`Cannot fetch history for GitHub repo ${repoConfig.name}: adapter or PAT alias "${repoConfig.pat_alias}" not available.`);
+      }
+      deepen = this.githubAdapter.deepen(repoConfig, pat, deepenBy);
+    } else {
+      return; // Local and scratch repositories have their full history
+    }
+
+    const tracked = deepen.finally(() => this.deepening.delete(repositoryId));
+    this.deepening.set(repositoryId, tracked);
+    return tracked;
+  }
+
+  // Method to push changes to GitHub and generic git repositories
   public async pushToRemote(repositoryId: string): Promise<void> {
     const repoConfig = this.idToConfig.get(repositoryId);
     if (!repoConfig) {
       throw new Error(`Repository with ID ${repositoryId} not found.`);
     }
 
+    if (repoConfig.type === 'git') {
+      try {
+        await this.getGitAdapter().push(repoConfig, this.getGitCredentialForConfig(repoConfig));
+      } catch (error: any) {
+        console.error(`[RepoManager] Failed to push repository ${repoConfig.name}:`, error.message);
+        throw error;
+      }
+      return;
+    }
+
     if (repoConfig.type !== 'github') {
-      console.log(`[RepoManager] Repository ${repoConfig.name} is not a GitHub repository. Skipping push.`);
+      console.log(`[RepoManager] Repository ${repoConfig.name} has no remote. Skipping push.`);
       return;
     }
 
@@ -473,32 +1362,225 @@ export class RepositoryManager {
     }
   }
 
-  // Method to sync GitHub repositories with remote
-  public async syncWithRemote(repositoryId: string): Promise<void> {
+  /**
+   * Push a repository's commits to its remote through the push outbox: the push is tried right
+   * away and, if it fails, kept and retried with backoff (also after a restart).
+   * @returns null when the push went through or the repository has no remote, otherwise the
+   * pending push that will be retried
+   */
+  public async queuePush(repositoryId: string): Promise<PendingPush | null> {
     const repoConfig = this.idToConfig.get(repositoryId);
     if (!repoConfig) {
       throw new Error(`Repository with ID ${repositoryId} not found.`);
     }
+    if (repoConfig.type !== 'github' && repoConfig.type !== 'git') {
+      return null;
+    }
+    return this.pushOutbox.enqueue(repositoryId);
+  }
 
-    if (repoConfig.type !== 'github') {
-      console.log(`[RepoManager] Repository ${repoConfig.name} is not a GitHub repository. Skipping sync.`);
-      return;
+  /**
+   * Retry a repository's pending push now instead of waiting for its next scheduled attempt.
+   * @returns null when the push went through or nothing was pending, otherwise the still pending push
+   */
+  public async retryPendingPush(repositoryId: string): Promise<PendingPush | null> {
+    if (!this.idToConfig.has(repositoryId)) {
+      throw new Error(`Repository with ID ${repositoryId} not found.`);
     }
+    return this.pushOutbox.retry(repositoryId);
+  }
 
-    if (!this.githubAdapter) {
-      throw new Error('GitHubAdapter not initialized. Cannot sync GitHub repository.');
+  /**
+   * The repository's push waiting in the outbox, or null when everything was pushed
+   * @param repositoryId Repository ID
+   */
+  public getPendingPush(repositoryId: string): PendingPush | null {
+    return this.pushOutbox.get(repositoryId);
+  }
+
+  /**
+   * All pushes waiting in the outbox
+   */
+  public listPendingPushes(): PendingPush[] {
+    return this.pushOutbox.list();
+  }
+
+  /**
+   * Sync a GitHub or generic git repository with its remote: fetch, then fast-forward or merge
+   * local commits that were not pushed yet. Nothing local is discarded; when the local commits
+   * conflict with the remote the merge is aborted and the repository is marked as needing attention.
+   * @returns The sync result, or null for repositories without a remote
+   * @throws SyncConflictError on conflicts
+   */
+  public async syncWithRemote(repositoryId: string): Promise<SyncResult | null> {
+    const repoConfig = this.idToConfig.get(repositoryId);
+    if (!repoConfig) {
+      throw new Error(`Repository with ID ${repositoryId} not found.`);
     }
 
-    const pat = this.getPATByAlias(repoConfig.pat_alias);
-    if (!pat) {
-      throw new Error(`PAT alias "${repoConfig.pat_alias}" not found for GitHub repo ${repoConfig.name}.`);
+    let sync: () => Promise<SyncResult | null>;
+    if (repoConfig.type === 'git') {
+      const gitAdapter = this.getGitAdapter();
+      const credential = this.getGitCredentialForConfig(repoConfig);
+      sync = () => gitAdapter.sync(repoConfig, credential);
+    } else if (repoConfig.type === 'github') {
+      if (!this.githubAdapter) {
+        throw new Error('GitHubAdapter not initialized. Cannot sync GitHub repository.');
+      }
+      const pat = this.getPATByAlias(repoConfig.pat_alias);
+      if (!pat) {
+        throw new Error(`PAT alias "${repoConfig.pat_alias}" not found for GitHub repo ${repoConfig.name}.`);
+      }
+      const githubAdapter = this.githubAdapter;
+      sync = () => githubAdapter.sync(repoConfig, pat);
+    } else {
+      console.log(`[RepoManager] Repository ${repoConfig.name} has no remote. Skipping sync.`);
+      return null;
     }
 
+    let previous: RemoteSyncStatus | undefined;
     try {
-      await this.githubAdapter.sync(repoConfig, pat);
+      // Sync updates the working tree, so it must not overlap other writes
+      const result = await this.runExclusive(repositoryId, 'sync', () => {
+        previous = this.getSyncStatus(repositoryId);
+        this.syncStatus.set(repositoryId, { ...previous, state: 'syncing', lastAttemptAt: new Date().toISOString() });
+        return sync();
+      });
+      const now = new Date().toISOString();
+      this.syncStatus.set(repositoryId, {
+        ...this.getSyncStatus(repositoryId),
+        state: 'ok',
+        lastSyncAt: now,
+        lastResult: result,
+        lastError: null,
+        conflictingFiles: [],
+      });
+      return result;
     } catch (error: any) {
+      if (error instanceof RepositoryBusyError) {
+        // The sync did not run; a conflict or an earlier error still stands
+        if (previous) {
+          this.syncStatus.set(repositoryId, previous);
+        }
+        throw error;
+      }
       console.error(`[RepoManager] Failed to sync repository ${repoConfig.name}:`, error.message);
+      this.syncStatus.set(repositoryId, {
+        ...this.getSyncStatus(repositoryId),
+        state: error instanceof SyncConflictError ? 'needs-attention' : 'error',
+        lastError: error.message,
+        conflictingFiles: error instanceof SyncConflictError ? error.conflictingFiles : [],
+      });
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Check that a GitHub or generic git repository's remote answers with the configured
+   * credential and has the configured branch. Nothing is fetched.
+   * @returns The check result, or null for repositories without a remote
+   * @throws Error if the credential alias is missing or its secret cannot be resolved
+   */
+  public async checkRemote(repositoryId: string): Promise<RemoteCheckResult | null> {
+    const repoConfig = this.idToConfig.get(repositoryId);
+    if (!repoConfig) {
+      throw new Error(`Repository with ID ${repositoryId} not found.`);
+    }
+
+    if (repoConfig.type === 'git') {
+      return this.getGitAdapter().checkRemote(repoConfig, this.getGitCredentialForConfig(repoConfig));
+    }
+    if (repoConfig.type !== 'github') {
+      return null;
+    }
+    if (!this.githubAdapter) {
+      throw new Error('GitHubAdapter not initialized. Cannot check GitHub repository.');
+    }
+    const pat = this.getPATByAlias(repoConfig.pat_alias);
+    if (!pat) {
+      throw new Error(`PAT alias "${repoConfig.pat_alias}" not found for GitHub repo ${repoConfig.name}.`);
+    }
+    return this.githubAdapter.checkRemote(repoConfig, pat);
+  }
+
+  /**
+   * Sync state of a repository: the outcome of the last sync, when it ran and any error.
+   * @param repositoryId Repository ID
+   */
+  public getSyncStatus(repositoryId: string): RemoteSyncStatus {
+    return this.syncStatus.get(repositoryId) || {
+      state: 'never-synced',
+      lastAttemptAt: null,
+      lastSyncAt: null,
+      lastResult: null,
+      lastError: null,
+      conflictingFiles: [],
+    };
+  }
+
+  /**
+   * IDs of the registered repositories that have a remote to sync with.
+   */
+  public getRemoteRepositoryIds(): string[] {
+    return Array.from(this.repositories.values())
+      .filter(info => info.type === 'github' || info.type === 'git')
+      .map(info => info.id);
+  }
+}
+
+// Directories holding a .git, searched down to `depth` levels below `dir` (owner/repo for GitHub, git/<id>)
+async function findClones(dir: string, depth: number): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const clones: string[] = [];
+  for (const entry of entries.filter(candidate => candidate.isDirectory())) {
+    const entryPath = path.join(dir, entry.name);
+    if (fs.existsSync(path.join(entryPath, '.git'))) {
+      clones.push(entryPath);
+    } else if (depth > 1) {
+      clones.push(...await findClones(entryPath, depth - 1));
+    }
+  }
+  return clones;
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let size = 0;
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      size += await directorySize(entryPath);
+    } else if (entry.isFile()) {
+      size += (await fs.promises.stat(entryPath)).size;
+    }
+  }
+  return size;
+}
+
+async function removeEmptyDirectory(dir: string): Promise<void> {
+  try {
+    await fs.promises.rmdir(dir);
+  } catch {
+    // Not empty, or already gone
+  }
+}
+
+// Structural equality for plain JSON values, ignoring key order
+function sameJson(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(normalize);
+    }
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, normalize((value as Record<string, unknown>)[key])]);
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { KeystoreLockedError, SecretResolutionError } from './errors';
+
+/**
+ * Secrets in config.local.json are either stored inline (plaintext, as older versions wrote
+ * them) or referenced: an environment variable, a file (e.g. a Docker or Kubernetes secret),
+ * or an entry in the encrypted keystore. References are resolved each time a secret is used,
+ * so rotating the underlying value takes effect without a restart.
+ */
+
+export type SecretReference = { env: string } | { file: string } | { keystore: string };
+export type SecretValue = string | SecretReference;
+export type SecretSource = 'plaintext' | 'env' | 'file' | 'keystore';
+
+export function secretSource(value: SecretValue): SecretSource {
+  if (typeof value === 'string') {
+    return 'plaintext';
+  }
+  if ('env' in value) {
+    return 'env';
+  }
+  return 'file' in value ? 'file' : 'keystore';
+}
+
+/**
+ * Where a secret comes from, safe to log and return to clients: "env:NAME", "file:/path",
+ * "keystore:name" or "plaintext".
+ */
+export function describeSecret(value: SecretValue): string {
+  if (typeof value === 'string') {
+    return 'plaintext';
+  }
+  if ('env' in value) {
+    return `env:${value.env}`;
+  }
+  return 'file' in value ? `file:${value.file}` : `keystore:${value.keystore}`;
+}
+
+/**
+ * The secret a value stands for.
+ * @throws SecretResolutionError if the variable, file or keystore entry is missing or empty
+ * @throws KeystoreLockedError for keystore references while the keystore is locked
+ */
+export function resolveSecret(value: SecretValue, keystore?: SecretKeystore): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const reference = describeSecret(value);
+  let secret: string | undefined;
+  if ('env' in value) {
+    secret = process.env[value.env];
+    if (secret === undefined) {
+      throw new SecretResolutionError(reference, 'the environment variable is not set');
+    }
+  } else if ('file' in value) {
+    try {
+      secret = fs.readFileSync(value.file, 'utf8');
+    } catch (error: any) {
+      throw new SecretResolutionError(reference, `the file cannot be read (${error.code || 'error'})`);
+    }
+  } else {
+    if (!keystore) {
+      throw new SecretResolutionError(reference, 'no keystore is configured');
+    }
+    secret = keystore.get(value.keystore);
+  }
+  secret = secret.trim(); // Files and variables often end with a newline
+  if (!secret) {
+    throw new SecretResolutionError(reference, 'it is empty');
+  }
+  return secret;
+}
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface KeystoreFile {
+  version: 1;
+  kdf: { name: 'scrypt'; salt: string };
+  check?: EncryptedValue; // A known value, to tell a wrong master key from a corrupted entry
+  secrets: Record<string, EncryptedValue>;
+}
+
+const KEY_CHECK_VALUE = 'lspace-keystore';
+
+/**
+ * Secrets encrypted with AES-256-GCM under a key derived (scrypt) from a master key that is
+ * never stored. Entry names are visible in the file; values are not.
+ */
+export class SecretKeystore {
+  private data?: KeystoreFile;
+  private key?: Buffer;
+
+  /**
+   * @param filePath Keystore file; created on the first write
+   * @param masterKey Unlocks the keystore; without it entries can be listed and removed but not read or written
+   */
+  constructor(private filePath: string, private masterKey?: string) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  isUnlocked(): boolean {
+    return !!this.masterKey;
+  }
+
+  list(): string[] {
+    return Object.keys(this.read().secrets).sort();
+  }
+
+  has(name: string): boolean {
+    return name in this.read().secrets;
+  }
+
+  get(name: string): string {
+    const entry = this.read().secrets[name];
+    if (!entry) {
+      throw new SecretResolutionError(`keystore:${name}`, 'there is no such keystore entry');
+    }
+    try {
+      return this.decrypt(entry);
+    } catch (error) {
+      if (error instanceof KeystoreLockedError) {
+        throw error;
+      }
+      throw new SecretResolutionError(`keystore:${name}`, 'the entry cannot be decrypted');
+    }
+  }
+
+  async set(name: string, secret: string): Promise<void> {
+    const data = this.read();
+    data.secrets[name] = this.encrypt(secret);
+    await this.write(data);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const data = this.read();
+    if (!(name in data.secrets)) {
+      return false;
+    }
+    delete data.secrets[name];
+    await this.write(data);
+    return true;
+  }
+
+  private read(): KeystoreFile {
+    if (!this.data) {
+      const data: KeystoreFile = fs.existsSync(this.filePath)
+        ? JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+        : { version: 1, kdf: { name: 'scrypt', salt: crypto.randomBytes(16).toString('base64') }, secrets: {} };
+      this.data = data;
+      return data;
+    }
+    return this.data;
+  }
+
+  // Derives the key on first use and checks it against the stored check value
+  private getKey(): Buffer {
+    if (!this.masterKey) {
+      throw new KeystoreLockedError();
+    }
+    if (!this.key) {
+      const data = this.read();
+      const key = crypto.scryptSync(this.masterKey, Buffer.from(data.kdf.salt, 'base64'), 32);
+      if (data.check) {
+        let check: string;
+        try {
+          check = this.decryptWith(key, data.check);
+        } catch {
+          throw new KeystoreLockedError('the master key does not match this keystore');
+        }
+        if (check !== KEY_CHECK_VALUE) {
+          throw new KeystoreLockedError('the master key does not match this keystore');
+        }
+      } else {
+        data.check = this.encryptWith(key, KEY_CHECK_VALUE);
+      }
+      this.key = key;
+    }
+    return this.key;
+  }
+
+  private encrypt(value: string): EncryptedValue {
+    return this.encryptWith(this.getKey(), value);
+  }
+
+  private decrypt(entry: EncryptedValue): string {
+    return this.decryptWith(this.getKey(), entry);
+  }
+
+  private encryptWith(key: Buffer, value: string): EncryptedValue {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+  }
+
+  private decryptWith(key: Buffer, entry: EncryptedValue): string {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  // Written through a temporary file, readable by the owner only
+  private async write(data: KeystoreFile): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    await fs.promises.rename(tempPath, this.filePath);
+    this.data = data;
+  }
+}
@@ -0,0 +1,122 @@
+import { Repository, CompareResult, DiffOptions, RestoreResult, TagInfo } from './repository';
+
+/**
+ * A named, described point in the knowledge base history ("before the Q3 re-org").
+ */
+export interface Snapshot {
+  name: string;
+  tag: string; // Git tag backing the snapshot
+  commit: string;
+  description: string;
+  createdBy: { name: string; email: string } | null;
+  createdAt: string | null;
+}
+
+export interface SnapshotRestoreResult extends RestoreResult {
+  snapshot: Snapshot;
+}
+
+/**
+ * Service for knowledge base snapshots. Snapshots are annotated git tags under `snapshot/`,
+ * so they travel with the repository and show up in any git client.
+ */
+export class SnapshotService {
+  private static readonly TAG_PREFIX = 'snapshot/';
+  // Restoring leaves Lspace's own bookkeeping (timeline, raw inputs) as it is now
+  private static readonly BOOKKEEPING_PREFIX = '.lspace/';
+  private static readonly NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+  async createSnapshot(
+    repository: Repository,
+    name: string,
+    options: { description?: string; author?: { name: string; email: string }; ref?: string } = {}
+  ): Promise<Snapshot> {
+    SnapshotService.validateName(name);
+    const tag = SnapshotService.tagName(name);
+    if (await repository.tagExists(tag)) {
+      throw new Error(`Snapshot already exists: ${name}`);
+    }
+
+    const description = options.description?.trim() || `Snapshot ${name}`;
+    const tagInfo = await repository.createTag(tag, {
+      message: `${description}\n`,
+      tagger: options.author,
+      ref: options.ref,
+    });
+    console.log(`[SnapshotService] Created snapshot ${name} at ${tagInfo.commit.slice(0, 8)} in ${repository.path}`);
+    return SnapshotService.toSnapshot(tagInfo);
+  }
+
+  /**
+   * All snapshots, newest first.
+   */
+  async listSnapshots(repository: Repository): Promise<Snapshot[]> {
+    const tags = await repository.listTags();
+    return tags
+      .filter(tag => tag.name.startsWith(SnapshotService.TAG_PREFIX))
+      .map(tag => SnapshotService.toSnapshot(tag))
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+  }
+
+  async getSnapshot(repository: Repository, name: string): Promise<Snapshot> {
+    SnapshotService.validateName(name);
+    const tag = SnapshotService.tagName(name);
+    if (!(await repository.tagExists(tag))) {
+      throw new Error(`Snapshot not found: ${name}`);
+    }
+    return SnapshotService.toSnapshot(await repository.getTag(tag));
+  }
+
+  async deleteSnapshot(repository: Repository, name: string): Promise<void> {
+    await this.getSnapshot(repository, name);
+    await repository.deleteTag(SnapshotService.tagName(name));
+    console.log(`[SnapshotService] Deleted snapshot ${name} in ${repository.path}`);
+  }
+
+  /**
+   * What changed between the snapshot and the current HEAD.
+   */
+  async diffSnapshot(repository: Repository, name: string, options: DiffOptions = {}): Promise<CompareResult> {
+    const snapshot = await this.getSnapshot(repository, name);
+    return repository.compareRefs(snapshot.tag, 'HEAD', options);
+  }
+
+  /**
+   * Bring the knowledge base back to the snapshot as a new commit. Later history is kept, so
+   * a restore can be reverted like any other change.
+   */
+  async restoreSnapshot(
+    repository: Repository,
+    name: string,
+    options: { author?: { name: string; email: string } } = {}
+  ): Promise<SnapshotRestoreResult> {
+    const snapshot = await this.getSnapshot(repository, name);
+    const result = await repository.restoreTree(snapshot.tag, {
+      message: `Restore snapshot ${name}\n\n${snapshot.description}`,
+      author: options.author,
+      exclude: filePath => filePath.startsWith(SnapshotService.BOOKKEEPING_PREFIX),
+    });
+    return { ...result, snapshot };
+  }
+
+  private static validateName(name: string): void {
+    if (!name || !SnapshotService.NAME_PATTERN.test(name) || name.includes('..') || name.endsWith('.lock')) {
+      throw new Error(`Invalid snapshot name "${name}": use letters, digits, ".", "_" and "-", starting with a letter or digit.`);
+    }
+  }
+
+  private static tagName(name: string): string {
+    return `${SnapshotService.TAG_PREFIX}${name}`;
+  }
+
+  private static toSnapshot(tag: TagInfo): Snapshot {
+    return {
+      name: tag.name.slice(SnapshotService.TAG_PREFIX.length),
+      tag: tag.name,
+      commit: tag.commit,
+      description: (tag.message || '').trim(),
+      createdBy: tag.tagger,
+      createdAt: tag.date,
+    };
+  }
+}
@@ -1,7 +1,7 @@
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { Repository } from './repository';
-import { FileChangeInfo } from './types/commonTypes';
+import { Repository, BlameResult, TrailerCommit } from './repository';
+import { FileChangeInfo, FileChangeOperation } from './types/commonTypes';
 
 /**
  * Timeline entry type
@@ -16,6 +16,7 @@ export interface TimelineEntry {
   timestamp: string;
   operation: OperationType;
   path: string;
+  previousPath?: string; // Source path for 'move' entries
   title?: string;
   user?: string;
   category?: string;
@@ -62,8 +63,9 @@ export interface TimelinePage {
 export interface ApiHistoryEntry {
   id: string; // TimelineEntry.id
   operationType: OperationType; // TimelineEntry.operation (e.g. 'add', 'organize') - this is the high-level operation
-  fileOperation?: 'add' | 'modify' | 'delete'; // Git operation on the specific file
+  fileOperation?: FileChangeOperation; // Git operation on the specific file
   path: string; // TimelineEntry.path
+  previousPath?: string; // TimelineEntry.previousPath, for moves
   title: string; // TimelineEntry.title or filename
   user?: string; // TimelineEntry.user
   timestamp: string; // TimelineEntry.timestamp
@@ -81,11 +83,42 @@ export interface ApiHistoryEntry {
   operation: string; // for the badge, derived from fileOperation or operationType
 }
 
+/**
+ * Raw input that triggered a commit, resolved through the timeline
+ */
+export interface RawInputSource {
+  rawInputPath: string; // Path under .lspace/raw_inputs/
+  rawInputCommit: string;
+  timelineEntryId: string;
+  title?: string;
+  user?: string;
+  timestamp: string;
+}
+
+/**
+ * Blame result where each blamed commit is mapped to the raw input that produced it
+ */
+export interface BlameWithSources extends BlameResult {
+  sources: Record<string, RawInputSource | null>; // Keyed by blamed commit oid
+}
+
+/**
+ * Result of checking a repository's timeline file
+ */
+export interface TimelineValidation {
+  exists: boolean;
+  entryCount: number;
+  problems: string[]; // Empty when the file parses and every entry is well formed
+}
+
 /**
  * Service for managing repository timeline tracking
  */
 export class TimelineService {
-  private static readonly TIMELINE_PATH = '.lspace/timeline.json';
+  static readonly TIMELINE_PATH = '.lspace/timeline.json';
+  private static readonly RAW_INPUTS_PREFIX = '.lspace/raw_inputs/';
+  // How many ancestors of a KB commit to inspect when looking for the raw input commit that preceded it
+  private static readonly MAX_SOURCE_SEARCH_DEPTH = 10;
   private dataDir = path.join(process.cwd(), '.lspace');
   
   /**
@@ -138,6 +171,21 @@ export class TimelineService {
     return finalEntry;
   }
   
+  /**
+   * Finalize several prepared entries that share one commit, saving the timeline once.
+   */
+  public async finalizeEntries(
+    repository: Repository,
+    preparedEntries: TimelineEntry[],
+    commitInfo: { id: string; message: string }
+  ): Promise<TimelineEntry[]> {
+    const finalEntries = preparedEntries.map(entry => ({ ...entry, commit: commitInfo }));
+    const timeline = await this.getTimeline(repository);
+    timeline.entries.push(...finalEntries);
+    await this.saveTimeline(repository, timeline);
+    return finalEntries;
+  }
+
   /**
    * Add a new entry to the repository timeline if it pertains to 'raw/' files.
    * This is maintained for backward compatibility.
@@ -206,7 +254,7 @@ export class TimelineService {
     }
     
     if (options.path) {
-      filteredEntries = filteredEntries.filter(entry => entry.path === options.path);
+      filteredEntries = filteredEntries.filter(entry => entry.path === options.path || entry.previousPath === options.path);
     }
     
     if (options.startDate) {
@@ -252,6 +300,58 @@ export class TimelineService {
     return timeline.entries.find(entry => entry.id === entryId) || null;
   }
   
+  /**
+   * Check that the timeline file parses and its entries have the expected shape. Reading the
+   * timeline elsewhere treats a broken file as empty, so problems would otherwise go unnoticed
+   * until the next save overwrites it.
+   */
+  public async validateTimeline(repository: Repository): Promise<TimelineValidation> {
+    if (!(await repository.fileExists(TimelineService.TIMELINE_PATH))) {
+      return { exists: false, entryCount: 0, problems: [] };
+    }
+
+    let timeline: any;
+    try {
+      timeline = JSON.parse(await repository.readFile(TimelineService.TIMELINE_PATH));
+    } catch (error: any) {
+      return { exists: true, entryCount: 0, problems: [`${TimelineService.TIMELINE_PATH} is not valid JSON: ${error.message}`] };
+    }
+    if (!timeline || typeof timeline !== 'object' || !Array.isArray(timeline.entries)) {
+      return { exists: true, entryCount: 0, problems: [`${TimelineService.TIMELINE_PATH} has no "entries" array`] };
+    }
+
+    const operations: OperationType[] = ['add', 'update', 'delete', 'move', 'organize', 'prune'];
+    const problems: string[] = [];
+    const seenIds = new Set<string>();
+    timeline.entries.forEach((entry: any, index: number) => {
+      const label = `Entry ${index}${typeof entry?.id === 'string' ? ` (${entry.id})` : ''}`;
+      if (!entry || typeof entry !== 'object') {
+        problems.push(`Entry ${index} is not an object`);
+        return;
+      }
+      if (typeof entry.id !== 'string' || !entry.id) {
+        problems.push(`${label} has no id`);
+      } else if (seenIds.has(entry.id)) {
+        problems.push(`${label} reuses an id`);
+      } else {
+        seenIds.add(entry.id);
+      }
+      if (typeof entry.timestamp !== 'string' || Number.isNaN(Date.parse(entry.timestamp))) {
+        problems.push(`${label} has an invalid timestamp`);
+      }
+      if (!operations.includes(entry.operation)) {
+        problems.push(`${label} has an unknown operation: ${JSON.stringify(entry.operation)}`);
+      }
+      if (typeof entry.path !== 'string') {
+        problems.push(`${label} has no path`);
+      }
+      if (entry.commit !== undefined && typeof entry.commit?.id !== 'string') {
+        problems.push(`${label} has a commit without an id`);
+      }
+    });
+    return { exists: true, entryCount: timeline.entries.length, problems };
+  }
+
   /**
    * Get the full timeline for a repository
    */
@@ -316,11 +416,21 @@ export class TimelineService {
         continue;
       }
 
-      let diffInfo: { currentContent: string | null; previousContent: string | null; operation: 'add' | 'modify' | 'delete' } | null = null;
+      let diffInfo: { currentContent: string | null; previousContent: string | null; operation: FileChangeOperation } | null = null;
       let kbCommitData: ApiHistoryEntry['kbCommit'] = null;
 
       try {
         diffInfo = await repository.getFileDiffForCommit(entry.commit.id, entry.path);
+
+        // For moves, the previous content lives at the old path in the parent commit
+        if (entry.operation === 'move' && entry.previousPath) {
+          const parentSha = await repository.findCommitBeforeFileUpload(entry.commit.id);
+          diffInfo = {
+            ...diffInfo,
+            operation: 'rename',
+            previousContent: parentSha ? await repository.getFileContentAtCommit(parentSha, entry.previousPath) : null,
+          };
+        }
         
         // Try to find related KB commit
         const sourceFilename = path.basename(entry.path);
@@ -330,7 +440,8 @@ export class TimelineService {
         const kbCommitLogEntry = await repository.findRelatedKbCommit(sourceFilename, entry.commit.id, 'BeeContext Orchestrator');
 
         if (kbCommitLogEntry) {
-          const changedKbFiles: FileChangeInfo[] = await repository.getChangedFilesInCommit(kbCommitLogEntry.oid);
+          const changedKbFiles: FileChangeInfo[] = (await repository.getChangedFilesInCommit(kbCommitLogEntry.oid))
+            .filter(change => repository.isInKnowledgeBase(change.path));
           kbCommitData = {
             id: kbCommitLogEntry.oid,
             message: kbCommitLogEntry.commit.message,
@@ -343,6 +454,7 @@ export class TimelineService {
           operationType: entry.operation,
           fileOperation: diffInfo.operation,
           path: entry.path,
+          previousPath: entry.previousPath,
           title: entry.title || sourceFilename,
           user: entry.user,
           timestamp: entry.timestamp,
@@ -360,6 +472,7 @@ export class TimelineService {
           // fileOperation will be undefined or from partially successful diffInfo
           fileOperation: diffInfo?.operation,
           path: entry.path,
+          previousPath: entry.previousPath,
           title: entry.title || path.basename(entry.path),
           user: entry.user,
           timestamp: entry.timestamp,
@@ -374,6 +487,108 @@ export class TimelineService {
     return detailedEntries;
   }
 
+  /**
+   * Blame a KB file and map every blamed commit to the raw input that triggered it.
+   */
+  public async getBlameWithSources(repository: Repository, filePath: string, ref: string = 'HEAD'): Promise<BlameWithSources> {
+    const blame = await repository.blame(filePath, ref);
+    const timeline = await this.getTimeline(repository);
+
+    const sources: Record<string, RawInputSource | null> = {};
+    for (const commitOid of Object.keys(blame.commits)) {
+      sources[commitOid] = await this.findRawInputForCommit(repository, commitOid, timeline.entries);
+    }
+    return { ...blame, sources };
+  }
+
+  /**
+   * Find the raw input behind a commit. Commits written by Lspace name their raw input in
+   * trailers. For older history, raw input commits are recorded on the timeline and the KB commit
+   * produced from them follows directly, possibly after other commits that only touch .lspace/.
+   */
+  public async findRawInputForCommit(
+    repository: Repository,
+    commitSha: string,
+    entries?: TimelineEntry[]
+  ): Promise<RawInputSource | null> {
+    const timelineEntries = entries || (await this.getTimeline(repository)).entries;
+    const rawInputEntries = new Map<string, TimelineEntry>();
+    for (const entry of timelineEntries) {
+      if (entry.commit?.id && entry.path?.startsWith(TimelineService.RAW_INPUTS_PREFIX)) {
+        rawInputEntries.set(entry.commit.id, entry);
+      }
+    }
+
+    const fromTrailers = await this.findRawInputFromTrailers(repository, commitSha, rawInputEntries);
+    if (fromTrailers) {
+      return fromTrailers;
+    }
+
+    let candidate: string | null = commitSha;
+    for (let depth = 0; candidate && depth <= TimelineService.MAX_SOURCE_SEARCH_DEPTH; depth++) {
+      const entry = rawInputEntries.get(candidate);
+      if (entry) {
+        return {
+          rawInputPath: entry.path,
+          rawInputCommit: candidate,
+          timelineEntryId: entry.id,
+          title: entry.title,
+          user: entry.user,
+          timestamp: entry.timestamp,
+        };
+      }
+      // An ancestor that changed files outside .lspace/ belongs to a different operation
+      if (depth > 0) {
+        const changes = await repository.getChangedFilesInCommit(candidate);
+        if (changes.some(change => !change.path.startsWith('.lspace/'))) {
+          break;
+        }
+      }
+      candidate = await repository.getParentCommit(candidate);
+    }
+    return null;
+  }
+
+  private async findRawInputFromTrailers(
+    repository: Repository,
+    commitSha: string,
+    rawInputEntries: Map<string, TimelineEntry>
+  ): Promise<RawInputSource | null> {
+    let commit: TrailerCommit;
+    try {
+      commit = await repository.getTrailerCommit(commitSha);
+    } catch (error) {
+      console.warn(`[TimelineService] Could not read trailers of commit ${commitSha}:`, error);
+      return null;
+    }
+    const { trailers } = commit;
+    const rawInputCommit = trailers.operation === 'raw-input' ? commit.oid : trailers.rawCommit;
+    if (!rawInputCommit) {
+      return null;
+    }
+
+    const entry = rawInputEntries.get(rawInputCommit);
+    if (entry) {
+      return {
+        rawInputPath: entry.path,
+        rawInputCommit,
+        timelineEntryId: entry.id,
+        title: entry.title,
+        user: entry.user,
+        timestamp: entry.timestamp,
+      };
+    }
+    if (!trailers.source) {
+      return null;
+    }
+    return {
+      rawInputPath: trailers.source,
+      rawInputCommit,
+      timelineEntryId: trailers.timelineId || '',
+      timestamp: commit.date,
+    };
+  }
+
   async findFileUploadCommit(repository: Repository, sourceFilePath: string): Promise<string | null> {
     try {
       // getEntries returns a TimelinePage object
@@ -407,7 +622,7 @@ export class TimelineService {
   ): Promise<TimelineEntry | null> {
     // Try to infer operation and path from summary
     let operation: OperationType = 'update'; // Default operation
-    let entryPath: string = 'knowledge-base/'; // Default path
+    let entryPath: string = repository.getKnowledgeBaseRoot(); // Default path
 
     // Basic inference logic (can be improved)
     const lowerSummary = summary.toLowerCase();
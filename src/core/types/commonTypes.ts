@@ -1,8 +1,10 @@
-export type FileChangeOperation = 'add' | 'modify' | 'delete';
+export type FileChangeOperation = 'add' | 'modify' | 'delete' | 'rename';
 
 export interface FileChangeInfo {
   path: string;
   status: FileChangeOperation;
+  oldPath?: string; // Previous path, set when status is 'rename'
+  similarity?: number; // Content similarity percentage, set when status is 'rename'
 }
 
-// Add other common types here as needed in the future 
\ No newline at end of file
+// Add other common types here as needed in the future
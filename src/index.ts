@@ -17,6 +17,11 @@ import { setupTimelineV2Routes } from './api/routes/timelineV2Routes';
 import { createHistoryRoutes } from './api/historyRoutes';
 import { createChatRoutes } from './api/chatRoutes';
 import { createVersionControlRoutes } from './api/versionControlRoutes';
+import { createSnapshotRoutes } from './api/snapshotRoutes';
+import { createConfigRoutes } from './api/configRoutes';
+import { createCredentialRoutes } from './api/credentialRoutes';
+import { RemoteSyncScheduler, DEFAULT_REMOTE_SYNC_INTERVAL_MS } from './services/remoteSyncScheduler';
+import { httpStatusForPathError, isRepositoryPathError, RepositoryBusyError } from './core/errors';
 
 // Import for MCP Server
 import { registerMCPServer } from './mcp/registerTools';
@@ -54,7 +59,16 @@ app.use((req, res, next) => {
 // Create repository manager
 const repositoryManager = new RepositoryManager();
 
-// Load configuration if it exists (skip in stdio mode for faster startup)
+// How long mutating operations wait for a busy repository before failing (0 waits forever)
+if (process.env.REPOSITORY_OPERATION_TIMEOUT_MS) {
+  try {
+    repositoryManager.setOperationWaitTimeout(Number(process.env.REPOSITORY_OPERATION_TIMEOUT_MS));
+  } catch (error) {
+    console.warn(`[Index] Ignoring REPOSITORY_OPERATION_TIMEOUT_MS: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Load configuration if it exists (stdio mode loads it after its listener starts, for faster startup)
 try {
   if (process.env.NODE_ENV !== 'test' && process.env.MCP_TRANSPORT !== 'stdio') {
     // Skip in test environment and stdio mode
@@ -62,10 +76,19 @@ try {
     repositoryManager.loadConfiguration()
       .then(() => {
         console.log("[Index] RepositoryManager.loadConfiguration() completed successfully.");
+        // Resume ingestion jobs that were queued or running when the server stopped
+        return orchestratorService.loadIngestionJobs().catch(error => {
+          console.warn(`[Index] Failed to load ingestion jobs: ${error.message}`);
+        });
       })
       .catch(error => {
         console.warn(`[Index] Failed to load configuration via RepositoryManager: ${error.message}`);
         console.warn('[Index] Starting with empty configuration, or RepositoryManager will handle default creation if applicable.');
+      })
+      .finally(() => {
+        // Also after a failed load, so a fixed or newly created file is picked up without a restart
+        repositoryManager.watchConfiguration();
+        startRemoteSync();
       });
   }
 } catch (error) {
@@ -73,6 +96,22 @@ try {
   console.warn('[Index] Starting with empty configuration.');
 }
 
+// Background sync of GitHub and git repositories (REMOTE_SYNC_INTERVAL_MS=0 turns it off)
+function startRemoteSync(): void {
+  const intervalMs = process.env.REMOTE_SYNC_INTERVAL_MS !== undefined
+    ? Number(process.env.REMOTE_SYNC_INTERVAL_MS)
+    : DEFAULT_REMOTE_SYNC_INTERVAL_MS;
+  if (intervalMs === 0) {
+    console.log('[Index] Background remote sync disabled.');
+    return;
+  }
+  try {
+    new RemoteSyncScheduler(repositoryManager, intervalMs).start();
+  } catch (error) {
+    console.warn(`[Index] Ignoring REMOTE_SYNC_INTERVAL_MS: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
 // Set up API routes
 setupRepositoryRoutes(app, repositoryManager);
 
@@ -102,7 +141,7 @@ setupFileModificationRoutes(app, repositoryManager, knowledgeBaseService, llmSer
 setupTimelineRoutes(app, repositoryManager);
 
 // Set up orchestrator API
-app.use('/api/orchestrator', createOrchestratorApi(repositoryManager, llmService, knowledgeBaseService));
+app.use('/api/orchestrator', createOrchestratorApi(repositoryManager, llmService, knowledgeBaseService, orchestratorService));
 
 // Set up knowledge base API
 app.use('/api/knowledge-base', createKnowledgeBaseApi(repositoryManager, llmService));
@@ -130,6 +169,15 @@ app.use('/api/v1/chat', chatRouter);
 const versionControlRouter = createVersionControlRoutes(repositoryManager);
 app.use('/api/v1/repositories', versionControlRouter);
 
+// Mount snapshot routes
+app.use('/api/v1/repositories', createSnapshotRoutes(repositoryManager));
+
+// Mount configuration routes
+app.use('/api/config', createConfigRoutes(repositoryManager));
+
+// Mount credential routes
+app.use('/api/credentials', createCredentialRoutes(repositoryManager));
+
 // Services needed for MCP
 const mcpServices = {
   orchestratorService,
@@ -159,6 +207,25 @@ if (process.env.MCP_TRANSPORT === 'stdio') {
     // Register MCP server after stdio is ready
     registerMCPServer(null, mcpServices.orchestratorService, mcpServices.repositoryManager, mcpServices.llmService, mcpServices.knowledgeBaseService);
     logToFile('[MCP Index] registerMCPServer called successfully for stdio.');
+
+    // Load the configuration once the listener is up, and apply later edits without a restart
+    repositoryManager.loadConfiguration()
+      .then(() => {
+        // Resume ingestion jobs that were queued or running when the server stopped
+        return orchestratorService.loadIngestionJobs().catch(error => {
+          logToFile(`[MCP Index] Failed to load ingestion jobs: ${error.message}`);
+        });
+      })
+      .catch(error => {
+        logToFile(`[MCP Index] Failed to load configuration: ${error.message}`);
+      })
+      .finally(() => {
+        repositoryManager.watchConfiguration();
+      });
+    // The client is gone; stop watching the configuration
+    process.stdin.once('close', () => {
+      repositoryManager.unwatchConfiguration();
+    });
   } catch (err: any) {
     logToFile(`[MCP Index] CRITICAL ERROR during stdio setup: ${err.message} ${err.stack}`);
     // Optionally rethrow or process.exit(1) if this setup is critical and fails
@@ -190,6 +257,12 @@ if (process.env.MCP_TRANSPORT === 'stdio') {
   // Error handling
   app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
     console.error(err);
+    if (err instanceof RepositoryBusyError) {
+      return res.status(503).json({ error: err.message });
+    }
+    if (isRepositoryPathError(err)) {
+      return res.status(httpStatusForPathError(err)).json({ error: err.message });
+    }
     res.status(500).json({ error: 'Internal server error' });
   });
 
@@ -2,6 +2,7 @@ import { Repository } from '../core/repository';
 import { LLMService, LLMConflictHandlingRule, LLMNewArticleSkeleton } from '../orchestrator/llmService';
 import { TimelineService } from '../core/timelineService';
 import { SearchService } from '../search/searchService';
+import { PROMPT_VERSION } from '../config/prompts';
 import path from 'path';
 import matter from 'gray-matter'; // For front-matter parsing
 import yaml from 'js-yaml'; // Retain if used by existing methods, or for formatting
@@ -72,7 +73,6 @@ interface KnowledgeBaseStructure {
 
 export class KnowledgeBaseService {
   private static readonly RAW_FILES_DIR = 'raw';
-  private static readonly KB_FILES_DIR = 'knowledge-base';
   private static readonly KB_INDEX_MD = 'index.md';
   private static readonly APPROX_TOKEN_WINDOW_SIZE = 800;
 
@@ -134,7 +134,7 @@ export class KnowledgeBaseService {
             // Step 5: Create new article at appropriate topic level
             const topicDir = await this._determineTopicDirectory(repository, chunk.content);
             const newSlug = this._slugify(chunk.heading || 'untitled');
-            const kbPagePath = path.join(KnowledgeBaseService.KB_FILES_DIR, topicDir, `${newSlug}.md`);
+            const kbPagePath = repository.knowledgeBasePath(path.posix.join(topicDir, `${newSlug}.md`));
             const skeletonInput = {
                 titleSuggestion: chunk.heading || newSlug,
                 summaryPrompt: "Write a concise summary for this content.",
@@ -172,13 +172,16 @@ export class KnowledgeBaseService {
         try {
             await repository.add(Array.from(changedOrNewKbPagePaths));
             // Also add index.md if it was updated
-            const indexMdFullPath = path.join(KnowledgeBaseService.KB_FILES_DIR, KnowledgeBaseService.KB_INDEX_MD);
+            const indexMdFullPath = repository.knowledgeBasePath(KnowledgeBaseService.KB_INDEX_MD);
             if (await repository.fileExists(indexMdFullPath) && !changedOrNewKbPagePaths.has(indexMdFullPath)) { // ensure it exists and not already added
                  if (changedOrNewKbPagePaths.size > 0) await repository.add([indexMdFullPath]); // only add if other files changed
             }
 
             const commitMessage = `feat(kb): Ingest ${fullRawFilePath} -> KB update (pages: ${changedOrNewKbPagePaths.size})`;
-            const commitResult = await repository.commit({ message: commitMessage });
+            const commitResult = await repository.commit({
+                message: commitMessage,
+                trailers: { operation: 'kb-update', source: fullRawFilePath, rawCommit: rawDocumentCommitSha, promptVersion: PROMPT_VERSION },
+            });
             if (commitResult.success && commitResult.hash) {
                 kbCommitSha = commitResult.hash;
                 console.log(`[KBService] Committed KB changes with SHA: ${kbCommitSha}`);
@@ -350,11 +353,11 @@ ${newPageBody}`;
 
   private async _getAllKbArticles(repository: Repository): Promise<Array<{path: string, title: string, metadata: Record<string, any>}>> {
     const articles: Array<{path: string, title: string, metadata: Record<string, any>}> = [];
-    const allFiles = await repository.listFiles();
-    const kbDirPrefix = KnowledgeBaseService.KB_FILES_DIR + '/';
+    const allFiles = await repository.listAllFilesRecursive(repository.getKnowledgeBaseRoot());
+    const indexMdFullPath = repository.knowledgeBasePath(KnowledgeBaseService.KB_INDEX_MD);
 
     for (const fileInfo of allFiles) {
-        if (fileInfo.path.startsWith(kbDirPrefix) && fileInfo.path.endsWith('.md') && fileInfo.path !== path.join(kbDirPrefix, KnowledgeBaseService.KB_INDEX_MD)) {
+        if (fileInfo.type === 'file' && fileInfo.path.endsWith('.md') && fileInfo.path !== indexMdFullPath) {
             try {
                 const content = await repository.readFile(fileInfo.path);
                 const { data } = matter(content);
@@ -372,17 +375,17 @@ ${newPageBody}`;
   }
 
   private async _updateIndexMd(repository: Repository): Promise<void> {
-    const indexMdFullPath = path.join(KnowledgeBaseService.KB_FILES_DIR, KnowledgeBaseService.KB_INDEX_MD);
+    const indexMdFullPath = repository.knowledgeBasePath(KnowledgeBaseService.KB_INDEX_MD);
     let content = `# Knowledge Base Index
 
 `;
 
     const allKbArticles = await this._getAllKbArticles(repository);
     
-    // Group articles by topic (first part of path after KB_FILES_DIR)
+    // Group articles by topic (first part of path below the knowledge base root)
     const articlesByTopic: Record<string, Array<{name: string, path: string}>> = {};
     for (const article of allKbArticles) {
-        const relativeToKbDir = article.path.substring(KnowledgeBaseService.KB_FILES_DIR.length + 1);
+        const relativeToKbDir = repository.relativeToKnowledgeBase(article.path);
         const parts = relativeToKbDir.split('/');
         const topicSlug = parts.length > 1 ? parts[0] : 'general'; // Assume general if not in subfolder
         
@@ -391,7 +394,7 @@ ${newPageBody}`;
         }
         articlesByTopic[topicSlug].push({
             name: article.title, // Use the extracted title
-            path: path.relative(KnowledgeBaseService.KB_FILES_DIR, article.path) // Path relative to KB_FILES_DIR for linking from index.md
+            path: relativeToKbDir // Path relative to the knowledge base root for linking from index.md
         });
     }
 
@@ -402,8 +405,8 @@ ${newPageBody}`;
 `;
         articlesByTopic[topicSlug].sort((a, b) => a.name.localeCompare(b.name)); // Sort articles alphabetically by name
         for (const article of articlesByTopic[topicSlug]) {
-            // Link should be relative to index.md, which is at the root of KB_FILES_DIR
-            content += `  - [${article.name}](.${article.path.replace(/\\/g, '/')})
+            // Link should be relative to index.md, which is at the knowledge base root
+            content += `  - [${article.name}](./${article.path})
 `;
         }
         content += '\n';
@@ -426,8 +429,56 @@ ${newPageBody}`;
   // It's crucial to ensure they don't conflict with the new `processDocumentForKnowledgeBase` flow
   // or that they are updated to use/complement it.
 
+  /**
+   * Bring an existing article's frontmatter into the format ingestion writes: `title`,
+   * `last_updated` (ISO 8601) and `sources` ({ file, lines? }[]). Other fields are kept.
+   * Common variants are converted: `lastUpdated`, `updated` or `date` for the timestamp, and a
+   * `source` field or plain strings for sources. A missing title comes from the first `# `
+   * heading, then from the file name.
+   */
+  public normalizeArticle(content: string, fileName: string, defaultLastUpdated: string): { content: string; title: string } {
+    const { data, content: body } = matter(content);
+    const { title, last_updated, lastUpdated, updated, date, sources, source, ...rest } = data;
+
+    const heading = body.match(/^#\s+(.+?)\s*#*\s*$/m);
+    const baseName = path.basename(fileName, path.extname(fileName));
+    const normalizedTitle = (typeof title === 'string' && title.trim())
+      || heading?.[1]
+      || baseName.replace(/[-_]+/g, ' ').replace(/^\w/, l => l.toUpperCase());
+
+    const timestamp = [last_updated, lastUpdated, updated, date]
+      .map(value => value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null)
+      .find(value => value && !Number.isNaN(value.getTime()));
+
+    const normalizedSources: KbArticleData['sources'] = [];
+    for (const entry of [...(Array.isArray(sources) ? sources : sources ? [sources] : []), ...(source ? [source] : [])]) {
+      if (typeof entry === 'string' && entry.trim()) {
+        normalizedSources.push({ file: entry.trim() });
+      } else if (entry && typeof entry === 'object' && typeof entry.file === 'string') {
+        normalizedSources.push(entry.lines ? { file: entry.file, lines: String(entry.lines) } : { file: entry.file });
+      }
+    }
+
+    const frontMatterString = matter.stringify('', {
+      title: String(normalizedTitle),
+      last_updated: timestamp ? timestamp.toISOString() : defaultLastUpdated,
+      sources: normalizedSources,
+      ...rest,
+    });
+    return { content: `${frontMatterString.trim()}\n\n${body.replace(/^\s+/, '')}`, title: String(normalizedTitle) };
+  }
+
+  /**
+   * Regenerate index.md from the articles under the knowledge base root.
+   * @returns Repository-relative path of index.md
+   */
+  public async rebuildIndex(repository: Repository): Promise<string> {
+    await this._updateIndexMd(repository);
+    return repository.knowledgeBasePath(KnowledgeBaseService.KB_INDEX_MD);
+  }
+
   public async getEntryPage(repository: Repository): Promise<KnowledgeBaseEntry> {
-    const entryPath = path.join(KnowledgeBaseService.KB_FILES_DIR, KnowledgeBaseService.KB_INDEX_MD);
+    const entryPath = repository.knowledgeBasePath(KnowledgeBaseService.KB_INDEX_MD);
     if (await repository.fileExists(entryPath)) {
       const content = await repository.readFile(entryPath);
       // This parsing might need to be updated if index.md is just a list now
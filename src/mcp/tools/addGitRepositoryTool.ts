@@ -0,0 +1,79 @@
+import { MCPTool } from '../registerTools';
+import { GitRepoConfig } from '../../core/repositoryManager';
+
+const addGitRepositoryTool: MCPTool = {
+  name: 'add_git_repository',
+  description: 'Adds a repository hosted on any git server (Gitea, GitLab, an SSH host or a local bare repository) to Lspace by remote URL. Private remotes require a pre-configured git credential alias.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'A human-readable name for this repository (e.g., \"Team KB\"). Must be unique.',
+      },
+      url: {
+        type: 'string',
+        description: 'The remote URL: https://, ssh://, scp-like (git@host:owner/repo.git) or file://. Must not contain a password or token.',
+      },
+      branch: {
+        type: 'string',
+        description: 'The branch to use (e.g., \"main\"). Defaults to \"main\".',
+      },
+      credential_alias: {
+        type: 'string',
+        description: 'Optional. The alias of a pre-configured git credential (an HTTPS token or an SSH key) for private remotes.',
+      },
+      path_to_kb: {
+        type: 'string',
+        description: "Optional. A relative path within the repository to treat as the root of the knowledge base (e.g., \"docs/kb\"). Defaults to the repository root ('.').",
+      },
+      clone_depth: {
+        type: 'number',
+        description: 'Optional. Number of commits to clone. Defaults to the full history.',
+      },
+      full_history: {
+        type: 'boolean',
+        description: 'Optional. Clone the complete history (needed for fast history, timeline and revert operations). Overrides clone_depth.',
+      },
+    },
+    required: ['name', 'url'],
+  },
+  run: async (args: any, services) => {
+    console.log(`[MCP add_git_repository] Called with args: ${JSON.stringify(args)}`);
+    const { repositoryManager } = services;
+    const { name, url, branch, credential_alias, path_to_kb, clone_depth, full_history } = args;
+
+    if (!name || !url) {
+      throw new Error('Missing required parameters: name, url.');
+    }
+
+    const repoConfig: Omit<GitRepoConfig, 'id'> = {
+      name,
+      type: 'git',
+      url,
+      branch: branch || 'main',
+      ...(credential_alias && { credential_alias }),
+      path_to_kb: path_to_kb || '.', // Default to root if not provided
+      ...(clone_depth !== undefined && { clone_depth }),
+      ...(full_history !== undefined && { full_history }),
+    };
+
+    try {
+      const newRepoId = await repositoryManager.addNewRepositoryConfig(repoConfig);
+      return {
+        success: true,
+        message: `Git repository "${name}" added successfully with ID ${newRepoId}.`,
+        repositoryId: newRepoId,
+        details: repoConfig,
+      };
+    } catch (error: any) {
+      console.error(`[MCP add_git_repository] Error: ${error.message}`, error.stack);
+      if (error.message.includes('already exists') || error.message.includes('not found in credentials') || error.message.toLowerCase().includes('remote url')) {
+        throw new Error(error.message); // Rethrow specific, user-friendly errors
+      }
+      throw new Error(`Failed to add git repository "${name}": ${error.message}`);
+    }
+  },
+};
+
+export default addGitRepositoryTool;
@@ -32,13 +32,21 @@ const addGithubRepositoryTool: MCPTool = {
         type: 'string',
         description: "Optional. A relative path within the repository to treat as the root of the knowledge base (e.g., \"docs/kb\"). Defaults to the repository root ('.').",
       },
+      clone_depth: {
+        type: 'number',
+        description: 'Optional. Number of commits to clone. Defaults to 1 (a shallow clone); history beyond it is fetched on demand.',
+      },
+      full_history: {
+        type: 'boolean',
+        description: 'Optional. Clone the complete history (needed for fast history, timeline and revert operations). Overrides clone_depth.',
+      },
     },
     required: ['name', 'owner', 'repo', 'branch', 'pat_alias'],
   },
   run: async (args: any, services) => {
     console.log(`[MCP add_github_repository] Called with args: ${JSON.stringify(args)}`);
     const { repositoryManager } = services;
-    const { name, owner, repo, branch, pat_alias, path_to_kb } = args;
+    const { name, owner, repo, branch, pat_alias, path_to_kb, clone_depth, full_history } = args;
 
     if (!name || !owner || !repo || !branch || !pat_alias) {
       throw new Error('Missing required parameters: name, owner, repo, branch, pat_alias.');
@@ -52,6 +60,8 @@ const addGithubRepositoryTool: MCPTool = {
       branch,
       pat_alias,
       path_to_kb: path_to_kb || '.', // Default to root if not provided
+      ...(clone_depth !== undefined && { clone_depth }),
+      ...(full_history !== undefined && { full_history }),
     };
 
     try {
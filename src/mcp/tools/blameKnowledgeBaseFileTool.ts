@@ -0,0 +1,61 @@
+import { MCPTool } from '../registerTools';
+import { TimelineService } from '../../core/timelineService';
+
+const timelineService = new TimelineService();
+
+const blameKnowledgeBaseFileTool: MCPTool = {
+  name: 'blame_knowledge_base_file',
+  description: 'Shows, for each line of a knowledge base file, the commit that last changed it and the raw input (under .lspace/raw_inputs/) that triggered that commit. Use it to cite the original source of a claim.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+      path: {
+        type: 'string',
+        description: "The path of the file, relative to the knowledge base root (e.g., 'topics/overview.md').",
+      },
+      ref: {
+        type: 'string',
+        description: 'Optional commit SHA, branch or tag to blame at. Defaults to HEAD.',
+      },
+    },
+    required: ['repositoryId', 'path'],
+  },
+  run: async (args: { repositoryId: string; path: string; ref?: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId, path: filePath, ref } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string' || !filePath || typeof filePath !== 'string') {
+      throw new Error('Missing or invalid required parameters: repositoryId (string) and path (string) are required.');
+    }
+
+    const normalizedPath = filePath.trim().replace(/^\.?\//, '');
+    if (normalizedPath.split('/').includes('.lspace')) {
+      throw new Error('Blaming files inside /.lspace/ is not supported.');
+    }
+
+    const repository = repositoryManager.getRepository(repositoryId);
+
+    try {
+      const blame = await timelineService.getBlameWithSources(repository, repository.knowledgeBasePath(normalizedPath), ref || 'HEAD');
+      return {
+        path: blame.path,
+        commit: blame.commit,
+        lines: blame.lines.map(line => ({
+          ...line,
+          source: blame.sources[line.commit]?.rawInputPath || null,
+        })),
+        commits: blame.commits,
+        sources: blame.sources,
+      };
+    } catch (error: any) {
+      console.error(`[MCP blame_knowledge_base_file] Error blaming ${normalizedPath} in repo ${repositoryId}: ${error.message}`);
+      throw new Error(`Failed to blame "${normalizedPath}" in repository ${repositoryId}: ${error.message}`);
+    }
+  },
+};
+
+export default blameKnowledgeBaseFileTool;
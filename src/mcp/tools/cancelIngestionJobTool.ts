@@ -0,0 +1,28 @@
+import { MCPTool } from '../registerTools';
+
+const cancelIngestionJobTool: MCPTool = {
+  name: 'cancel_ingestion_job',
+  description: 'Cancels a background ingestion job. A queued job never starts. A running job stops at its next LLM turn and its uncommitted knowledge base changes are discarded; the raw input stays committed. Poll get_ingestion_job to see when it has stopped.',
+  parameters: {
+    type: 'object',
+    properties: {
+      jobId: {
+        type: 'string',
+        description: 'The ID of the ingestion job to cancel.',
+      },
+    },
+    required: ['jobId'],
+  },
+  run: async (args: { jobId: string }, services) => {
+    const { orchestratorService } = services;
+    const { jobId } = args;
+
+    if (!jobId || typeof jobId !== 'string') {
+      throw new Error('Missing or invalid required parameter: jobId (string).');
+    }
+
+    return orchestratorService.cancelIngestionJob(jobId);
+  },
+};
+
+export default cancelIngestionJobTool;
@@ -0,0 +1,51 @@
+import { MCPTool } from '../registerTools';
+import { SnapshotService } from '../../core/snapshotService';
+
+const snapshotService = new SnapshotService();
+
+const createKnowledgeBaseSnapshotTool: MCPTool = {
+  name: 'create_knowledge_base_snapshot',
+  description: 'Freezes the current state of a Lspace knowledge base under a name (e.g. "before-q3-reorg") so it can later be compared against or restored. Snapshots are stored as annotated git tags.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+      name: {
+        type: 'string',
+        description: 'Snapshot name: letters, digits, ".", "_" and "-", starting with a letter or digit.',
+      },
+      description: {
+        type: 'string',
+        description: 'Optional description of what the snapshot captures.',
+      },
+      ref: {
+        type: 'string',
+        description: 'Optional commit SHA, branch or tag to snapshot. Defaults to HEAD.',
+      },
+    },
+    required: ['repositoryId', 'name'],
+  },
+  run: async (args: { repositoryId: string; name: string; description?: string; ref?: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId, name, description, ref } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string' || !name || typeof name !== 'string') {
+      throw new Error('Missing or invalid required parameters: repositoryId (string) and name (string) are required.');
+    }
+
+    const repository = repositoryManager.getRepository(repositoryId);
+
+    try {
+      return await repositoryManager.runExclusive(repositoryId, 'snapshot-create', () =>
+        snapshotService.createSnapshot(repository, name, { description, ref }));
+    } catch (error: any) {
+      console.error(`[MCP create_knowledge_base_snapshot] Error creating snapshot ${name} in repo ${repositoryId}: ${error.message}`);
+      throw new Error(`Failed to create snapshot "${name}" in repository ${repositoryId}: ${error.message}`);
+    }
+  },
+};
+
+export default createKnowledgeBaseSnapshotTool;
@@ -0,0 +1,68 @@
+import { MCPTool } from '../registerTools';
+import { LocalRepoConfig } from '../../core/repositoryManager';
+import { DEFAULT_KNOWLEDGE_BASE_TEMPLATE, listKnowledgeBaseTemplates } from '../../config/knowledgeBaseTemplates';
+
+const templateList = listKnowledgeBaseTemplates()
+  .map(template => `"${template.name}" (${template.description})`)
+  .join(', ');
+
+const createLocalKnowledgeBaseTool: MCPTool = {
+  name: 'create_local_knowledge_base',
+  description: 'Creates a brand-new local knowledge base: initializes a git repository at the given path, seeds it with a README, the .lspace/ layout and an initial commit, and adds it to Lspace. An existing local git repository at the path is added as-is.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'A human-readable name for this knowledge base (e.g., \"Team Handbook\"). Must be unique.',
+      },
+      path: {
+        type: 'string',
+        description: 'The local directory for the knowledge base. It is created if it does not exist.',
+      },
+      template: {
+        type: 'string',
+        description: `Optional. The starter template to seed the knowledge base from: ${templateList}. Defaults to "${DEFAULT_KNOWLEDGE_BASE_TEMPLATE}". Only valid when the path is not a git repository yet.`,
+      },
+      path_to_kb: {
+        type: 'string',
+        description: "Optional. A relative path within the repository to treat as the root of the knowledge base (e.g., \"docs/kb\"). Defaults to the repository root ('.').",
+      },
+    },
+    required: ['name', 'path'],
+  },
+  run: async (args: any, services) => {
+    console.log(`[MCP create_local_knowledge_base] Called with args: ${JSON.stringify(args)}`);
+    const { repositoryManager } = services;
+    const { name, path, template, path_to_kb } = args;
+
+    if (!name || !path) {
+      throw new Error('Missing required parameters: name, path.');
+    }
+
+    const repoConfig: Omit<LocalRepoConfig, 'id'> = {
+      name,
+      type: 'local',
+      path,
+      path_to_kb: path_to_kb || '.', // Default to root if not provided
+    };
+
+    try {
+      const newRepoId = await repositoryManager.addNewRepositoryConfig(repoConfig, { template });
+      return {
+        success: true,
+        message: `Knowledge base "${name}" created at ${path} with ID ${newRepoId}.`,
+        repositoryId: newRepoId,
+        details: repoConfig,
+      };
+    } catch (error: any) {
+      console.error(`[MCP create_local_knowledge_base] Error: ${error.message}`, error.stack);
+      if (error.message.includes('already exists') || error.message.includes('template')) {
+        throw new Error(error.message); // Rethrow specific, user-friendly errors
+      }
+      throw new Error(`Failed to create knowledge base "${name}": ${error.message}`);
+    }
+  },
+};
+
+export default createLocalKnowledgeBaseTool;
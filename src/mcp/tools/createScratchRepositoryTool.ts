@@ -0,0 +1,33 @@
+import { MCPTool } from '../registerTools';
+
+const createScratchRepositoryTool: MCPTool = {
+  name: 'create_scratch_repository',
+  description: 'Creates an empty repository held in memory, e.g. to try out content ingestion without touching disk or a remote. It is not saved to the Lspace configuration and is lost when the server restarts.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'A human-readable name for this repository. Must be unique.',
+      },
+    },
+    required: ['name'],
+  },
+  run: async (args: { name?: string }, services) => {
+    const { repositoryManager } = services;
+    const { name } = args;
+
+    if (!name) {
+      throw new Error('Missing required parameter: name.');
+    }
+
+    const repositoryId = await repositoryManager.createScratchRepository(name);
+    return {
+      success: true,
+      message: `Scratch repository "${name}" created in memory with ID ${repositoryId}.`,
+      repositoryId,
+    };
+  },
+};
+
+export default createScratchRepositoryTool;
@@ -0,0 +1,33 @@
+import { MCPTool } from '../registerTools';
+import { RepositoryDoctor } from '../../core/repositoryDoctor';
+
+const diagnoseRepositoryTool: MCPTool = {
+  name: 'diagnose_repository',
+  description: 'Runs health checks on a Lspace repository and returns a report with a suggested fix for each problem: whether the path exists and is a git repository, a detached HEAD, a shallow clone, uncommitted changes, unpushed commits, whether the credential alias resolves, whether the remote is reachable, whether .lspace/timeline.json is valid, and the state of the git index (stale locks, unfinished merges, conflicts). Also works for repositories whose setup failed. Nothing is changed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID or name of the Lspace repository.',
+      },
+      checkRemote: {
+        type: 'boolean',
+        description: 'Optional. Whether to contact the remote to check it is reachable. Defaults to true.',
+      },
+    },
+    required: ['repositoryId'],
+  },
+  run: async (args: { repositoryId: string; checkRemote?: boolean }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId, checkRemote } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string') {
+      throw new Error('Missing or invalid required parameter: repositoryId (string).');
+    }
+
+    return new RepositoryDoctor(repositoryManager).diagnose(repositoryId, { remote: checkRemote !== false });
+  },
+};
+
+export default diagnoseRepositoryTool;
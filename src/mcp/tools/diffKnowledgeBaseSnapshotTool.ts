@@ -0,0 +1,42 @@
+import { MCPTool } from '../registerTools';
+import { SnapshotService } from '../../core/snapshotService';
+
+const snapshotService = new SnapshotService();
+
+const diffKnowledgeBaseSnapshotTool: MCPTool = {
+  name: 'diff_knowledge_base_snapshot',
+  description: 'Shows what changed in a Lspace knowledge base since a named snapshot: the commits made after it and a per-file diff from the snapshot to the current state.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+      name: {
+        type: 'string',
+        description: 'The name of the snapshot.',
+      },
+    },
+    required: ['repositoryId', 'name'],
+  },
+  run: async (args: { repositoryId: string; name: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId, name } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string' || !name || typeof name !== 'string') {
+      throw new Error('Missing or invalid required parameters: repositoryId (string) and name (string) are required.');
+    }
+
+    const repository = repositoryManager.getRepository(repositoryId);
+
+    try {
+      return await snapshotService.diffSnapshot(repository, name);
+    } catch (error: any) {
+      console.error(`[MCP diff_knowledge_base_snapshot] Error diffing snapshot ${name} of repo ${repositoryId}: ${error.message}`);
+      throw new Error(`Failed to diff snapshot "${name}" of repository ${repositoryId}: ${error.message}`);
+    }
+  },
+};
+
+export default diffKnowledgeBaseSnapshotTool;
@@ -0,0 +1,32 @@
+import { MCPTool } from '../registerTools';
+
+const findOrphanedClonesTool: MCPTool = {
+  name: 'find_orphaned_clones',
+  description: 'Lists clone directories on disk that no configured Lspace repository uses, e.g. clones of repositories that were removed, with their size. Optionally deletes the listed clones.',
+  parameters: {
+    type: 'object',
+    properties: {
+      deletePaths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional. Paths of orphaned clones, as listed by this tool, to delete.',
+      },
+    },
+    required: [],
+  },
+  run: async (args: { deletePaths?: string[] }, services) => {
+    const { repositoryManager } = services;
+    const { deletePaths } = args;
+
+    if (deletePaths !== undefined) {
+      if (!Array.isArray(deletePaths) || deletePaths.some(p => typeof p !== 'string')) {
+        throw new Error('Invalid parameter: deletePaths must be an array of strings.');
+      }
+      const deleted = await repositoryManager.deleteOrphanedClones(deletePaths);
+      return { deleted, clones: await repositoryManager.findOrphanedClones() };
+    }
+    return { clones: await repositoryManager.findOrphanedClones() };
+  },
+};
+
+export default findOrphanedClonesTool;
@@ -0,0 +1,32 @@
+import { MCPTool } from '../registerTools';
+
+const getIngestionJobTool: MCPTool = {
+  name: 'get_ingestion_job',
+  description: 'Gets the status of a background ingestion job started with submit_content_to_lspace (background: true): its state (queued, running, completed, failed or cancelled), the current phase (waiting, saving-input, synthesizing, committing, pushing or done), how many LLM turns it has taken, and the processing result once it has finished.',
+  parameters: {
+    type: 'object',
+    properties: {
+      jobId: {
+        type: 'string',
+        description: 'The ID of the ingestion job.',
+      },
+    },
+    required: ['jobId'],
+  },
+  run: async (args: { jobId: string }, services) => {
+    const { orchestratorService } = services;
+    const { jobId } = args;
+
+    if (!jobId || typeof jobId !== 'string') {
+      throw new Error('Missing or invalid required parameter: jobId (string).');
+    }
+
+    const job = orchestratorService.getIngestionJob(jobId);
+    if (!job) {
+      throw new Error(`Ingestion job ${jobId} not found`);
+    }
+    return job;
+  },
+};
+
+export default getIngestionJobTool;
@@ -54,6 +54,18 @@ const getRepositoryDetailsTool: MCPTool = {
         repo: repoConfig.repo,
         branch: repoConfig.branch,
         pat_alias: repoConfig.pat_alias,
+        clone_depth: repoConfig.clone_depth,
+        full_history: repoConfig.full_history,
+      };
+    } else if (repoConfig.type === 'git') {
+      // repoConfig is now narrowed to GitRepoConfig
+      return {
+        ...baseDetails,
+        url: repoConfig.url,
+        branch: repoConfig.branch,
+        credential_alias: repoConfig.credential_alias,
+        clone_depth: repoConfig.clone_depth,
+        full_history: repoConfig.full_history,
       };
     } else {
       console.warn(`[MCP get_repository_details] Encountered unknown repository type for "${repositoryName}": ${(repoConfig as any).type}`);
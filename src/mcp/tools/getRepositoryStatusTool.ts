@@ -0,0 +1,41 @@
+import { MCPTool } from '../registerTools';
+
+const getRepositoryStatusTool: MCPTool = {
+  name: 'get_repository_status',
+  description: 'Returns the working tree status of a Lspace repository: staged, modified, added, deleted and untracked files, plus how many commits the current branch is ahead of or behind its remote-tracking branch, the operations queued against the repository and, for GitHub and git repositories, the state of background sync with the remote (including conflicts that need attention) and any push still waiting to be retried.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+    },
+    required: ['repositoryId'],
+  },
+  run: async (args: { repositoryId: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string') {
+      throw new Error('Missing or invalid required parameter: repositoryId (string).');
+    }
+
+    const repository = repositoryManager.getRepository(repositoryId);
+
+    try {
+      const status = await repository.getStatus();
+      return {
+        ...status,
+        queue: repositoryManager.getQueueStatus(repositoryId),
+        sync: repositoryManager.getSyncStatus(repositoryId),
+        pendingPush: repositoryManager.getPendingPush(repositoryId),
+      };
+    } catch (error: any) {
+      console.error(`[MCP get_repository_status] Error getting status for repo ${repositoryId}: ${error.message}`);
+      throw new Error(`Failed to get status for repository ${repositoryId}: ${error.message}`);
+    }
+  },
+};
+
+export default getRepositoryStatusTool;
@@ -0,0 +1,44 @@
+import { MCPTool } from '../registerTools';
+
+const importMarkdownFolderTool: MCPTool = {
+  name: 'import_markdown_folder',
+  description: "Imports an existing folder of markdown documents (e.g. a team's docs folder) into a Lspace knowledge base as they are, without rewriting them through the LLM. Frontmatter is normalized to title, last_updated and sources, other files such as images are copied unchanged, index.md is rebuilt and each imported file gets a timeline entry. Existing files are skipped unless overwrite is set.",
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+      sourcePath: {
+        type: 'string',
+        description: 'Absolute path of the folder to import, on the machine running the Lspace server.',
+      },
+      targetDir: {
+        type: 'string',
+        description: "Optional. Folder to import into, relative to the knowledge base root (e.g., 'handbook'). Defaults to the knowledge base root.",
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'Optional. Replace files that already exist in the knowledge base. Defaults to false.',
+      },
+      user: {
+        type: 'string',
+        description: 'Optional identifier for the user running the import.',
+      },
+    },
+    required: ['repositoryId', 'sourcePath'],
+  },
+  run: async (args: { repositoryId: string; sourcePath: string; targetDir?: string; overwrite?: boolean; user?: string }, services) => {
+    const { orchestratorService } = services;
+    const { repositoryId, sourcePath, targetDir, overwrite, user } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string' || !sourcePath || typeof sourcePath !== 'string') {
+      throw new Error('Missing or invalid required parameters: repositoryId (string) and sourcePath (string) are required.');
+    }
+
+    return orchestratorService.importFolder(repositoryId, sourcePath, { targetDir, overwrite: overwrite === true, user });
+  },
+};
+
+export default importMarkdownFolderTool;
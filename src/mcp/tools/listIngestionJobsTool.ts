@@ -0,0 +1,22 @@
+import { MCPTool } from '../registerTools';
+
+const listIngestionJobsTool: MCPTool = {
+  name: 'list_ingestion_jobs',
+  description: 'Lists background ingestion jobs, oldest first, with their state, phase and LLM turn count. Finished jobs are kept for a week.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'Optional. Only show the jobs of this Lspace repository.',
+      },
+    },
+    required: [],
+  },
+  run: async (args: { repositoryId?: string }, services) => {
+    const { orchestratorService } = services;
+    return { jobs: orchestratorService.listIngestionJobs(args.repositoryId) };
+  },
+};
+
+export default listIngestionJobsTool;
@@ -0,0 +1,38 @@
+import { MCPTool } from '../registerTools';
+import { SnapshotService } from '../../core/snapshotService';
+
+const snapshotService = new SnapshotService();
+
+const listKnowledgeBaseSnapshotsTool: MCPTool = {
+  name: 'list_knowledge_base_snapshots',
+  description: 'Lists the named snapshots of a Lspace knowledge base, newest first, with their descriptions and the commits they point at.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+    },
+    required: ['repositoryId'],
+  },
+  run: async (args: { repositoryId: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string') {
+      throw new Error('Missing or invalid required parameter: repositoryId (string).');
+    }
+
+    const repository = repositoryManager.getRepository(repositoryId);
+
+    try {
+      return { snapshots: await snapshotService.listSnapshots(repository) };
+    } catch (error: any) {
+      console.error(`[MCP list_knowledge_base_snapshots] Error listing snapshots of repo ${repositoryId}: ${error.message}`);
+      throw new Error(`Failed to list snapshots of repository ${repositoryId}: ${error.message}`);
+    }
+  },
+};
+
+export default listKnowledgeBaseSnapshotsTool;
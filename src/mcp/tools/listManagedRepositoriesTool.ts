@@ -1,5 +1,5 @@
 import { MCPTool } from '../registerTools';
-import { SavedRepositoryConfig } from '../../core/repositoryManager';
+import { RepositoryConfig } from '../../core/repositoryManager';
 
 const listManagedRepositoriesTool: MCPTool = {
   name: 'list_managed_repositories',
@@ -14,7 +14,7 @@ const listManagedRepositoriesTool: MCPTool = {
     const { repositoryManager } = services;
 
     try {
-      const configs: SavedRepositoryConfig[] = repositoryManager.getAllRepositoryConfigs();
+      const configs: RepositoryConfig[] = repositoryManager.getAllRepositoryConfigs();
       
       // We might want to sanitize or select specific fields for the LLM
       const llmFriendlyConfigs = configs.map(conf => ({
@@ -26,6 +26,8 @@ const listManagedRepositoriesTool: MCPTool = {
         ...(conf.type === 'github' && conf.repo && { repo: conf.repo }),
         ...(conf.type === 'github' && conf.branch && { branch: conf.branch }),
         ...(conf.type === 'github' && conf.pat_alias && { pat_alias: conf.pat_alias }),
+        ...(conf.type === 'git' && { url: conf.url, branch: conf.branch }),
+        ...(conf.type === 'git' && conf.credential_alias && { credential_alias: conf.credential_alias }),
         ...(conf.path_to_kb && { path_to_kb: conf.path_to_kb }), // Include if present
       }));
 
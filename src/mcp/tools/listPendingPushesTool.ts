@@ -0,0 +1,29 @@
+import { MCPTool } from '../registerTools';
+
+const listPendingPushesTool: MCPTool = {
+  name: 'list_pending_pushes',
+  description: 'Lists pushes to GitHub or git remotes that have not gone through yet (e.g. because the machine was offline). Each entry shows whether it failed, how many attempts were made, the last error and when it will be retried automatically.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'Optional. Only show the pending push of this Lspace repository.',
+      },
+    },
+    required: [],
+  },
+  run: async (args: { repositoryId?: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId } = args;
+
+    if (repositoryId) {
+      repositoryManager.getRepository(repositoryId); // Throws if not found
+      const pending = repositoryManager.getPendingPush(repositoryId);
+      return { pushes: pending ? [pending] : [] };
+    }
+    return { pushes: repositoryManager.listPendingPushes() };
+  },
+};
+
+export default listPendingPushesTool;
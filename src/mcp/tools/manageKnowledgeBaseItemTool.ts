@@ -1,9 +1,11 @@
 import { MCPTool } from '../registerTools';
+import pathLib from 'path';
 import { Repository } from '../../core/repository'; // To interact with repository file system
+import { isRepositoryPathError } from '../../core/errors';
 
 const manageKnowledgeBaseItemTool: MCPTool = {
   name: 'manage_knowledge_base_item',
-  description: 'Manages items (files/directories) in the knowledge base of a specified Lspace repository. Prohibited from operating within /.lspace/.',
+  description: "Manages items (files/directories) in the knowledge base of a specified Lspace repository. Paths are relative to the repository's knowledge base root (path_to_kb) and may not leave it. Prohibited from operating within /.lspace/.",
   parameters: {
     type: 'object',
     properties: {
@@ -18,7 +20,7 @@ const manageKnowledgeBaseItemTool: MCPTool = {
       },
       path: {
         type: 'string',
-        description: "The path to the file or directory, relative to the repository root (e.g., 'my_topic/notes.md' or 'my_topic/'). Leading/trailing slashes are normalized.",
+        description: "The path to the file or directory, relative to the knowledge base root (e.g., 'my_topic/notes.md' or 'my_topic/'). Leading/trailing slashes are normalized.",
       },
       content: {
         type: 'string',
@@ -38,7 +40,9 @@ const manageKnowledgeBaseItemTool: MCPTool = {
       throw new Error('Missing or invalid required parameters: repositoryId (string), operation (string), and path (string) are required.');
     }
 
-    let normalizedPath = rawPath.trim();
+    // Collapse `.`/`..` segments so `notes/../.lspace` cannot slip past the checks below;
+    // paths escaping the knowledge base root are rejected when mapped to repository paths.
+    let normalizedPath = pathLib.posix.normalize(rawPath.trim().replace(/\\/g, '/'));
     // Remove leading ./ or /
     if (normalizedPath.startsWith('./')) {
       normalizedPath = normalizedPath.substring(2);
@@ -57,7 +61,7 @@ const manageKnowledgeBaseItemTool: MCPTool = {
     if (normalizedPath === '' || normalizedPath === '/' || normalizedPath === '.') {
       if (operation === 'list_directory') {
         normalizedPath = '.';
-      } else if (operation !== 'list_directory' && (normalizedPath === '' || normalizedPath === '/')){
+      } else {
         // Path cannot be empty or just root for non-list_directory operations
         throw new Error("Path cannot be effectively empty or root for this operation. For root directory listing, use path '.', '/' or an empty string with list_directory.");
       }
@@ -80,39 +84,52 @@ const manageKnowledgeBaseItemTool: MCPTool = {
     const repository: Repository = repositoryManager.getRepository(repositoryId);
 
     try {
+      // Responses use the caller's knowledge base relative paths; the repository gets its own
+      const repoPath = repository.knowledgeBasePath(normalizedPath);
+      await repository.resolvePath(repoPath, { knowledgeBase: true });
+
       switch (operation) {
         case 'create_file':
         case 'update_file':
           if (content === undefined || content === null) { // Check for undefined or null explicitly
             throw new Error(`Content (string) is required and cannot be null/undefined for ${operation}.`);
           }
-          await repository.writeFile(normalizedPath, String(content)); // Ensure content is string
+          await repositoryManager.runExclusive(repositoryId, 'kb-item-write', () =>
+            repository.writeFile(repoPath, String(content))); // Ensure content is string
           return { success: true, message: `File "${normalizedPath}" ${operation === 'create_file' ? 'created' : 'updated'} successfully.` };
 
         case 'read_file':
-          const fileContent = await repository.readFile(normalizedPath);
+          const fileContent = await repository.readFile(repoPath);
           return { success: true, path: normalizedPath, content: fileContent };
 
         case 'delete_file':
-          await repository.deleteFile(normalizedPath);
+          await repositoryManager.runExclusive(repositoryId, 'kb-item-delete', () => repository.deleteFile(repoPath));
           return { success: true, message: `File "${normalizedPath}" deleted successfully.` };
 
         case 'create_directory':
-          await repository.createDirectory(normalizedPath);
+          await repositoryManager.runExclusive(repositoryId, 'kb-item-mkdir', () => repository.createDirectory(repoPath));
           return { success: true, message: `Directory "${normalizedPath}" created successfully.` };
 
         case 'list_directory':
-          const items = await repository.listFiles(normalizedPath);
-          return { success: true, path: normalizedPath, items: items };
+          const items = await repository.listFiles(repoPath);
+          return {
+            success: true,
+            path: normalizedPath,
+            items: items.map(item => ({ ...item, path: repository.relativeToKnowledgeBase(item.path) })),
+          };
 
         case 'delete_directory':
-          await repository.deleteDirectory(normalizedPath);
+          await repositoryManager.runExclusive(repositoryId, 'kb-item-rmdir', () => repository.deleteDirectory(repoPath));
           return { success: true, message: `Directory "${normalizedPath}" deleted successfully.` };
 
         default:
           throw new Error(`Unsupported operation: ${operation}.`);
       }
     } catch (error: any) {
+      if (isRepositoryPathError(error)) {
+        console.warn(`[MCP manage_knowledge_base_item] Refused ${operation} on ${normalizedPath} in repo ${repositoryId}: ${error.message}`);
+        throw error;
+      }
       console.error(`[MCP manage_knowledge_base_item] Error performing ${operation} on ${normalizedPath} in repo ${repositoryId}: ${error.message}`, error.stack);
       throw new Error(`Failed to ${operation} "${normalizedPath}" in repository ${repositoryId}: ${error.message}`);
     }
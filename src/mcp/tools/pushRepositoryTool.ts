@@ -0,0 +1,40 @@
+import { MCPTool } from '../registerTools';
+
+const pushRepositoryTool: MCPTool = {
+  name: 'push_repository',
+  description: 'Pushes the local commits of a GitHub or git Lspace repository to its remote now, including a push that is waiting to be retried. If the push fails it stays pending and is retried automatically with backoff.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+    },
+    required: ['repositoryId'],
+  },
+  run: async (args: { repositoryId: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string') {
+      throw new Error('Missing or invalid required parameter: repositoryId (string).');
+    }
+
+    repositoryManager.getRepository(repositoryId); // Throws if not found
+    const pending = repositoryManager.getPendingPush(repositoryId)
+      ? await repositoryManager.retryPendingPush(repositoryId)
+      : await repositoryManager.queuePush(repositoryId);
+
+    if (pending) {
+      return {
+        pushed: false,
+        message: `Push of repository ${repositoryId} failed and will be retried at ${pending.nextAttemptAt}: ${pending.lastError}`,
+        pending,
+      };
+    }
+    return { pushed: true, message: `Repository ${repositoryId} is pushed to its remote.` };
+  },
+};
+
+export default pushRepositoryTool;
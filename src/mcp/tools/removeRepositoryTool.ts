@@ -0,0 +1,47 @@
+import { MCPTool } from '../registerTools';
+import { RepositoryRemovalMode } from '../../core/repositoryManager';
+
+const REMOVAL_MODES: RepositoryRemovalMode[] = ['keep', 'archive', 'purge'];
+
+const removeRepositoryTool: MCPTool = {
+  name: 'remove_repository',
+  description: 'Removes an Lspace repository from the configuration. The mode decides what happens to its files: "keep" leaves the clone on disk, "archive" saves it (with its git history and .lspace state) as a tarball and then deletes the clone, "purge" deletes the clone. Directories of local repositories are never deleted. Repositories with commits that were not pushed to their remote are not removed unless force is set.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID or name of the Lspace repository.',
+      },
+      mode: {
+        type: 'string',
+        enum: REMOVAL_MODES,
+        description: 'Optional. What to do with the repository\'s files: keep (default), archive or purge.',
+      },
+      force: {
+        type: 'boolean',
+        description: 'Optional. Remove the repository even though some of its commits were not pushed. Defaults to false.',
+      },
+    },
+    required: ['repositoryId'],
+  },
+  run: async (args: { repositoryId: string; mode?: RepositoryRemovalMode; force?: boolean }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId, mode = 'keep', force = false } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string') {
+      throw new Error('Missing or invalid required parameter: repositoryId (string).');
+    }
+    if (!REMOVAL_MODES.includes(mode)) {
+      throw new Error(`Invalid parameter: mode must be one of ${REMOVAL_MODES.join(', ')}.`);
+    }
+
+    const result = await repositoryManager.removeRepository(repositoryId, { mode, force });
+    const files = result.archivePath
+      ? `Archived to ${result.archivePath}${result.deleted ? ' and deleted the clone' : ''}.`
+      : result.deleted ? `Deleted ${result.path}.` : result.path ? `Files left at ${result.path}.` : '';
+    return { ...result, message: `Removed repository "${result.name}". ${files}`.trim() };
+  },
+};
+
+export default removeRepositoryTool;
@@ -0,0 +1,49 @@
+import { MCPTool } from '../registerTools';
+import { SnapshotService } from '../../core/snapshotService';
+
+const snapshotService = new SnapshotService();
+
+const restoreKnowledgeBaseSnapshotTool: MCPTool = {
+  name: 'restore_knowledge_base_snapshot',
+  description: 'Restores a Lspace knowledge base to a named snapshot by committing the snapshot\'s files on top of the current history. Nothing is discarded: the restore is a new commit and can itself be reverted. Raw inputs and the timeline under .lspace/ are left as they are.',
+  parameters: {
+    type: 'object',
+    properties: {
+      repositoryId: {
+        type: 'string',
+        description: 'The ID of the Lspace repository.',
+      },
+      name: {
+        type: 'string',
+        description: 'The name of the snapshot to restore.',
+      },
+    },
+    required: ['repositoryId', 'name'],
+  },
+  run: async (args: { repositoryId: string; name: string }, services) => {
+    const { repositoryManager } = services;
+    const { repositoryId, name } = args;
+
+    if (!repositoryId || typeof repositoryId !== 'string' || !name || typeof name !== 'string') {
+      throw new Error('Missing or invalid required parameters: repositoryId (string) and name (string) are required.');
+    }
+
+    const repository = repositoryManager.getRepository(repositoryId);
+
+    try {
+      const result = await repositoryManager.runExclusive(repositoryId, 'snapshot-restore', () =>
+        snapshotService.restoreSnapshot(repository, name));
+      return {
+        snapshot: result.snapshot,
+        commit: result.commit?.hash || null,
+        restoredFiles: result.restoredFiles,
+        deletedFiles: result.deletedFiles,
+      };
+    } catch (error: any) {
+      console.error(`[MCP restore_knowledge_base_snapshot] Error restoring snapshot ${name} in repo ${repositoryId}: ${error.message}`);
+      throw new Error(`Failed to restore snapshot "${name}" in repository ${repositoryId}: ${error.message}`);
+    }
+  },
+};
+
+export default restoreKnowledgeBaseSnapshotTool;
@@ -3,7 +3,7 @@ import { ProcessableInput } from '../../orchestrator/orchestratorService';
 
 const submitContentTool: MCPTool = {
   name: 'submit_content_to_lspace',
-  description: 'Submits content (text snippet, file upload, or web URL) to a specified Lspace repository for ingestion and knowledge base integration.',
+  description: 'Submits content (text snippet, file upload, or web URL) to a specified Lspace repository for ingestion and knowledge base integration. Large documents can take several minutes; set background to true to get an ingestion job back right away and follow it with get_ingestion_job.',
   parameters: {
     type: 'object',
     properties: {
@@ -24,6 +24,11 @@ const submitContentTool: MCPTool = {
         type: 'string',
         description: 'The name of the file (for file_upload type). Required if inputType is file_upload.',
       },
+      encoding: {
+        type: 'string',
+        description: "Encoding of content for file_upload. Use 'base64' for binary files (images, PDFs). If omitted, base64 is detected for binary file types.",
+        enum: ['utf8', 'base64'],
+      },
       url: {
         type: 'string',
         description: 'The URL to fetch content from (for web_url type). Required if inputType is web_url.',
@@ -40,13 +45,17 @@ const submitContentTool: MCPTool = {
         type: 'object',
         description: 'Optional additional metadata for the input. Pass as a flat JSON object.',
       },
+      background: {
+        type: 'boolean',
+        description: 'Optional. Process the content as a background ingestion job and return the job instead of waiting for the result. Defaults to false.',
+      },
     },
     required: ['repositoryId', 'inputType'], // Content/fileName/url become conditionally required
   },
   run: async (args: any, services) => {
     console.log(`[MCP submit_content_to_lspace] Called with args: ${JSON.stringify(args)}`);
     const { orchestratorService } = services;
-    const { repositoryId, inputType, content, fileName, url, title, user, metadata } = args;
+    const { repositoryId, inputType, content, fileName, url, title, user, metadata, encoding, background } = args;
 
     let processableInput: ProcessableInput;
 
@@ -63,6 +72,7 @@ const submitContentTool: MCPTool = {
           repositoryId,
           fileName: fileName || title, // Use title as fallback for fileName
           content,
+          encoding: encoding === 'base64' || encoding === 'utf8' ? encoding : undefined,
           user,
           metadata,
         };
@@ -97,6 +107,10 @@ const submitContentTool: MCPTool = {
         throw new Error(`Unsupported inputType: ${inputType}. Must be one of ['text_snippet', 'file_upload', 'web_url'].`);
     }
 
+    if (background === true) {
+      return orchestratorService.submitIngestionJob(processableInput);
+    }
+
     try {
       const result = await orchestratorService.processInput(processableInput);
       return result; // The OrchestratorService.processInput result is already structured well for an MCP response
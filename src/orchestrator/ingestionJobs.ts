@@ -0,0 +1,324 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  DocumentProcessingResult,
+  IngestionCheckpoint,
+  IngestionHooks,
+  IngestionPhase,
+  ProcessableInput,
+} from './orchestratorService';
+
+/**
+ * Persistent queue of ingestion jobs. processInput keeps its caller waiting for the whole LLM
+ * conversation; a job runs it in the background instead and records its phase and LLM turn
+ * count, so clients submit, poll and, if needed, cancel.
+ *
+ * Each job is kept in its own JSON file so queued and interrupted jobs are picked up again
+ * after a restart. A job whose raw input was already committed resumes from its checkpoint
+ * rather than saving the input twice. Jobs of one repository run one after another.
+ */
+
+export const DEFAULT_INGESTION_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type IngestionJobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// 'waiting' while queued or waiting for the repository, 'done' once the job has finished
+export type IngestionJobPhase = 'waiting' | IngestionPhase | 'done';
+
+export interface IngestionJob {
+  id: string;
+  repositoryId: string;
+  inputType: ProcessableInput['type'];
+  /** 'completed' means processInput returned; `result.knowledgeBaseUpdated` tells whether the KB changed */
+  state: IngestionJobState;
+  phase: IngestionJobPhase;
+  llmTurns: number;
+  /** Cancellation of a running job takes effect at its next LLM turn */
+  cancelRequested: boolean;
+  /** How often the job was started again because a restart interrupted it */
+  restarts: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  result: DocumentProcessingResult | null;
+  error: string | null;
+}
+
+interface StoredIngestionJob extends IngestionJob {
+  // Both are dropped once the job has finished
+  input: ProcessableInput | null;
+  checkpoint: IngestionCheckpoint | null;
+}
+
+interface IngestionJobFile {
+  version: 1;
+  job: StoredIngestionJob;
+}
+
+/**
+ * What the queue runs jobs with; implemented by OrchestratorService.
+ */
+export interface IngestionJobRunner {
+  processInput(input: ProcessableInput, hooks: IngestionHooks): Promise<DocumentProcessingResult>;
+  resumeInput(checkpoint: IngestionCheckpoint, hooks: IngestionHooks): Promise<DocumentProcessingResult>;
+}
+
+export interface IngestionJobQueueOptions {
+  /** Finished jobs older than this are deleted when the queue is loaded */
+  retentionMs?: number;
+}
+
+/**
+ * Reason a running job's signal is aborted with; thrown out of processInput when it stops.
+ */
+export class IngestionJobCancelledError extends Error {
+  readonly jobId: string;
+
+  constructor(jobId: string) {
+    super(`Ingestion job ${jobId} was cancelled.`);
+    this.name = 'IngestionJobCancelledError';
+    this.jobId = jobId;
+  }
+}
+
+export class IngestionJobQueue {
+  private jobs: Map<string, StoredIngestionJob> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private runChains: Map<string, Promise<void>> = new Map();
+  private writeChains: Map<string, Promise<void>> = new Map();
+  private retentionMs: number;
+
+  /**
+   * @param directory Directory the job files are kept in
+   * @param runner Runs and resumes the ingestion of a job
+   */
+  constructor(
+    private directory: string,
+    private runner: IngestionJobRunner,
+    options: IngestionJobQueueOptions = {}
+  ) {
+    this.retentionMs = options.retentionMs ?? DEFAULT_INGESTION_JOB_RETENTION_MS;
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Read the jobs of a previous run, delete finished ones past the retention period and start
+   * the queued and interrupted ones again. Call once, after the repositories are loaded.
+   */
+  async load(): Promise<void> {
+    if (!fs.existsSync(this.directory)) {
+      return;
+    }
+    const loaded: StoredIngestionJob[] = [];
+    for (const fileName of await fs.promises.readdir(this.directory)) {
+      if (!fileName.endsWith('.json')) {
+        continue;
+      }
+      const filePath = path.join(this.directory, fileName);
+      let data: IngestionJobFile;
+      try {
+        data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      } catch (error: any) {
+        console.error(`[IngestionJobs] Ignoring unreadable job file ${filePath}: ${error.message}`);
+        continue;
+      }
+      const job = data.job;
+      if (!job?.id || this.jobs.has(job.id)) {
+        continue;
+      }
+      if (job.finishedAt && Date.now() - Date.parse(job.finishedAt) > this.retentionMs) {
+        await fs.promises.rm(filePath, { force: true });
+        continue;
+      }
+      loaded.push(job);
+    }
+
+    loaded.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    let resumed = 0;
+    for (const job of loaded) {
+      this.jobs.set(job.id, job);
+      if (job.state === 'running') {
+        job.state = 'queued';
+        job.phase = 'waiting';
+        job.restarts += 1;
+        await this.persist(job);
+      }
+      if (job.state === 'queued') {
+        this.schedule(job);
+        resumed += 1;
+      }
+    }
+    if (resumed > 0) {
+      console.log(`[IngestionJobs] Resuming ${resumed} ingestion job(s) from ${this.directory}`);
+    }
+  }
+
+  /**
+   * Jobs in the order they were submitted, optionally only those of one repository.
+   */
+  list(repositoryId?: string): IngestionJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !repositoryId || job.repositoryId === repositoryId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(job => IngestionJobQueue.toJob(job));
+  }
+
+  get(jobId: string): IngestionJob | null {
+    const job = this.jobs.get(jobId);
+    return job ? IngestionJobQueue.toJob(job) : null;
+  }
+
+  /**
+   * Store a job for the input and start it once the repository's earlier jobs are done.
+   */
+  async enqueue(input: ProcessableInput): Promise<IngestionJob> {
+    const job: StoredIngestionJob = {
+      id: uuidv4(),
+      repositoryId: input.repositoryId,
+      inputType: input.type,
+      state: 'queued',
+      phase: 'waiting',
+      llmTurns: 0,
+      cancelRequested: false,
+      restarts: 0,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      result: null,
+      error: null,
+      input,
+      checkpoint: null,
+    };
+    await this.persist(job);
+    this.jobs.set(job.id, job);
+    this.schedule(job);
+    return IngestionJobQueue.toJob(job);
+  }
+
+  /**
+   * Cancel a job. A queued job never starts; a running one stops at its next LLM turn and its
+   * uncommitted knowledge base changes are discarded.
+   */
+  async cancel(jobId: string): Promise<IngestionJob> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Ingestion job ${jobId} not found`);
+    }
+    if (job.state === 'queued') {
+      await this.finish(job, 'cancelled');
+    } else if (job.state === 'running') {
+      job.cancelRequested = true;
+      this.controllers.get(jobId)?.abort(new IngestionJobCancelledError(jobId));
+      await this.persist(job);
+    } else {
+      throw new Error(`Ingestion job ${jobId} already finished (${job.state})`);
+    }
+    return IngestionJobQueue.toJob(job);
+  }
+
+  // Jobs for one repository run one after another
+  private schedule(job: StoredIngestionJob): void {
+    const previous = this.runChains.get(job.repositoryId) || Promise.resolve();
+    const next = previous.then(() => this.run(job.id));
+    this.runChains.set(job.repositoryId, next);
+    next.then(() => {
+      if (this.runChains.get(job.repositoryId) === next) {
+        this.runChains.delete(job.repositoryId);
+      }
+    });
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.state !== 'queued') {
+      return; // Cancelled while queued
+    }
+    const controller = new AbortController();
+    this.controllers.set(jobId, controller);
+    const save = () => this.persist(job).catch(error => {
+      console.error(`[IngestionJobs] Could not save job ${jobId}: ${error.message}`);
+    });
+
+    job.state = 'running';
+    job.startedAt = new Date().toISOString();
+    job.llmTurns = 0;
+    await save();
+
+    const hooks: IngestionHooks = {
+      signal: controller.signal,
+      onPhase: phase => {
+        job.phase = phase;
+        save();
+      },
+      onTurn: turn => {
+        job.llmTurns = turn;
+        save();
+      },
+      onCheckpoint: async checkpoint => {
+        job.checkpoint = checkpoint;
+        await save();
+      },
+    };
+
+    try {
+      const result = job.checkpoint
+        ? await this.runner.resumeInput(job.checkpoint, hooks)
+        : await this.runner.processInput(job.input!, hooks);
+      await this.finish(job, 'completed', { result });
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        console.log(`[IngestionJobs] Job ${jobId} cancelled after ${job.llmTurns} LLM turn(s)`);
+        await this.finish(job, 'cancelled');
+      } else {
+        console.error(`[IngestionJobs] Job ${jobId} failed: ${error.message}`);
+        await this.finish(job, 'failed', { error: error.message });
+      }
+    } finally {
+      this.controllers.delete(jobId);
+    }
+  }
+
+  private async finish(job: StoredIngestionJob, state: IngestionJobState, outcome: { result?: DocumentProcessingResult; error?: string } = {}): Promise<void> {
+    job.state = state;
+    job.phase = 'done';
+    job.finishedAt = new Date().toISOString();
+    job.result = outcome.result ?? null;
+    job.error = outcome.error ?? null;
+    job.input = null;
+    job.checkpoint = null;
+    await this.persist(job).catch(error => {
+      console.error(`[IngestionJobs] Could not save job ${job.id}: ${error.message}`);
+    });
+  }
+
+  // Writes of one job are serialized and go through a temporary file so a crash never leaves a torn job
+  private persist(job: StoredIngestionJob): Promise<void> {
+    const write = async () => {
+      const data: IngestionJobFile = { version: 1, job };
+      const filePath = path.join(this.directory, `${job.id}.json`);
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2));
+      await fs.promises.rename(tempPath, filePath);
+    };
+    const previous = this.writeChains.get(job.id) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+    this.writeChains.set(job.id, next);
+    const cleanup = () => {
+      if (this.writeChains.get(job.id) === next) {
+        this.writeChains.delete(job.id);
+      }
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  private static toJob(job: StoredIngestionJob): IngestionJob {
+    const { input, checkpoint, ...view } = job;
+    return { ...view };
+  }
+}
@@ -135,6 +135,18 @@ export interface ToolCallResponse {
     message?: string; // General message from tool execution
 }
 
+/**
+ * Lets a caller follow and stop a conversational synthesis. The signal is checked before every
+ * turn; once it is aborted, its reason is thrown instead of being reported as a failed synthesis.
+ */
+export interface ConversationOptions {
+  signal?: AbortSignal;
+  onTurn?: (turn: number) => void;
+  // Repository the file tools of this conversation work on, so conversations for different
+  // repositories can run at the same time; defaults to the one set with setRepository
+  repository?: Repository;
+}
+
 interface FileSystemToolService { // Placeholder interface for a service that would execute tools
   readFile(path: string): Promise<{ success: boolean; content?: string; error?: string }>;
   writeFile(path: string, content: string): Promise<{ success: boolean; error?: string }>;
@@ -173,26 +185,32 @@ export class LLMService {
 
     // Instantiate Repository and FileSystemToolImpl
     this.repository = new Repository(config.repositoryPath);
-    this.fileSystemToolService = new FileSystemToolImpl(this.repository);
+    this.fileSystemToolService = new FileSystemToolImpl(this.repository, { knowledgeBaseOnly: true });
     console.log(`LLMService initialized to use repository at: ${config.repositoryPath}`);
   }
   
   /**
-   * Updates the repository path used by the LLM service.
+   * Sets the repository used by the LLM service.
    * This is critical for ensuring that file operations through tools happen
    * in the correct repository context.
-   * 
-   * @param newRepositoryPath The absolute path to the repository
+   *
+   * @param repository The registered repository instance, so tool operations keep its
+   *   file system (e.g. an in-memory scratch repository) and its path_to_kb sandbox
    */
-  public updateRepositoryPath(newRepositoryPath: string): void {
-    if (this.repository.path !== newRepositoryPath) {
-      console.log(`Updating LLMService repository path from ${this.repository.path} to ${newRepositoryPath}`);
-      this.repository = new Repository(newRepositoryPath);
-      this.fileSystemToolService = new FileSystemToolImpl(this.repository);
+  public setRepository(repository: Repository): void {
+    if (this.repository !== repository) {
+      console.log(`Updating LLMService repository from ${this.repository.path} to ${repository.path} (knowledge base root: ${repository.getKnowledgeBaseRoot()})`);
+      this.repository = repository;
+      this.fileSystemToolService = new FileSystemToolImpl(this.repository, { knowledgeBaseOnly: true });
     }
   }
   
-  private async executeToolCall(toolRequest: ToolCallRequest): Promise<ConversationTurn> {
+  // File tools confined to a repository's knowledge base, or the service-wide ones
+  private toolsFor(repository?: Repository): FileSystemToolService {
+    return repository ? new FileSystemToolImpl(repository, { knowledgeBaseOnly: true }) : this.fileSystemToolService;
+  }
+
+  private async executeToolCall(toolRequest: ToolCallRequest, tools: FileSystemToolService = this.fileSystemToolService): Promise<ConversationTurn> {
     const { tool_name, tool_parameters } = toolRequest;
     console.log(`[LLMService] Executing tool: ${tool_name} with parameters:`, JSON.stringify(tool_parameters));
     
@@ -200,27 +218,27 @@ export class LLMService {
     try {
       switch (tool_name) {
         case 'read_file':
-          result = await this.fileSystemToolService.readFile(tool_parameters.path);
+          result = await tools.readFile(tool_parameters.path);
           console.log(`[LLMService] Read file ${tool_parameters.path}: success=${result.success}`);
           break;
         case 'write_file':
-          result = await this.fileSystemToolService.writeFile(tool_parameters.path, tool_parameters.content);
+          result = await tools.writeFile(tool_parameters.path, tool_parameters.content);
           console.log(`[LLMService] Write file ${tool_parameters.path}: success=${result.success}`);
           break;
         case 'edit_file':
-          result = await this.fileSystemToolService.editFile(tool_parameters.path, tool_parameters.edits);
+          result = await tools.editFile(tool_parameters.path, tool_parameters.edits);
           console.log(`[LLMService] Edit file ${tool_parameters.path}: success=${result.success}`);
           break;
         case 'create_directory':
-          result = await this.fileSystemToolService.createDirectory(tool_parameters.path);
+          result = await tools.createDirectory(tool_parameters.path);
           console.log(`[LLMService] Create directory ${tool_parameters.path}: success=${result.success}`);
           break;
         case 'list_directory':
-          result = await this.fileSystemToolService.listDirectory(tool_parameters.path);
+          result = await tools.listDirectory(tool_parameters.path);
           console.log(`[LLMService] List directory ${tool_parameters.path}: success=${result.success}`);
           break;
         case 'get_file_tree':
-          result = await this.fileSystemToolService.getFileTree(tool_parameters.path);
+          result = await tools.getFileTree(tool_parameters.path);
           console.log(`[LLMService] Get file tree for ${tool_parameters.path}: success=${result.success}`);
           break;
         case 'request_summary_generation': // This is a signal, not a file system op
@@ -264,6 +282,7 @@ export class LLMService {
    * @param totalFiles Total number of files to process
    * @param currentFileNumber Current file number being processed
    * @param maxTurns Maximum number of conversation turns to prevent infinite loops.
+   * @param options Cancellation signal, per-turn progress callback and the repository to work on
    */
   async processDocumentConversational(
     inputFileName: string,
@@ -272,9 +291,11 @@ export class LLMService {
     knowledgeBasePromptContext: string, // New parameter for the actual prompt string
     totalFiles: number,
     currentFileNumber: number,
-    maxTurns: number = 15
+    maxTurns: number = 15,
+    options: ConversationOptions = {}
   ): Promise<{ status: string; history: ConversationTurn[]; summary?: string }> {
     const conversationHistory: ConversationTurn[] = [];
+    const tools = this.toolsFor(options.repository);
 
     const initialSystemMessage = fillPromptTemplate(systemPrompt, {});
     conversationHistory.push({ role: 'system', content: initialSystemMessage });
@@ -318,7 +339,7 @@ ${knowledgeBasePromptContext}
 ${contradictionInfo}
 
 BEFORE DOING ANYTHING ELSE: 
-1. Check if a summary.md file exists in the knowledge-base directory
+1. Check if a summary.md file exists at the root of the knowledge base
 2. If it doesn't exist, create it with an overview of the knowledge base structure
 3. If it does exist, read it to understand the current knowledge base organization
 
@@ -332,8 +353,10 @@ What actions do you need to take to integrate this document into the knowledge b
 
     let turns = 0;
     while (turns < maxTurns) {
+      options.signal?.throwIfAborted();
       turns++;
       console.log(`Conversation Turn: ${turns}`);
+      options.onTurn?.(turns);
 
       const llmRawResponse = await this.callLLMWithHistory(conversationHistory, toolDefinitions);
 
@@ -356,7 +379,7 @@ What actions do you need to take to integrate this document into the knowledge b
                 tool_parameters: JSON.parse(toolCall.function.arguments || '{}')
               };
               console.log(`LLM requesting tool: ${toolCallRequest.tool_name} with params:`, toolCallRequest.tool_parameters);
-              const toolResultTurn = await this.executeToolCall(toolCallRequest);
+              const toolResultTurn = await this.executeToolCall(toolCallRequest, tools);
               const toolResponseTurn: ConversationTurn = {
                 role: 'tool',
                 tool_call_id: toolCall.id, // OpenAI requires this
@@ -426,7 +449,7 @@ What actions do you need to take to integrate this document into the knowledge b
             conversationHistory.push({ role: 'assistant', content: llmRawResponse });
             
             // Execute the extracted tool call
-            const toolResultTurn = await this.executeToolCall(toolCallRequest);
+            const toolResultTurn = await this.executeToolCall(toolCallRequest, tools);
             const toolResponseTurn: ConversationTurn = {
               role: 'tool',
               name: toolCallRequest.tool_name,
@@ -535,10 +558,11 @@ If no changes were made, state that.
    * and reading the content of important files to provide better context.
    * This enhanced context helps with identifying and resolving contradictions.
    */
-  public async getCurrentKnowledgeBaseStructure(): Promise<any> {
-    console.log(`[LLMService] getCurrentKnowledgeBaseStructure called for repository: ${this.repository.path}`);
+  public async getCurrentKnowledgeBaseStructure(repository?: Repository): Promise<any> {
+    console.log(`[LLMService] getCurrentKnowledgeBaseStructure called for repository: ${(repository || this.repository).path}`);
+    const tools = this.toolsFor(repository);
     try {
-      const treeResult = await this.fileSystemToolService.getFileTree('.'); // Get tree from KB root
+      const treeResult = await tools.getFileTree('.'); // Get tree from KB root
       if (!treeResult.success) {
         return { error: 'Failed to retrieve KB structure', details: treeResult.error };
       }
@@ -555,21 +579,22 @@ If no changes were made, state that.
       // First get all markdown files from the knowledge base
       let allFiles: string[] = [];
       try {
-        const listResult = await this.fileSystemToolService.listDirectory('knowledge-base');
+        const listResult = await tools.listDirectory('.');
         if (listResult.success && Array.isArray(listResult.content)) {
           // Get all markdown files recursively (this is a simplification - in real implementation,
           // you might want to use a proper recursive function to get all files)
           for (const entry of listResult.content) {
             if (entry.endsWith('.md')) {
-              allFiles.push(`knowledge-base/${entry}`);
+              allFiles.push(entry);
             } else {
               // Try to list subdirectories
+              const directory = entry.replace(/\/$/, '');
               try {
-                const subDirResult = await this.fileSystemToolService.listDirectory(`knowledge-base/${entry}`);
+                const subDirResult = await tools.listDirectory(directory);
                 if (subDirResult.success && Array.isArray(subDirResult.content)) {
                   for (const subEntry of subDirResult.content) {
                     if (subEntry.endsWith('.md')) {
-                      allFiles.push(`knowledge-base/${entry}/${subEntry}`);
+                      allFiles.push(`${directory}/${subEntry}`);
                     }
                   }
                 }
@@ -590,7 +615,7 @@ If no changes were made, state that.
       
       for (const filePath of filesToInclude) {
         try {
-          const readResult = await this.fileSystemToolService.readFile(filePath);
+          const readResult = await tools.readFile(filePath);
           if (readResult.success && readResult.content) {
             enhancedContext.documentContents[filePath] = readResult.content;
           }
@@ -1066,21 +1091,22 @@ ${contentStr.substring(0, 2000)} ${contentStr.length > 2000 ? '...(truncated)' :
 
   /**
    * Synthesizes knowledge from a given raw input file into the knowledge base.
-   * This method orchestrates the LLM interaction to update the KB in the repository root,
-   * primarily focusing on README.md and related content files.
+   * This method orchestrates the LLM interaction to update the KB under the repository's
+   * knowledge base root (path_to_kb), primarily focusing on README.md and related content files.
    * 
    * @param repository The active repository instance, passed by the orchestrator.
    * @param rawFilePath The path to the raw input file (e.g., '/.lspace/raw_inputs/doc.txt')
    * @param rawFileContent The actual content of the raw input file
+   * @param options Cancellation signal and per-turn progress callback for the conversation; its file tools always work on `repository`
    * @returns A promise resolving to an object indicating success, a message, and the primary KB path affected.
    */
   public async synthesizeToKnowledgeBase(
     repository: Repository, // The orchestrator passes the correct repository instance
     rawFilePath: string, // Used for context (e.g., filename for prompts) and logging
-    rawFileContent: string // The actual content of the raw input file
+    rawFileContent: string, // The actual content of the raw input file
+    options: ConversationOptions = {}
   ): Promise<{ success: boolean; message?: string; kbPath?: string }> {
     console.log(`[LLMService] Starting KB synthesis for: ${rawFilePath} in repository ${repository.path}`);
-    this.updateRepositoryPath(repository.path); // Ensure tools operate on the correct repo path
 
     try {
       // const rawFileContentResult = await this.fileSystemToolService.readFile(rawFilePath); // No longer read here
@@ -1093,7 +1119,7 @@ ${contentStr.substring(0, 2000)} ${contentStr.length > 2000 ? '...(truncated)' :
       const inputFileContent = rawFileContent; // Use the passed-in content
 
       // Prepare context for the LLM by getting the current state of the knowledge base.
-      const currentKbState = await this.getCurrentKnowledgeBaseStructure();
+      const currentKbState = await this.getCurrentKnowledgeBaseStructure(repository);
       // Format this state into a string description for the LLM prompt.
       let kbStateDescription = "";
       if (currentKbState && currentKbState.documentContents && Object.keys(currentKbState.documentContents).length > 0) {
@@ -1119,7 +1145,9 @@ ${contentStr.substring(0, 2000)} ${contentStr.length > 2000 ? '...(truncated)' :
         currentKbState, // The structured object for analysis by the LLM, if needed.
         kbStateDescription, // The string representation for the prompt.
         1, // Assuming one file is processed at a time by this method call.
-        1  // Current file number.
+        1, // Current file number.
+        undefined,
+        { ...options, repository }
       );
 
       if (llmResult.status === 'completed_file_processing' || llmResult.status === 'completed_all_processing') {
@@ -1136,7 +1164,7 @@ ${contentStr.substring(0, 2000)} ${contentStr.length > 2000 ? '...(truncated)' :
         return {
           success: true,
           message: summaryMessage,
-          kbPath: 'README.md' // Defaulting to README.md as the primary entry point, per prompts.
+          kbPath: repository.knowledgeBasePath('README.md') // Defaulting to README.md as the primary entry point, per prompts.
         };
       } else {
         const errorMsg = `LLM processing for ${rawFilePath} did not complete as expected. Status: ${llmResult.status}. History: ${JSON.stringify(llmResult.history)}`;
@@ -1144,6 +1172,9 @@ ${contentStr.substring(0, 2000)} ${contentStr.length > 2000 ? '...(truncated)' :
         return { success: false, message: errorMsg };
       }
     } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw error; // Cancelled, not failed
+      }
       const errorMsg = `Critical error during KB synthesis for ${rawFilePath}: ${error.message}`;
       console.error(`[LLMService] ${errorMsg}`, error);
       return { success: false, message: errorMsg };
@@ -1157,14 +1188,14 @@ ${contentStr.substring(0, 2000)} ${contentStr.length > 2000 ? '...(truncated)' :
     maxContextFiles: number = 10, // Limit the number of files to read for context
     maxFileLength: number = 5000 // Limit the length of each file to save tokens
   ): Promise<{ answer: string; sources: string[] }> {
-    this.updateRepositoryPath(repository.path); // Ensure context is correct
+    this.setRepository(repository); // Ensure context is correct
     console.log(`[LLMService] Querying KB in repository ${repository.path} with query: "${queryText}"`);
 
     let contextContent = '';
     const sources: string[] = [];
 
     try {
-      const allFilesAndDirs = await repository.listAllFilesRecursive('.'); // Use recursive listing
+      const allFilesAndDirs = await repository.listAllFilesRecursive(repository.getKnowledgeBaseRoot()); // Use recursive listing
       // Filter for relevant KB files (e.g., .md, .txt, not in .lspace or .git)
       const kbFiles = allFilesAndDirs
         .filter(f => 
@@ -1,6 +1,8 @@
 import path from 'path';
-import { Repository } from '../core/repository';
+import { CommitResult, Repository } from '../core/repository';
+import { LspaceTrailers } from '../core/commitTrailers';
 import { RepositoryManager } from '../core/repositoryManager';
+import { detectMimeType, isTextMimeType, mimeTypeFromExtension } from '../core/mimeTypes';
 import { TimelineService, OperationType as TimelineServiceOperationType, TimelineEntry } from '../core/timelineService';
 import { 
   LLMService, 
@@ -12,6 +14,8 @@ import {
   PruningRecommendations
 } from './llmService';
 import { KnowledgeBaseService } from '../knowledge-base/knowledgeBaseService';
+import { IngestionJob, IngestionJobQueue } from './ingestionJobs';
+import { PROMPT_VERSION } from '../config/prompts';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
@@ -28,6 +32,8 @@ export interface FileUploadInput extends BaseInput {
   type: 'file_upload';
   fileName: string;
   content: string; // Can be direct content or base64 string
+  encoding?: 'utf8' | 'base64'; // When omitted, base64 is assumed for binary file types whose content is valid base64
+  mimeType?: string; // Overrides MIME type detection
 }
 
 export interface TextSnippetInput extends BaseInput {
@@ -88,6 +94,7 @@ export interface OrchestratorServiceResponse {
 // Document processing result
 export interface RepositoryOrganizationResult {
   moved: number;
+  moves?: Array<{ from: string; to: string }>; // Moves actually performed, staged as git renames
   updated: number;
   created: number;
   unchanged: number;
@@ -100,14 +107,81 @@ export interface RepositoryPruningResult {
   unchanged: number;
 }
 
+export interface FolderImportOptions {
+  targetDir?: string; // Knowledge base folder to import into; defaults to the knowledge base root
+  overwrite?: boolean; // Replace files that already exist; by default they are skipped
+  user?: string;
+}
+
+// Folder import result
+export interface FolderImportResult {
+  imported: Array<{ path: string; operation: 'add' | 'update'; title?: string }>; // Repository-relative paths
+  skipped: Array<{ path: string; reason: string }>; // Paths relative to the source folder
+  indexPath: string | null;
+  commit: string | null;
+  message: string;
+}
+
+// Steps of processInput after the repository lock is acquired, in order
+export type IngestionPhase = 'saving-input' | 'synthesizing' | 'committing' | 'pushing';
+
+/**
+ * State of an ingestion once its raw input is committed. Synthesis can be run again from here
+ * (see resumeInput) without saving and committing the raw input a second time.
+ */
+export interface IngestionCheckpoint {
+  repositoryId: string;
+  rawInputPath: string;
+  rawInputName: string;
+  rawCommit: string | null;
+  timelineId: string | null;
+  contentForLLM: string;
+  message: string; // Processing message so far
+}
+
+/**
+ * Progress callbacks and cancellation for processInput and resumeInput. Once the signal is aborted,
+ * its reason is thrown and knowledge base changes that were not committed yet are discarded.
+ */
+export interface IngestionHooks {
+  signal?: AbortSignal;
+  onPhase?: (phase: IngestionPhase) => void;
+  onTurn?: (turn: number) => void;
+  onCheckpoint?: (checkpoint: IngestionCheckpoint) => void | Promise<void>;
+}
+
+/**
+ * Resolve the bytes of a file upload. Content is base64-decoded when the input says so, or when
+ * no encoding is given and the file type is binary and the content is valid base64.
+ */
+export function decodeFileUpload(input: FileUploadInput): { binary: true; buffer: Buffer; mimeType: string } | { binary: false; text: string; mimeType: string } {
+  const extensionMimeType = mimeTypeFromExtension(input.fileName);
+  const looksLikeBase64 = input.content.length > 0 &&
+    input.content.replace(/\s/g, '').length % 4 === 0 &&
+    /^[A-Za-z0-9+/\s]+={0,2}\s*$/.test(input.content);
+  const isBase64 = input.encoding === 'base64' ||
+    (input.encoding === undefined && looksLikeBase64 && extensionMimeType !== undefined && !isTextMimeType(extensionMimeType));
+
+  const buffer = isBase64 ? Buffer.from(input.content, 'base64') : Buffer.from(input.content, 'utf8');
+  const mimeType = input.mimeType || detectMimeType(input.fileName, buffer);
+  if (isTextMimeType(mimeType)) {
+    return { binary: false, text: buffer.toString('utf8'), mimeType };
+  }
+  return { binary: true, buffer, mimeType };
+}
+
 /**
  * Orchestrator service for coordinating document processing and repository organization
  */
 export class OrchestratorService {
+  // Binary uploads are copied here, under the knowledge base root, so articles can link to them
+  static readonly ASSETS_DIR = 'assets';
+
   private repositoryManager: RepositoryManager;
   private llmService: LLMService;
   private timelineService: TimelineService;
   private knowledgeBaseService: KnowledgeBaseService;
+  private ingestionJobs?: IngestionJobQueue; // Created on first use
   
   constructor(
     repositoryManager: RepositoryManager,
@@ -124,6 +198,16 @@ export class OrchestratorService {
    * Process a new document - classify, structure, and add to repository
    */
   async processDocument(
+    repositoryId: string,
+    content: string,
+    user?: string,
+    title?: string
+  ): Promise<DocumentProcessingResult> {
+    return this.repositoryManager.runExclusive(repositoryId, 'ingestion', () =>
+      this.processDocumentExclusive(repositoryId, content, user, title));
+  }
+
+  private async processDocumentExclusive(
     repositoryId: string, 
     content: string,
     user?: string,
@@ -131,9 +215,9 @@ export class OrchestratorService {
   ): Promise<DocumentProcessingResult> {
     const repository = await this.getRepository(repositoryId);
     
-    // IMPORTANT: Update the LLM service repository path to match the current repository
+    // IMPORTANT: Point the LLM service at the registered repository instance
     // This ensures tool operations happen in the correct repository
-    this.llmService.updateRepositoryPath(repository.path);
+    this.llmService.setRepository(repository);
     
     // Use the provided title/filename or generate a default one
     const baseFilename = title || `document-${Date.now()}.md`;
@@ -142,10 +226,7 @@ export class OrchestratorService {
     const finalPath = path.join(rawInputsDir, baseFilename);
 
     // Ensure the directory exists for the finalPath (within .lspace/raw_inputs)
-    const absoluteRawInputsDir = path.resolve(repository.path, rawInputsDir);
-    if (!fs.existsSync(absoluteRawInputsDir)) {
-      fs.mkdirSync(absoluteRawInputsDir, { recursive: true });
-    }
+    await repository.ensureDirectoryExists(rawInputsDir);
     
     // Write the raw document to the repository
     await repository.writeFile(finalPath, content);
@@ -163,7 +244,10 @@ export class OrchestratorService {
     
     // Now commit both the raw document and timeline update together
     const combinedCommitMessage = `Add raw document to .lspace/raw_inputs: ${baseFilename}`;
-    const commitResult = await repository.commit({ message: combinedCommitMessage });
+    const commitResult = await repository.commit({
+      message: combinedCommitMessage,
+      trailers: { operation: 'raw-input', source: finalPath, timelineId: preparedTimelineEntry.id },
+    });
     
     // Finalize the timeline entry with the commit info
     let timelineEntry = null;
@@ -179,9 +263,8 @@ export class OrchestratorService {
     try {
       console.log(`[OrchestratorService] Using LLM to generate knowledge base from ${finalPath}`);
       
-      // The KB root is the repository root. LLM will create /README.md and other files/dirs there.
-      // No specific "knowledge-base" directory is enforced by the orchestrator anymore.
-      // The LLM's prompt guides it to manage files/folders in the root.
+      // The KB root is the repository's path_to_kb (the repository root by default). The LLM's
+      // tools resolve paths against it, so README.md and other files/dirs are created there.
 
       const currentKbState = await this.llmService.getCurrentKnowledgeBaseStructure(); // This should reflect root
       
@@ -224,11 +307,19 @@ export class OrchestratorService {
       // Check if the LLM processing was successful
       console.log(`[OrchestratorService] LLM processing completed with status: ${result.status}`);
       
-      // Log the KB files created by the LLM - these would be in the root or subdirs of root
-      const kbFiles = await repository.listFiles('.'); // List from root
-      console.log(`[OrchestratorService] Found ${kbFiles.length} files in repository root after LLM:`, 
+      // Log the KB files created by the LLM - these would be in the KB root or its subdirs
+      const kbFiles = await repository.listFiles(repository.getKnowledgeBaseRoot());
+      console.log(`[OrchestratorService] Found ${kbFiles.length} files in the knowledge base root after LLM:`, 
                  kbFiles.map(f => f.path).join(', '));
       
+      const kbTrailers: LspaceTrailers = {
+        operation: 'kb-update',
+        source: finalPath,
+        rawCommit: commitResult.success ? commitResult.hash : undefined,
+        timelineId: preparedTimelineEntry.id,
+        promptVersion: PROMPT_VERSION,
+      };
+
       // Generate a detailed commit message from the LLM's processing history
       try {
         console.log(`[OrchestratorService] Generating detailed commit message`);
@@ -238,11 +329,11 @@ export class OrchestratorService {
         const detailedCommitMessage = `Knowledge Base Update: ${baseFilename}\n\n${commitSummary}`;
         
         console.log(`[OrchestratorService] Committing KB changes with detailed message`);
-        await repository.commit({ message: detailedCommitMessage });
+        await repository.commit({ message: detailedCommitMessage, trailers: kbTrailers });
       } catch (commitError) {
         console.error(`[OrchestratorService] Error committing KB changes: ${commitError}`);
         // Fallback to generic commit message if summary generation fails
-        await repository.commit({ message: `Update knowledge base with content from ${baseFilename}` });
+        await repository.commit({ message: `Update knowledge base with content from ${baseFilename}`, trailers: kbTrailers });
       }
     } catch (llmError) {
       console.error(`[OrchestratorService] Error using LLM to process document: ${llmError}`);
@@ -251,7 +342,7 @@ export class OrchestratorService {
     return {
       rawInputPath: finalPath, // Corrected from just `path`
       knowledgeBaseUpdated: true, // Assuming it was, or based on LLM result
-      knowledgeBasePath: 'README.md', // Example, should come from LLM result ideally
+      knowledgeBasePath: repository.knowledgeBasePath('README.md'), // Example, should come from LLM result ideally
       timelineEntry: timelineEntry ? {
         id: timelineEntry.id,
         timestamp: timelineEntry.timestamp,
@@ -265,6 +356,10 @@ export class OrchestratorService {
    * Organize and structure repository content
    */
   async organizeRepository(repositoryId: string): Promise<RepositoryOrganizationResult> {
+    return this.repositoryManager.runExclusive(repositoryId, 'organize', () => this.organizeRepositoryExclusive(repositoryId));
+  }
+
+  private async organizeRepositoryExclusive(repositoryId: string): Promise<RepositoryOrganizationResult> {
     // Get the repository
     const repository = await this.getRepository(repositoryId);
     
@@ -288,25 +383,17 @@ export class OrchestratorService {
     const originalFilePaths = new Set(files.map(f => f.path));
     let filesToCommit: string[] = []; // Initialize array to hold paths of files to commit
     
-    // Process moves
+    // Process moves. moveFile stages each one as a rename so history shows "moved from A to B".
     let movedCount = 0;
+    const performedMoves: Array<{ from: string; to: string }> = [];
     for (const move of organization.moves) {
-      if (await repository.fileExists(move.from)) {
-        const content = await repository.readFile(move.from);
-        
-        // Ensure the target directory exists
-        const targetDir = path.dirname(move.to);
-        if (targetDir !== '.') {
-          const dirExists = await repository.fileExists(targetDir);
-          if (!dirExists) {
-            await repository.writeFile(path.join(targetDir, '.placeholder'), '');
-            await repository.deleteFile(path.join(targetDir, '.placeholder'));
-          }
-        }
-        
-        // Write to new location and delete from old
-        await repository.writeFile(move.to, content);
-        await repository.deleteFile(move.from);
+      if (!repository.isInKnowledgeBase(move.from) || !repository.isInKnowledgeBase(move.to)) {
+        console.warn(`[OrchestratorService] Skipping move outside the knowledge base: ${move.from} -> ${move.to}`);
+        continue;
+      }
+      if (await repository.fileExists(move.from) && !await repository.fileExists(move.to)) {
+        await repository.moveFile(move.from, move.to);
+        performedMoves.push({ from: move.from, to: move.to });
         movedCount++;
       }
     }
@@ -314,6 +401,10 @@ export class OrchestratorService {
     // Process updates
     let updatedCount = 0;
     for (const update of organization.updates) {
+      if (!repository.isInKnowledgeBase(update.path)) {
+        console.warn(`[OrchestratorService] Skipping update outside the knowledge base: ${update.path}`);
+        continue;
+      }
       await repository.writeFile(update.path, update.content);
       updatedCount++;
     }
@@ -321,6 +412,10 @@ export class OrchestratorService {
     // Process new files
     let createdCount = 0;
     for (const newFile of organization.newFiles) {
+      if (!repository.isInKnowledgeBase(newFile.path)) {
+        console.warn(`[OrchestratorService] Skipping new file outside the knowledge base: ${newFile.path}`);
+        continue;
+      }
       // Ensure the directory exists
       const fileDir = path.dirname(newFile.path);
       if (fileDir !== '.') {
@@ -333,19 +428,39 @@ export class OrchestratorService {
       
       await repository.writeFile(newFile.path, newFile.content);
       // Commit each new file
-      await repository.commit({ message: `Organize: Create ${newFile.path}` });
+      await repository.commit({ message: `Organize: Create ${newFile.path}`, trailers: { operation: 'organize', promptVersion: PROMPT_VERSION } });
       createdCount++;
     }
     
     // Create a list of affected files for commit
     if (movedCount > 0 || updatedCount > 0 || createdCount > 0) {
       const affectedFilesToCommit = [
-        ...organization.moves.map((m: any) => m.to),
+        ...performedMoves.map(m => m.to),
         ...organization.updates.map((u: any) => u.path),
         ...organization.newFiles.map((nf: any) => nf.path)
       ];
       await repository.add(affectedFilesToCommit);
-      await repository.commit({ message: 'Organize repository content' });
+      const organizeCommitMessage = 'Organize repository content';
+      const organizeCommit = await repository.commit({
+        message: organizeCommitMessage,
+        trailers: { operation: 'organize', promptVersion: PROMPT_VERSION },
+      });
+
+      // Record each move on the timeline, linked to the organize commit
+      if (organizeCommit.success && organizeCommit.hash) {
+        for (const move of performedMoves) {
+          const preparedEntry = await this.timelineService.prepareEntry(repository, {
+            operation: 'move',
+            path: move.to,
+            previousPath: move.from,
+            title: `Moved ${move.from} to ${move.to}`,
+          });
+          await this.timelineService.finalizeEntry(repository, preparedEntry, {
+            id: organizeCommit.hash,
+            message: organizeCommitMessage,
+          });
+        }
+      }
     }
     
     // Calculate how many files were left unchanged
@@ -358,6 +473,7 @@ export class OrchestratorService {
     
     return {
       moved: movedCount,
+      moves: performedMoves,
       updated: updatedCount,
       created: createdCount,
       unchanged: unchangedCount
@@ -405,6 +521,10 @@ export class OrchestratorService {
    * Prune the repository by removing obsolete or redundant information
    */
   async pruneRepository(repositoryId: string): Promise<RepositoryPruningResult> {
+    return this.repositoryManager.runExclusive(repositoryId, 'prune', () => this.pruneRepositoryExclusive(repositoryId));
+  }
+
+  private async pruneRepositoryExclusive(repositoryId: string): Promise<RepositoryPruningResult> {
     // Get the repository
     const repository = await this.getRepository(repositoryId);
     
@@ -428,6 +548,11 @@ export class OrchestratorService {
     
     // Process the recommendations
     for (const recommendation of pruningRecommendations.recommendations) {
+      const affectedPaths = recommendation.action === 'merge' ? [recommendation.source, recommendation.target] : [recommendation.path];
+      if (!affectedPaths.every(affectedPath => repository.isInKnowledgeBase(affectedPath))) {
+        console.warn(`[OrchestratorService] Skipping ${recommendation.action} outside the knowledge base: ${affectedPaths.join(', ')}`);
+        continue;
+      }
       if (recommendation.action === 'delete') {
         // Delete the obsolete file
         if (await repository.fileExists(recommendation.path)) {
@@ -465,7 +590,7 @@ export class OrchestratorService {
     if (mergedCount > 0) {
       commitMessage += `, Merged ${mergedCount} files`;
     }
-    await repository.commit({ message: commitMessage });
+    await repository.commit({ message: commitMessage, trailers: { operation: 'prune', promptVersion: PROMPT_VERSION } });
     
     // Calculate how many files were left unchanged
     const unchangedCount = files.length - (deletedCount + mergedCount);
@@ -481,7 +606,7 @@ export class OrchestratorService {
    * Helper method to get a repository by ID
    */
   private async getRepository(repositoryId: string): Promise<Repository> {
-    const repositoryInfo = this.repositoryManager.getRepositoryInfo(repositoryId);
+    const repositoryInfo = await this.repositoryManager.getRepositoryInfo(repositoryId);
     if (!repositoryInfo) {
       throw new Error(`Repository with ID ${repositoryId} not found`);
     }
@@ -496,11 +621,11 @@ export class OrchestratorService {
   }
   
   /**
-   * Helper method to get all files from a repository
+   * Helper method to get the files at the knowledge base root of a repository
    */
   private async getRepositoryFiles(repository: Repository): Promise<{ path: string; content: string }[]> {
     try {
-      const fileList = await repository.listFiles();
+      const fileList = await repository.listFiles(repository.getKnowledgeBaseRoot());
       
       // Filter out non-text files
       const textFiles = fileList.filter(file => {
@@ -547,18 +672,13 @@ export class OrchestratorService {
   ): Promise<TimelineEntry> {
     const targetRawDir = 'raw'; // All user uploads go into 'raw' at the root of the repo
     const targetRawPath = path.join(targetRawDir, originalFilename);
-    // Construct the absolute path in the repository for the new file
-    const absoluteTargetPathInRepo = path.resolve(repository.path, targetRawPath);
-    const absoluteTargetDirInRepo = path.dirname(absoluteTargetPathInRepo);
 
     try {
-      // Ensure the target directory exists in the repository's working tree
-      await fs.promises.mkdir(absoluteTargetDirInRepo, { recursive: true });
-      
-
-      // Move the uploaded file from its temporary location to the repository
-      await fs.promises.rename(uploadedFilePath, absoluteTargetPathInRepo);
-      console.log(`Moved file to ${absoluteTargetPathInRepo}`);
+      // Move the uploaded file from its temporary location on disk into the repository, which
+      // may live on another filesystem
+      await repository.writeFileBuffer(targetRawPath, await fs.promises.readFile(uploadedFilePath));
+      await fs.promises.unlink(uploadedFilePath);
+      console.log(`Moved file to ${targetRawPath} in ${repository.path}`);
 
       // 1. Add and commit the new raw file
       await repository.add([targetRawPath]); // Use relative path for staging
@@ -567,6 +687,7 @@ export class OrchestratorService {
       const rawFileCommitResult = await repository.commit({
         message: `feat: Add raw file ${originalFilename}`,
         // Author will use defaults from Repository.commit if not specified
+        trailers: { operation: 'raw-input', source: targetRawPath },
       });
 
       if (!rawFileCommitResult.success || !rawFileCommitResult.hash) {
@@ -632,6 +753,7 @@ export class OrchestratorService {
 
       const timelineCommitResult = await repository.commit({
         message: `chore: Update timeline for FILE_UPLOAD of ${originalFilename}`,
+        trailers: { operation: 'timeline', source: targetRawPath, rawCommit: rawFileCommitSha, timelineId: timelineEntry.id },
       });
 
       if (!timelineCommitResult.success) {
@@ -651,24 +773,208 @@ export class OrchestratorService {
     }
   }
 
-  // New central input processing method
-  async processInput(input: ProcessableInput): Promise<DocumentProcessingResult> {
+  /**
+   * Import a folder of existing documents into the knowledge base as they are, without the LLM.
+   * Markdown files get their frontmatter normalized (title, last_updated, sources); other files,
+   * such as images the documents link to, are copied unchanged. Hidden files and folders and
+   * symlinks are left out. index.md is rebuilt, everything is committed at once and each
+   * imported file gets a timeline entry.
+   * @param sourceDir Folder on the server's disk
+   * @throws Error if the source is not a directory or the target is outside the knowledge base
+   */
+  async importFolder(repositoryId: string, sourceDir: string, options: FolderImportOptions = {}): Promise<FolderImportResult> {
+    const sourceRoot = path.resolve(sourceDir);
+    const stats = await fs.promises.stat(sourceRoot).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Import source is not a directory: ${sourceDir}`);
+    }
+    if (options.targetDir?.split(/[\\/]/).some(segment => segment === '.git' || segment === '.lspace')) {
+      throw new Error(`Invalid import target: ${options.targetDir}`);
+    }
+    return this.repositoryManager.runExclusive(repositoryId, 'import', () => this.importFolderExclusive(repositoryId, sourceRoot, options));
+  }
+
+  private async importFolderExclusive(repositoryId: string, sourceRoot: string, options: FolderImportOptions): Promise<FolderImportResult> {
+    const repository = await this.getRepository(repositoryId);
+    const targetDir = options.targetDir?.trim().replace(/^\/+/, '') || '.';
+    const indexPath = repository.knowledgeBasePath('index.md');
+    const imported: FolderImportResult['imported'] = [];
+    const skipped: FolderImportResult['skipped'] = [];
+    const preparedEntries: TimelineEntry[] = [];
+    const writtenPaths: string[] = [];
+    let importCommit: CommitResult;
+
+    try {
+      for (const relativePath of await OrchestratorService.listImportableFiles(sourceRoot, skipped)) {
+        const repoPath = repository.knowledgeBasePath(path.posix.join(targetDir, relativePath));
+        if (repoPath === indexPath) {
+          skipped.push({ path: relativePath, reason: 'index.md is generated from the imported articles' });
+          continue;
+        }
+        await repository.resolvePath(repoPath, { write: true, knowledgeBase: true });
+        const exists = await repository.fileExists(repoPath);
+        if (exists && !options.overwrite) {
+          skipped.push({ path: relativePath, reason: `${repoPath} already exists` });
+          continue;
+        }
+
+        const sourcePath = path.join(sourceRoot, relativePath);
+        writtenPaths.push(repoPath);
+        let title: string | undefined;
+        if (/\.(md|markdown)$/i.test(relativePath)) {
+          const mtime = (await fs.promises.stat(sourcePath)).mtime.toISOString();
+          const article = this.knowledgeBaseService.normalizeArticle(await fs.promises.readFile(sourcePath, 'utf8'), relativePath, mtime);
+          await repository.writeFile(repoPath, article.content);
+          title = article.title;
+        } else {
+          await repository.writeFileBuffer(repoPath, await fs.promises.readFile(sourcePath));
+        }
+
+        const operation = exists ? 'update' : 'add';
+        imported.push({ path: repoPath, operation, title });
+        preparedEntries.push(await this.timelineService.prepareEntry(repository, {
+          operation,
+          path: repoPath,
+          title: title || path.posix.basename(repoPath),
+          user: options.user,
+          category: 'import',
+        }));
+      }
+
+      if (imported.length === 0) {
+        return { imported, skipped, indexPath: null, commit: null, message: 'Nothing to import.' };
+      }
+
+      writtenPaths.push(indexPath);
+      await this.knowledgeBaseService.rebuildIndex(repository);
+      await repository.add([...imported.map(file => file.path), indexPath]);
+      const commitMessage = `Import ${imported.length} file${imported.length === 1 ? '' : 's'} from ${path.basename(sourceRoot)}`;
+      importCommit = await repository.commit({ message: commitMessage, trailers: { operation: 'import' } });
+      if (!importCommit.success) {
+        throw new Error(`Failed to commit the import: ${importCommit.message}`);
+      }
+
+      await this.timelineService.finalizeEntries(repository, preparedEntries, { id: importCommit.hash, message: commitMessage });
+      await repository.add([TimelineService.TIMELINE_PATH]);
+      const timelineCommit = await repository.commit({
+        message: `chore: Update timeline for import from ${path.basename(sourceRoot)}`,
+        trailers: { operation: 'timeline' },
+      });
+      if (!timelineCommit.success) {
+        throw new Error(`Failed to commit ${TimelineService.TIMELINE_PATH} update: ${timelineCommit.message}`);
+      }
+    } catch (error) {
+      // Drop what this import wrote and did not commit, so a failed import leaves no partial changes
+      await this.discardKnowledgeBaseChanges(repository, writtenPaths);
+      throw error;
+    }
+
+    let message = `Imported ${imported.length} file${imported.length === 1 ? '' : 's'}${skipped.length ? `, skipped ${skipped.length}` : ''}.`;
+    try {
+      const pendingPush = await this.repositoryManager.queuePush(repositoryId);
+      if (pendingPush) {
+        message += ` Warning: Changes committed locally; the push to the remote failed and will be retried automatically: ${pendingPush.lastError}`;
+      }
+    } catch (pushError: any) {
+      console.warn(`[OrchestratorService] Failed to push import to remote: ${pushError.message}`);
+      message += ` Warning: Changes committed locally but failed to push to remote: ${pushError.message}`;
+    }
+
+    console.log(`[OrchestratorService] ${message} Source: ${sourceRoot}`);
+    return { imported, skipped, indexPath, commit: importCommit.hash, message };
+  }
+
+  // Files under the import source as POSIX paths, sorted; hidden entries and symlinks are recorded as skipped
+  private static async listImportableFiles(sourceRoot: string, skipped: FolderImportResult['skipped'], relativeDir = ''): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.promises.readdir(path.join(sourceRoot, relativeDir), { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.name.startsWith('.')) {
+        skipped.push({ path: relativePath, reason: 'hidden' });
+      } else if (entry.isSymbolicLink()) {
+        skipped.push({ path: relativePath, reason: 'symlink' });
+      } else if (entry.isDirectory()) {
+        files.push(...await OrchestratorService.listImportableFiles(sourceRoot, skipped, relativePath));
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+
+  // New central input processing method. Serialized per repository: the final commit stages
+  // every unstaged file, so a concurrent ingestion would otherwise commit this one's partial changes.
+  async processInput(input: ProcessableInput, hooks: IngestionHooks = {}): Promise<DocumentProcessingResult> {
+    return this.repositoryManager.runExclusive(input.repositoryId, 'ingestion', () => this.processInputExclusive(input, hooks));
+  }
+
+  /**
+   * Queue an input for processInput in the background and return right away. The job's phase
+   * and LLM turn count show how far it got; see IngestionJobQueue.
+   */
+  async submitIngestionJob(input: ProcessableInput): Promise<IngestionJob> {
+    this.repositoryManager.getRepository(input.repositoryId); // Throws if not found
+    return this.getIngestionJobQueue().enqueue(input);
+  }
+
+  getIngestionJob(jobId: string): IngestionJob | null {
+    return this.getIngestionJobQueue().get(jobId);
+  }
+
+  listIngestionJobs(repositoryId?: string): IngestionJob[] {
+    return this.getIngestionJobQueue().list(repositoryId);
+  }
+
+  async cancelIngestionJob(jobId: string): Promise<IngestionJob> {
+    return this.getIngestionJobQueue().cancel(jobId);
+  }
+
+  /**
+   * Pick up the ingestion jobs that were queued or running when the server stopped.
+   */
+  async loadIngestionJobs(): Promise<void> {
+    await this.getIngestionJobQueue().load();
+  }
+
+  // Job files are kept in ingestion-jobs/ next to config.local.json, like the push outbox
+  private getIngestionJobQueue(): IngestionJobQueue {
+    if (!this.ingestionJobs) {
+      const configDir = path.dirname(this.repositoryManager.getConfigurationStatus().path);
+      this.ingestionJobs = new IngestionJobQueue(path.join(configDir, 'ingestion-jobs'), this);
+    }
+    return this.ingestionJobs;
+  }
+
+  /**
+   * Run the LLM synthesis and KB commit of an ingestion again from its checkpoint, e.g. after
+   * the server stopped while it was running. Uncommitted knowledge base changes left by the
+   * interrupted run are discarded first.
+   */
+  async resumeInput(checkpoint: IngestionCheckpoint, hooks: IngestionHooks = {}): Promise<DocumentProcessingResult> {
+    return this.repositoryManager.runExclusive(checkpoint.repositoryId, 'ingestion', async () => {
+      hooks.signal?.throwIfAborted();
+      const repository = this.repositoryManager.getRepository(checkpoint.repositoryId);
+      await this.discardKnowledgeBaseChanges(repository);
+      return this.synthesizeAndCommit(repository, checkpoint, hooks);
+    });
+  }
+
+  private async processInputExclusive(input: ProcessableInput, hooks: IngestionHooks): Promise<DocumentProcessingResult> {
     let rawFilePath: string | undefined;
     let rawFileOriginalName: string | undefined; // To store the original name for commit messages
     let processingMessage: string = 'Input processed.';
-    let kbUpdateSuccess = false;
-    let kbPath: string | undefined;
     let contentForLLM: string | undefined; // Variable to hold content for LLM
+    const additionalRawInputPaths: string[] = []; // Files committed together with the raw input, e.g. assets/ copies
 
+    hooks.signal?.throwIfAborted();
+    hooks.onPhase?.('saving-input');
     try {
+      // The LLM's file tools get this repository with each synthesis call, so ingestions of
+      // different repositories can run at the same time
       const repository = this.repositoryManager.getRepository(input.repositoryId);
-      // Set LLM Service context
-      this.llmService.updateRepositoryPath(repository.path);
 
-      const rawInputsDirRootPath = path.join(repository.path, '.lspace', 'raw_inputs');
-      if (!fs.existsSync(rawInputsDirRootPath)) {
-        fs.mkdirSync(rawInputsDirRootPath, { recursive: true });
-      }
+      await repository.ensureDirectoryExists(path.join('.lspace', 'raw_inputs'));
       
       let relativeRawFilePathForRepoWrite: string;
 
@@ -677,10 +983,24 @@ export class OrchestratorService {
           const uniqueFileName = `${uuidv4()}-${input.fileName.replace(/[^a-zA-Z0-9_.-]/g, '')}`;
           relativeRawFilePathForRepoWrite = path.join('.lspace', 'raw_inputs', uniqueFileName);
           rawFileOriginalName = input.fileName; // Store original name
-          await repository.writeFile(relativeRawFilePathForRepoWrite, input.content);
+          const upload = decodeFileUpload(input);
           rawFilePath = relativeRawFilePathForRepoWrite;
-          contentForLLM = input.content; // Store content for LLM
-          processingMessage = `File uploaded and saved to ${rawFilePath}`;
+          if (upload.binary) {
+            // Keep the original bytes as the raw input and publish a copy under assets/ for KB articles to link to
+            const kbAssetPath = `${OrchestratorService.ASSETS_DIR}/${uniqueFileName}`; // As the LLM's tools see it
+            const assetPath = repository.knowledgeBasePath(kbAssetPath);
+            await repository.writeFileBuffer(relativeRawFilePathForRepoWrite, upload.buffer);
+            await repository.writeFileBuffer(assetPath, upload.buffer);
+            additionalRawInputPaths.push(assetPath);
+            contentForLLM = `Binary attachment "${input.fileName}" (${upload.mimeType}, ${upload.buffer.length} bytes) was uploaded and stored at ${kbAssetPath}. ` +
+              `Its content cannot be read as text. Reference it from relevant knowledge base articles with a relative Markdown link ` +
+              `(use image syntax for images) and describe it using only the file name and any metadata provided: ${JSON.stringify(input.metadata || {})}`;
+            processingMessage = `Binary file (${upload.mimeType}) uploaded and saved to ${rawFilePath} and ${assetPath}`;
+          } else {
+            await repository.writeFile(relativeRawFilePathForRepoWrite, upload.text);
+            contentForLLM = upload.text; // Store content for LLM
+            processingMessage = `File uploaded and saved to ${rawFilePath}`;
+          }
           break;
 
         case 'text_snippet':
@@ -716,15 +1036,8 @@ export class OrchestratorService {
           break;
 
         case 'chat_message':
-          const chatLogsDirAbsPath = path.join(rawInputsDirRootPath, 'chat_logs');
-          if (!fs.existsSync(chatLogsDirAbsPath)) {
-            fs.mkdirSync(chatLogsDirAbsPath, { recursive: true });
-          }
           const chatDirRelative = path.join('.lspace', 'raw_inputs', 'chat_logs', input.chatId.replace(/[^a-zA-Z0-9_.-]/g, ''));
-          const absoluteChatDirForSpecificChat = path.join(repository.path, chatDirRelative);
-          if (!fs.existsSync(absoluteChatDirForSpecificChat)) {
-             fs.mkdirSync(absoluteChatDirForSpecificChat, { recursive: true });
-          }
+          await repository.ensureDirectoryExists(chatDirRelative);
           const chatFileName = `${input.messageId.replace(/[^a-zA-Z0-9_.-]/g, '')}.json`;
           relativeRawFilePathForRepoWrite = path.join(chatDirRelative, chatFileName);
           const chatDataToSave = {
@@ -750,9 +1063,12 @@ export class OrchestratorService {
         // 1. Commit the raw input file
         const rawFileCommitMessage = `feat: Add raw input ${rawFileOriginalName || path.basename(rawFilePath)}`;
         console.log(`[OrchestratorService] Staging raw input file: ${rawFilePath}`);
-        await repository.add([rawFilePath]); // Stage only the raw input file
+        await repository.add([rawFilePath, ...additionalRawInputPaths]); // Stage only the raw input file (and its asset copy)
         console.log(`[OrchestratorService] Committing raw input file: ${rawFilePath} with message: "${rawFileCommitMessage}"`);
-        const rawFileCommitResult = await repository.commit({ message: rawFileCommitMessage }); // Commit staged file
+        const rawFileCommitResult = await repository.commit({ // Commit staged file
+          message: rawFileCommitMessage,
+          trailers: { operation: 'raw-input', source: rawFilePath },
+        });
 
         if (!rawFileCommitResult.success || !rawFileCommitResult.hash) {
           console.warn(`[OrchestratorService] Failed to commit raw input file ${rawFilePath}: ${rawFileCommitResult.message}`);
@@ -772,113 +1088,195 @@ export class OrchestratorService {
           timelineEntryDetails.commit = { id: rawFileCommitResult.hash, message: rawFileCommitMessage };
         }
 
+        let timelineEntryId: string | undefined;
         try {
-            await this.timelineService.addEntry(repository, timelineEntryDetails); // addEntry now handles the commit details
+            const timelineEntry = await this.timelineService.addEntry(repository, timelineEntryDetails); // addEntry now handles the commit details
+            timelineEntryId = timelineEntry?.id;
             processingMessage += ' Timeline entry created.';
         } catch (timelineError: any) {
             console.warn(`Failed to add timeline entry for ${rawFilePath}: ${timelineError.message}`);
             processingMessage += ` Failed to create timeline entry: ${timelineError.message}.`;
         }
         
-        console.log(`OrchestratorService: KB processing to be triggered for ${rawFilePath}`);
-        let llmHistory: any[] = []; // To store LLM conversation history
+        const checkpoint: IngestionCheckpoint = {
+          repositoryId: input.repositoryId,
+          rawInputPath: rawFilePath,
+          rawInputName: rawFileOriginalName || path.basename(rawFilePath),
+          rawCommit: rawFileCommitResult.success && rawFileCommitResult.hash ? rawFileCommitResult.hash : null,
+          timelineId: timelineEntryId || null,
+          contentForLLM,
+          message: processingMessage,
+        };
+        await hooks.onCheckpoint?.(checkpoint);
+        return await this.synthesizeAndCommit(repository, checkpoint, hooks);
+      } else {
+        return { knowledgeBaseUpdated: false, message: processingMessage };
+      }
 
-        try {
-          if (!contentForLLM) {
-            throw new Error('Content for LLM processing is missing.');
-          }
-          // In synthesizeToKnowledgeBase, the LLMService's processDocumentConversational is called
-          // which returns a history. We need to capture that.
-          const kbProcessingResult = await this.llmService.synthesizeToKnowledgeBase(repository, rawFilePath, contentForLLM);
-          
-          // Assuming synthesizeToKnowledgeBase is modified or its caller (processDocumentConversational's result)
-          // makes history available. Let's assume kbResult.history exists.
-          // This is a temporary assumption based on how generateKnowledgeBaseSummary works.
-          // Ideally, synthesizeToKnowledgeBase itself would return the history needed for the commit summary.
-          // For now, we'll rely on the structure of LLMService.processDocumentConversational's return.
-          // This might require an adjustment in LLMService or how its results are propagated up.
+    } catch (error: any) {
+      if (hooks.signal?.aborted) {
+        throw error;
+      }
+      console.error(`Error in OrchestratorService.processInput:`, error);
+      return { knowledgeBaseUpdated: false, message: `Error processing input: ${error.message}` };
+    }
+  }
+
+  /**
+   * Let the LLM integrate a committed raw input into the knowledge base, then commit and push
+   * its changes. Runs with the repository lock held.
+   */
+  private async synthesizeAndCommit(repository: Repository, checkpoint: IngestionCheckpoint, hooks: IngestionHooks): Promise<DocumentProcessingResult> {
+    const { rawInputPath: rawFilePath, contentForLLM } = checkpoint;
+    let processingMessage = checkpoint.message;
+    let kbUpdateSuccess = false;
+    let kbPath: string | undefined;
+
+    console.log(`OrchestratorService: KB processing to be triggered for ${rawFilePath}`);
+    let llmHistory: any[] = []; // To store LLM conversation history
+
+    try {
+      if (!contentForLLM) {
+        throw new Error('Content for LLM processing is missing.');
+      }
+      // In synthesizeToKnowledgeBase, the LLMService's processDocumentConversational is called
+      // which returns a history. We need to capture that.
+      hooks.onPhase?.('synthesizing');
+      const kbProcessingResult = await this.llmService.synthesizeToKnowledgeBase(repository, rawFilePath, contentForLLM, {
+        signal: hooks.signal,
+        onTurn: hooks.onTurn,
+      });
+      hooks.signal?.throwIfAborted(); // Last chance to cancel before the changes are committed
+      
+      // Assuming synthesizeToKnowledgeBase is modified or its caller (processDocumentConversational's result)
+      // makes history available. Let's assume kbResult.history exists.
+      // This is a temporary assumption based on how generateKnowledgeBaseSummary works.
+      // Ideally, synthesizeToKnowledgeBase itself would return the history needed for the commit summary.
+      // For now, we'll rely on the structure of LLMService.processDocumentConversational's return.
+      // This might require an adjustment in LLMService or how its results are propagated up.
+      
+      // A more robust way would be for synthesizeToKnowledgeBase to return the history directly.
+      // Let's assume for now it's { success: boolean, message?: string, kbPath?: string, history?: ConversationTurn[] }
+      // This change is NOT YET MADE in llmService.ts for synthesizeToKnowledgeBase but is needed for the commit summary
+
+      // TEMPORARY: Accessing history through a hypothetical direct call if synthesizeToKnowledgeBase doesn't return it
+      // This is a placeholder for where you'd get the history. The actual implementation details might differ.
+      // if (kbProcessingResult.success && this.llmService.getLastProcessingHistory) { 
+      //   llmHistory = this.llmService.getLastProcessingHistory(); 
+      // } 
+      // For now, we assume kbResult.message contains the summary which is not ideal for a separate commit message.
+      // The LLMService.generateKnowledgeBaseSummary expects the actual history.
+      // This points to a needed refactor in how history is passed or retrieved after synthesizeToKnowledgeBase.
+
+      // For the purpose of this edit, we will assume synthesizeToKnowledgeBase is updated to return history:
+      // kbResult = { success: boolean, message?: string, kbPath?: string, history: ConversationTurn[] }
+      // We'll use the message from kbResult for the commit for now, as history isn't directly returned from synthesizeToKnowledgeBase call above.
+
+      if (kbProcessingResult.success) {
+        kbUpdateSuccess = true;
+        kbPath = kbProcessingResult.kbPath || repository.knowledgeBasePath('README.md');
+        processingMessage += ` Knowledge base updated. Main article: ${kbPath}.`;
+        
+        // 3. Commit KB Changes
+        hooks.onPhase?.('committing');
+        let kbCommitSummary = `KB update for ${checkpoint.rawInputName}.`;
+        if (kbProcessingResult.message && kbProcessingResult.message.includes("```markdown")) {
+            // If the message contains the markdown summary, use that.
+            kbCommitSummary = kbProcessingResult.message;
+        } else if (kbProcessingResult.message) {
+            kbCommitSummary += ` Details: ${kbProcessingResult.message}`;
+        }
+        
+        // Get unstaged files (new or modified by LLM tools under the KB root) and Lspace state;
+        // anything else in the working tree, such as code next to a KB subfolder, is left alone
+        const unstagedKbFiles = (await repository.getUnstagedFiles())
+          .filter(file => repository.isInKnowledgeBase(file) || file.startsWith('.lspace/'));
+        if (unstagedKbFiles.length > 0) {
+          console.log(`[OrchestratorService] Staging KB changes for files: ${unstagedKbFiles.join(', ')}`);
+          await repository.add(unstagedKbFiles); 
           
-          // A more robust way would be for synthesizeToKnowledgeBase to return the history directly.
-          // Let's assume for now it's { success: boolean, message?: string, kbPath?: string, history?: ConversationTurn[] }
-          // This change is NOT YET MADE in llmService.ts for synthesizeToKnowledgeBase but is needed for the commit summary
-
-          // TEMPORARY: Accessing history through a hypothetical direct call if synthesizeToKnowledgeBase doesn't return it
-          // This is a placeholder for where you'd get the history. The actual implementation details might differ.
-          // if (kbProcessingResult.success && this.llmService.getLastProcessingHistory) { 
-          //   llmHistory = this.llmService.getLastProcessingHistory(); 
-          // } 
-          // For now, we assume kbResult.message contains the summary which is not ideal for a separate commit message.
-          // The LLMService.generateKnowledgeBaseSummary expects the actual history.
-          // This points to a needed refactor in how history is passed or retrieved after synthesizeToKnowledgeBase.
-
-          // For the purpose of this edit, we will assume synthesizeToKnowledgeBase is updated to return history:
-          // kbResult = { success: boolean, message?: string, kbPath?: string, history: ConversationTurn[] }
-          // We'll use the message from kbResult for the commit for now, as history isn't directly returned from synthesizeToKnowledgeBase call above.
-
-          if (kbProcessingResult.success) {
-            kbUpdateSuccess = true;
-            kbPath = kbProcessingResult.kbPath || 'README.md'; 
-            processingMessage += ` Knowledge base updated. Main article: ${kbPath}.`;
-            
-            // 3. Commit KB Changes
-            let kbCommitSummary = `KB update for ${rawFileOriginalName || path.basename(rawFilePath)}.`;
-            if (kbProcessingResult.message && kbProcessingResult.message.includes("```markdown")) {
-                // If the message contains the markdown summary, use that.
-                kbCommitSummary = kbProcessingResult.message;
-            } else if (kbProcessingResult.message) {
-                kbCommitSummary += ` Details: ${kbProcessingResult.message}`;
-            }
-            
-            // Get unstaged files (new or modified by LLM tools in the root)
-            const unstagedKbFiles = await repository.getUnstagedFiles();
-            if (unstagedKbFiles.length > 0) {
-              console.log(`[OrchestratorService] Staging KB changes for files: ${unstagedKbFiles.join(', ')}`);
-              await repository.add(unstagedKbFiles); 
-              
-              console.log(`[OrchestratorService] Committing KB changes with summary: ${kbCommitSummary.substring(0,100)}...`);
-              const kbCommitResult = await repository.commit({ message: kbCommitSummary }); 
-              if (!kbCommitResult.success) {
-                  console.warn(`[OrchestratorService] Failed to commit KB changes for ${rawFilePath}: ${kbCommitResult.message}`);
-                  processingMessage += ` Failed to commit KB changes: ${kbCommitResult.message}.`;
+          console.log(`[OrchestratorService] Committing KB changes with summary: ${kbCommitSummary.substring(0,100)}...`);
+          const kbCommitResult = await repository.commit({
+            message: kbCommitSummary,
+            trailers: {
+              operation: 'kb-update',
+              source: rawFilePath,
+              rawCommit: checkpoint.rawCommit || undefined,
+              timelineId: checkpoint.timelineId || undefined,
+              promptVersion: PROMPT_VERSION,
+            },
+          });
+          if (!kbCommitResult.success) {
+              console.warn(`[OrchestratorService] Failed to commit KB changes for ${rawFilePath}: ${kbCommitResult.message}`);
+              processingMessage += ` Failed to commit KB changes: ${kbCommitResult.message}.`;
+          } else {
+            // Auto-push to remote for GitHub and git repositories; failed pushes stay in the outbox and are retried
+            hooks.onPhase?.('pushing');
+            try {
+              const pendingPush = await this.repositoryManager.queuePush(checkpoint.repositoryId);
+              if (pendingPush) {
+                console.warn(`[OrchestratorService] Failed to push to remote, will retry: ${pendingPush.lastError}`);
+                processingMessage += ` Warning: Changes committed locally; the push to the remote failed and will be retried automatically: ${pendingPush.lastError}`;
               } else {
-                // Auto-push to remote if this is a GitHub repository
-                try {
-                  await this.repositoryManager.pushToRemote(input.repositoryId);
-                  console.log(`[OrchestratorService] Successfully pushed changes to remote repository`);
-                  processingMessage += ' Changes pushed to remote repository.';
-                } catch (pushError: any) {
-                  console.warn(`[OrchestratorService] Failed to push to remote: ${pushError.message}`);
-                  processingMessage += ` Warning: Changes committed locally but failed to push to remote: ${pushError.message}`;
-                }
+                console.log(`[OrchestratorService] Successfully pushed changes to remote repository`);
+                processingMessage += ' Changes pushed to remote repository.';
               }
-            } else {
-              console.log(`[OrchestratorService] No unstaged KB files found to commit for ${rawFilePath}.`);
-              processingMessage += ' No new KB changes detected to commit.';
+            } catch (pushError: any) {
+              console.warn(`[OrchestratorService] Failed to push to remote: ${pushError.message}`);
+              processingMessage += ` Warning: Changes committed locally but failed to push to remote: ${pushError.message}`;
             }
-
-          } else {
-            processingMessage += ` Knowledge base update failed or not applicable.`;
-            if(kbProcessingResult.message) processingMessage += ` Details: ${kbProcessingResult.message}`;
           }
-        } catch (kbError: any) {
-            console.error(`Error during KB synthesis for ${rawFilePath}: ${kbError.message}`);
-            processingMessage += ` Error during KB synthesis: ${kbError.message}`;
+        } else {
+          console.log(`[OrchestratorService] No unstaged KB files found to commit for ${rawFilePath}.`);
+          processingMessage += ' No new KB changes detected to commit.';
         }
-        
-        return { 
-          knowledgeBaseUpdated: kbUpdateSuccess, 
-          rawInputPath: rawFilePath, 
-          message: processingMessage,
-          knowledgeBasePath: kbPath 
-        };
+
       } else {
-        return { knowledgeBaseUpdated: false, message: processingMessage };
+        processingMessage += ` Knowledge base update failed or not applicable.`;
+        if(kbProcessingResult.message) processingMessage += ` Details: ${kbProcessingResult.message}`;
       }
+    } catch (kbError: any) {
+        if (hooks.signal?.aborted) {
+          console.log(`[OrchestratorService] Ingestion of ${rawFilePath} cancelled; discarding uncommitted KB changes`);
+          await this.discardKnowledgeBaseChanges(repository);
+          throw kbError;
+        }
+        console.error(`Error during KB synthesis for ${rawFilePath}: ${kbError.message}`);
+        processingMessage += ` Error during KB synthesis: ${kbError.message}`;
+    }
 
-    } catch (error: any) {
-      console.error(`Error in OrchestratorService.processInput:`, error);
-      return { knowledgeBaseUpdated: false, message: `Error processing input: ${error.message}` };
+    return { 
+      knowledgeBaseUpdated: kbUpdateSuccess, 
+      rawInputPath: rawFilePath, 
+      message: processingMessage,
+      knowledgeBasePath: kbPath 
+    };
+  }
+
+  /**
+   * Put files under the knowledge base root back to HEAD, dropping changes the LLM tools made
+   * that were not committed. .lspace state such as the timeline is kept.
+   * @param onlyPaths Limit the discarded files to these paths
+   */
+  private async discardKnowledgeBaseChanges(repository: Repository, onlyPaths?: string[]): Promise<string[]> {
+    const changedFiles = (await repository.getUnstagedFiles())
+      .filter(file => repository.isInKnowledgeBase(file) && !file.startsWith('.lspace/'))
+      .filter(file => !onlyPaths || onlyPaths.includes(file));
+    if (changedFiles.length === 0) {
+      return [];
     }
+    const headOid = await repository.resolveCommitOid('HEAD');
+    for (const filePath of changedFiles) {
+      const content = await repository.getFileBufferAtCommit(headOid, filePath);
+      if (content) {
+        await repository.writeFileBuffer(filePath, content);
+        await repository.add([filePath]); // Also drops a version that was staged
+      } else if (await repository.fileExists(filePath)) {
+        await repository.deleteFile(filePath);
+      }
+    }
+    console.log(`[OrchestratorService] Discarded uncommitted KB changes: ${changedFiles.join(', ')}`);
+    return changedFiles;
   }
 
   // Remove the duplicate processDocument function that takes OrchestratorServiceRequestBody
@@ -887,16 +1285,13 @@ export class OrchestratorService {
     const { repositoryId, content, filePath, fileName, user, inputType, url, metadata } = requestBody;
     const repository = this.repositoryManager.getRepository(repositoryId);
     // Set LLM Service context
-    this.llmService.updateRepositoryPath(repository.path);
+    this.llmService.setRepository(repository);
 
     let rawDocumentPathInRepo: string;
     let sourceDescription: string;
     let contentForLLMProcessing: string | undefined = content; // Initialize with provided content
 
-    const rawInputsDir = path.join(repository.path, '.lspace', 'raw_inputs');
-    if (!fs.existsSync(rawInputsDir)) {
-      fs.mkdirSync(rawInputsDir, { recursive: true });
-    }
+    await repository.ensureDirectoryExists(path.join('.lspace', 'raw_inputs'));
 
     // This initial block for saving various inputs is now largely handled by the new `processInput` method.
     // If `processDocument` is called directly, it will still use this logic.
@@ -968,8 +1363,8 @@ export class OrchestratorService {
 
     return {
       rawInputPath: rawDocumentPathInRepo,
-      knowledgeBasePath: kbUpdateResult.kbPath || (kbUpdateResult.success ? 'README.md' : undefined), // Default to README.md if success but no path
-      readmeUpdated: kbUpdateResult.success && (kbUpdateResult.kbPath === 'README.md' || !kbUpdateResult.kbPath), // Approximation
+      knowledgeBasePath: kbUpdateResult.kbPath || (kbUpdateResult.success ? repository.knowledgeBasePath('README.md') : undefined), // Default to README.md if success but no path
+      readmeUpdated: kbUpdateResult.success && (kbUpdateResult.kbPath === repository.knowledgeBasePath('README.md') || !kbUpdateResult.kbPath), // Approximation
       title: sourceDescription,
       category: metadata?.category || 'general',
       tags: metadata?.tags || [],
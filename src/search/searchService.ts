@@ -47,8 +47,8 @@ export class SearchService {
   async updateIndex(repositoryId: string): Promise<void> {
     const repository = this.repositoryManager.getRepository(repositoryId);
     
-    // Get all files in the repository
-    const files = await repository.listFiles();
+    // Get the files at the knowledge base root; code around a KB subfolder is not indexed
+    const files = await repository.listFiles(repository.getKnowledgeBaseRoot());
     
     // Clear existing index for this repository
     this.indexCache.delete(repositoryId);
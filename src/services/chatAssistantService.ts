@@ -1,5 +1,5 @@
 import { Repository } from '../core/repository';
-import { toolDefinitions } from '../config/prompts';
+import { PROMPT_VERSION, toolDefinitions } from '../config/prompts';
 // import { IFile } from '../core/types/file'; // Unused, and true path uncertain
 // import { KnowledgeBaseService } from './knowledgeBaseService'; // For KB path - Service does not exist
 import { FileChangeOperation, FileChangeInfo } from '../core/types/commonTypes';
@@ -13,8 +13,8 @@ import { TimelineService } from '../core/timelineService'; // Import TimelineSer
 const chatSystemPrompt = `\
 You are an AI assistant helping a user manage their knowledge base.
 You have access to a set of tools to read, write, edit, and delete files and directories within the knowledge base.
-The knowledge base is located under the 'knowledge-base/' directory in the repository.
-All file paths you provide to tools MUST be relative to the root of the repository and start with 'knowledge-base/'.
+All file paths you provide to tools MUST be relative to the root of the knowledge base (e.g. 'summary.md' or 'ideas/old.md').
+Paths outside the knowledge base are refused.
 When a user asks to rename a file, you should use 'write_file' for the new path and 'delete_file' for the old path.
 Respond to the user's request by performing the necessary actions using the available tools.
 When you have completed all tool actions for a given user request and are ready to provide a final message to the user, 
@@ -25,10 +25,10 @@ you MUST respond with a JSON object in your content field, structured as follows
   "final_message_to_user": "A message to display to the user confirming the actions."
 }
 
-Think step-by-step. If a user asks to rename 'knowledge-base/ideas/old.md' to 'knowledge-base/concepts/new.md', you would:
-1. Call 'read_file' on 'knowledge-base/ideas/old.md'.
-2. Call 'write_file' for 'knowledge-base/concepts/new.md' with the content.
-3. Call 'delete_file' on 'knowledge-base/ideas/old.md'.
+Think step-by-step. If a user asks to rename 'ideas/old.md' to 'concepts/new.md', you would:
+1. Call 'read_file' on 'ideas/old.md'.
+2. Call 'write_file' for 'concepts/new.md' with the content.
+3. Call 'delete_file' on 'ideas/old.md'.
 4. Then, respond with the 'completed_chat_interaction' JSON structure described above.
 
 Available tools (you will call these using the native tool calling mechanism, not by putting JSON in your content unless it is the final completion signal):
@@ -56,27 +56,24 @@ export class ChatAssistantService {
   private repository: Repository;
   private llmService: LLMService;
   private timelineService: TimelineService;
-  private kbPath: string;
 
   constructor(repository: Repository, llmService: LLMService, timelineService: TimelineService) {
     this.repository = repository;
     this.llmService = llmService;
     this.timelineService = timelineService;
-    this.kbPath = 'knowledge-base'; // Hardcoded KB path
   }
 
   private async executeToolCall(toolName: string, toolParameters: any): Promise<any> {
-    // Ensure paths are correctly scoped to the knowledge base if necessary,
-    // or that tools handle paths as expected by the LLM (e.g. relative to repo root).
-    // The current system prompt instructs LLM to use paths like 'knowledge-base/file.md'.
-    
+    // The system prompt instructs the LLM to use paths relative to the knowledge base root
+    // (the repository's path_to_kb). They are rewritten in place to repository paths, which
+    // is also what the commit at the end of the conversation stages.
     if (toolParameters.path && typeof toolParameters.path === 'string') {
-        if (!toolParameters.path.startsWith(this.kbPath + '/') && toolParameters.path !== this.kbPath && toolParameters.path !== (this.kbPath + '/')) {
-             throw new Error(`Tool path parameter must be within the '${this.kbPath}/' directory or be '${this.kbPath}'. Path: ${toolParameters.path}`);
-        }
-        if (toolParameters.path.includes('..')) {
-            throw new Error(`Tool path parameter must not contain '..'. Path: ${toolParameters.path}`);
+        const repoPath = this.repository.knowledgeBasePath(toolParameters.path); // Throws for paths leaving the knowledge base
+        if (repoPath === '.lspace' || repoPath.startsWith('.lspace/')) {
+            throw new Error(`Tool path parameter must not point into .lspace. Path: ${toolParameters.path}`);
         }
+        await this.repository.resolvePath(repoPath, { knowledgeBase: true });
+        toolParameters.path = repoPath;
     }
 
     console.log(`[ChatService] Executing tool: ${toolName} with params:`, toolParameters);
@@ -100,10 +97,11 @@ export class ChatAssistantService {
         return `Directory ${toolParameters.path} created successfully.`;
       case 'list_directory':
         const filesInfo = await this.repository.listFiles(toolParameters.path);
-        return filesInfo.map(info => info.path);
+        return filesInfo.map(info => this.repository.relativeToKnowledgeBase(info.path));
       case 'get_file_tree':
         // TODO: Implement recursive file tree if required by LLM expectation
-        return await this.repository.listFiles(toolParameters.path); 
+        return (await this.repository.listFiles(toolParameters.path))
+          .map(info => ({ ...info, path: this.repository.relativeToKnowledgeBase(info.path) }));
       case 'delete_file':
         await this.repository.deleteFile(toolParameters.path);
         return `File ${toolParameters.path} deleted successfully.`;
@@ -120,7 +118,7 @@ export class ChatAssistantService {
     userMessage: string
   ): Promise<LlmChatCompletionResponse> {
     
-    await this.llmService.updateRepositoryPath(this.repository.path);
+    this.llmService.setRepository(this.repository);
 
     const conversationHistory: ConversationTurn[] = [
       { role: 'system', content: chatSystemPrompt },
@@ -234,7 +232,7 @@ export class ChatAssistantService {
           }
           if (changedFilePaths.length > 0) {
             try {
-              const commitResult = await this.repository.commitChanges(changedFilePaths, commitMessage, author);
+              const commitResult = await this.repository.commitChanges(changedFilePaths, commitMessage, author, { operation: 'chat-edit', promptVersion: PROMPT_VERSION });
               console.log(`[ChatService] Changes committed for paths: ${changedFilePaths.join(', ')} with message: ${commitMessage}`);
 
               // Add to timeline if commit was successful
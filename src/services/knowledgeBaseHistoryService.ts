@@ -1,6 +1,7 @@
 import { Repository } from '../core/repository';
 import { RepositoryManager } from '../core/repositoryManager';
 import { TimelineService, ApiHistoryEntry, TimelineFilterOptions } from '../core/timelineService';
+import { RepositoryBusyError } from '../core/errors';
 
 export interface KnowledgeBaseChange {
   id: string;
@@ -84,6 +85,22 @@ export class KnowledgeBaseHistoryService {
    * Revert knowledge base changes with granular control over file vs KB
    */
   async revertKnowledgeBaseChanges(options: RevertOptions): Promise<RevertResult> {
+    try {
+      return await this.repositoryManager.runExclusive(options.repositoryId, 'revert', () => this.revertKnowledgeBaseChangesExclusive(options));
+    } catch (error: any) {
+      if (!(error instanceof RepositoryBusyError)) {
+        throw error;
+      }
+      return {
+        success: false,
+        message: `Failed to revert changes: ${error.message}`,
+        revertCommitIds: [],
+        changesReverted: []
+      };
+    }
+  }
+
+  private async revertKnowledgeBaseChangesExclusive(options: RevertOptions): Promise<RevertResult> {
     const repository = this.repositoryManager.getRepository(options.repositoryId);
     
     try {
@@ -270,18 +287,9 @@ export class KnowledgeBaseHistoryService {
         console.log(`KnowledgeBaseHistoryService: Using git log fallback to find initial commit...`);
         
         // Fallback: Use git log to find the very first commit
-        // We'll use the repository's git functionality directly
         try {
-          // Import git modules dynamically
-          const git = await import('isomorphic-git');
-          const fs = require('fs');
-          
-          // Get all commits in reverse chronological order
-          const commits = await git.default.log({
-            fs,
-            dir: repository.path,
-            depth: 1000 // Get all commits
-          });
+          // Get all commits in reverse chronological order; a shallow clone fetches its full history first
+          const commits = await repository.getCommitLog('HEAD');
           
           if (commits.length === 0) {
             throw new Error('No commits found in repository');
@@ -297,69 +305,18 @@ export class KnowledgeBaseHistoryService {
       
       console.log(`KnowledgeBaseHistoryService: Initial commit found: ${initialCommitId.slice(0, 8)}`);
       
-      // Use git reset to go back to initial commit
-      await repository.rollbackToCommit(initialCommitId);
-      
-      console.log(`KnowledgeBaseHistoryService: Rollback completed. Checking repository state...`);
+      // Commit the initial tree on top of the current history, so the push below stays fast-forward
+      const restoreResult = await repository.restoreTree(initialCommitId, {
+        message: 'Reset repository to initial state\n\nRemoved all files except initial README.md',
+        author: {
+          name: 'Lspace Revert Service',
+          email: 'revert@lspace.local'
+        },
+        trailers: { operation: 'revert' }
+      });
       
-      // Check what files exist after rollback
-      const currentFiles = await repository.listFiles('.');
-      console.log(`KnowledgeBaseHistoryService: Files after rollback:`, currentFiles.map(f => f.path));
-      
-      // Get what files should exist in the initial commit
-      const initialFiles = await repository.getChangedFilesInCommit(initialCommitId);
-      const initialFilePaths = initialFiles.map(f => f.path);
-      console.log(`KnowledgeBaseHistoryService: Files that should exist:`, initialFilePaths);
-      
-      // Restore missing files from initial commit
-      for (const expectedPath of initialFilePaths) {
-        const fileExists = await repository.fileExists(expectedPath);
-        if (!fileExists) {
-          try {
-            console.log(`KnowledgeBaseHistoryService: Restoring missing file: ${expectedPath}`);
-            const initialContent = await repository.getFileContentAtCommit(initialCommitId, expectedPath);
-            if (initialContent !== null) {
-              await repository.writeFile(expectedPath, initialContent);
-              console.log(`KnowledgeBaseHistoryService: Restored ${expectedPath}`);
-            }
-          } catch (error) {
-            console.warn(`KnowledgeBaseHistoryService: Could not restore file ${expectedPath}: ${error}`);
-          }
-        }
-      }
-      
-      // Remove files that weren't in the initial commit
-      for (const file of currentFiles) {
-        if (file.type === 'file' && !initialFilePaths.includes(file.path) && !file.path.startsWith('.git')) {
-          try {
-            await repository.deleteFile(file.path);
-            console.log(`KnowledgeBaseHistoryService: Removed extra file: ${file.path}`);
-          } catch (error) {
-            console.warn(`KnowledgeBaseHistoryService: Could not remove file ${file.path}: ${error}`);
-          }
-        }
-      }
-      
-      // Check if there are any changes to commit
-      const unstagedFiles = await repository.getUnstagedFiles();
-      console.log(`KnowledgeBaseHistoryService: Unstaged files after cleanup:`, unstagedFiles);
-      
-      if (unstagedFiles.length > 0) {
-        await repository.add(unstagedFiles);
-        
-        const cleanupCommit = await repository.commit({
-          message: 'Reset repository to initial state\n\nRemoved all files except initial README.md',
-          author: {
-            name: 'Lspace Revert Service',
-            email: 'revert@lspace.local'
-          }
-        });
-        
-        if (!cleanupCommit.success) {
-          throw new Error(`Failed to create cleanup commit: ${cleanupCommit.message}`);
-        }
-        
-        console.log(`KnowledgeBaseHistoryService: Created cleanup commit: ${cleanupCommit.hash}`);
+      if (restoreResult.commit) {
+        console.log(`KnowledgeBaseHistoryService: Created cleanup commit: ${restoreResult.commit.hash}`);
       } else {
         console.log(`KnowledgeBaseHistoryService: No changes to commit after reset`);
       }
@@ -411,7 +368,7 @@ export class KnowledgeBaseHistoryService {
         description: this.generateFileDescription(entry),
         operation: this.mapFileOperation(entry.fileOperation),
         changeType: 'file_upload',
-        filesAffected: [entry.path],
+        filesAffected: entry.previousPath ? [entry.previousPath, entry.path] : [entry.path],
         userFriendlyDate,
         canRevert: true,
         internalCommitId: entry.commit.id,
@@ -457,6 +414,7 @@ export class KnowledgeBaseHistoryService {
       case 'add': return `Uploaded ${fileName}`;
       case 'modify': return `Updated ${fileName}`;
       case 'delete': return `Removed ${fileName}`;
+      case 'rename': return `Moved ${entry.previousPath} to ${entry.path}`;
       default: return `Modified ${fileName}`;
     }
   }
@@ -464,7 +422,11 @@ export class KnowledgeBaseHistoryService {
   private generateKBDescription(entry: ApiHistoryEntry): string {
     const fileName = entry.title || entry.path;
     const kbFiles = entry.kbCommit?.changedKbFiles?.length || 0;
-    return `Generated knowledge base from ${fileName} (${kbFiles} KB files updated)`;
+    const moves = (entry.kbCommit?.changedKbFiles || [])
+      .filter(f => f.status === 'rename' && f.oldPath)
+      .map(f => `${f.oldPath} moved to ${f.path}`);
+    const moveSummary = moves.length > 0 ? `; ${moves.join(', ')}` : '';
+    return `Generated knowledge base from ${fileName} (${kbFiles} KB files updated${moveSummary})`;
   }
 
   private mapFileOperation(operation?: string): KnowledgeBaseChange['operation'] {
@@ -472,6 +434,7 @@ export class KnowledgeBaseHistoryService {
       case 'add': return 'added';
       case 'modify': return 'updated';
       case 'delete': return 'removed';
+      case 'rename': return 'organized';
       default: return 'updated';
     }
   }
@@ -551,7 +514,8 @@ export class KnowledgeBaseHistoryService {
       author: {
         name: 'Lspace Revert Service', 
         email: 'revert@lspace.local'
-      }
+      },
+      trailers: { operation: 'revert' }
     });
     
     if (!summaryCommitResult.success || !summaryCommitResult.hash) {
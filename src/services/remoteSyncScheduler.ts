@@ -0,0 +1,72 @@
+import { RepositoryManager } from '../core/repositoryManager';
+
+export const DEFAULT_REMOTE_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Periodically syncs every remote (GitHub or generic git) repository with its remote.
+ * Repositories run one after another within a round, and a round never overlaps the previous
+ * one. Repositories that need attention after a conflict are skipped until a manual sync
+ * succeeds, so their local commits are never overwritten.
+ */
+export class RemoteSyncScheduler {
+  private timer?: NodeJS.Timeout;
+  private currentRound?: Promise<void>;
+
+  constructor(
+    private repositoryManager: RepositoryManager,
+    private intervalMs: number = DEFAULT_REMOTE_SYNC_INTERVAL_MS
+  ) {
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+      throw new Error(`Invalid sync interval: ${intervalMs}. Use a positive number of milliseconds.`);
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    this.timer.unref(); // Never keep the process alive just to sync
+    console.log(`[RemoteSyncScheduler] Syncing remote repositories every ${this.intervalMs}ms`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return !!this.timer;
+  }
+
+  /**
+   * Sync each remote repository once. Resolves when the round is over; a call made while a
+   * round is still running joins that round.
+   */
+  runOnce(): Promise<void> {
+    if (!this.currentRound) {
+      this.currentRound = this.syncAll().finally(() => {
+        this.currentRound = undefined;
+      });
+    }
+    return this.currentRound;
+  }
+
+  private async syncAll(): Promise<void> {
+    for (const repositoryId of this.repositoryManager.getRemoteRepositoryIds()) {
+      if (this.repositoryManager.getSyncStatus(repositoryId).state === 'needs-attention') {
+        continue;
+      }
+      try {
+        await this.repositoryManager.syncWithRemote(repositoryId);
+      } catch (error: any) {
+        // Recorded in the repository's sync status; keep going with the other repositories
+        console.warn(`[RemoteSyncScheduler] Sync of repository ${repositoryId} failed: ${error.message}`);
+      }
+    }
+  }
+}
@@ -43,7 +43,8 @@ describe('File Modification API', () => {
           return 'repo1-id';
         }
         throw new Error('Repository not found');
-      })
+      }),
+      runExclusive: vi.fn().mockImplementation((id, operation, task) => task())
     } as any;
     
     // Set up API routes
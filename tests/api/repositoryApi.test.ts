@@ -11,6 +11,7 @@ vi.mock('../../src/core/repositoryManager');
 
 // These imports will fail until we implement the API
 import { setupRepositoryRoutes } from '../../src/api/repositoryApi';
+import { UnpushedCommitsError } from '../../src/core/errors';
 
 // Get the current directory
 const __filename = fileURLToPath(import.meta.url);
@@ -47,6 +48,7 @@ describe('Repository API', () => {
               { path: 'docs/file3.md', type: 'file' }
             ]),
             readFile: vi.fn().mockResolvedValue('# Test File\n\nThis is a test file.'),
+            readFileBuffer: vi.fn().mockResolvedValue(Buffer.from('# Test File\n\nThis is a test file.')),
             fileExists: vi.fn().mockResolvedValue(true)
           };
         }
@@ -63,7 +65,9 @@ describe('Repository API', () => {
         throw new Error('Repository not found');
       }),
       registerRepository: vi.fn().mockResolvedValue('new-repo-id'),
-      unregisterRepository: vi.fn()
+      addNewRepositoryConfig: vi.fn().mockResolvedValue('new-repo-id'),
+      unregisterRepository: vi.fn(),
+      removeRepository: vi.fn()
     } as any;
     
     // Set up API routes
@@ -165,16 +169,27 @@ describe('Repository API', () => {
     }
   });
 
-  it('should unregister a repository', async () => {
-    // Mock the unregisterRepository method
-    vi.spyOn(mockRepositoryManager, 'unregisterRepository').mockImplementation(vi.fn());
+  it('should remove a repository', async () => {
+    const removal = { id: 'repo-to-delete', name: 'repo', mode: 'archive', path: '/clones/repo', archivePath: '/archives/repo.tar.gz', deleted: true };
+    vi.spyOn(mockRepositoryManager, 'removeRepository').mockResolvedValue(removal);
     
     // Test the API endpoint
-    await request(app)
-      .delete('/api/repositories/repo-to-delete')
-      .expect(204);
+    const response = await request(app)
+      .delete('/api/repositories/repo-to-delete?mode=archive')
+      .expect(200);
+    
+    expect(response.body).toEqual(removal);
+    expect(mockRepositoryManager.removeRepository).toHaveBeenCalledWith('repo-to-delete', { mode: 'archive', force: false });
+  });
+
+  it('should refuse to remove a repository with unpushed commits', async () => {
+    vi.spyOn(mockRepositoryManager, 'removeRepository').mockRejectedValue(new UnpushedCommitsError('repo-to-delete', 2, false));
+    
+    const response = await request(app)
+      .delete('/api/repositories/repo-to-delete?mode=purge')
+      .expect(409);
     
-    expect(mockRepositoryManager.unregisterRepository).toHaveBeenCalledWith('repo-to-delete');
+    expect(response.body.unpushedCommits).toBe(2);
   });
 
   it('should list files in a repository', async () => {
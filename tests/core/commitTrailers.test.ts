@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+
+import { appendTrailers, matchesTrailers, parseTrailers } from '../../src/core/commitTrailers';
+
+describe('commit trailers', () => {
+  it('should append a trailer block after a blank line and parse it back', () => {
+    const message = appendTrailers('Knowledge Base Update: notes.md\n', {
+      operation: 'kb-update',
+      source: '.lspace/raw_inputs/notes.md',
+      rawCommit: 'abc123',
+    });
+
+    expect(message).toBe(
+      'Knowledge Base Update: notes.md\n\n' +
+      'Lspace-Operation: kb-update\n' +
+      'Lspace-Source: .lspace/raw_inputs/notes.md\n' +
+      'Lspace-Raw-Commit: abc123\n'
+    );
+    expect(parseTrailers(message)).toEqual({
+      operation: 'kb-update',
+      source: '.lspace/raw_inputs/notes.md',
+      rawCommit: 'abc123',
+    });
+  });
+
+  it('should leave messages without trailers unchanged', () => {
+    expect(appendTrailers('Update notes')).toBe('Update notes');
+    expect(appendTrailers('Update notes', {})).toBe('Update notes');
+  });
+
+  it('should only read trailers from a final paragraph of key-value lines', () => {
+    expect(parseTrailers('Lspace-Operation: kb-update')).toEqual({});
+    expect(parseTrailers('Subject\n\nLspace-Operation: kb-update\nnot a trailer')).toEqual({});
+    expect(parseTrailers('Subject\n\nlspace-operation: prune\nSigned-off-by: someone')).toEqual({ operation: 'prune' });
+  });
+
+  it('should match filters against every given field', () => {
+    const trailers = { operation: 'kb-update' as const, rawCommit: 'abc123' };
+    expect(matchesTrailers(trailers, { rawCommit: 'abc123' })).toBe(true);
+    expect(matchesTrailers(trailers, { operation: 'kb-update', rawCommit: 'def456' })).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { ConfigValidationError } from '../../src/core/errors';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'config-reload');
+const CONFIG_PATH = path.join(TEST_DIR, 'config.local.json');
+
+function localRepo(id: string, name: string) {
+  return { id, name, type: 'local', path: path.join(TEST_DIR, id), path_to_kb: '.' };
+}
+
+function writeConfig(config: unknown): void {
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+}
+
+describe('RepositoryManager configuration reload', () => {
+  let manager: RepositoryManager;
+
+  beforeEach(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    writeConfig({ version: 1, repositories: [localRepo('notes', 'Notes'), localRepo('drafts', 'Drafts')] });
+    manager = new RepositoryManager(CONFIG_PATH);
+    manager.setCloneBaseDirectory(path.join(TEST_DIR, 'clones'));
+    await manager.loadConfiguration();
+  });
+
+  afterEach(() => {
+    manager.unwatchConfiguration();
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('applies added, removed and changed repositories', async () => {
+    writeConfig({
+      version: 1,
+      repositories: [
+        { ...localRepo('notes', 'Notes'), path_to_kb: 'kb' },
+        localRepo('research', 'Research'),
+      ],
+    });
+
+    const result = await manager.reloadConfiguration();
+    expect(result).toMatchObject({ added: ['research'], removed: ['drafts'], updated: ['notes'], errors: [] });
+    expect(manager.listRepositories().map(repo => repo.id).sort()).toEqual(['notes', 'research']);
+    expect((await manager.getRepositoryInfo('notes'))?.config.path_to_kb).toBe('kb');
+    expect(() => manager.getRepository('drafts')).toThrow('not found');
+  });
+
+  it('keeps the running configuration when the file is invalid', async () => {
+    writeConfig({ version: 1, repositories: [{ id: 'notes', name: 'Notes', type: 'local' }] });
+
+    await expect(manager.reloadConfiguration()).rejects.toBeInstanceOf(ConfigValidationError);
+    expect(manager.listRepositories()).toHaveLength(2);
+    expect(manager.getConfigurationStatus().issues).toEqual([
+      expect.objectContaining({ path: 'repositories[0].path' }),
+    ]);
+    // Saving would overwrite the user's edits
+    await expect(manager.saveConfiguration()).rejects.toThrow('is invalid');
+  });
+
+  it('migrates an unversioned file and keeps a backup', async () => {
+    writeConfig({ repositories: [{ name: 'Legacy', type: 'local', path: path.join(TEST_DIR, 'legacy') }] });
+    await manager.loadConfiguration();
+
+    const migrated = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8'));
+    expect(migrated.version).toBe(1);
+    expect(manager.getRepositoryByName('Legacy')).toBeDefined();
+    expect(manager.listRepositories()[0].id).toBe(migrated.repositories[0].id);
+    expect(fs.existsSync(`${CONFIG_PATH}.v0.bak`)).toBe(true);
+  });
+
+  it('picks up changes to the file while watching', async () => {
+    manager.watchConfiguration();
+    writeConfig({ version: 1, repositories: [localRepo('notes', 'Notes')] });
+
+    for (let waited = 0; waited < 3000 && manager.listRepositories().length !== 1; waited += 50) {
+      await new Promise(r => setTimeout(r, 50));
+    }
+    expect(manager.listRepositories().map(repo => repo.id)).toEqual(['notes']);
+  });
+});
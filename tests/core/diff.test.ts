@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffLines, diffText, formatHunks } from '../../src/core/diff';
+
+describe('diff', () => {
+  it('should find the shortest edit script', () => {
+    const script = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd']);
+    expect(script.map(line => `${line.type[0]}${line.content}`)).toEqual(['ca', 'rb', 'cc', 'ax', 'cd']);
+  });
+
+  it('should replace the changed region when it needs more edits than allowed', () => {
+    const oldLines = ['head', 'a', 'b', 'c', 'tail'];
+    const newLines = ['head', 'x', 'b', 'y', 'tail'];
+    expect(diffLines(oldLines, newLines).filter(line => line.type === 'context')).toHaveLength(3);
+
+    const script = diffLines(oldLines, newLines, 2);
+    expect(script.map(line => `${line.type[0]}${line.content}`)).toEqual(['chead', 'ra', 'rb', 'rc', 'ax', 'ab', 'ay', 'ctail']);
+  });
+
+  it('should diff large files with many changes', () => {
+    const oldLines = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const newLines = oldLines.map((line, i) => (i % 2 === 0 ? `${line} changed` : line));
+
+    // Everything between the first and the last change is replaced
+    const script = diffLines(oldLines, newLines);
+    expect(script.filter(line => line.type === 'add')).toHaveLength(19999);
+    expect(script.filter(line => line.type === 'remove')).toHaveLength(19999);
+    expect(script[script.length - 1]).toEqual({ type: 'context', content: 'line 19999' });
+  });
+
+  it('should mark a missing newline at the end of the file', () => {
+    const diff = diffText('one\ntwo', 'one\ntwo\n');
+    expect(diff).toMatchObject({ additions: 1, deletions: 1 });
+    expect(formatHunks(diff.hunks)).toBe([
+      '@@ -1,2 +1,2 @@',
+      ' one',
+      '-two',
+      '\\ No newline at end of file',
+      '+two',
+      '',
+    ].join('\n'));
+
+    expect(formatHunks(diffText('one\ntwo', 'ONE\ntwo').hunks)).toBe([
+      '@@ -1,2 +1,2 @@',
+      '-one',
+      '+ONE',
+      ' two',
+      '\\ No newline at end of file',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { LocalGitAdapter } from '../../src/adapters/localGitAdapter';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_REPO_PATH = path.join(__dirname, '..', '..', 'test-repos', 'new-knowledge-base');
+
+function createManager(): RepositoryManager {
+  const manager = new RepositoryManager();
+  // Keep the tests away from config.local.json
+  vi.spyOn(manager, 'saveConfiguration').mockResolvedValue();
+  return manager;
+}
+
+describe('RepositoryManager knowledge base creation', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+  });
+
+  it('initializes and seeds a new knowledge base from a template', async () => {
+    const manager = createManager();
+    const id = await manager.addNewRepositoryConfig(
+      { type: 'local', name: 'Team Docs', path: TEST_REPO_PATH },
+      { template: 'project-docs' }
+    );
+
+    const repository = manager.getRepository(id);
+    expect(await repository.readFile('README.md')).toContain('# Team Docs');
+    expect(await repository.fileExists('architecture/README.md')).toBe(true);
+    expect(JSON.parse(await repository.readFile('.lspace/timeline.json'))).toEqual({ entries: [] });
+    expect(await repository.fileExists('.lspace/raw_inputs/.gitkeep')).toBe(true);
+
+    const status = await repository.getStatus();
+    expect(status.files).toEqual([]);
+    expect(await repository.getCommitTrailers('HEAD')).toEqual({ operation: 'init' });
+  });
+
+  it('seeds the template under path_to_kb', async () => {
+    const manager = createManager();
+    const id = await manager.addNewRepositoryConfig({ type: 'local', name: 'Nested', path: TEST_REPO_PATH, path_to_kb: 'kb' });
+
+    const repository = manager.getRepository(id);
+    expect(await repository.fileExists('kb/README.md')).toBe(true);
+    expect(await repository.fileExists('README.md')).toBe(false);
+  });
+
+  it('registers an existing git repository without touching it', async () => {
+    await new LocalGitAdapter().initialize(TEST_REPO_PATH);
+    const manager = createManager();
+    const id = await manager.addNewRepositoryConfig({ type: 'local', name: 'Existing', path: TEST_REPO_PATH });
+
+    expect(await manager.getRepository(id).fileExists('README.md')).toBe(false);
+  });
+
+  it('rejects a template for an existing git repository or an unknown template', async () => {
+    const manager = createManager();
+    await expect(manager.addNewRepositoryConfig({ type: 'local', name: 'Unknown', path: TEST_REPO_PATH }, { template: 'nope' }))
+      .rejects.toThrow('Unknown knowledge base template');
+    expect(fs.existsSync(TEST_REPO_PATH)).toBe(false);
+
+    await new LocalGitAdapter().initialize(TEST_REPO_PATH);
+    await expect(manager.addNewRepositoryConfig({ type: 'local', name: 'Existing', path: TEST_REPO_PATH }, { template: 'blank' }))
+      .rejects.toThrow('already a git repository');
+    expect(manager.getAllRepositoryConfigs()).toEqual([]);
+  });
+});
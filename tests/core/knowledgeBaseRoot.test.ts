@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+import { normalizeKnowledgeBaseRoot, Repository } from '../../src/core/repository';
+import { FileSystemToolImpl } from '../../src/core/fileSystemToolImpl';
+import { LocalGitAdapter } from '../../src/adapters/localGitAdapter';
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { PathOutsideRepositoryError } from '../../src/core/errors';
+import { parseConfig } from '../../src/config/configSchema';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'knowledge-base-root');
+const REPO_PATH = path.join(TEST_DIR, 'code');
+
+describe('knowledge base root (path_to_kb)', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('normalizes roots and rejects ones outside the repository', () => {
+    expect(normalizeKnowledgeBaseRoot('.')).toBe('.');
+    expect(normalizeKnowledgeBaseRoot('./docs/kb/')).toBe('docs/kb');
+    expect(normalizeKnowledgeBaseRoot('docs\\kb')).toBe('docs/kb');
+    expect(() => normalizeKnowledgeBaseRoot('../elsewhere')).toThrow('Invalid path_to_kb');
+    expect(() => normalizeKnowledgeBaseRoot('/srv/kb')).toThrow('Invalid path_to_kb');
+    expect(() => normalizeKnowledgeBaseRoot('.lspace/kb')).toThrow('cannot live in .lspace');
+
+    const issues = (() => {
+      try {
+        parseConfig(JSON.stringify({ version: 1, repositories: [{ id: 'a', name: 'A', type: 'local', path: '/kb', path_to_kb: '../up' }] }), 'config.local.json');
+        return [];
+      } catch (error: any) {
+        return error.issues;
+      }
+    })();
+    expect(issues).toEqual([expect.objectContaining({ path: 'repositories[0].path_to_kb' })]);
+  });
+
+  it('confines the LLM file tools to the knowledge base subfolder', async () => {
+    await new LocalGitAdapter().initialize(REPO_PATH);
+    fs.mkdirSync(path.join(REPO_PATH, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(REPO_PATH, 'src', 'index.ts'), 'export {};\n');
+    fs.mkdirSync(path.join(REPO_PATH, 'docs', 'kb'), { recursive: true });
+    fs.symlinkSync(path.join(REPO_PATH, 'src'), path.join(REPO_PATH, 'docs', 'kb', 'linked'));
+
+    const repository = new Repository(REPO_PATH);
+    repository.setKnowledgeBaseRoot('docs/kb');
+    const tools = new FileSystemToolImpl(repository, { knowledgeBaseOnly: true });
+
+    expect(await tools.writeFile('topics/overview.md', '# Overview\n')).toEqual({ success: true });
+    expect(fs.readFileSync(path.join(REPO_PATH, 'docs', 'kb', 'topics', 'overview.md'), 'utf8')).toBe('# Overview\n');
+    expect(await tools.readFile('/topics/overview.md')).toEqual({ success: true, content: '# Overview\n' });
+
+    expect(await tools.readFile('../../src/index.ts')).toMatchObject({ success: false, error: expect.stringContaining('outside the knowledge base') });
+    expect(await tools.writeFile('linked/index.ts', 'hacked')).toMatchObject({ success: false, error: expect.stringContaining('symlink') });
+    expect(fs.readFileSync(path.join(REPO_PATH, 'src', 'index.ts'), 'utf8')).toBe('export {};\n');
+
+    const tree = await tools.getFileTree('topics');
+    expect(tree.tree).toMatchObject({ path: 'topics', children: [{ name: 'overview.md', path: 'topics/overview.md' }] });
+
+    expect(repository.knowledgeBasePath('index.md')).toBe('docs/kb/index.md');
+    expect(repository.isInKnowledgeBase('src/index.ts')).toBe(false);
+    expect(() => repository.knowledgeBasePath('../README.md')).toThrow(PathOutsideRepositoryError);
+  });
+
+  it('applies path_to_kb from the repository configuration', async () => {
+    const configPath = path.join(TEST_DIR, 'config.local.json');
+    fs.writeFileSync(configPath, JSON.stringify({ version: 1, repositories: [] }));
+    const manager = new RepositoryManager(configPath);
+    manager.setCloneBaseDirectory(path.join(TEST_DIR, 'clones'));
+    await manager.loadConfiguration();
+
+    const id = await manager.addNewRepositoryConfig({ name: 'Code', type: 'local', path: REPO_PATH, path_to_kb: 'docs/kb' });
+    expect(manager.getRepository(id).getKnowledgeBaseRoot()).toBe('docs/kb');
+
+    await expect(manager.addNewRepositoryConfig({ name: 'Escaping', type: 'local', path: path.join(TEST_DIR, 'other'), path_to_kb: '../kb' }))
+      .rejects.toThrow('Invalid path_to_kb');
+    expect(manager.getRepositoryByName('Escaping')).toBeUndefined();
+  });
+});
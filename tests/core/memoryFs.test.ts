@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import nodeFs from 'fs';
+
+import { Repository } from '../../src/core/repository';
+import { MemoryFs } from '../../src/core/memoryFs';
+import { TimelineService } from '../../src/core/timelineService';
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { PathOutsideRepositoryError } from '../../src/core/errors';
+import { LLMService } from '../../src/orchestrator/llmService';
+import { OrchestratorService } from '../../src/orchestrator/orchestratorService';
+import { KnowledgeBaseService } from '../../src/knowledge-base/knowledgeBaseService';
+import { SearchService } from '../../src/search/searchService';
+
+const author = { name: 'Test Author', email: 'test@example.com' };
+
+describe('MemoryFs', () => {
+  it('should behave like the disk for basic file operations', async () => {
+    const memoryFs = new MemoryFs();
+    const fs = memoryFs.promises;
+
+    await fs.mkdir('/repo/notes', { recursive: true });
+    await fs.writeFile('/repo/notes/a.md', 'alpha', 'utf8');
+    expect(await fs.readFile('/repo/notes/a.md', 'utf8')).toBe('alpha');
+    expect(await fs.readdir('/repo')).toEqual(['notes']);
+    expect((await fs.stat('/repo/notes')).isDirectory()).toBe(true);
+
+    await fs.rename('/repo/notes/a.md', '/repo/b.md');
+    await expect(fs.readFile('/repo/notes/a.md')).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(fs.rmdir('/repo')).rejects.toMatchObject({ code: 'ENOTEMPTY' });
+
+    await fs.symlink('/repo/b.md', '/repo/link.md');
+    expect(await fs.realpath('/repo/link.md')).toBe('/repo/b.md');
+    expect((await fs.lstat('/repo/link.md')).isSymbolicLink()).toBe(true);
+
+    await fs.rm('/repo', { recursive: true });
+    await expect(fs.stat('/repo')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
+
+describe('Repository on MemoryFs', () => {
+  it('should commit, diff and blame without touching the disk', async () => {
+    const repository = await Repository.init('/kb', { fs: new MemoryFs() });
+
+    await repository.writeFile('topics/a.md', 'one\ntwo\n');
+    await repository.add(['topics/a.md']);
+    const first = await repository.commit({ message: 'First', author });
+    // Same size as the previous content, written within the same second
+    await repository.writeFile('topics/a.md', 'one\nTWO\n');
+    expect((await repository.getStatus()).files).toEqual([
+      expect.objectContaining({ path: 'topics/a.md', modified: true }),
+    ]);
+    await repository.add(['topics/a.md']);
+    const second = await repository.commit({ message: 'Second', author });
+
+    const diff = await repository.compareRefs(first.hash, second.hash);
+    expect(diff.files.map(f => [f.path, f.additions, f.deletions])).toEqual([['topics/a.md', 1, 1]]);
+    expect((await repository.blame('topics/a.md')).lines.map(l => l.commit)).toEqual([first.hash, second.hash]);
+
+    await repository.moveFile('topics/a.md', 'topics/b.md');
+    await repository.commit({ message: 'Move', author });
+    expect(await repository.listFiles('topics')).toEqual([expect.objectContaining({ path: 'topics/b.md' })]);
+    expect(await repository.getMimeType('topics/b.md')).toBe('text/markdown');
+  });
+
+  it('should enforce the path sandbox', async () => {
+    const memoryFs = new MemoryFs();
+    const repository = await Repository.init('/kb', { fs: memoryFs });
+    await memoryFs.promises.mkdir('/outside', { recursive: true });
+    await memoryFs.promises.symlink('/outside', '/kb/linked');
+
+    await expect(repository.writeFile('../outside/escape.md', 'x')).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+    await expect(repository.writeFile('linked/escape.md', 'x')).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+    expect(await memoryFs.promises.readdir('/outside')).toEqual([]);
+  });
+
+  it('should run the timeline and blame flow of an ingestion in memory', async () => {
+    const repository = await Repository.init('/kb', { fs: new MemoryFs() });
+    const timelineService = new TimelineService();
+
+    const rawPath = '.lspace/raw_inputs/notes.txt';
+    await repository.writeFile(rawPath, 'raw notes');
+    const raw = await repository.commitChanges([rawPath], 'Add raw input notes.txt', author,
+      { operation: 'raw-input', source: rawPath });
+    const entry = await timelineService.addEntry(repository, {
+      operation: 'add',
+      path: rawPath,
+      title: 'notes.txt',
+      user: 'tester',
+      commit: { id: raw.hash, message: 'Add raw input notes.txt' },
+    });
+    await repository.writeFile('kb/notes.md', '# Notes\n');
+    const kb = await repository.commitChanges(['kb/notes.md'], 'Update the knowledge base', author,
+      { operation: 'kb-update', source: rawPath, rawCommit: raw.hash, timelineId: entry.id });
+
+    const blame = await timelineService.getBlameWithSources(repository, 'kb/notes.md');
+    expect(blame.sources[kb.hash]).toMatchObject({ rawInputPath: rawPath, rawInputCommit: raw.hash, timelineEntryId: entry.id });
+  });
+});
+
+describe('RepositoryManager.createScratchRepository', () => {
+  it('should register an in-memory repository that is not saved to the configuration', async () => {
+    const repositoryManager = new RepositoryManager();
+    const id = await repositoryManager.createScratchRepository('scratch');
+
+    const repository = repositoryManager.getRepository(id);
+    expect(repository.fs).toBeInstanceOf(MemoryFs);
+    expect(await repository.readFile('README.md')).toBe('# scratch\n');
+    expect((await repositoryManager.getRepositoryInfo(id))?.type).toBe('scratch');
+    await expect(repositoryManager.createScratchRepository('scratch')).rejects.toThrow('already exists');
+  });
+});
+
+describe('OrchestratorService on a scratch repository', () => {
+  it('should ingest content into the in-memory repository without touching the disk', async () => {
+    const repositoryManager = new RepositoryManager();
+    const id = await repositoryManager.createScratchRepository('scratch');
+    const repository = repositoryManager.getRepository(id);
+
+    // The LLM writes one article per input through its file tools
+    const defaultPath = '/lspace-llm-default-repository';
+    const llmService = new LLMService({ apiKey: 'test-key', repositoryPath: defaultPath });
+    vi.spyOn(llmService, 'callLLMWithHistory').mockImplementation(async (history, availableTools) => {
+      if (availableTools.length === 0) {
+        return '{}'; // Contradiction analysis and the commit summary
+      }
+      if (history.length > 2) {
+        return JSON.stringify({ content: JSON.stringify({ status: 'completed_file_processing' }) });
+      }
+      const name = String(history[1].content).includes('snippet notes') ? 'snippet' : 'document';
+      const args = JSON.stringify({ path: `${name}.md`, content: `# ${name}\n` });
+      return JSON.stringify({ tool_calls: [{ id: `call-${name}`, type: 'function', function: { name: 'write_file', arguments: args } }] });
+    });
+    const knowledgeBaseService = new KnowledgeBaseService(llmService, new TimelineService(), {} as SearchService);
+    const orchestrator = new OrchestratorService(repositoryManager, llmService, knowledgeBaseService);
+
+    const snippet = await orchestrator.processInput({ type: 'text_snippet', repositoryId: id, title: 'Notes', content: 'snippet notes' });
+    expect(snippet.knowledgeBaseUpdated).toBe(true);
+    expect(await repository.getUnstagedFiles()).toEqual([]);
+    await orchestrator.processDocument(id, 'document notes', 'tester', 'notes.md');
+
+    expect(await repository.readFile('snippet.md')).toBe('# snippet\n');
+    expect(await repository.readFile('document.md')).toBe('# document\n');
+    expect(nodeFs.existsSync(repository.path)).toBe(false);
+    expect(nodeFs.existsSync(defaultPath)).toBe(false);
+  });
+});
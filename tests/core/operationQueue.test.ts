@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+
+import { RepositoryOperationQueue } from '../../src/core/operationQueue';
+import { RepositoryBusyError } from '../../src/core/errors';
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('RepositoryOperationQueue', () => {
+  it('should run operations on the same repository one at a time, in order', async () => {
+    const queue = new RepositoryOperationQueue();
+    const events: string[] = [];
+    const firstRelease = deferred();
+
+    const first = queue.run('repo', 'ingestion', async () => {
+      events.push('first:start');
+      await firstRelease.promise;
+      events.push('first:end');
+    });
+    const second = queue.run('repo', 'file-update', async () => {
+      events.push('second');
+    });
+
+    await new Promise(r => setImmediate(r));
+    expect(events).toEqual(['first:start']);
+    expect(queue.getStatus('repo')).toMatchObject({
+      depth: 2,
+      running: { operation: 'ingestion' },
+      waiting: [{ operation: 'file-update' }],
+    });
+
+    firstRelease.resolve();
+    await Promise.all([first, second]);
+    expect(events).toEqual(['first:start', 'first:end', 'second']);
+    expect(queue.getDepth('repo')).toBe(0);
+  });
+
+  it('should not block operations on other repositories', async () => {
+    const queue = new RepositoryOperationQueue();
+    const release = deferred();
+    const blocked = queue.run('repo-a', 'ingestion', () => release.promise);
+
+    await expect(queue.run('repo-b', 'ingestion', async () => 'done')).resolves.toBe('done');
+
+    release.resolve();
+    await blocked;
+  });
+
+  it('should allow nested operations on a repository it already holds', async () => {
+    const queue = new RepositoryOperationQueue();
+    const result = await queue.run('repo', 'revert', () =>
+      queue.run('repo', 'sync', async () => 'synced'), { waitTimeoutMs: 50 });
+    expect(result).toBe('synced');
+  });
+
+  it('should fail with RepositoryBusyError after the wait timeout and release the slot', async () => {
+    const queue = new RepositoryOperationQueue();
+    const release = deferred();
+    const blocked = queue.run('repo', 'ingestion', () => release.promise);
+
+    let ran = false;
+    const waiting = queue.run('repo', 'file-update', async () => { ran = true; }, { waitTimeoutMs: 20 });
+    await expect(waiting).rejects.toBeInstanceOf(RepositoryBusyError);
+    expect(queue.getDepth('repo')).toBe(1);
+
+    release.resolve();
+    await blocked;
+    expect(ran).toBe(false);
+    expect(queue.getDepth('repo')).toBe(0);
+  });
+
+  it('should release the repository when an operation throws', async () => {
+    const queue = new RepositoryOperationQueue();
+    await expect(queue.run('repo', 'ingestion', async () => { throw new Error('LLM failed'); })).rejects.toThrow('LLM failed');
+    await expect(queue.run('repo', 'ingestion', async () => 'ok')).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+import { PushOutbox, pushRetryDelay } from '../../src/core/pushOutbox';
+import { RepositoryOperationQueue } from '../../src/core/operationQueue';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'push-outbox');
+const OUTBOX_PATH = path.join(TEST_DIR, 'push-outbox.local.json');
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('PushOutbox', () => {
+  const outboxes: PushOutbox[] = [];
+  const createOutbox = (push: (repositoryId: string) => Promise<void>, baseDelayMs = 60 * 1000) => {
+    const outbox = new PushOutbox(OUTBOX_PATH, push, { baseDelayMs, maxDelayMs: 10 * baseDelayMs });
+    outboxes.push(outbox);
+    return outbox;
+  };
+
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    outboxes.splice(0).forEach(outbox => outbox.stop());
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('pushes right away and keeps nothing when the push goes through', async () => {
+    const pushed: string[] = [];
+    const outbox = createOutbox(async repositoryId => { pushed.push(repositoryId); });
+
+    expect(await outbox.enqueue('kb')).toBeNull();
+    expect(pushed).toEqual(['kb']);
+    expect(outbox.list()).toEqual([]);
+  });
+
+  it('keeps a failed push on disk and retries it after a restart', async () => {
+    const offline = createOutbox(async () => { throw new Error('Could not resolve host: github.com'); });
+    const pending = await offline.enqueue('kb');
+    expect(pending).toMatchObject({ repositoryId: 'kb', state: 'failed', attempts: 1, lastError: 'Could not resolve host: github.com' });
+    expect(Date.parse(pending!.nextAttemptAt!)).toBeGreaterThan(Date.now());
+    offline.stop();
+
+    const pushed: string[] = [];
+    const online = createOutbox(async repositoryId => { pushed.push(repositoryId); });
+    await online.load();
+    expect(online.get('kb')).toMatchObject({ state: 'failed', attempts: 1 });
+
+    expect(await online.retry('kb')).toBeNull();
+    expect(pushed).toEqual(['kb']);
+    expect(online.list()).toEqual([]);
+    expect(JSON.parse(fs.readFileSync(OUTBOX_PATH, 'utf8')).pushes).toEqual([]);
+  });
+
+  it('retries on its own with backoff', async () => {
+    let failures = 2;
+    const outbox = createOutbox(async () => {
+      if (failures-- > 0) {
+        throw new Error('offline');
+      }
+    }, 10);
+
+    expect(await outbox.enqueue('kb')).not.toBeNull();
+    await new Promise(r => setTimeout(r, 200));
+    expect(outbox.get('kb')).toBeNull();
+  });
+
+  it('pushes again when a commit is requested while a push is running', async () => {
+    const started = deferred();
+    const release = deferred();
+    let pushes = 0;
+    const outbox = createOutbox(async () => {
+      pushes += 1;
+      if (pushes === 1) {
+        started.resolve();
+        await release.promise;
+      }
+    });
+
+    const first = outbox.enqueue('kb');
+    await started.promise;
+    const second = outbox.enqueue('kb');
+    release.resolve();
+
+    expect(await first).toBeNull();
+    expect(await second).toBeNull();
+    expect(pushes).toBe(2);
+    expect(outbox.list()).toEqual([]);
+  });
+
+  it('waits for the repository lock when a retry scheduled under it fires', async () => {
+    const queue = new RepositoryOperationQueue();
+    const events: string[] = [];
+    let failures = 1;
+    const outbox = createOutbox(repositoryId => queue.run(repositoryId, 'push', async () => {
+      if (failures-- > 0) {
+        throw new Error('offline');
+      }
+      events.push('push');
+    }), 10);
+
+    // The ingestion pushes while it holds the lock; the push fails and a retry is scheduled
+    await queue.run('kb', 'ingestion', async () => {
+      expect(await outbox.enqueue('kb')).not.toBeNull();
+    });
+
+    const release = deferred();
+    const sync = queue.run('kb', 'sync', async () => {
+      await new Promise(r => setTimeout(r, 100)); // The retry fires meanwhile
+      events.push('sync');
+      await release.promise;
+    });
+    await vi.waitFor(() => expect(queue.getStatus('kb').waiting).toEqual([expect.objectContaining({ operation: 'push' })]));
+    expect(events).toEqual([]);
+
+    release.resolve();
+    await sync;
+    await vi.waitFor(() => expect(outbox.get('kb')).toBeNull());
+    expect(events).toEqual(['sync', 'push']);
+  });
+
+  it('doubles the retry delay up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(attempts => pushRetryDelay(attempts, 1000, 5000))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+});
@@ -0,0 +1,450 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import git from 'isomorphic-git';
+
+import { Repository } from '../../src/core/repository';
+import { LocalGitAdapter } from '../../src/adapters/localGitAdapter';
+import { PathOutsideRepositoryError, ProtectedPathError } from '../../src/core/errors';
+
+// Get the current directory
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Path to test repository
+const TEST_REPO_PATH = path.join(__dirname, '..', '..', 'test-repos', 'repository-core');
+
+const author = { name: 'Test Author', email: 'test@example.com' };
+
+async function createRepository(): Promise<Repository> {
+  await new LocalGitAdapter().initialize(TEST_REPO_PATH);
+  return new Repository(TEST_REPO_PATH);
+}
+
+async function commitFile(repository: Repository, filePath: string, content: string, message: string): Promise<string> {
+  await repository.writeFile(filePath, content);
+  await repository.add([filePath]);
+  const result = await repository.commit({ message, author });
+  expect(result.success).toBe(true);
+  return result.hash;
+}
+
+describe('Repository', () => {
+  beforeEach(() => {
+    if (fs.existsSync(TEST_REPO_PATH)) {
+      fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+    }
+    fs.mkdirSync(TEST_REPO_PATH, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+  });
+
+  describe('getStatus', () => {
+    it('should classify working tree changes', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'kept.md', 'kept', 'Add kept');
+      await commitFile(repository, 'changed.md', 'v1', 'Add changed');
+      await commitFile(repository, 'removed.md', 'gone soon', 'Add removed');
+
+      await repository.writeFile('changed.md', 'version two');
+      await repository.writeFile('staged.md', 'new and staged');
+      await repository.add(['staged.md']);
+      await repository.writeFile('untracked.md', 'new');
+      fs.unlinkSync(path.join(TEST_REPO_PATH, 'removed.md'));
+
+      const status = await repository.getStatus();
+      const byPath = Object.fromEntries(status.files.map(f => [f.path, f]));
+
+      expect(status.branch).toBe('master');
+      expect(byPath['kept.md']).toBeUndefined();
+      expect(byPath['changed.md']).toMatchObject({ modified: true, staged: false, untracked: false });
+      expect(byPath['staged.md']).toMatchObject({ added: true, staged: true, untracked: false });
+      expect(byPath['untracked.md']).toMatchObject({ untracked: true, staged: false, added: false });
+      expect(byPath['removed.md']).toMatchObject({ deleted: true, staged: false });
+    });
+
+    it('should report ahead and behind counts against the tracking branch', async () => {
+      const repository = await createRepository();
+      const base = await commitFile(repository, 'a.md', 'a', 'Base');
+      await git.writeRef({ fs, dir: TEST_REPO_PATH, ref: 'refs/remotes/origin/master', value: base });
+
+      await commitFile(repository, 'b.md', 'b', 'Local 1');
+      await commitFile(repository, 'c.md', 'c', 'Local 2');
+
+      let status = await repository.getStatus();
+      expect(status.tracking).toBe('origin/master');
+      expect(status.ahead).toBe(2);
+      expect(status.behind).toBe(0);
+
+      const remoteOnly = await git.commit({
+        fs,
+        dir: TEST_REPO_PATH,
+        message: 'Remote change',
+        author,
+        tree: (await git.readCommit({ fs, dir: TEST_REPO_PATH, oid: base })).commit.tree,
+        parent: [base],
+        noUpdateBranch: true,
+      });
+      await git.writeRef({ fs, dir: TEST_REPO_PATH, ref: 'refs/remotes/origin/master', value: remoteOnly, force: true });
+
+      status = await repository.getStatus();
+      expect(status.ahead).toBe(2);
+      expect(status.behind).toBe(1);
+    });
+
+    it('should report no tracking branch when there is no remote ref', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'a.md', 'a', 'Base');
+
+      const status = await repository.getStatus();
+      expect(status.tracking).toBeNull();
+      expect(status.ahead).toBe(0);
+      expect(status.behind).toBe(0);
+    });
+  });
+
+  describe('getCommitDiff', () => {
+    it('should produce a unified diff against the parent commit', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'notes/topic.md', 'line 1\nline 2\nline 3\n', 'Add topic');
+      await repository.writeFile('notes/topic.md', 'line 1\nline two\nline 3\n');
+      await repository.writeFile('notes/new.md', 'fresh\n');
+      await repository.add(['notes/topic.md', 'notes/new.md']);
+      const { hash } = await repository.commit({ message: 'Update topic', author });
+
+      const diff = await repository.getCommitDiff(hash);
+      expect(diff).toContain(`commit ${hash}`);
+      expect(diff).toContain('    Update topic');
+      expect(diff).toContain('diff --git a/notes/topic.md b/notes/topic.md');
+      expect(diff).toContain('@@ -1,3 +1,3 @@\n line 1\n-line 2\n+line two\n line 3\n');
+      expect(diff).toContain('new file mode 100644');
+      expect(diff).toContain('--- /dev/null\n+++ b/notes/new.md\n@@ -0,0 +1 @@\n+fresh\n');
+      expect(diff).not.toContain('placeholder');
+    });
+
+    it('should honour the context line option', async () => {
+      const repository = await createRepository();
+      const lines = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`);
+      await commitFile(repository, 'a.md', lines.join('\n') + '\n', 'Add a');
+      lines[4] = 'changed';
+      const hash = await commitFile(repository, 'a.md', lines.join('\n') + '\n', 'Change a');
+
+      const diff = await repository.getCommitDiff(hash, { contextLines: 0 });
+      expect(diff).toContain('@@ -5 +5 @@\n-line 5\n+changed\n');
+      expect(diff).not.toContain(' line 4');
+    });
+
+    it('should return structured per-file diffs with line counts', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'a.md', 'one\ntwo\n', 'Add a');
+      await commitFile(repository, 'b.md', 'keep\n', 'Add b');
+      await repository.writeFile('a.md', 'one\n2\n3\n');
+      await repository.deleteFile('b.md');
+      await repository.add(['a.md']);
+      const { hash } = await repository.commit({ message: 'Edit and delete', author });
+
+      const result = await repository.getCommitFileDiffs(hash);
+      const byPath = Object.fromEntries(result.files.map(f => [f.path, f]));
+      expect(byPath['a.md']).toMatchObject({ status: 'modify', additions: 2, deletions: 1, binary: false });
+      expect(byPath['b.md']).toMatchObject({ status: 'delete', additions: 0, deletions: 1 });
+      expect(result.additions).toBe(2);
+      expect(result.deletions).toBe(2);
+      expect(result.message).toBe('Edit and delete\n');
+    });
+
+    it('should throw for an unknown commit', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'a.md', 'a', 'Base');
+      await expect(repository.getCommitDiff('0'.repeat(40))).rejects.toThrow('Commit not found');
+    });
+  });
+
+  describe('compareRefs', () => {
+    it('should compare branches, tags and SHAs with rename detection', async () => {
+      const repository = await createRepository();
+      const body = Array.from({ length: 8 }, (_, i) => `paragraph ${i + 1}`).join('\n') + '\n';
+      const base = await commitFile(repository, 'drafts/article.md', body, 'Add article');
+      await git.annotatedTag({ fs, dir: TEST_REPO_PATH, ref: 'week-1', object: base, message: 'Week 1', tagger: author });
+
+      await repository.writeFile('published/article.md', body.replace('paragraph 8', 'paragraph eight'));
+      await repository.deleteFile('drafts/article.md');
+      await repository.writeFile('published/other.md', 'other\n');
+      await repository.add(['published/article.md', 'published/other.md']);
+      const { hash: head } = await repository.commit({ message: 'Publish article', author });
+
+      const result = await repository.compareRefs('week-1', 'master');
+      expect(result.base.commit).toBe(base);
+      expect(result.head.commit).toBe(head);
+      expect(result.mergeBase).toBe(base);
+      expect(result.commits.map(c => c.oid)).toEqual([head]);
+
+      const byPath = Object.fromEntries(result.files.map(f => [f.path, f]));
+      expect(Object.keys(byPath).sort()).toEqual(['published/article.md', 'published/other.md']);
+      expect(byPath['published/article.md']).toMatchObject({
+        status: 'rename',
+        oldPath: 'drafts/article.md',
+        additions: 1,
+        deletions: 1,
+      });
+      expect(byPath['published/article.md'].similarity).toBeGreaterThanOrEqual(50);
+      expect(byPath['published/other.md']).toMatchObject({ status: 'add' });
+
+      const diff = (await repository.compareRefs(base.slice(0, 7), head)).files;
+      expect(diff).toHaveLength(2);
+    });
+
+    it('should throw for unknown refs', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'a.md', 'a', 'Base');
+      await expect(repository.compareRefs('nope', 'master')).rejects.toThrow('Ref not found: nope');
+    });
+  });
+
+  describe('add', () => {
+    it('should stage the deletion of a missing tracked file and reject an unknown path', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'topics/a.md', 'a', 'Add a');
+      fs.rmSync(path.join(TEST_REPO_PATH, 'topics'), { recursive: true });
+
+      await repository.add(['topics/a.md']);
+      expect((await repository.getStatus()).files).toEqual([
+        expect.objectContaining({ path: 'topics/a.md', deleted: true, staged: true }),
+      ]);
+
+      await expect(repository.add(['missing.md'])).rejects.toThrow('File not found: missing.md');
+    });
+  });
+
+  describe('getChangedFilesInCommit', () => {
+    it('should list changes without reading the contents of modified files', async () => {
+      const repository = await createRepository();
+      await repository.writeFile('notes.md', 'one\ntwo\nthree\nfour\n');
+      await repository.writeFile('old.md', 'stays\n');
+      await repository.writeFile('gone.md', 'gone');
+      await repository.add(['notes.md', 'old.md', 'gone.md']);
+      await repository.commit({ message: 'Base', author });
+
+      await repository.writeFile('notes.md', 'one\ntwo\nthree\nfive\n');
+      await repository.moveFile('old.md', 'new.md');
+      await repository.deleteFile('gone.md');
+      await repository.writeFile('added.md', 'added');
+      await repository.add(['notes.md', 'added.md']);
+      const { hash } = await repository.commit({ message: 'Change', author });
+
+      const readBlobContent = vi.spyOn(repository as any, 'readBlobContent');
+      expect(await repository.getChangedFilesInCommit(hash)).toEqual([
+        { path: 'added.md', status: 'add' },
+        { path: 'gone.md', status: 'delete' },
+        { path: 'new.md', status: 'rename', oldPath: 'old.md', similarity: 100 },
+        { path: 'notes.md', status: 'modify' },
+      ]);
+      // Each deleted and added blob is read once to score renames; the modified file is not read
+      expect(readBlobContent).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('moveFile', () => {
+    it('should stage a move so the commit records a rename', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'drafts/idea.md', '# Idea\n\nSome thoughts.\n', 'Add idea');
+
+      await repository.moveFile('drafts/idea.md', 'topics/idea.md');
+      const status = await repository.getStatus();
+      expect(status.files.find(f => f.path === 'drafts/idea.md')).toMatchObject({ deleted: true, staged: true });
+      expect(status.files.find(f => f.path === 'topics/idea.md')).toMatchObject({ added: true, staged: true });
+
+      const { hash } = await repository.commit({ message: 'Move idea', author });
+      const changes = await repository.getChangedFilesInCommit(hash);
+      expect(changes).toEqual([{ path: 'topics/idea.md', status: 'rename', oldPath: 'drafts/idea.md', similarity: 100 }]);
+
+      const diff = await repository.getCommitDiff(hash);
+      expect(diff).toContain('rename from drafts/idea.md\nrename to topics/idea.md');
+    });
+
+    it('should refuse to overwrite an existing destination', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'a.md', 'a', 'Add a');
+      await commitFile(repository, 'b.md', 'b', 'Add b');
+      await expect(repository.moveFile('a.md', 'b.md')).rejects.toThrow('Destination already exists');
+    });
+
+    it('should move a renamed file back when the commit is reverted', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'old.md', 'content\n', 'Add old');
+      await repository.moveFile('old.md', 'new.md');
+      const { hash } = await repository.commit({ message: 'Rename', author });
+
+      const result = await repository.revertCommit(hash, { message: 'Revert rename', author });
+      expect(result.success).toBe(true);
+      expect(await repository.fileExists('old.md')).toBe(true);
+      expect(await repository.fileExists('new.md')).toBe(false);
+    });
+  });
+
+  describe('blame', () => {
+    it('should attribute each line to the commit that last changed it, across renames', async () => {
+      const repository = await createRepository();
+      const first = await commitFile(repository, 'draft.md', 'alpha\nbeta\ngamma\n', 'First');
+      const second = await commitFile(repository, 'draft.md', 'alpha\nBETA\ngamma\ndelta\n', 'Second');
+      await repository.moveFile('draft.md', 'final.md');
+      await repository.commit({ message: 'Move', author });
+
+      const blame = await repository.blame('final.md');
+      expect(blame.lines.map(l => [l.content, l.commit])).toEqual([
+        ['alpha', first],
+        ['BETA', second],
+        ['gamma', first],
+        ['delta', second],
+      ]);
+      expect(blame.commits[first]).toMatchObject({ message: 'First\n', path: 'draft.md' });
+    });
+
+    it('should throw when the file does not exist at the ref', async () => {
+      const repository = await createRepository();
+      await commitFile(repository, 'a.md', 'a', 'Base');
+      await expect(repository.blame('missing.md')).rejects.toThrow('File not found');
+    });
+  });
+
+  describe('binary files', () => {
+    it('should round-trip binary content through the working tree and git', async () => {
+      const repository = await createRepository();
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0x10, 0x80]);
+
+      await repository.writeFileBuffer('assets/diagram.png', png);
+      await repository.add(['assets/diagram.png']);
+      const { hash } = await repository.commit({ message: 'Add diagram', author });
+
+      expect(Buffer.compare(await repository.readFileBuffer('assets/diagram.png'), png)).toBe(0);
+      expect(Buffer.compare((await repository.getFileBufferAtCommit(hash, 'assets/diagram.png'))!, png)).toBe(0);
+      expect(await repository.getMimeType('assets/diagram.png')).toBe('image/png');
+
+      const diff = await repository.getCommitDiff(hash);
+      expect(diff).toContain('Binary files /dev/null and b/assets/diagram.png differ');
+    });
+  });
+
+  describe('restoreTree', () => {
+    it('should commit the target tree on top of history instead of moving the branch', async () => {
+      const repository = await createRepository();
+      const first = await commitFile(repository, 'a.md', 'first version', 'First');
+      await commitFile(repository, 'a.md', 'second, longer version', 'Second');
+      const head = await commitFile(repository, 'b.md', 'b', 'Add b');
+      await repository.writeFile('notes.txt', 'untracked');
+
+      const result = await repository.restoreTree(first, { message: 'Restore first', author });
+
+      expect(result.restoredFiles).toEqual(['a.md']);
+      expect(result.deletedFiles).toEqual(['b.md']);
+      expect(await repository.getParentCommit(result.commit!.hash)).toBe(head);
+      expect(await repository.readFile('a.md')).toBe('first version');
+      expect(await repository.fileExists('b.md')).toBe(false);
+      expect(await repository.readFile('notes.txt')).toBe('untracked');
+
+      const comparison = await repository.compareRefs(first, result.commit!.hash);
+      expect(comparison.files).toEqual([]);
+    });
+
+    it('should commit exactly the target tree whatever the working tree and index hold', async () => {
+      const repository = await createRepository();
+      const first = await commitFile(repository, 'a.md', 'first version', 'First');
+      await commitFile(repository, 'a.md', 'second version', 'Second');
+      // Already matches the target, but only in the working tree
+      await repository.writeFile('a.md', 'first version');
+      // Staged, but not part of the target
+      await repository.writeFile('draft.md', 'draft');
+      await repository.add(['draft.md']);
+
+      const result = await repository.restoreTree(first, { message: 'Restore first', author });
+
+      expect(result.restoredFiles).toEqual(['a.md']);
+      expect((await repository.compareRefs(first, result.commit!.hash)).files).toEqual([]);
+      expect(await repository.readFile('draft.md')).toBe('draft');
+      expect((await repository.getStatus()).files).toEqual([
+        expect.objectContaining({ path: 'draft.md', staged: false, untracked: true }),
+      ]);
+    });
+  });
+
+  describe('commit trailers', () => {
+    it('should link raw input and KB commits through trailers', async () => {
+      const repository = await createRepository();
+      await repository.writeFile('.lspace/raw_inputs/notes.md', 'raw notes');
+      const raw = await repository.commitChanges(['.lspace/raw_inputs/notes.md'], 'Add raw input: notes.md', author,
+        { operation: 'raw-input', source: '.lspace/raw_inputs/notes.md', timelineId: 'entry-1' });
+      await commitFile(repository, 'unrelated.md', 'unrelated', 'Unrelated change');
+      await repository.writeFile('topics/notes.md', '# Notes\n');
+      const kb = await repository.commitChanges(['topics/notes.md'], 'Update the knowledge base', author,
+        { operation: 'kb-update', source: '.lspace/raw_inputs/notes.md', rawCommit: raw.hash, promptVersion: '1' });
+
+      expect(await repository.getCommitTrailers(kb.hash)).toEqual({
+        operation: 'kb-update',
+        source: '.lspace/raw_inputs/notes.md',
+        rawCommit: raw.hash,
+        promptVersion: '1',
+      });
+
+      const found = await repository.findCommitsByTrailers({ rawCommit: raw.hash });
+      expect(found.map(c => c.oid)).toEqual([kb.hash]);
+
+      const relations = await repository.getCommitRelations(kb.hash);
+      expect(relations.rawCommit?.oid).toBe(raw.hash);
+      expect(relations.kbCommits.map(c => c.oid)).toEqual([kb.hash]);
+      expect(relations.timelineId).toBe('entry-1');
+
+      // The message does not mention the file, so only the trailer can match
+      const related = await repository.findRelatedKbCommit('notes.md', raw.hash);
+      expect(related?.oid).toBe(kb.hash);
+    });
+  });
+
+  describe('path sandbox', () => {
+    const OUTSIDE_PATH = path.join(TEST_REPO_PATH, '..', 'repository-core-outside');
+
+    beforeEach(() => {
+      fs.rmSync(OUTSIDE_PATH, { recursive: true, force: true });
+      fs.mkdirSync(OUTSIDE_PATH, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(OUTSIDE_PATH, { recursive: true, force: true });
+    });
+
+    it('should reject paths that escape the repository root', async () => {
+      const repository = await createRepository();
+
+      await expect(repository.writeFile('../repository-core-outside/escape.md', 'x')).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+      await expect(repository.readFile('notes/../../../etc/passwd')).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+      await expect(repository.fileExists(path.join(OUTSIDE_PATH, 'escape.md'))).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+      expect(fs.existsSync(path.join(OUTSIDE_PATH, 'escape.md'))).toBe(false);
+    });
+
+    it('should reject symlinks that lead outside the repository', async () => {
+      const repository = await createRepository();
+      fs.writeFileSync(path.join(OUTSIDE_PATH, 'secret.md'), 'secret');
+      fs.symlinkSync(OUTSIDE_PATH, path.join(TEST_REPO_PATH, 'linked'));
+      fs.symlinkSync(path.join(OUTSIDE_PATH, 'missing.md'), path.join(TEST_REPO_PATH, 'dangling.md'));
+
+      await expect(repository.readFile('linked/secret.md')).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+      await expect(repository.writeFile('linked/new.md', 'x')).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+      await expect(repository.writeFile('dangling.md', 'x')).rejects.toBeInstanceOf(PathOutsideRepositoryError);
+      expect(fs.existsSync(path.join(OUTSIDE_PATH, 'new.md'))).toBe(false);
+      expect(fs.existsSync(path.join(OUTSIDE_PATH, 'missing.md'))).toBe(false);
+    });
+
+    it('should reject writes into .git but allow paths that stay inside the repository', async () => {
+      const repository = await createRepository();
+
+      await expect(repository.writeFile('.git/hooks/post-commit', 'x')).rejects.toBeInstanceOf(ProtectedPathError);
+      await expect(repository.writeFile('notes/../.git/config', 'x')).rejects.toBeInstanceOf(ProtectedPathError);
+      await expect(repository.deleteFile('.git/HEAD')).rejects.toBeInstanceOf(ProtectedPathError);
+      expect(await repository.fileExists('.git/HEAD')).toBe(true);
+
+      await repository.writeFile('notes/../topic.md', '# Topic\n');
+      expect(await repository.readFile(path.join(TEST_REPO_PATH, 'topic.md'))).toBe('# Topic\n');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { execFileSync } from 'child_process';
+import { fileURLToPath } from 'url';
+
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { DoctorReport, RepositoryDoctor } from '../../src/core/repositoryDoctor';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'repository-doctor');
+const CONFIG_PATH = path.join(TEST_DIR, 'config.local.json');
+const REMOTE_PATH = path.join(TEST_DIR, 'remote.git');
+const CLONES_PATH = path.join(TEST_DIR, 'clones');
+const CLONE_PATH = path.join(CLONES_PATH, 'git', 'team-kb');
+
+const author = { name: 'Test Author', email: 'test@example.com' };
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', ['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`, ...args], { cwd, stdio: 'pipe' }).toString();
+}
+
+function check(report: DoctorReport, id: string) {
+  return report.checks.find(candidate => candidate.id === id)!;
+}
+
+describe('RepositoryDoctor', () => {
+  let manager: RepositoryManager;
+  let doctor: RepositoryDoctor;
+
+  beforeEach(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    const workPath = path.join(TEST_DIR, 'work');
+    git(['init', '--bare', '--initial-branch=main', REMOTE_PATH]);
+    git(['init', '--initial-branch=main', workPath]);
+    fs.writeFileSync(path.join(workPath, 'README.md'), '# Team KB\n');
+    git(['add', 'README.md'], workPath);
+    git(['commit', '-m', 'Initial commit'], workPath);
+    git(['push', REMOTE_PATH, 'main'], workPath);
+
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify({
+      version: 1,
+      repositories: [{ id: 'team-kb', name: 'Team KB', type: 'git', url: `file://${REMOTE_PATH}`, branch: 'main' }],
+    }));
+    manager = new RepositoryManager(CONFIG_PATH);
+    manager.setCloneBaseDirectory(CLONES_PATH);
+    await manager.loadConfiguration();
+    doctor = new RepositoryDoctor(manager);
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('reports a fresh clone as healthy', async () => {
+    const report = await doctor.diagnose('Team KB');
+
+    expect(report).toMatchObject({ repositoryId: 'team-kb', type: 'git', path: CLONE_PATH, status: 'healthy' });
+    expect(report.checks.map(candidate => candidate.id)).toEqual([
+      'path', 'git-repository', 'head', 'shallow', 'working-tree', 'unpushed-commits', 'credentials', 'remote', 'timeline', 'index',
+    ]);
+    expect(check(report, 'remote')).toMatchObject({ status: 'ok' });
+    expect(check(report, 'head')).toMatchObject({ status: 'ok', details: { branch: 'main' } });
+  });
+
+  it('finds local problems and suggests fixes', async () => {
+    fs.writeFileSync(path.join(CLONE_PATH, 'notes.md'), '# Notes\n');
+    git(['add', 'notes.md'], CLONE_PATH);
+    git(['commit', '-m', 'Add notes'], CLONE_PATH);
+    fs.mkdirSync(path.join(CLONE_PATH, '.lspace'), { recursive: true });
+    fs.writeFileSync(path.join(CLONE_PATH, '.lspace', 'timeline.json'), '{"entries": [{"id": "a", "operation": "rename"}');
+    git(['checkout', '--detach', 'HEAD'], CLONE_PATH);
+    fs.writeFileSync(path.join(CLONE_PATH, '.git', 'index.lock'), '');
+
+    const report = await doctor.diagnose('team-kb', { remote: false });
+
+    expect(report.status).toBe('unhealthy');
+    expect(check(report, 'head')).toMatchObject({ status: 'error', fix: expect.stringContaining('checkout main') });
+    expect(check(report, 'working-tree')).toMatchObject({ status: 'warning', details: { files: ['.lspace/timeline.json'] } });
+    expect(check(report, 'unpushed-commits')).toMatchObject({ status: 'warning', details: { ahead: 1 } });
+    expect(check(report, 'remote')).toMatchObject({ status: 'skipped' });
+    expect(check(report, 'timeline')).toMatchObject({ status: 'error', details: { problems: [expect.stringContaining('not valid JSON')] } });
+    expect(check(report, 'index')).toMatchObject({ status: 'error', fix: expect.stringContaining('index.lock') });
+  });
+
+  it('diagnoses repositories whose clone or credential is missing', async () => {
+    fs.rmSync(CLONE_PATH, { recursive: true, force: true });
+    const missingClone = await doctor.diagnose('team-kb', { remote: false });
+    expect(check(missingClone, 'path')).toMatchObject({ status: 'error', fix: expect.stringContaining('reload') });
+    expect(check(missingClone, 'timeline')).toMatchObject({ status: 'skipped' });
+
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify({
+      version: 1,
+      credentials: { github_pats: [], git_credentials: [{ alias: 'gitea', username: 'bot', token: { env: 'LSPACE_DOCTOR_TEST_TOKEN' } }] },
+      // The token cannot be resolved, so setup fails, but the repository stays configured
+      repositories: [{ id: 'gitea-kb', name: 'Gitea KB', type: 'git', url: 'file:///nonexistent/kb.git', branch: 'main', credential_alias: 'gitea' }],
+    }));
+    await manager.loadConfiguration();
+    const missingCredential = await doctor.diagnose('gitea-kb');
+    expect(check(missingCredential, 'credentials')).toMatchObject({ status: 'error', message: expect.stringContaining('env:LSPACE_DOCTOR_TEST_TOKEN') });
+    expect(check(missingCredential, 'remote')).toMatchObject({ status: 'skipped' });
+
+    await expect(doctor.diagnose('unknown')).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { execFileSync } from 'child_process';
+import { fileURLToPath } from 'url';
+
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { UnpushedCommitsError } from '../../src/core/errors';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'repository-removal');
+const CONFIG_PATH = path.join(TEST_DIR, 'config.local.json');
+const REMOTE_PATH = path.join(TEST_DIR, 'remote.git');
+const CLONES_PATH = path.join(TEST_DIR, 'clones');
+const ARCHIVES_PATH = path.join(TEST_DIR, 'archives');
+const CLONE_PATH = path.join(CLONES_PATH, 'git', 'team-kb');
+
+const author = { name: 'Test Author', email: 'test@example.com' };
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', ['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`, ...args], { cwd, stdio: 'pipe' }).toString();
+}
+
+describe('RepositoryManager repository removal', () => {
+  let manager: RepositoryManager;
+
+  beforeEach(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    const workPath = path.join(TEST_DIR, 'work');
+    git(['init', '--bare', '--initial-branch=main', REMOTE_PATH]);
+    git(['init', '--initial-branch=main', workPath]);
+    fs.writeFileSync(path.join(workPath, 'README.md'), '# Team KB\n');
+    git(['add', 'README.md'], workPath);
+    git(['commit', '-m', 'Initial commit'], workPath);
+    git(['push', REMOTE_PATH, 'main'], workPath);
+
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify({
+      version: 1,
+      repositories: [{ id: 'team-kb', name: 'Team KB', type: 'git', url: `file://${REMOTE_PATH}`, branch: 'main' }],
+    }));
+    manager = new RepositoryManager(CONFIG_PATH);
+    manager.setCloneBaseDirectory(CLONES_PATH);
+    manager.setArchiveDirectory(ARCHIVES_PATH);
+    await manager.loadConfiguration();
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('refuses to remove a repository with unpushed commits unless forced', async () => {
+    const repository = manager.getRepository('team-kb');
+    await repository.writeFile('notes.md', '# Notes\n');
+    await repository.add(['notes.md']);
+    await repository.commit({ message: 'Add notes', author });
+
+    await expect(manager.removeRepository('team-kb', { mode: 'purge' })).rejects.toBeInstanceOf(UnpushedCommitsError);
+    expect(await manager.getRepositoryInfo('team-kb')).toBeDefined();
+    expect(fs.existsSync(CLONE_PATH)).toBe(true);
+
+    const result = await manager.removeRepository('team-kb', { mode: 'purge', force: true });
+    expect(result).toMatchObject({ mode: 'purge', path: CLONE_PATH, deleted: true });
+    expect(fs.existsSync(CLONE_PATH)).toBe(false);
+  });
+
+  it('archives the clone with its history and .lspace state before deleting it', async () => {
+    fs.mkdirSync(path.join(CLONE_PATH, '.lspace'), { recursive: true });
+    fs.writeFileSync(path.join(CLONE_PATH, '.lspace', 'timeline.json'), '[]');
+
+    const result = await manager.removeRepository('Team KB', { mode: 'archive' });
+
+    expect(result.deleted).toBe(true);
+    expect(fs.existsSync(CLONE_PATH)).toBe(false);
+    expect(path.dirname(result.archivePath!)).toBe(ARCHIVES_PATH);
+    const entries = execFileSync('tar', ['-tzf', result.archivePath!]).toString().split('\n');
+    expect(entries).toEqual(expect.arrayContaining(['team-kb/.git/HEAD', 'team-kb/.lspace/timeline.json', 'team-kb/README.md']));
+    expect(JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8')).repositories).toEqual([]);
+  });
+
+  it('keeps the clone by default and lists it as orphaned afterwards', async () => {
+    expect(await manager.findOrphanedClones()).not.toContainEqual(expect.objectContaining({ path: CLONE_PATH }));
+
+    const result = await manager.removeRepository('team-kb');
+    expect(result).toMatchObject({ mode: 'keep', deleted: false, archivePath: null });
+    expect(() => manager.getRepository('team-kb')).toThrow('not found');
+
+    const orphans = await manager.findOrphanedClones();
+    expect(orphans).toContainEqual(expect.objectContaining({ path: CLONE_PATH, baseDir: CLONES_PATH }));
+    expect(orphans.find(orphan => orphan.path === CLONE_PATH)!.sizeBytes).toBeGreaterThan(0);
+
+    await expect(manager.deleteOrphanedClones([REMOTE_PATH])).rejects.toThrow('Not orphaned clones');
+    expect(await manager.deleteOrphanedClones([CLONE_PATH])).toEqual([CLONE_PATH]);
+    expect(fs.existsSync(CLONE_PATH)).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+import { Repository } from '../../src/core/repository';
+import { LocalGitAdapter } from '../../src/adapters/localGitAdapter';
+import { SnapshotService } from '../../src/core/snapshotService';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_REPO_PATH = path.join(__dirname, '..', '..', 'test-repos', 'snapshot-service');
+
+const author = { name: 'Test Author', email: 'test@example.com' };
+
+async function createRepository(): Promise<Repository> {
+  await new LocalGitAdapter().initialize(TEST_REPO_PATH);
+  return new Repository(TEST_REPO_PATH);
+}
+
+async function commitFiles(repository: Repository, files: Record<string, string>, message: string): Promise<string> {
+  for (const [filePath, content] of Object.entries(files)) {
+    await repository.writeFile(filePath, content);
+  }
+  await repository.add(Object.keys(files));
+  const result = await repository.commit({ message, author });
+  expect(result.success).toBe(true);
+  return result.hash;
+}
+
+describe('SnapshotService', () => {
+  const snapshotService = new SnapshotService();
+
+  beforeEach(() => {
+    fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+    fs.mkdirSync(TEST_REPO_PATH, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+  });
+
+  it('should create, list and diff snapshots', async () => {
+    const repository = await createRepository();
+    const base = await commitFiles(repository, { 'topics/a.md': '# A\n' }, 'Base');
+
+    const snapshot = await snapshotService.createSnapshot(repository, 'before-reorg', { description: 'Before the Q3 re-org', author });
+    expect(snapshot).toMatchObject({ name: 'before-reorg', tag: 'snapshot/before-reorg', commit: base, description: 'Before the Q3 re-org' });
+    await expect(snapshotService.createSnapshot(repository, 'before-reorg')).rejects.toThrow('already exists');
+    await expect(snapshotService.createSnapshot(repository, '../escape')).rejects.toThrow('Invalid snapshot name');
+
+    await commitFiles(repository, { 'topics/a.md': '# A, reorganized\n' }, 'Reorganize');
+    expect((await snapshotService.listSnapshots(repository)).map(s => s.name)).toEqual(['before-reorg']);
+
+    const diff = await snapshotService.diffSnapshot(repository, 'before-reorg');
+    expect(diff.commits.map(c => c.message)).toEqual(['Reorganize\n']);
+    expect(diff.files.map(f => [f.path, f.status])).toEqual([['topics/a.md', 'modify']]);
+  });
+
+  it('should restore a snapshot as a new commit and keep .lspace/ bookkeeping', async () => {
+    const repository = await createRepository();
+    await commitFiles(repository, { 'topics/a.md': '# A\n', '.lspace/timeline.json': '[]' }, 'Base');
+    await snapshotService.createSnapshot(repository, 'v1', { author });
+    const later = await commitFiles(repository, {
+      'topics/a.md': '# A, rewritten at length\n',
+      'topics/b.md': '# B\n',
+      '.lspace/timeline.json': '[{"id":"1"}]',
+    }, 'Later changes');
+
+    const result = await snapshotService.restoreSnapshot(repository, 'v1', { author });
+
+    expect(result.restoredFiles).toEqual(['topics/a.md']);
+    expect(result.deletedFiles).toEqual(['topics/b.md']);
+    expect(await repository.readFile('topics/a.md')).toBe('# A\n');
+    expect(await repository.fileExists('topics/b.md')).toBe(false);
+    expect(await repository.readFile('.lspace/timeline.json')).toBe('[{"id":"1"}]');
+    expect(await repository.getParentCommit(result.commit!.hash)).toBe(later);
+    expect((await repository.getCommitTrailers(result.commit!.hash)).operation).toBe('restore');
+
+    const again = await snapshotService.restoreSnapshot(repository, 'v1', { author });
+    expect(again.commit).toBeNull();
+  });
+
+  it('should fail for unknown snapshots', async () => {
+    const repository = await createRepository();
+    await commitFiles(repository, { 'a.md': 'a' }, 'Base');
+    await expect(snapshotService.restoreSnapshot(repository, 'missing')).rejects.toThrow('Snapshot not found');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+import { Repository } from '../../src/core/repository';
+import { TimelineService } from '../../src/core/timelineService';
+import { LocalGitAdapter } from '../../src/adapters/localGitAdapter';
+
+// Get the current directory
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Path to test repository
+const TEST_REPO_PATH = path.join(__dirname, '..', '..', 'test-repos', 'timeline-service');
+
+const author = { name: 'Test Author', email: 'test@example.com' };
+
+describe('TimelineService', () => {
+  let repository: Repository;
+  let timelineService: TimelineService;
+
+  beforeEach(async () => {
+    if (fs.existsSync(TEST_REPO_PATH)) {
+      fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+    }
+    await new LocalGitAdapter().initialize(TEST_REPO_PATH);
+    repository = new Repository(TEST_REPO_PATH);
+    timelineService = new TimelineService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_REPO_PATH, { recursive: true, force: true });
+  });
+
+  // Mirrors OrchestratorService.processInput: raw input commit, timeline entry, then the KB commit
+  async function ingest(rawName: string, kbContent: string): Promise<{ rawCommit: string; kbCommit: string }> {
+    const rawPath = `.lspace/raw_inputs/${rawName}`;
+    await repository.writeFile(rawPath, `raw ${rawName}`);
+    await repository.add([rawPath]);
+    const rawCommit = (await repository.commit({ message: `feat: Add raw input ${rawName}`, author })).hash;
+    await timelineService.addEntry(repository, {
+      operation: 'add',
+      path: rawPath,
+      title: rawName,
+      user: 'tester',
+      commit: { id: rawCommit, message: `feat: Add raw input ${rawName}` },
+    });
+
+    await repository.writeFile('kb/article.md', kbContent);
+    await repository.add(await repository.getUnstagedFiles());
+    const kbCommit = (await repository.commit({ message: `KB update for ${rawName}.`, author })).hash;
+    return { rawCommit, kbCommit };
+  }
+
+  describe('getBlameWithSources', () => {
+    it('should map each blamed line to the raw input that produced it', async () => {
+      const first = await ingest('first.txt', 'Intro from first\nDetail from first\n');
+      const second = await ingest('second.txt', 'Intro from first\nDetail from second\n');
+
+      const blame = await timelineService.getBlameWithSources(repository, 'kb/article.md');
+
+      expect(blame.lines.map(l => l.commit)).toEqual([first.kbCommit, second.kbCommit]);
+      expect(blame.sources[first.kbCommit]).toMatchObject({
+        rawInputPath: '.lspace/raw_inputs/first.txt',
+        rawInputCommit: first.rawCommit,
+        title: 'first.txt',
+      });
+      expect(blame.sources[second.kbCommit]?.rawInputPath).toBe('.lspace/raw_inputs/second.txt');
+    });
+
+    it('should report no source for manual edits', async () => {
+      await ingest('first.txt', 'Generated\n');
+      await repository.writeFile('kb/article.md', 'Generated\nHand written\n');
+      await repository.add(['kb/article.md']);
+      const manual = (await repository.commit({ message: 'Manual edit', author })).hash;
+
+      const blame = await timelineService.getBlameWithSources(repository, 'kb/article.md');
+      expect(blame.sources[manual]).toBeNull();
+    });
+  });
+});
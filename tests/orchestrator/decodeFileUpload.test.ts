@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+
+import { decodeFileUpload, FileUploadInput } from '../../src/orchestrator/orchestratorService';
+
+const pdfBytes = Buffer.concat([Buffer.from('%PDF-1.4\n'), Buffer.from([0x00, 0xe2, 0xe3, 0xcf, 0xd3])]);
+
+function upload(fileName: string, content: string, extra: Partial<FileUploadInput> = {}): FileUploadInput {
+  return { type: 'file_upload', repositoryId: 'repo', fileName, content, ...extra };
+}
+
+describe('decodeFileUpload', () => {
+  it('should decode explicit base64 binary content', () => {
+    const result = decodeFileUpload(upload('report.pdf', pdfBytes.toString('base64'), { encoding: 'base64' }));
+    expect(result.binary).toBe(true);
+    expect(result.mimeType).toBe('application/pdf');
+    if (result.binary) {
+      expect(Buffer.compare(result.buffer, pdfBytes)).toBe(0);
+    }
+  });
+
+  it('should detect base64 content for binary file types when no encoding is given', () => {
+    const result = decodeFileUpload(upload('report.pdf', pdfBytes.toString('base64')));
+    expect(result.binary).toBe(true);
+  });
+
+  it('should keep text uploads as text, even when they look like base64', () => {
+    const result = decodeFileUpload(upload('notes.md', 'SGVsbG8='));
+    expect(result).toEqual({ binary: false, text: 'SGVsbG8=', mimeType: 'text/markdown' });
+  });
+
+  it('should decode base64 text content back to text', () => {
+    const result = decodeFileUpload(upload('notes.md', Buffer.from('# Notes\n').toString('base64'), { encoding: 'base64' }));
+    expect(result).toMatchObject({ binary: false, text: '# Notes\n' });
+  });
+});
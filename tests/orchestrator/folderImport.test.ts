@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import matter from 'gray-matter';
+
+import { OrchestratorService } from '../../src/orchestrator/orchestratorService';
+import { KnowledgeBaseService } from '../../src/knowledge-base/knowledgeBaseService';
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { TimelineService } from '../../src/core/timelineService';
+import { LLMService } from '../../src/orchestrator/llmService';
+import { SearchService } from '../../src/search/searchService';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'folder-import');
+const CONFIG_PATH = path.join(TEST_DIR, 'config.local.json');
+const DOCS_PATH = path.join(TEST_DIR, 'docs');
+const REPO_PATH = path.join(TEST_DIR, 'kb');
+
+// Any use of the LLM fails the test
+const noLLM = new Proxy({}, {
+  get: (_target, property) => { throw new Error(`LLM used: ${String(property)}`); },
+}) as unknown as LLMService;
+
+function writeDoc(relativePath: string, content: string | Buffer): void {
+  fs.mkdirSync(path.dirname(path.join(DOCS_PATH, relativePath)), { recursive: true });
+  fs.writeFileSync(path.join(DOCS_PATH, relativePath), content);
+}
+
+describe('OrchestratorService folder import', () => {
+  let manager: RepositoryManager;
+  let orchestrator: OrchestratorService;
+  let repoId: string;
+
+  beforeEach(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify({ version: 1, repositories: [] }));
+    manager = new RepositoryManager(CONFIG_PATH);
+    manager.setCloneBaseDirectory(path.join(TEST_DIR, 'clones'));
+    await manager.loadConfiguration();
+    repoId = await manager.addNewRepositoryConfig({ name: 'Docs KB', type: 'local', path: REPO_PATH, path_to_kb: 'kb' });
+
+    const timelineService = new TimelineService();
+    const knowledgeBaseService = new KnowledgeBaseService(noLLM, timelineService, {} as SearchService);
+    orchestrator = new OrchestratorService(manager, noLLM, knowledgeBaseService);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('imports markdown as-is with normalized frontmatter, an index and timeline entries', async () => {
+    writeDoc('onboarding.md', '---\nlastUpdated: 2024-03-01\nsource: https://wiki.example.com/onboarding\nowner: platform\n---\n# Getting Started\n\nWelcome aboard.\n');
+    writeDoc('runbooks/deploy_process.md', 'Run the deploy script.\n');
+    writeDoc('runbooks/diagram.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    writeDoc('.obsidian/workspace.json', '{}');
+
+    const result = await orchestrator.importFolder(repoId, DOCS_PATH, { user: 'importer' });
+
+    expect(result.imported.map(file => file.path)).toEqual(['kb/onboarding.md', 'kb/runbooks/deploy_process.md', 'kb/runbooks/diagram.png']);
+    expect(result.skipped).toEqual([{ path: '.obsidian', reason: 'hidden' }]);
+
+    const onboarding = matter(fs.readFileSync(path.join(REPO_PATH, 'kb', 'onboarding.md'), 'utf8'));
+    expect(onboarding.data).toEqual({
+      title: 'Getting Started',
+      last_updated: '2024-03-01T00:00:00.000Z',
+      sources: [{ file: 'https://wiki.example.com/onboarding' }],
+      owner: 'platform',
+    });
+    expect(onboarding.content.trim()).toBe('# Getting Started\n\nWelcome aboard.');
+    expect(matter(fs.readFileSync(path.join(REPO_PATH, 'kb', 'runbooks', 'deploy_process.md'), 'utf8')).data.title).toBe('Deploy process');
+    expect(fs.readFileSync(path.join(REPO_PATH, 'kb', 'runbooks', 'diagram.png'))).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+    const index = fs.readFileSync(path.join(REPO_PATH, 'kb', 'index.md'), 'utf8');
+    expect(index).toContain('[Getting Started](./onboarding.md)');
+    expect(index).toContain('[Deploy process](./runbooks/deploy_process.md)');
+
+    const repository = manager.getRepository(repoId);
+    const { entries } = await new TimelineService().getEntries(repository);
+    expect(entries).toHaveLength(3);
+    expect(entries.every(entry => entry.operation === 'add' && entry.category === 'import' && entry.commit?.id === result.commit)).toBe(true);
+    expect(await repository.getUnstagedFiles()).toEqual([]);
+  });
+
+  it('skips existing files unless asked to overwrite them', async () => {
+    writeDoc('notes.md', '# Notes\n');
+    await orchestrator.importFolder(repoId, DOCS_PATH);
+    writeDoc('notes.md', '# Notes\n\nRevised.\n');
+
+    const skipped = await orchestrator.importFolder(repoId, DOCS_PATH);
+    expect(skipped).toMatchObject({ imported: [], commit: null, skipped: [{ path: 'notes.md', reason: 'kb/notes.md already exists' }] });
+
+    const overwritten = await orchestrator.importFolder(repoId, DOCS_PATH, { overwrite: true });
+    expect(overwritten.imported).toEqual([{ path: 'kb/notes.md', operation: 'update', title: 'Notes' }]);
+    expect(fs.readFileSync(path.join(REPO_PATH, 'kb', 'notes.md'), 'utf8')).toContain('Revised.');
+
+    await expect(orchestrator.importFolder(repoId, path.join(TEST_DIR, 'missing'))).rejects.toThrow('Import source is not a directory');
+    await expect(orchestrator.importFolder(repoId, DOCS_PATH, { targetDir: '../outside' })).rejects.toThrow('outside');
+  });
+
+  it('discards the files it wrote when the import fails', async () => {
+    writeDoc('notes.md', '# Notes\n');
+    await orchestrator.importFolder(repoId, DOCS_PATH);
+    const repository = manager.getRepository(repoId);
+    const committedNotes = fs.readFileSync(path.join(REPO_PATH, 'kb', 'notes.md'), 'utf8');
+    const committedIndex = fs.readFileSync(path.join(REPO_PATH, 'kb', 'index.md'), 'utf8');
+    fs.writeFileSync(path.join(REPO_PATH, 'kb', 'draft.md'), '# Draft\n'); // Not part of the import
+
+    writeDoc('notes.md', '# Notes\n\nRevised.\n');
+    writeDoc('guide.md', '# Guide\n');
+    vi.spyOn(repository, 'commit').mockResolvedValueOnce({ success: false, hash: '', message: 'disk full' });
+
+    await expect(orchestrator.importFolder(repoId, DOCS_PATH, { overwrite: true })).rejects.toThrow('Failed to commit the import: disk full');
+    expect(fs.readFileSync(path.join(REPO_PATH, 'kb', 'notes.md'), 'utf8')).toBe(committedNotes);
+    expect(fs.readFileSync(path.join(REPO_PATH, 'kb', 'index.md'), 'utf8')).toBe(committedIndex);
+    expect(fs.existsSync(path.join(REPO_PATH, 'kb', 'guide.md'))).toBe(false);
+    expect(await repository.getUnstagedFiles()).toEqual(['kb/draft.md']);
+    expect((await repository.getStatus()).files.filter(file => file.staged)).toEqual([]);
+  });
+});
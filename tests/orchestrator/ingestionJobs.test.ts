@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+import { IngestionJobQueue, IngestionJobRunner } from '../../src/orchestrator/ingestionJobs';
+import { IngestionCheckpoint, OrchestratorService, TextSnippetInput } from '../../src/orchestrator/orchestratorService';
+import { KnowledgeBaseService } from '../../src/knowledge-base/knowledgeBaseService';
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { TimelineService } from '../../src/core/timelineService';
+import { LLMService } from '../../src/orchestrator/llmService';
+import { SearchService } from '../../src/search/searchService';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'ingestion-jobs');
+const JOBS_DIR = path.join(TEST_DIR, 'ingestion-jobs');
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+function snippet(repositoryId: string, content: string): TextSnippetInput {
+  return { type: 'text_snippet', repositoryId, title: 'Notes', content };
+}
+
+const checkpointFor = (input: TextSnippetInput): IngestionCheckpoint => ({
+  repositoryId: input.repositoryId,
+  rawInputPath: '.lspace/raw_inputs/notes.txt',
+  rawInputName: 'Notes',
+  rawCommit: 'abc123',
+  timelineId: 'timeline-1',
+  contentForLLM: input.content,
+  message: 'Text snippet saved.',
+});
+
+describe('IngestionJobQueue', () => {
+  beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('runs jobs in the background and reports their phase and LLM turns', async () => {
+    const release = deferred();
+    const runner: IngestionJobRunner = {
+      processInput: async (input, hooks) => {
+        hooks.onPhase?.('synthesizing');
+        hooks.onTurn?.(1);
+        hooks.onTurn?.(2);
+        await release.promise;
+        return { knowledgeBaseUpdated: true, message: `Processed ${(input as TextSnippetInput).content}` };
+      },
+      resumeInput: async () => { throw new Error('Nothing to resume'); },
+    };
+    const queue = new IngestionJobQueue(JOBS_DIR, runner);
+
+    const job = await queue.enqueue(snippet('kb', 'first'));
+    expect(job).toMatchObject({ repositoryId: 'kb', inputType: 'text_snippet', state: 'queued', phase: 'waiting', llmTurns: 0 });
+    expect(job).not.toHaveProperty('input');
+
+    await vi.waitFor(() => expect(queue.get(job.id)).toMatchObject({ state: 'running', phase: 'synthesizing', llmTurns: 2 }));
+    release.resolve();
+    await vi.waitFor(() => expect(queue.get(job.id)).toMatchObject({
+      state: 'completed',
+      phase: 'done',
+      result: { knowledgeBaseUpdated: true, message: 'Processed first' },
+    }));
+
+    expect(queue.list('kb').map(listed => listed.id)).toEqual([job.id]);
+    expect(queue.list('other')).toEqual([]);
+    const stored = JSON.parse(fs.readFileSync(path.join(JOBS_DIR, `${job.id}.json`), 'utf8'));
+    expect(stored).toMatchObject({ version: 1, job: { id: job.id, state: 'completed', input: null, checkpoint: null } });
+  });
+
+  it('resumes an interrupted job from its checkpoint after a restart', async () => {
+    const input = snippet('kb', 'interrupted');
+    const interrupted = new IngestionJobQueue(JOBS_DIR, {
+      processInput: async (_input, hooks) => {
+        await hooks.onCheckpoint?.(checkpointFor(input));
+        return new Promise(() => undefined); // The server stops during synthesis
+      },
+      resumeInput: async () => { throw new Error('Not expected'); },
+    });
+    const job = await interrupted.enqueue(input);
+    await vi.waitFor(() => expect(JSON.parse(fs.readFileSync(path.join(JOBS_DIR, `${job.id}.json`), 'utf8')).job.checkpoint).not.toBeNull());
+
+    const resumed: IngestionCheckpoint[] = [];
+    const restarted = new IngestionJobQueue(JOBS_DIR, {
+      processInput: async () => { throw new Error('The raw input was already committed'); },
+      resumeInput: async checkpoint => {
+        resumed.push(checkpoint);
+        return { knowledgeBaseUpdated: true, rawInputPath: checkpoint.rawInputPath };
+      },
+    });
+    await restarted.load();
+
+    await vi.waitFor(() => expect(restarted.get(job.id)).toMatchObject({ state: 'completed', restarts: 1 }));
+    expect(resumed).toEqual([checkpointFor(input)]);
+  });
+
+  it('cancels queued and running jobs', async () => {
+    const started: string[] = [];
+    const nextTurn = deferred();
+    const queue = new IngestionJobQueue(JOBS_DIR, {
+      processInput: async (input, hooks) => {
+        started.push((input as TextSnippetInput).content);
+        await nextTurn.promise;
+        hooks.signal!.throwIfAborted();
+        return { knowledgeBaseUpdated: false };
+      },
+      resumeInput: async () => { throw new Error('Nothing to resume'); },
+    });
+
+    const running = await queue.enqueue(snippet('kb', 'running'));
+    const queued = await queue.enqueue(snippet('kb', 'queued'));
+    await vi.waitFor(() => expect(queue.get(running.id)!.state).toBe('running'));
+
+    expect(await queue.cancel(queued.id)).toMatchObject({ state: 'cancelled', phase: 'done' });
+    expect(await queue.cancel(running.id)).toMatchObject({ state: 'running', cancelRequested: true });
+    nextTurn.resolve();
+    await vi.waitFor(() => expect(queue.get(running.id)).toMatchObject({ state: 'cancelled', phase: 'done', error: null }));
+    expect(started).toEqual(['running']);
+
+    await expect(queue.cancel(running.id)).rejects.toThrow('already finished');
+    await expect(queue.cancel('missing')).rejects.toThrow('not found');
+  });
+});
+
+describe('OrchestratorService ingestion jobs', () => {
+  let manager: RepositoryManager;
+
+  beforeEach(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    const configPath = path.join(TEST_DIR, 'config.local.json');
+    fs.writeFileSync(configPath, JSON.stringify({ version: 1, repositories: [] }));
+    manager = new RepositoryManager(configPath);
+    manager.setCloneBaseDirectory(path.join(TEST_DIR, 'clones'));
+    await manager.loadConfiguration();
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('discards uncommitted knowledge base changes when a running job is cancelled', async () => {
+    const repoId = await manager.addNewRepositoryConfig({ name: 'Jobs KB', type: 'local', path: path.join(TEST_DIR, 'kb') });
+    const repository = manager.getRepository(repoId);
+    await repository.writeFile('overview.md', '# Overview\n');
+    await repository.add(['overview.md']);
+    await repository.commit({ message: 'Add overview' });
+
+    // The LLM edits the knowledge base over two turns and is cancelled before it finishes
+    const secondTurn = deferred();
+    const llmService = {
+      synthesizeToKnowledgeBase: async (_repository: unknown, _rawFilePath: string, _content: string, options: { signal?: AbortSignal; onTurn?: (turn: number) => void }) => {
+        options.onTurn?.(1);
+        await repository.writeFile('overview.md', '# Overview\n\nRewritten.\n');
+        await repository.writeFile('meetings/standup.md', '# Standup\n');
+        options.onTurn?.(2);
+        await secondTurn.promise;
+        options.signal?.throwIfAborted();
+        return { success: true };
+      },
+    } as unknown as LLMService;
+    const knowledgeBaseService = new KnowledgeBaseService(llmService, new TimelineService(), {} as SearchService);
+    const orchestrator = new OrchestratorService(manager, llmService, knowledgeBaseService);
+
+    await expect(orchestrator.submitIngestionJob(snippet('unknown', 'x'))).rejects.toThrow('not found');
+    const job = await orchestrator.submitIngestionJob(snippet(repoId, 'Standup notes'));
+    await vi.waitFor(() => expect(orchestrator.getIngestionJob(job.id)).toMatchObject({ phase: 'synthesizing', llmTurns: 2 }));
+
+    await orchestrator.cancelIngestionJob(job.id);
+    secondTurn.resolve();
+    await vi.waitFor(() => expect(orchestrator.getIngestionJob(job.id)!.state).toBe('cancelled'));
+
+    expect(fs.readFileSync(path.join(TEST_DIR, 'kb', 'overview.md'), 'utf8')).toBe('# Overview\n');
+    expect(fs.existsSync(path.join(TEST_DIR, 'kb', 'meetings', 'standup.md'))).toBe(false);
+    const [rawInputCommit] = await repository.getCommitLog('HEAD', 1);
+    expect(rawInputCommit.commit.message).toContain('Add raw input Notes');
+    expect(fs.existsSync(path.join(TEST_DIR, 'ingestion-jobs', `${job.id}.json`))).toBe(true);
+  });
+
+  it('keeps the file tools of concurrent jobs in their own repository', async () => {
+    const alphaId = await manager.addNewRepositoryConfig({ name: 'Alpha', type: 'local', path: path.join(TEST_DIR, 'alpha') });
+    const betaId = await manager.addNewRepositoryConfig({ name: 'Beta', type: 'local', path: path.join(TEST_DIR, 'beta') });
+
+    // Both conversations reach their first tool call before either one writes
+    const llmService = new LLMService({ apiKey: 'test-key', repositoryPath: TEST_DIR });
+    const started = new Set<string>();
+    const bothStarted = deferred();
+    vi.spyOn(llmService, 'callLLMWithHistory').mockImplementation(async (history, availableTools) => {
+      if (availableTools.length === 0) {
+        return '{}'; // Contradiction analysis and the commit summary
+      }
+      const name = String(history[1].content).includes('alpha notes') ? 'alpha' : 'beta';
+      if (history.length > 2) {
+        return JSON.stringify({ content: JSON.stringify({ status: 'completed_file_processing' }) });
+      }
+      started.add(name);
+      if (started.size === 2) {
+        bothStarted.resolve();
+      }
+      await bothStarted.promise;
+      const args = JSON.stringify({ path: `${name}.md`, content: `# ${name}\n` });
+      return JSON.stringify({ tool_calls: [{ id: `call-${name}`, type: 'function', function: { name: 'write_file', arguments: args } }] });
+    });
+    const knowledgeBaseService = new KnowledgeBaseService(llmService, new TimelineService(), {} as SearchService);
+    const orchestrator = new OrchestratorService(manager, llmService, knowledgeBaseService);
+
+    const alphaJob = await orchestrator.submitIngestionJob(snippet(alphaId, 'alpha notes'));
+    const betaJob = await orchestrator.submitIngestionJob(snippet(betaId, 'beta notes'));
+    await vi.waitFor(() => {
+      expect(orchestrator.getIngestionJob(alphaJob.id)!.state).toBe('completed');
+      expect(orchestrator.getIngestionJob(betaJob.id)!.state).toBe('completed');
+    }, { timeout: 10000 });
+
+    expect(orchestrator.getIngestionJob(alphaJob.id)!.result).toMatchObject({ knowledgeBaseUpdated: true });
+    expect(fs.readFileSync(path.join(TEST_DIR, 'alpha', 'alpha.md'), 'utf8')).toBe('# alpha\n');
+    expect(fs.readFileSync(path.join(TEST_DIR, 'beta', 'beta.md'), 'utf8')).toBe('# beta\n');
+    expect(fs.existsSync(path.join(TEST_DIR, 'alpha', 'beta.md'))).toBe(false);
+    expect(fs.existsSync(path.join(TEST_DIR, 'beta', 'alpha.md'))).toBe(false);
+    expect(await manager.getRepository(alphaId).getUnstagedFiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import { execFileSync } from 'child_process';
+import { fileURLToPath } from 'url';
+
+import { RepositoryManager } from '../../src/core/repositoryManager';
+import { RepositoryBusyError, SyncConflictError } from '../../src/core/errors';
+import { RemoteSyncScheduler } from '../../src/services/remoteSyncScheduler';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_DIR = path.join(__dirname, '..', '..', 'test-repos', 'remote-sync-scheduler');
+const CONFIG_PATH = path.join(TEST_DIR, 'config.local.json');
+
+const author = { name: 'Test Author', email: 'test@example.com' };
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', ['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`, ...args], { cwd, stdio: 'pipe' }).toString();
+}
+
+const remotePath = (id: string) => path.join(TEST_DIR, 'remotes', `${id}.git`);
+const workPath = (id: string) => path.join(TEST_DIR, 'work', id);
+
+// A second clone of the remote, standing in for another user of the repository
+function commitToRemote(id: string, filePath: string, content: string, message: string): void {
+  fs.writeFileSync(path.join(workPath(id), filePath), content);
+  git(['add', filePath], workPath(id));
+  git(['commit', '-m', message], workPath(id));
+  git(['push', 'origin', 'main'], workPath(id));
+}
+
+function createRemote(id: string): void {
+  git(['init', '--bare', '--initial-branch=main', remotePath(id)]);
+  git(['clone', remotePath(id), workPath(id)]);
+  git(['checkout', '-b', 'main'], workPath(id));
+  commitToRemote(id, 'README.md', `# ${id}\n`, 'Initial commit');
+}
+
+describe('RemoteSyncScheduler', () => {
+  let manager: RepositoryManager;
+
+  beforeEach(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    createRemote('team');
+    createRemote('docs');
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify({
+      version: 1,
+      repositories: ['team', 'docs'].map(id => ({ id, name: id, type: 'git', url: `file://${remotePath(id)}`, branch: 'main' })),
+    }, null, 2));
+
+    manager = new RepositoryManager(CONFIG_PATH);
+    manager.setCloneBaseDirectory(path.join(TEST_DIR, 'clones'));
+    await manager.loadConfiguration();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('joins the running round instead of starting an overlapping one', async () => {
+    const sync = vi.spyOn(manager, 'syncWithRemote');
+    const scheduler = new RemoteSyncScheduler(manager, 60 * 1000);
+
+    const first = scheduler.runOnce();
+    const second = scheduler.runOnce();
+    expect(second).toBe(first);
+    await Promise.all([first, second]);
+    expect(sync.mock.calls.map(([id]) => id)).toEqual(['team', 'docs']);
+
+    // The next round starts once the previous one is over
+    await scheduler.runOnce();
+    expect(sync).toHaveBeenCalledTimes(4);
+  });
+
+  it('skips repositories that need attention after a conflict', async () => {
+    const repository = manager.getRepository('team');
+    await repository.writeFile('README.md', '# Local\n');
+    await repository.add(['README.md']);
+    await repository.commit({ message: 'Local change', author });
+    commitToRemote('team', 'README.md', '# Remote\n', 'Remote change');
+    await expect(manager.syncWithRemote('team')).rejects.toBeInstanceOf(SyncConflictError);
+
+    const sync = vi.spyOn(manager, 'syncWithRemote');
+    await new RemoteSyncScheduler(manager, 60 * 1000).runOnce();
+    expect(sync.mock.calls.map(([id]) => id)).toEqual(['docs']);
+    expect(manager.getSyncStatus('team')).toMatchObject({ state: 'needs-attention', conflictingFiles: ['README.md'] });
+    expect(await repository.readFile('README.md')).toBe('# Local\n');
+
+    // A manual sync that gives up waiting for the lock does not replace the conflict
+    manager.setOperationWaitTimeout(20);
+    let release!: () => void;
+    const busy = manager.runExclusive('team', 'ingestion', () => new Promise<void>(resolve => { release = resolve; }));
+    await expect(manager.syncWithRemote('team')).rejects.toBeInstanceOf(RepositoryBusyError);
+    release();
+    await busy;
+    expect(manager.getSyncStatus('team')).toMatchObject({ state: 'needs-attention', conflictingFiles: ['README.md'] });
+  });
+
+  it('records a failed sync, keeps going and retries it in the next round', async () => {
+    const scheduler = new RemoteSyncScheduler(manager, 60 * 1000);
+    const offlinePath = `${remotePath('team')}.offline`;
+    fs.renameSync(remotePath('team'), offlinePath);
+
+    await scheduler.runOnce();
+    const failed = manager.getSyncStatus('team');
+    expect(failed.state).toBe('error');
+    expect(failed.lastError).toBeTruthy();
+    expect(failed.lastAttemptAt).not.toBeNull();
+    expect(failed.lastSyncAt).toBeNull();
+    expect(manager.getSyncStatus('docs').state).toBe('ok');
+
+    fs.renameSync(offlinePath, remotePath('team'));
+    commitToRemote('team', 'guide.md', '# Guide\n', 'Add guide');
+    await scheduler.runOnce();
+    expect(manager.getSyncStatus('team')).toMatchObject({ state: 'ok', lastError: null });
+    expect(await manager.getRepository('team').readFile('guide.md')).toBe('# Guide\n');
+  });
+
+  it('rejects an interval that is not a positive number', () => {
+    expect(() => new RemoteSyncScheduler(manager, 0)).toThrow('Invalid sync interval');
+  });
+});